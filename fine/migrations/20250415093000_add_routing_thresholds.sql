@@ -0,0 +1,7 @@
+-- Per-user routing thresholds. NULL means "use the routing profile's default".
+ALTER TABLE userPreferences ADD COLUMN maxInclinePercent REAL;
+ALTER TABLE userPreferences ADD COLUMN maxKerbHeightCm REAL;
+ALTER TABLE userPreferences ADD COLUMN minPathWidthM REAL;
+ALTER TABLE userPreferences ADD COLUMN avoidCobblestones BOOLEAN DEFAULT 0;
+ALTER TABLE userPreferences ADD COLUMN avoidUnlitPaths BOOLEAN DEFAULT 0;
+ALTER TABLE userPreferences ADD COLUMN maxRestSpacingM REAL;
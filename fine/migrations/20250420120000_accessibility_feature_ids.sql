@@ -0,0 +1,53 @@
+-- Store accessibility features as stable taxonomy IDs instead of display labels,
+-- e.g. ["Ramp", "Wheelchair Access"] becomes ["ramp", "wheelchair-access"].
+-- Values that aren't known labels are left unchanged.
+
+-- Lower-cased label to ID, shared by both updates and dropped at the end
+CREATE TABLE featureLabelIds (
+  label TEXT PRIMARY KEY,
+  id TEXT NOT NULL
+);
+
+INSERT INTO featureLabelIds (label, id) VALUES
+  ('wheelchair access', 'wheelchair-access'),
+  ('limited wheelchair access', 'limited-wheelchair-access'),
+  ('ramp', 'ramp'),
+  ('stopgap ramp', 'stopgap-ramp'),
+  ('elevator', 'elevator'),
+  ('handrails', 'handrails'),
+  ('accessible entrance', 'accessible-entrance'),
+  ('alternative entrance', 'alternative-entrance'),
+  ('automatic doors', 'automatic-doors'),
+  ('accessible washroom', 'accessible-washroom'),
+  ('gender neutral washroom', 'gender-neutral-washroom'),
+  ('accessible parking', 'accessible-parking'),
+  ('spacious', 'spacious'),
+  ('outdoor access only', 'outdoor-access-only'),
+  ('tactile paving', 'tactile-paving'),
+  ('braille', 'braille'),
+  ('large print', 'large-print'),
+  ('bright lighting', 'bright-lighting'),
+  ('hearing loop', 'hearing-loop'),
+  ('sign language', 'sign-language'),
+  ('easy read information', 'easy-read'),
+  ('clear signage', 'clear-signage'),
+  ('quiet', 'quiet'),
+  ('scent-free', 'scent-free');
+
+UPDATE places SET accessibilityFeatures = (
+  SELECT json_group_array(
+    COALESCE((SELECT id FROM featureLabelIds WHERE label = lower(trim(value))), value)
+  )
+  FROM json_each(places.accessibilityFeatures)
+)
+WHERE json_valid(accessibilityFeatures);
+
+UPDATE reviews SET accessibilityFeatures = (
+  SELECT json_group_array(
+    COALESCE((SELECT id FROM featureLabelIds WHERE label = lower(trim(value))), value)
+  )
+  FROM json_each(reviews.accessibilityFeatures)
+)
+WHERE json_valid(accessibilityFeatures);
+
+DROP TABLE featureLabelIds;
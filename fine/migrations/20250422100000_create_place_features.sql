@@ -0,0 +1,43 @@
+-- Accessibility features move out of the JSON accessibilityFeatures columns
+-- into one row per reported feature, so places can be filtered by feature in SQL.
+CREATE TABLE placeFeatures (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  placeId INTEGER NOT NULL,
+  featureId TEXT NOT NULL,
+  -- submission: added with the place; review: reported in a review;
+  -- osm: imported from OpenStreetMap; moderator: confirmed by a moderator
+  source TEXT NOT NULL CHECK (source IN ('submission', 'review', 'osm', 'moderator')),
+  confidence REAL NOT NULL DEFAULT 1 CHECK (confidence BETWEEN 0 AND 1),
+  reportedBy TEXT,
+  verifiedAt TEXT,
+  createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (placeId) REFERENCES places (id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_placeFeatures_placeId ON placeFeatures (placeId);
+CREATE INDEX idx_placeFeatures_featureId ON placeFeatures (featureId, placeId);
+
+-- One row per place with its distinct feature IDs as ",ramp,elevator,", so
+-- "has all of these features" is a LIKE filter per feature on a grouped row
+CREATE VIEW placeFeatureSets AS
+SELECT
+  placeId,
+  COUNT(DISTINCT featureId) AS featureCount,
+  ',' || group_concat(DISTINCT featureId) || ',' AS featureIds
+FROM placeFeatures
+GROUP BY placeId;
+
+-- Features entered with the place itself
+INSERT INTO placeFeatures (placeId, featureId, source, confidence, reportedBy, createdAt)
+SELECT DISTINCT places.id, feature.value, 'submission', 0.8, places.userId, places.createdAt
+FROM places, json_each(places.accessibilityFeatures) AS feature
+WHERE json_valid(places.accessibilityFeatures) AND feature.type = 'text';
+
+-- Features reported in reviews, attributed to the reviewer
+INSERT INTO placeFeatures (placeId, featureId, source, confidence, reportedBy, createdAt)
+SELECT DISTINCT reviews.placeId, feature.value, 'review', 0.6, reviews.userId, reviews.createdAt
+FROM reviews, json_each(reviews.accessibilityFeatures) AS feature
+WHERE json_valid(reviews.accessibilityFeatures) AND feature.type = 'text';
+
+ALTER TABLE places DROP COLUMN accessibilityFeatures;
+ALTER TABLE reviews DROP COLUMN accessibilityFeatures;
@@ -0,0 +1,9 @@
+-- Per-dimension accessibility scores on reviews, 1 (poor) to 5 (excellent).
+-- NULL means the reviewer didn't rate it (e.g. a place with no washroom).
+ALTER TABLE reviews ADD COLUMN entranceRating INTEGER CHECK (entranceRating BETWEEN 1 AND 5);
+ALTER TABLE reviews ADD COLUMN interiorRating INTEGER CHECK (interiorRating BETWEEN 1 AND 5);
+ALTER TABLE reviews ADD COLUMN washroomRating INTEGER CHECK (washroomRating BETWEEN 1 AND 5);
+ALTER TABLE reviews ADD COLUMN signageRating INTEGER CHECK (signageRating BETWEEN 1 AND 5);
+ALTER TABLE reviews ADD COLUMN hearingRating INTEGER CHECK (hearingRating BETWEEN 1 AND 5);
+ALTER TABLE reviews ADD COLUMN staffRating INTEGER CHECK (staffRating BETWEEN 1 AND 5);
+ALTER TABLE reviews ADD COLUMN sensoryRating INTEGER CHECK (sensoryRating BETWEEN 1 AND 5);
@@ -0,0 +1,74 @@
+-- Community ratings are aggregated from reviews in the database, so every
+-- client sees the same value no matter who added, edited or deleted a review.
+-- The OpenStreetMap wheelchair tag is kept apart as its own signal.
+--
+-- Ratings are recency weighted: a review's weight is 1 / (1 + age in days / 180),
+-- so a six-month-old review counts half as much as one written today. Weights
+-- are computed when a place's reviews change.
+ALTER TABLE places RENAME COLUMN rating TO communityRating;
+ALTER TABLE places ADD COLUMN reviewCount INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE places ADD COLUMN ratingUpdatedAt TEXT;
+ALTER TABLE places ADD COLUMN osmWheelchair TEXT CHECK (osmWheelchair IN ('yes', 'limited', 'no'));
+
+-- Seeded ratings weren't backed by reviews; start from the reviews that exist
+UPDATE places SET
+  communityRating = (
+    SELECT SUM(rating * weight) / SUM(weight) FROM (
+      SELECT rating, 1.0 / (1.0 + (julianday('now') - julianday(createdAt)) / 180.0) AS weight
+      FROM reviews WHERE placeId = places.id
+    )
+  ),
+  reviewCount = (SELECT COUNT(*) FROM reviews WHERE placeId = places.id),
+  ratingUpdatedAt = datetime('now');
+
+CREATE TRIGGER reviews_rating_after_insert AFTER INSERT ON reviews
+BEGIN
+  UPDATE places SET
+    communityRating = (
+      SELECT SUM(rating * weight) / SUM(weight) FROM (
+        SELECT rating, 1.0 / (1.0 + (julianday('now') - julianday(createdAt)) / 180.0) AS weight
+        FROM reviews WHERE placeId = NEW.placeId
+      )
+    ),
+    reviewCount = (SELECT COUNT(*) FROM reviews WHERE placeId = NEW.placeId),
+    ratingUpdatedAt = datetime('now')
+  WHERE id = NEW.placeId;
+END;
+
+CREATE TRIGGER reviews_rating_after_update AFTER UPDATE OF rating, placeId ON reviews
+BEGIN
+  UPDATE places SET
+    communityRating = (
+      SELECT SUM(rating * weight) / SUM(weight) FROM (
+        SELECT rating, 1.0 / (1.0 + (julianday('now') - julianday(createdAt)) / 180.0) AS weight
+        FROM reviews WHERE placeId = OLD.placeId
+      )
+    ),
+    reviewCount = (SELECT COUNT(*) FROM reviews WHERE placeId = OLD.placeId),
+    ratingUpdatedAt = datetime('now')
+  WHERE id = OLD.placeId;
+  UPDATE places SET
+    communityRating = (
+      SELECT SUM(rating * weight) / SUM(weight) FROM (
+        SELECT rating, 1.0 / (1.0 + (julianday('now') - julianday(createdAt)) / 180.0) AS weight
+        FROM reviews WHERE placeId = NEW.placeId
+      )
+    ),
+    reviewCount = (SELECT COUNT(*) FROM reviews WHERE placeId = NEW.placeId),
+    ratingUpdatedAt = datetime('now')
+  WHERE id = NEW.placeId;
+END;
+
+CREATE TRIGGER reviews_rating_after_delete AFTER DELETE ON reviews
+BEGIN
+  UPDATE places SET
+    communityRating = (
+      SELECT SUM(rating * weight) / SUM(weight) FROM (
+        SELECT rating, 1.0 / (1.0 + (julianday('now') - julianday(createdAt)) / 180.0) AS weight
+        FROM reviews WHERE placeId = OLD.placeId
+      )
+    ),
+    reviewCount = (SELECT COUNT(*) FROM reviews WHERE placeId = OLD.placeId),
+    ratingUpdatedAt = datetime('now')
+  WHERE id = OLD.placeId;
+END;
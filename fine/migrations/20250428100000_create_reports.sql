@@ -0,0 +1,52 @@
+-- Users who can move problem reports through their lifecycle
+CREATE TABLE moderators (
+  userId TEXT PRIMARY KEY,
+  createdAt TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Problems reported at a place (broken elevator, blocked ramp, ...)
+CREATE TABLE reports (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  placeId INTEGER NOT NULL,
+  userId TEXT NOT NULL,
+  category TEXT NOT NULL CHECK (category IN ('broken-elevator', 'blocked-ramp', 'wrong-info', 'closed', 'other')),
+  description TEXT NOT NULL,
+  -- JPEG data URL, resized on the client; capped so one report can't bloat the table
+  photo TEXT CHECK (photo IS NULL OR length(photo) <= 500000),
+  lat REAL,
+  lng REAL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'resolved')),
+  acknowledgedBy TEXT,
+  acknowledgedAt TEXT,
+  resolvedBy TEXT,
+  resolvedAt TEXT,
+  createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+  updatedAt TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (placeId) REFERENCES places (id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_reports_placeId_status ON reports (placeId, status);
+
+-- Reports only move forward: open -> acknowledged -> resolved
+CREATE TRIGGER reports_status_lifecycle BEFORE UPDATE OF status ON reports
+WHEN NOT (
+  NEW.status = OLD.status
+  OR (OLD.status = 'open' AND NEW.status = 'acknowledged')
+  OR (OLD.status = 'acknowledged' AND NEW.status = 'resolved')
+)
+BEGIN
+  SELECT RAISE(ABORT, 'Invalid report status change');
+END;
+
+-- A status change must name a moderator in acknowledgedBy or resolvedBy.
+-- The database doesn't know who is signed in and those columns come from the
+-- client, so this keeps the record consistent but is not access control:
+-- only the moderator screens offer status changes.
+CREATE TRIGGER reports_status_moderators BEFORE UPDATE OF status ON reports
+WHEN NEW.status != OLD.status AND NOT EXISTS (
+  SELECT 1 FROM moderators
+  WHERE userId = CASE NEW.status WHEN 'acknowledged' THEN NEW.acknowledgedBy ELSE NEW.resolvedBy END
+)
+BEGIN
+  SELECT RAISE(ABORT, 'Only moderators can change a report status');
+END;
@@ -0,0 +1,24 @@
+-- Short-lived barriers (construction, broken elevators, flooding) that routing
+-- avoids until they expire. A barrier is a point, or a stretch of path when
+-- endLat/endLng are set; radius is how far around it is impassable.
+CREATE TABLE temporaryBarriers (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  kind TEXT NOT NULL CHECK (kind IN ('construction', 'broken-elevator', 'flooding', 'other')),
+  description TEXT,
+  lat REAL NOT NULL,
+  lng REAL NOT NULL,
+  endLat REAL,
+  endLng REAL,
+  radius REAL NOT NULL DEFAULT 15,
+  expiresAt TEXT NOT NULL, -- ISO 8601, UTC
+  userId TEXT,
+  createdAt TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX idx_temporaryBarriers_expiresAt ON temporaryBarriers (expiresAt);
+
+-- Clear out expired barriers whenever a new one is added
+CREATE TRIGGER temporaryBarriers_purge_expired AFTER INSERT ON temporaryBarriers
+BEGIN
+  DELETE FROM temporaryBarriers WHERE julianday(expiresAt) <= julianday('now');
+END;
@@ -0,0 +1,47 @@
+-- Live working / out-of-service status of elevators. An elevator is identified
+-- by a key: 'node:<id>' or 'way:<id>' for OpenStreetMap highway=elevator
+-- elements, 'place:<id>' for a place with the elevator feature.
+CREATE TABLE elevatorReports (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  elevatorKey TEXT NOT NULL CHECK (
+    elevatorKey GLOB 'node:[0-9]*' OR elevatorKey GLOB 'way:[0-9]*' OR elevatorKey GLOB 'place:[0-9]*'
+  ),
+  status TEXT NOT NULL CHECK (status IN ('working', 'out-of-service')),
+  userId TEXT,
+  createdAt TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX idx_elevatorReports_elevatorKey ON elevatorReports (elevatorKey, createdAt);
+
+-- Current status of each elevator, maintained from elevatorReports.
+-- statusSince is when the current status was first reported and
+-- confirmations counts the distinct users who have reported it since.
+CREATE TABLE elevatorStatus (
+  elevatorKey TEXT PRIMARY KEY,
+  status TEXT NOT NULL CHECK (status IN ('working', 'out-of-service')),
+  confirmations INTEGER NOT NULL DEFAULT 1,
+  statusSince TEXT NOT NULL,
+  confirmedAt TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TRIGGER elevatorReports_update_status AFTER INSERT ON elevatorReports
+BEGIN
+  INSERT INTO elevatorStatus (elevatorKey, status, statusSince)
+  VALUES (NEW.elevatorKey, NEW.status, NEW.createdAt)
+  ON CONFLICT (elevatorKey) DO UPDATE SET
+    status = excluded.status,
+    statusSince = excluded.statusSince
+  WHERE elevatorStatus.status != excluded.status;
+
+  UPDATE elevatorStatus
+  SET
+    confirmedAt = NEW.createdAt,
+    confirmations = (
+      SELECT COUNT(DISTINCT COALESCE(r.userId, r.id))
+      FROM elevatorReports r
+      WHERE r.elevatorKey = NEW.elevatorKey
+        AND r.status = NEW.status
+        AND julianday(r.createdAt) >= julianday(elevatorStatus.statusSince)
+    )
+  WHERE elevatorKey = NEW.elevatorKey;
+END;
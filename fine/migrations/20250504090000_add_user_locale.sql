@@ -0,0 +1,2 @@
+-- Language for the voice assistant and the interface: 'en', 'ta' (Tamil) or 'hi' (Hindi)
+ALTER TABLE userPreferences ADD COLUMN locale TEXT NOT NULL DEFAULT 'en' CHECK (locale IN ('en', 'ta', 'hi'));
@@ -1,28 +1,30 @@
 import { MapPin, Map, Plus, User, MoreHorizontal } from "lucide-react";
 import { Link, useLocation } from "react-router-dom";
 import { cn } from "@/lib/utils";
+import { useTranslation } from "@/hooks/use-translation";
 
 export function BottomNav() {
   const location = useLocation();
+  const { t } = useTranslation();
   
   const navItems = [
     {
-      name: "Map",
+      name: t("nav.map"),
       icon: Map,
       path: "/",
     },
     {
-      name: "Add",
+      name: t("nav.add"),
       icon: Plus,
       path: "/add-place",
     },
     {
-      name: "Profile",
+      name: t("nav.profile"),
       icon: User,
       path: "/profile",
     },
     {
-      name: "More",
+      name: t("nav.more"),
       icon: MoreHorizontal,
       path: "/more",
     },
@@ -35,7 +37,7 @@ export function BottomNav() {
           const isActive = location.pathname === item.path;
           return (
             <Link
-              key={item.name}
+              key={item.path}
               to={item.path}
               className={cn(
                 "flex flex-col items-center justify-center w-full h-full",
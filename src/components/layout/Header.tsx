@@ -3,7 +3,8 @@ import { useState } from "react";
 import { Link, useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { SearchBar } from "@/components/search/SearchBar";
-import { VoiceAssistant } from "@/lib/voice-assistant";
+import { DirectionalIcon } from "@/components/layout/direction";
+import { setupNavigationVoiceCommands, VoiceAssistant } from "@/lib/voice-assistant";
 
 interface HeaderProps {
   title?: string;
@@ -27,30 +28,10 @@ export function Header({ title, showBackButton = false, showSearch = true }: Hea
     !location.pathname.includes("/place-details");
 
   const handleVoiceCommand = () => {
-    voiceAssistant.speak("What would you like to do?");
+    voiceAssistant.speakPrompt("command.what-to-do");
     
     // Register voice commands
-    voiceAssistant.registerCommand("search for", (query) => {
-      if (query) {
-        navigate(`/search?q=${encodeURIComponent(query)}`);
-      }
-      voiceAssistant.unregisterCommand("search for");
-    });
-    
-    voiceAssistant.registerCommand("go to", (destination) => {
-      if (destination === "map" || destination === "home") {
-        navigate("/");
-      } else if (destination === "profile") {
-        navigate("/profile");
-      } else if (destination === "settings") {
-        navigate("/settings");
-      } else if (destination === "add place") {
-        navigate("/add-place");
-      } else {
-        navigate(`/search?q=${encodeURIComponent(destination || "")}`);
-      }
-      voiceAssistant.unregisterCommand("go to");
-    });
+    setupNavigationVoiceCommands(voiceAssistant, navigate);
     
     voiceAssistant.startListening();
   };
@@ -59,8 +40,8 @@ export function Header({ title, showBackButton = false, showSearch = true }: Hea
     <header className="fixed top-0 left-0 right-0 z-10 bg-white dark:bg-gray-900 shadow-sm">
       <div className="flex items-center h-14 px-4">
         {showBackButton ? (
-          <Button variant="ghost" size="icon" onClick={goBack} className="mr-2">
-            <ArrowLeft className="h-5 w-5" />
+          <Button variant="ghost" size="icon" onClick={goBack} className="me-2">
+            <DirectionalIcon icon={ArrowLeft} className="h-5 w-5" />
           </Button>
         ) : (
           <Button variant="ghost" size="icon" asChild>
@@ -85,7 +66,7 @@ export function Header({ title, showBackButton = false, showSearch = true }: Hea
                   }}
                   className="flex-1"
                 />
-                <Button variant="ghost" size="icon" onClick={() => setIsSearchActive(false)} className="ml-2">
+                <Button variant="ghost" size="icon" onClick={() => setIsSearchActive(false)} className="ms-2">
                   <X className="h-5 w-5" />
                 </Button>
               </div>
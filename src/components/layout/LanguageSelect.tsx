@@ -0,0 +1,40 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTranslation } from "@/hooks/use-translation";
+import { SUPPORTED_LOCALES, toLocale } from "@/lib/locales";
+import { VoiceAssistant } from "@/lib/voice-assistant";
+
+interface LanguageSelectProps {
+  id?: string;
+  className?: string;
+}
+
+/**
+ * Picks the language for both the interface and the voice assistant
+ */
+export function LanguageSelect({ id, className }: LanguageSelectProps) {
+  const { locale, setLocale, t } = useTranslation();
+
+  const handleChange = (value: string) => {
+    const next = toLocale(value);
+    const voiceAssistant = VoiceAssistant.getInstance();
+    setLocale(next);
+    // Switch the assistant now so the confirmation is spoken in the new language
+    voiceAssistant.setLocale(next);
+    voiceAssistant.speakPrompt("settings.language-changed");
+  };
+
+  return (
+    <Select value={locale} onValueChange={handleChange}>
+      <SelectTrigger id={id} className={className}>
+        <SelectValue placeholder={t("more.select-language")} />
+      </SelectTrigger>
+      <SelectContent>
+        {SUPPORTED_LOCALES.map((entry) => (
+          <SelectItem key={entry.id} value={entry.id} lang={entry.id}>
+            {entry.id === "en" ? entry.label : `${entry.label} (${entry.englishLabel})`}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
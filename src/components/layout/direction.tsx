@@ -0,0 +1,43 @@
+import * as React from "react";
+import type { LucideIcon } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+// Layout helpers that follow the document direction. Prefer these, and
+// logical utilities such as ms-*, me-* and text-start, over left/right ones.
+
+const GAPS = {
+  1: "gap-1",
+  2: "gap-2",
+  3: "gap-3",
+  4: "gap-4",
+};
+
+interface InlineProps extends React.HTMLAttributes<HTMLDivElement> {
+  gap?: keyof typeof GAPS;
+  align?: "start" | "center";
+}
+
+/**
+ * A row of items spaced with gap, which flips with the text direction where
+ * space-x-* does not
+ */
+export function Inline({ gap = 2, align = "center", className, ...props }: InlineProps) {
+  return (
+    <div
+      className={cn("flex", align === "center" ? "items-center" : "items-start", GAPS[gap], className)}
+      {...props}
+    />
+  );
+}
+
+interface DirectionalIconProps extends React.ComponentProps<LucideIcon> {
+  icon: LucideIcon;
+}
+
+/**
+ * An icon that points along the reading direction (back, forward, next),
+ * mirrored in right-to-left locales
+ */
+export function DirectionalIcon({ icon: Icon, className, ...props }: DirectionalIconProps) {
+  return <Icon className={cn("rtl:-scale-x-100", className)} {...props} />;
+}
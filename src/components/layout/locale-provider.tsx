@@ -0,0 +1,57 @@
+import * as React from "react";
+import { fine } from "@/lib/fine";
+import { LocaleContext } from "@/hooks/use-locale";
+import { getTextDirection, LOCALE_STORAGE_KEY, toLocale, type Locale } from "@/lib/locales";
+import { VoiceAssistant } from "@/lib/voice-assistant";
+
+interface LocaleProviderProps {
+  children: React.ReactNode;
+}
+
+export function LocaleProvider({ children }: LocaleProviderProps) {
+  const { data: session } = fine.auth.useSession();
+  const [locale, setLocaleState] = React.useState<Locale>(() => toLocale(localStorage.getItem(LOCALE_STORAGE_KEY)));
+  const userId = session?.user?.id;
+
+  // Keep the voice assistant, the saved choice and the page language in step with the current locale
+  React.useEffect(() => {
+    VoiceAssistant.getInstance().setLocale(locale);
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+    document.documentElement.lang = locale;
+    document.documentElement.dir = getTextDirection(locale);
+  }, [locale]);
+
+  // Signed-in users carry their language in their preferences
+  React.useEffect(() => {
+    if (!userId) return;
+
+    fine.table("userPreferences").select().eq("userId", userId)
+      .then(prefs => {
+        if (prefs && prefs.length > 0 && prefs[0].locale) {
+          setLocaleState(toLocale(prefs[0].locale));
+        }
+      })
+      .catch(error => console.error("Error loading language preference:", error));
+  }, [userId]);
+
+  const setLocale = React.useCallback(async (next: Locale) => {
+    setLocaleState(next);
+    if (!userId) return;
+
+    try {
+      // Users who never opened their profile have no preferences row yet
+      const prefs = await fine.table("userPreferences").select().eq("userId", userId);
+      if (prefs && prefs.length > 0) {
+        await fine.table("userPreferences").update({ locale: next }).eq("userId", userId);
+      } else {
+        await fine.table("userPreferences").insert({ userId, locale: next });
+      }
+    } catch (error) {
+      console.error("Error saving language preference:", error);
+    }
+  }, [userId]);
+
+  const value = React.useMemo(() => ({ locale, setLocale }), [locale, setLocale]);
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+}
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Inline } from "@/components/layout/direction";
+import { useTranslation } from "@/hooks/use-translation";
+import type { LocalizedText } from "@/lib/i18n";
+import { BARRIER_DURATIONS, BARRIER_KINDS, type BarrierKind } from "@/lib/temporary-barriers";
+
+export interface BarrierFormValues {
+  kind: BarrierKind;
+  durationHours: number;
+  description: string;
+}
+
+interface BarrierFormProps {
+  open: boolean;
+  // Whether the barrier covers a stretch of path rather than a single point
+  isSegment: boolean;
+  onSubmit: (values: BarrierFormValues) => Promise<void>;
+  onCancel: () => void;
+}
+
+const getDurationText = (hours: number): LocalizedText => hours < 24
+  ? { key: "barrier.duration-hours", params: { count: hours } }
+  : { key: "barrier.duration-days", params: { count: hours / 24 } };
+
+export function BarrierForm({ open, isSegment, onSubmit, onCancel }: BarrierFormProps) {
+  const [kind, setKind] = useState<BarrierKind>("construction");
+  const [durationHours, setDurationHours] = useState(24);
+  const [description, setDescription] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { t, localize } = useTranslation();
+
+  const handleSubmit = async () => {
+    try {
+      setIsSubmitting(true);
+      await onSubmit({ kind, durationHours, description });
+      setDescription("");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("barrier.form-title")}</DialogTitle>
+          <DialogDescription>
+            {t(isSegment ? "barrier.avoid-segment" : "barrier.avoid-spot")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={kind} onValueChange={(value) => setKind(value as BarrierKind)}>
+            {BARRIER_KINDS.map(entry => (
+              <Inline key={entry.id}>
+                <RadioGroupItem value={entry.id} id={`barrier-${entry.id}`} />
+                <Label htmlFor={`barrier-${entry.id}`}>{t(entry.label)}</Label>
+              </Inline>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label>{t("barrier.duration")}</Label>
+            <Select value={String(durationHours)} onValueChange={(value) => setDurationHours(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BARRIER_DURATIONS.map(hours => (
+                  <SelectItem key={hours} value={String(hours)}>
+                    {localize(getDurationText(hours))}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="barrier-description">{t("barrier.details")}</Label>
+            <Textarea
+              id="barrier-description"
+              placeholder={t("barrier.details-placeholder")}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isSubmitting}>
+            {t("common.cancel")}
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="h-4 w-4 me-2 animate-spin" />}
+            {t("barrier.submit")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
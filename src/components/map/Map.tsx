@@ -1,12 +1,33 @@
 import { useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { Loader2, Locate, ZoomIn, ZoomOut, Layers } from "lucide-react";
+import { Loader2, Locate, ZoomIn, ZoomOut, Layers, Construction } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import { fetchAccessiblePlaces, Place } from "@/lib/overpass-api";
 import { VoiceAssistant } from "@/lib/voice-assistant";
+import { fine } from "@/lib/fine";
+import { useTranslation } from "@/hooks/use-translation";
+import {
+  addBarrier,
+  getActiveBarriers,
+  getBarrierKindLabel,
+  isBarrierActive,
+  isSegmentBarrier,
+  DEFAULT_BARRIER_RADIUS,
+  type TemporaryBarrier,
+} from "@/lib/temporary-barriers";
+import { BarrierForm, type BarrierFormValues } from "./BarrierForm";
+
+// How often active barriers are reloaded (ms)
+const BARRIER_REFRESH_INTERVAL = 60000;
+
+// Points tapped while marking a barrier: one for a spot, two for a stretch of path
+interface BarrierDraft {
+  start: [number, number] | null;
+  end: [number, number] | null;
+}
 
 interface MapProps {
   center?: [number, number];
@@ -23,6 +44,8 @@ interface MapProps {
   showUserLocation?: boolean;
   onPlacesLoaded?: (places: Place[]) => void;
   onLocationFound?: (location: [number, number]) => void;
+  showBarriers?: boolean;
+  allowBarrierReporting?: boolean;
 }
 
 export function Map({
@@ -35,6 +58,8 @@ export function Map({
   showUserLocation = true,
   onPlacesLoaded,
   onLocationFound,
+  showBarriers = true,
+  allowBarrierReporting = false,
 }: MapProps) {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
@@ -42,6 +67,7 @@ export function Map({
   const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
   const [loadingPlaces, setLoadingPlaces] = useState(false);
   const navigate = useNavigate();
+  const { t, formatDate } = useTranslation();
   const voiceAssistant = VoiceAssistant.getInstance();
   const markersRef = useRef<L.Marker[]>([]);
   const routeLayerRef = useRef<L.Polyline | null>(null);
@@ -50,6 +76,13 @@ export function Map({
   const mapLoadAttempts = useRef(0);
   const placesLoadAttempts = useRef(0);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const [barriers, setBarriers] = useState<TemporaryBarrier[]>([]);
+  const [barrierDraft, setBarrierDraft] = useState<BarrierDraft | null>(null);
+  const [isBarrierFormOpen, setIsBarrierFormOpen] = useState(false);
+  const barrierDraftRef = useRef<BarrierDraft | null>(null);
+  const barrierLayerRef = useRef<L.LayerGroup | null>(null);
+  const barrierDraftLayerRef = useRef<L.LayerGroup | null>(null);
+  const { data: session } = fine.auth.useSession();
 
   useEffect(() => {
     // Load OpenStreetMap via Leaflet
@@ -108,7 +141,7 @@ export function Map({
                   loadNearbyPlaces(latitude, longitude);
                   
                   // Announce location found
-                  voiceAssistant.speak("Location found. Map is ready.");
+                  voiceAssistant.speakPrompt("map.ready");
                 }
                 
                 // Update user marker
@@ -136,12 +169,12 @@ export function Map({
                       onLocationFound(newLocation);
                     }
                     
-                    voiceAssistant.speak("Location found. Map is ready.");
+                    voiceAssistant.speakPrompt("map.ready");
                   },
                   (error) => {
                     console.error("Error getting location:", error);
                     toast.error("Could not access your location. Please check your location permissions.");
-                    voiceAssistant.speak("Could not access your location. Using default location.");
+                    voiceAssistant.speakPrompt("location.using-default");
                     
                     // Load places at default location
                     loadNearbyPlaces(center[0], center[1]);
@@ -163,12 +196,20 @@ export function Map({
           loadNearbyPlaces(center[0], center[1]);
         }
         
-        // Add click handler to map
-        if (onMapClick) {
-          map.on('click', (e: L.LeafletMouseEvent) => {
+        // Temporary barriers get their own layers above the tiles
+        barrierLayerRef.current = L.layerGroup().addTo(map);
+        barrierDraftLayerRef.current = L.layerGroup().addTo(map);
+        
+        // Add click handler to map; while marking a barrier, clicks place its points
+        map.on('click', (e: L.LeafletMouseEvent) => {
+          const point: [number, number] = [e.latlng.lat, e.latlng.lng];
+          
+          if (barrierDraftRef.current) {
+            handleBarrierDraftClick(point);
+          } else if (onMapClick) {
             onMapClick(e.latlng.lat, e.latlng.lng);
-          });
-        }
+          }
+        });
         
         setIsLoading(false);
       } catch (error) {
@@ -259,10 +300,10 @@ export function Map({
         }
         
         toast.success(`Found ${places.length} accessible places nearby`);
-        voiceAssistant.speak(`Found ${places.length} accessible places nearby`);
+        voiceAssistant.speakPrompt("places.found-nearby", { count: places.length });
       } else {
         toast.info("No accessible places found nearby");
-        voiceAssistant.speak("No accessible places found nearby");
+        voiceAssistant.speakPrompt("places.none-nearby");
       }
     } catch (error: any) {
       console.error("Error loading nearby places:", error);
@@ -287,7 +328,7 @@ export function Map({
           }
           
           toast.info(`Using sample data: ${fallbackPlaces.length} accessible places`);
-          voiceAssistant.speak(`Found ${fallbackPlaces.length} accessible places nearby`);
+          voiceAssistant.speakPrompt("places.found-nearby", { count: fallbackPlaces.length });
         }
       }
     } finally {
@@ -306,8 +347,7 @@ export function Map({
         lng: lng + 0.003,
         address: "123 Main Street",
         placeType: "restaurant",
-        accessibilityFeatures: ["Wheelchair Access", "Ramp", "Accessible Washroom"],
-        rating: 4.5
+        accessibilityFeatures: ["wheelchair-access", "ramp", "accessible-washroom"]
       },
       {
         id: 1002,
@@ -316,8 +356,7 @@ export function Map({
         lng: lng + 0.002,
         address: "456 Health Avenue",
         placeType: "hospital",
-        accessibilityFeatures: ["Elevator", "Wheelchair Access", "Handrails"],
-        rating: 4.2
+        accessibilityFeatures: ["elevator", "wheelchair-access", "handrails"]
       },
       {
         id: 1003,
@@ -326,8 +365,7 @@ export function Map({
         lng: lng - 0.001,
         address: "789 Education Road",
         placeType: "education",
-        accessibilityFeatures: ["Ramp", "Elevator", "Tactile Paving"],
-        rating: 4.0
+        accessibilityFeatures: ["ramp", "elevator", "tactile-paving"]
       },
       {
         id: 1004,
@@ -336,8 +374,7 @@ export function Map({
         lng: lng - 0.002,
         address: "101 Retail Boulevard",
         placeType: "shopping",
-        accessibilityFeatures: ["Wheelchair Access", "Elevator", "Accessible Washroom"],
-        rating: 4.3
+        accessibilityFeatures: ["wheelchair-access", "elevator", "accessible-washroom"]
       },
       {
         id: 1005,
@@ -346,8 +383,7 @@ export function Map({
         lng: lng + 0.001,
         address: "202 Transport Street",
         placeType: "transport",
-        accessibilityFeatures: ["Ramp", "Elevator", "Tactile Paving", "Wheelchair Access"],
-        rating: 3.9
+        accessibilityFeatures: ["ramp", "elevator", "tactile-paving", "wheelchair-access"]
       }
     ];
   };
@@ -515,13 +551,150 @@ export function Map({
         map.fitBounds(bounds, { padding: [50, 50] });
         
         // Announce route
-        voiceAssistant.speak("Route generated. Follow the blue line on the map.");
+        voiceAssistant.speakPrompt("map.route-shown");
       }
     } catch (error) {
       console.error("Error updating route:", error);
     }
   }, [route]);
 
+  // Load active temporary barriers and keep them fresh
+  useEffect(() => {
+    if (isLoading || !showBarriers) return;
+    
+    const loadBarriers = async () => {
+      try {
+        setBarriers(await getActiveBarriers());
+      } catch (error) {
+        console.error("Error loading temporary barriers:", error);
+      }
+    };
+    
+    loadBarriers();
+    const intervalId = setInterval(loadBarriers, BARRIER_REFRESH_INTERVAL);
+    return () => clearInterval(intervalId);
+  }, [isLoading, showBarriers]);
+  
+  // Drop each barrier from the map the moment it expires
+  useEffect(() => {
+    if (barriers.length === 0) return;
+    
+    const now = Date.now();
+    const nextExpiry = Math.min(...barriers.map(barrier => new Date(barrier.expiresAt).getTime()));
+    const timeoutId = setTimeout(() => {
+      setBarriers(prev => prev.filter(barrier => isBarrierActive(barrier)));
+    }, Math.max(0, nextExpiry - now) + 1000);
+    
+    return () => clearTimeout(timeoutId);
+  }, [barriers]);
+  
+  // Draw barriers on their layer
+  useEffect(() => {
+    const layer = barrierLayerRef.current;
+    if (!layer) return;
+    
+    layer.clearLayers();
+    if (!showBarriers) return;
+    
+    barriers.forEach(barrier => {
+      const style = { color: '#dc2626', weight: 4, opacity: 0.9, dashArray: '8 6' };
+      const shape = isSegmentBarrier(barrier)
+        ? L.polyline([[barrier.lat, barrier.lng], [barrier.endLat!, barrier.endLng!]], { ...style, weight: 8 })
+        : L.circle([barrier.lat, barrier.lng], { ...style, radius: barrier.radius ?? DEFAULT_BARRIER_RADIUS, fillOpacity: 0.2 });
+      
+      // Build the popup from text nodes so descriptions can't inject HTML
+      const popup = document.createElement('div');
+      const title = document.createElement('strong');
+      title.textContent = t(getBarrierKindLabel(barrier.kind));
+      popup.appendChild(title);
+      if (barrier.description) {
+        const description = document.createElement('p');
+        description.textContent = barrier.description;
+        popup.appendChild(description);
+      }
+      const expiry = document.createElement('p');
+      expiry.textContent = t("barrier.until", {
+        time: formatDate(barrier.expiresAt, { dateStyle: "medium", timeStyle: "short" })
+      });
+      popup.appendChild(expiry);
+      
+      shape.bindPopup(popup).addTo(layer);
+    });
+  }, [barriers, showBarriers, isLoading, t, formatDate]);
+  
+  // Show the points placed so far while marking a barrier
+  useEffect(() => {
+    barrierDraftRef.current = barrierDraft;
+    
+    const layer = barrierDraftLayerRef.current;
+    if (!layer) return;
+    
+    layer.clearLayers();
+    if (!barrierDraft?.start) return;
+    
+    const style = { color: '#dc2626', weight: 4, dashArray: '2 6' };
+    if (barrierDraft.end) {
+      L.polyline([barrierDraft.start, barrierDraft.end], style).addTo(layer);
+    } else {
+      L.circle(barrierDraft.start, { ...style, radius: DEFAULT_BARRIER_RADIUS }).addTo(layer);
+    }
+  }, [barrierDraft]);
+  
+  const handleBarrierDraftClick = (point: [number, number]) => {
+    const draft = barrierDraftRef.current;
+    if (!draft) return;
+    
+    if (!draft.start) {
+      setBarrierDraft({ start: point, end: null });
+      voiceAssistant.speakPrompt("barrier.start-placed");
+    } else if (!draft.end) {
+      setBarrierDraft({ ...draft, end: point });
+      setIsBarrierFormOpen(true);
+    }
+  };
+  
+  const handleToggleBarrierDrawing = () => {
+    if (barrierDraft) {
+      handleCancelBarrier();
+      return;
+    }
+    
+    if (!session?.user) {
+      toast.error(t("barrier.sign-in"));
+      navigate("/login");
+      return;
+    }
+    
+    setBarrierDraft({ start: null, end: null });
+    voiceAssistant.speakPrompt("barrier.tap-start");
+  };
+  
+  const handleCancelBarrier = () => {
+    setBarrierDraft(null);
+    setIsBarrierFormOpen(false);
+  };
+  
+  const handleSubmitBarrier = async (values: BarrierFormValues) => {
+    if (!barrierDraft?.start) return;
+    
+    try {
+      await addBarrier({
+        ...values,
+        start: barrierDraft.start,
+        end: barrierDraft.end,
+        userId: session?.user?.id
+      });
+      
+      toast.success(t("barrier.added-detail"));
+      voiceAssistant.speakPrompt("barrier.added");
+      handleCancelBarrier();
+      setBarriers(await getActiveBarriers());
+    } catch (error) {
+      console.error("Error adding barrier:", error);
+      toast.error(t("barrier.add-failed"));
+    }
+  };
+
   // Zoom in handler
   const handleZoomIn = () => {
     if (mapInstanceRef.current) {
@@ -569,7 +742,7 @@ export function Map({
         (error) => {
           console.error("Error getting location:", error);
           toast.error("Could not access your location. Please check your location permissions.");
-          voiceAssistant.speak("Could not access your location");
+          voiceAssistant.speakPrompt("location.unavailable");
         },
         options
       );
@@ -627,8 +800,51 @@ export function Map({
         >
           <Layers className="h-4 w-4" />
         </Button>
+        
+        {allowBarrierReporting && (
+          <Button 
+            variant={barrierDraft ? "default" : "secondary"}
+            size="icon" 
+            className="rounded-full shadow-lg"
+            aria-label="Mark a temporary barrier"
+            aria-pressed={!!barrierDraft}
+            onClick={handleToggleBarrierDrawing}
+          >
+            <Construction className="h-4 w-4" />
+          </Button>
+        )}
       </div>
       
+      {/* Marking a temporary barrier */}
+      {barrierDraft && !isBarrierFormOpen && (
+        <div className="absolute top-20 left-4 right-16 bg-white dark:bg-gray-800 rounded-md shadow-lg p-3 z-20 space-y-2">
+          <p className="text-sm">
+            {barrierDraft.start
+              ? "Tap a second point to mark a stretch of path, or press Done for a single spot."
+              : "Tap the map where the barrier is."}
+          </p>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={handleCancelBarrier}>
+              Cancel
+            </Button>
+            {barrierDraft.start && (
+              <Button size="sm" onClick={() => setIsBarrierFormOpen(true)}>
+                Done
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+      
+      {allowBarrierReporting && (
+        <BarrierForm
+          open={isBarrierFormOpen}
+          isSegment={!!barrierDraft?.end}
+          onSubmit={handleSubmitBarrier}
+          onCancel={handleCancelBarrier}
+        />
+      )}
+      
       {/* Loading indicator for places */}
       {loadingPlaces && (
         <div className="absolute bottom-20 left-1/2 transform -translate-x-1/2 bg-white dark:bg-gray-800 rounded-full px-4 py-2 shadow-lg z-20 flex items-center">
@@ -1,6 +1,8 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { 
+  AlertTriangle,
   ArrowRight, 
+  ArrowUpDown,
   ChevronDown, 
   ChevronUp, 
   Clock, 
@@ -17,24 +19,50 @@ import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { VoiceAssistant } from "@/lib/voice-assistant";
+import { Inline } from "@/components/layout/direction";
+import { useTranslation } from "@/hooks/use-translation";
+import type { LocalizedText } from "@/lib/i18n";
 
 interface RouteStep {
-  instruction: string;
-  distance: string;
-  duration: string;
+  instruction: LocalizedText;
+  distance: number; // meters
+  duration: number; // seconds
   maneuver?: string;
   isAccessible?: boolean;
 }
 
+interface RouteOption {
+  label: string;
+  distance: string;
+  duration: string;
+  crossings: number;
+  description: LocalizedText;
+  hasBrokenElevator?: boolean;
+}
+
+interface RouteElevatorInfo {
+  status: "working" | "out-of-service" | null;
+  description: LocalizedText;
+}
+
 interface RouteDisplayProps {
   origin: string;
   destination: string;
   totalDistance: string;
   totalDuration: string;
   steps: RouteStep[];
+  currentStep?: number;
   onStartNavigation?: () => void;
   isNavigating?: boolean;
   onToggleNavigation?: () => void;
+  alternatives?: RouteOption[];
+  selectedAlternative?: number;
+  onSelectAlternative?: (index: number) => void;
+  // Elevators the selected route uses, in order
+  elevators?: RouteElevatorInfo[];
+  onReportElevator?: (index: number, status: "working" | "out-of-service") => void;
+  // A straight line shown because no route could be found
+  isUnverified?: boolean;
 }
 
 export function RouteDisplay({
@@ -43,47 +71,21 @@ export function RouteDisplay({
   totalDistance,
   totalDuration,
   steps,
+  currentStep = 0,
   onStartNavigation,
   isNavigating = false,
   onToggleNavigation,
+  alternatives = [],
+  selectedAlternative = 0,
+  onSelectAlternative,
+  elevators = [],
+  onReportElevator,
+  isUnverified = false,
 }: RouteDisplayProps) {
   const [expanded, setExpanded] = useState(false);
   const [voiceEnabled, setVoiceEnabled] = useState(true);
-  const [currentStep, setCurrentStep] = useState(0);
   const voiceAssistant = VoiceAssistant.getInstance();
-  
-  // Speak the current step when it changes
-  useEffect(() => {
-    if (isNavigating && currentStep >= 0 && currentStep < steps.length && voiceEnabled) {
-      voiceAssistant.speak(steps[currentStep].instruction);
-    }
-  }, [currentStep, isNavigating, voiceEnabled, steps]);
-
-  // Set up automatic progression through steps when navigating
-  useEffect(() => {
-    let timer: NodeJS.Timeout | null = null;
-    
-    if (isNavigating && voiceEnabled) {
-      // Announce start of navigation
-      if (currentStep === 0) {
-        voiceAssistant.speak(`Starting navigation to ${destination}. ${steps[0].instruction}`);
-      }
-      
-      // Set timer to advance to next step
-      timer = setTimeout(() => {
-        if (currentStep < steps.length - 1) {
-          setCurrentStep(currentStep + 1);
-        } else {
-          // Announce arrival
-          voiceAssistant.speak(`You have arrived at your destination: ${destination}`);
-        }
-      }, 10000); // Advance every 10 seconds for demo purposes
-    }
-    
-    return () => {
-      if (timer) clearTimeout(timer);
-    };
-  }, [isNavigating, currentStep, voiceEnabled, destination, steps]);
+  const { t, localize, formatDistance, formatDuration } = useTranslation();
 
   // Toggle voice guidance
   const toggleVoice = () => {
@@ -91,29 +93,72 @@ export function RouteDisplay({
     setVoiceEnabled(newState);
     
     if (newState) {
-      voiceAssistant.speak("Voice guidance enabled");
+      voiceAssistant.speakPrompt("guidance.enabled");
     } else {
-      voiceAssistant.speak("Voice guidance disabled");
+      voiceAssistant.speakPrompt("guidance.disabled");
       voiceAssistant.cancelSpeech();
     }
   };
 
   return (
     <div className="space-y-4">
+      {isUnverified && (
+        <div role="alert" className="flex items-start p-3 rounded-md bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-100 text-sm">
+          <AlertTriangle className="h-4 w-4 me-2 mt-0.5 flex-shrink-0" />
+          {t("route.unverified")}
+        </div>
+      )}
+      
+      {!isNavigating && alternatives.length > 1 && (
+        <div className="space-y-2">
+          <h3 className="font-semibold">{t("route.options")}</h3>
+          {alternatives.map((option, index) => (
+            <button
+              key={option.label}
+              type="button"
+              className={cn(
+                "w-full text-start p-3 rounded-md border transition-colors",
+                selectedAlternative === index
+                  ? "border-primary bg-blue-50 dark:bg-blue-900/20"
+                  : "border-border hover:bg-muted"
+              )}
+              aria-pressed={selectedAlternative === index}
+              onClick={() => onSelectAlternative && onSelectAlternative(index)}
+            >
+              <div className="flex justify-between items-center">
+                <span className="font-medium">{option.label}</span>
+                <span className="text-sm text-muted-foreground">
+                  {option.duration} • {option.distance}
+                </span>
+              </div>
+              <div className="text-xs text-muted-foreground mt-1">
+                {t("route.crossings", { count: option.crossings })} • {localize(option.description)}
+              </div>
+              {option.hasBrokenElevator && (
+                <div className="flex items-center text-xs text-red-600 dark:text-red-400 mt-1">
+                  <AlertTriangle className="h-3 w-3 me-1" />
+                  {t("route.broken-elevator")}
+                </div>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+      
       <Card>
         <CardContent className="p-4">
           <div className="flex justify-between items-center">
             <div>
-              <h3 className="font-semibold">Route Overview</h3>
+              <h3 className="font-semibold">{t("route.overview")}</h3>
               <div className="flex items-center text-sm text-muted-foreground">
-                <Clock className="h-4 w-4 mr-1" />
+                <Clock className="h-4 w-4 me-1" />
                 {totalDuration}
                 <span className="mx-2">•</span>
                 {totalDistance}
               </div>
             </div>
             
-            <div className="flex space-x-2">
+            <Inline>
               <Button 
                 variant="outline" 
                 size="icon"
@@ -140,32 +185,82 @@ export function RouteDisplay({
                   )}
                 </Button>
               )}
-            </div>
+            </Inline>
           </div>
           
           <div className="mt-4 space-y-2">
             <div className="flex items-start">
-              <MapPin className="h-5 w-5 mr-2 text-blue-500 mt-0.5" />
+              <MapPin className="h-5 w-5 me-2 text-blue-500 mt-0.5" />
               <div>
-                <div className="text-sm font-medium">From</div>
+                <div className="text-sm font-medium">{t("route.from")}</div>
                 <div className="text-sm text-muted-foreground">{origin}</div>
               </div>
             </div>
             
             <div className="flex items-start">
-              <MapPin className="h-5 w-5 mr-2 text-red-500 mt-0.5" />
+              <MapPin className="h-5 w-5 me-2 text-red-500 mt-0.5" />
               <div>
-                <div className="text-sm font-medium">To</div>
+                <div className="text-sm font-medium">{t("route.to")}</div>
                 <div className="text-sm text-muted-foreground">{destination}</div>
               </div>
             </div>
           </div>
           
+          {elevators.length > 0 && (
+            <>
+              <Separator className="my-4" />
+              
+              <div className="space-y-3">
+                <h4 className="font-medium">{t("route.elevators")}</h4>
+                
+                {elevators.map((elevator, index) => (
+                  <div 
+                    key={index}
+                    className={cn(
+                      "p-2 rounded-md border space-y-2",
+                      elevator.status === "out-of-service" ? "border-red-300 bg-red-50 dark:bg-red-900/20" : ""
+                    )}
+                  >
+                    <div className="flex items-start text-sm">
+                      {elevator.status === "out-of-service" ? (
+                        <AlertTriangle className="h-4 w-4 me-2 mt-0.5 text-red-500 flex-shrink-0" />
+                      ) : (
+                        <ArrowUpDown className="h-4 w-4 me-2 mt-0.5 text-muted-foreground flex-shrink-0" />
+                      )}
+                      <span>{t("route.elevator", { number: index + 1, description: elevator.description })}</span>
+                    </div>
+                    
+                    {onReportElevator && (
+                      <Inline>
+                        <Button 
+                          variant="outline" 
+                          size="sm"
+                          className="h-8"
+                          onClick={() => onReportElevator(index, "working")}
+                        >
+                          {t("route.elevator-working")}
+                        </Button>
+                        <Button 
+                          variant="outline" 
+                          size="sm"
+                          className="h-8"
+                          onClick={() => onReportElevator(index, "out-of-service")}
+                        >
+                          {t("route.elevator-broken")}
+                        </Button>
+                      </Inline>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+          
           <Separator className="my-4" />
           
           <div className="space-y-3">
             <div className="flex justify-between items-center">
-              <h4 className="font-medium">Turn-by-turn directions</h4>
+              <h4 className="font-medium">{t("route.directions")}</h4>
               <Button 
                 variant="ghost" 
                 size="sm" 
@@ -174,12 +269,12 @@ export function RouteDisplay({
               >
                 {expanded ? (
                   <>
-                    <span className="mr-1 text-sm">Less</span>
+                    <span className="me-1 text-sm">{t("route.show-less")}</span>
                     <ChevronUp className="h-4 w-4" />
                   </>
                 ) : (
                   <>
-                    <span className="mr-1 text-sm">More</span>
+                    <span className="me-1 text-sm">{t("route.show-more")}</span>
                     <ChevronDown className="h-4 w-4" />
                   </>
                 )}
@@ -197,19 +292,19 @@ export function RouteDisplay({
                   )}
                 >
                   <div className={cn(
-                    "flex-shrink-0 w-6 h-6 rounded-full flex items-center justify-center text-xs mr-3",
+                    "flex-shrink-0 w-6 h-6 rounded-full flex items-center justify-center text-xs me-3",
                     currentStep === index ? "bg-primary text-primary-foreground" : "bg-muted text-muted-foreground"
                   )}>
                     {index + 1}
                   </div>
                   
                   <div className="flex-1">
-                    <p className="text-sm">{step.instruction}</p>
+                    <p className="text-sm">{localize(step.instruction)}</p>
                     
                     <div className="flex items-center mt-1 text-xs text-muted-foreground">
-                      <span>{step.distance}</span>
+                      <span>{formatDistance(step.distance)}</span>
                       <span className="mx-1">•</span>
-                      <span>{step.duration}</span>
+                      <span>{formatDuration(step.duration)}</span>
                       
                       {step.isAccessible !== undefined && (
                         <>
@@ -218,7 +313,7 @@ export function RouteDisplay({
                             variant={step.isAccessible ? "default" : "destructive"}
                             className="text-xs h-5"
                           >
-                            {step.isAccessible ? "Accessible" : "Limited Access"}
+                            {step.isAccessible ? t("route.step-accessible") : t("route.step-limited")}
                           </Badge>
                         </>
                       )}
@@ -229,7 +324,7 @@ export function RouteDisplay({
               
               {!expanded && steps.length > 3 && (
                 <div className="text-center text-sm text-muted-foreground">
-                  + {steps.length - 3} more steps
+                  {t("route.more-steps", { count: steps.length - 3 })}
                 </div>
               )}
             </div>
@@ -240,13 +335,10 @@ export function RouteDisplay({
       {onStartNavigation && !isNavigating && (
         <Button 
           className="w-full"
-          onClick={() => {
-            onStartNavigation();
-            voiceAssistant.speak(`Starting navigation to ${destination}`);
-          }}
+          onClick={onStartNavigation}
         >
-          <Navigation className="h-4 w-4 mr-2" />
-          Start Navigation
+          <Navigation className="h-4 w-4 me-2" />
+          {t("route.start")}
         </Button>
       )}
     </div>
@@ -1,17 +1,9 @@
 import { Badge } from "@/components/ui/badge";
-import { 
-  AccessibilityIcon, 
-  Building2, 
-  ArrowUpDown, 
-  Eye, 
-  Ear, 
-  Lightbulb, 
-  Blocks, 
-  Sparkles,
-  Footprints
-} from "lucide-react";
+import { getFeatureIcon, getFeatureText, toFeatureId } from "@/lib/accessibility-features";
+import { useTranslation } from "@/hooks/use-translation";
 
 interface AccessibilityFeaturesProps {
+  // Feature IDs (legacy labels are still recognised)
   features: string[];
   selected?: string[];
   onToggle?: (feature: string) => void;
@@ -24,39 +16,17 @@ export function AccessibilityFeatures({
   onToggle,
   interactive = false,
 }: AccessibilityFeaturesProps) {
-  // Map features to icons
+  const { localize } = useTranslation();
+
+  // Icons and labels come from the shared feature taxonomy
   const getIcon = (feature: string) => {
-    switch (feature.toLowerCase()) {
-      case 'ramp':
-      case 'wheelchair access':
-        return <AccessibilityIcon className="h-3 w-3 mr-1" />;
-      case 'elevator':
-        return <Building2 className="h-3 w-3 mr-1" />;
-      case 'handrails':
-      case 'stopgap ramp':
-        return <ArrowUpDown className="h-3 w-3 mr-1" />;
-      case 'braille':
-      case 'large print':
-        return <Eye className="h-3 w-3 mr-1" />;
-      case 'sign language':
-        return <Ear className="h-3 w-3 mr-1" />;
-      case 'bright lighting':
-        return <Lightbulb className="h-3 w-3 mr-1" />;
-      case 'accessible washroom':
-      case 'gender neutral washroom':
-        return <Blocks className="h-3 w-3 mr-1" />;
-      case 'quiet':
-      case 'scent-free':
-        return <Sparkles className="h-3 w-3 mr-1" />;
-      case 'outdoor access only':
-        return <Footprints className="h-3 w-3 mr-1" />;
-      default:
-        return null;
-    }
+    const Icon = getFeatureIcon(feature);
+    return Icon ? <Icon className="h-3 w-3 me-1" /> : null;
   };
 
   const isSelected = (feature: string) => {
-    return selected.includes(feature);
+    const id = toFeatureId(feature) || feature;
+    return selected.some(value => (toFeatureId(value) || value) === id);
   };
 
   return (
@@ -66,10 +36,10 @@ export function AccessibilityFeatures({
           key={index}
           variant={isSelected(feature) ? "default" : "outline"}
           className={interactive ? "cursor-pointer" : ""}
-          onClick={interactive ? () => onToggle && onToggle(feature) : undefined}
+          onClick={interactive ? () => onToggle && onToggle(toFeatureId(feature) || feature) : undefined}
         >
           {getIcon(feature)}
-          {feature}
+          {localize(getFeatureText(feature))}
         </Badge>
       ))}
     </div>
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { AlertTriangle, ArrowUpDown, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import {
+  describeElevatorStatus,
+  reportElevatorStatus,
+  type ElevatorState,
+  type ElevatorStatus,
+} from "@/lib/elevator-status";
+import { useTranslation } from "@/hooks/use-translation";
+import { Inline } from "@/components/layout/direction";
+
+interface ElevatorStatusCardProps {
+  elevatorKey: string;
+  status: ElevatorStatus | null;
+  // Reporting needs a signed-in user
+  userId?: string | null;
+  onStatusUpdated?: (status: ElevatorStatus | null) => void;
+}
+
+export function ElevatorStatusCard({ elevatorKey, status, userId, onStatusUpdated }: ElevatorStatusCardProps) {
+  const [reporting, setReporting] = useState<ElevatorState | null>(null);
+  const { t, localize } = useTranslation();
+  const isBroken = status?.status === "out-of-service";
+
+  const handleReport = async (state: ElevatorState) => {
+    if (!userId) {
+      toast.error(t("elevator.sign-in"));
+      return;
+    }
+
+    try {
+      setReporting(state);
+      const updated = await reportElevatorStatus(elevatorKey, state, userId);
+      toast.success(t("elevator.updated"));
+      onStatusUpdated?.(updated);
+    } catch (error) {
+      console.error("Error reporting elevator status:", error);
+      toast.error(t("elevator.update-failed"));
+    } finally {
+      setReporting(null);
+    }
+  };
+
+  return (
+    <div className="rounded-md border p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center font-medium">
+          {isBroken ? (
+            <AlertTriangle className="h-4 w-4 me-2 text-red-500" />
+          ) : (
+            <ArrowUpDown className="h-4 w-4 me-2 text-blue-500" />
+          )}
+          {t("elevator.title")}
+        </span>
+        {status && (
+          <Badge variant={isBroken ? "destructive" : "secondary"}>
+            {t(`elevator-state.${status.status}`)}
+          </Badge>
+        )}
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        {status ? localize(describeElevatorStatus(status)) : t("elevator.no-reports-yet")}
+      </p>
+
+      <Inline>
+        {(["working", "out-of-service"] as ElevatorState[]).map(state => (
+          <Button
+            key={state}
+            size="sm"
+            variant="outline"
+            disabled={reporting !== null}
+            onClick={() => handleReport(state)}
+          >
+            {reporting === state && <Loader2 className="h-4 w-4 me-2 animate-spin" />}
+            {state === "working" ? t("route.elevator-working") : t("route.elevator-broken")}
+          </Button>
+        ))}
+      </Inline>
+    </div>
+  );
+}
@@ -1,11 +1,14 @@
 import { useEffect, useState, useRef } from "react";
 import { fine } from "@/lib/fine";
+import { withPlaceFeatures } from "@/lib/place-features";
 import { PlaceCard } from "./PlaceCard";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Loader2 } from "lucide-react";
 import { Schema } from "@/lib/db-types";
 import { fetchAccessiblePlaces, Place } from "@/lib/overpass-api";
+import { fillMissingAddresses } from "@/lib/osm-address";
 import { VoiceAssistant } from "@/lib/voice-assistant";
+import { useTranslation } from "@/hooks/use-translation";
 
 interface NearbyPlacesProps {
   userLocation?: [number, number];
@@ -28,6 +31,7 @@ export function NearbyPlaces({
   const [activeFilter, setActiveFilter] = useState("all");
   const [loadError, setLoadError] = useState<string | null>(null);
   const voiceAssistant = VoiceAssistant.getInstance();
+  const { t, formatDistance } = useTranslation();
   const loadAttempts = useRef(0);
   const abortControllerRef = useRef<AbortController | null>(null);
 
@@ -84,7 +88,13 @@ export function NearbyPlaces({
             setFilteredPlaces(placesWithDistance);
             
             // Announce places found
-            voiceAssistant.speak(`Found ${placesWithDistance.length} nearby places`);
+            voiceAssistant.speakPrompt("places.found-nearby", { count: placesWithDistance.length });
+            
+            // Look up addresses for places whose OSM tags have none
+            const controller = abortControllerRef.current;
+            fillMissingAddresses(placesWithDistance).then(placesWithAddresses => {
+              if (!controller.signal.aborted) setPlaces(placesWithAddresses);
+            });
           } else {
             console.log("NearbyPlaces: No places found from Overpass API, falling back to database");
             // Fallback to database if no places found via Overpass
@@ -100,7 +110,7 @@ export function NearbyPlaces({
         
         // Only show error if it's not an abort error
         if (error.name !== 'AbortError') {
-          setLoadError("Failed to load nearby places");
+          setLoadError(t("places.nearby-failed"));
           
           // Retry with fallback data if we've had multiple failures
           if (loadAttempts.current < 2) {
@@ -120,7 +130,7 @@ export function NearbyPlaces({
     const fetchPlacesFromDatabase = async () => {
       try {
         setIsLoading(true);
-        const fetchedPlaces = await fine.table("places").select();
+        const fetchedPlaces = await withPlaceFeatures(await fine.table("places").select());
         
         if (fetchedPlaces && fetchedPlaces.length > 0) {
           console.log(`NearbyPlaces: Found ${fetchedPlaces.length} places from database`);
@@ -148,12 +158,12 @@ export function NearbyPlaces({
               lng: place.lng,
               address: place.address,
               placeType: place.placeType,
-              accessibilityFeatures: typeof place.accessibilityFeatures === 'string' 
-                ? JSON.parse(place.accessibilityFeatures) 
-                : place.accessibilityFeatures,
+              accessibilityFeatures: place.accessibilityFeatures,
               phone: place.phone || undefined,
               website: place.website || undefined,
-              rating: place.rating || undefined,
+              communityRating: place.communityRating || undefined,
+              reviewCount: place.reviewCount,
+              osmWheelchair: place.osmWheelchair || undefined,
               distance,
               distanceText
             };
@@ -162,7 +172,7 @@ export function NearbyPlaces({
           
           setPlaces(formattedPlaces);
           setFilteredPlaces(formattedPlaces);
-          voiceAssistant.speak(`Found ${formattedPlaces.length} accessible places.`);
+          voiceAssistant.speakPrompt("places.found", { count: formattedPlaces.length });
         } else {
           // If no places in database, use sample data
           useSampleData();
@@ -188,10 +198,9 @@ export function NearbyPlaces({
           lng: 80.2339,
           address: "Near Kishkintha, Raja Gopala Kandigai, Tharkas (Post) Erumaiyur, West Tambaram, Chennai - 600 044.",
           placeType: "education",
-          accessibilityFeatures: ["Ramp", "Automatic Doors", "Handrails"],
+          accessibilityFeatures: ["ramp", "automatic-doors", "handrails"],
           phone: "+919145604423",
           website: "www.loyola.edu.in",
-          rating: 4.5,
           distanceText: "1.2 km away"
         },
         {
@@ -201,10 +210,9 @@ export function NearbyPlaces({
           lng: 80.2321,
           address: "Shastri Nagar, Adyar, Chennai, Tamil Nadu",
           placeType: "restaurant",
-          accessibilityFeatures: ["Accessible Washroom", "Ramp"],
+          accessibilityFeatures: ["accessible-washroom", "ramp"],
           phone: "+919876543210",
           website: "www.bistrograph.com",
-          rating: 4.2,
           distanceText: "0.8 km away"
         },
         {
@@ -214,10 +222,9 @@ export function NearbyPlaces({
           lng: 80.2183,
           address: "Gandhi Road, Tambaram, Chennai, Tamil Nadu",
           placeType: "hospital",
-          accessibilityFeatures: ["Elevator", "Wheelchair Access"],
+          accessibilityFeatures: ["elevator", "wheelchair-access"],
           phone: "+919123456789",
           website: "www.nirmaleyehospital.com",
-          rating: 4.0,
           distanceText: "1.5 km away"
         },
         {
@@ -227,10 +234,9 @@ export function NearbyPlaces({
           lng: 80.2167,
           address: "Tambaram, Chennai, Tamil Nadu",
           placeType: "hospital",
-          accessibilityFeatures: ["Elevator", "Ramp", "Accessible Washroom"],
+          accessibilityFeatures: ["elevator", "ramp", "accessible-washroom"],
           phone: "+919234567890",
           website: "www.hindumissionhospital.org",
-          rating: 4.3,
           distanceText: "1.7 km away"
         },
         {
@@ -240,15 +246,14 @@ export function NearbyPlaces({
           lng: 80.2198,
           address: "Tambaram, Chennai, Tamil Nadu",
           placeType: "transport",
-          accessibilityFeatures: ["Ramp", "Handrails"],
-          rating: 3.8,
+          accessibilityFeatures: ["ramp", "handrails"],
           distanceText: "0.9 km away"
         }
       ];
       
       setPlaces(samplePlaces);
       setFilteredPlaces(samplePlaces);
-      voiceAssistant.speak(`Found ${samplePlaces.length} accessible places nearby.`);
+      voiceAssistant.speakPrompt("places.found-nearby", { count: samplePlaces.length });
     };
     
     fetchNearbyPlaces();
@@ -294,12 +299,12 @@ export function NearbyPlaces({
     <div className="space-y-4">
       <Tabs defaultValue="all" onValueChange={setActiveFilter}>
         <TabsList className="w-full justify-start overflow-x-auto">
-          <TabsTrigger value="all">All</TabsTrigger>
-          <TabsTrigger value="restaurant">Restaurants</TabsTrigger>
-          <TabsTrigger value="hospital">Hospitals</TabsTrigger>
-          <TabsTrigger value="education">Education</TabsTrigger>
-          <TabsTrigger value="transport">Transport</TabsTrigger>
-          <TabsTrigger value="shopping">Shopping</TabsTrigger>
+          <TabsTrigger value="all">{t("places.filter.all")}</TabsTrigger>
+          <TabsTrigger value="restaurant">{t("places.filter.restaurant")}</TabsTrigger>
+          <TabsTrigger value="hospital">{t("places.filter.hospital")}</TabsTrigger>
+          <TabsTrigger value="education">{t("places.filter.education")}</TabsTrigger>
+          <TabsTrigger value="transport">{t("places.filter.transport")}</TabsTrigger>
+          <TabsTrigger value="shopping">{t("places.filter.shopping")}</TabsTrigger>
         </TabsList>
       </Tabs>
       
@@ -310,28 +315,27 @@ export function NearbyPlaces({
       ) : filteredPlaces.length > 0 ? (
         <div className="space-y-4">
           {filteredPlaces.map((place) => {
-            // Parse accessibility features if it's a string
-            const accessibilityFeatures = typeof place.accessibilityFeatures === 'string' 
-              ? JSON.parse(place.accessibilityFeatures) 
-              : place.accessibilityFeatures;
-              
             return (
               <PlaceCard
                 key={place.id}
                 id={place.id!}
                 name={place.name}
                 address={place.address}
-                accessibilityFeatures={accessibilityFeatures}
-                rating={place.rating || undefined}
+                accessibilityFeatures={place.accessibilityFeatures}
+                communityRating={place.communityRating}
+                reviewCount={place.reviewCount}
+                osmWheelchair={place.osmWheelchair}
                 placeType={place.placeType}
-                distance={(place as any).distanceText}
+                distance={place.distance != null
+                  ? t("places.distance-away", { distance: formatDistance(place.distance * 1000) })
+                  : place.distanceText}
               />
             );
           })}
         </div>
       ) : (
         <div className="text-center py-8 text-muted-foreground">
-          {loadError ? loadError : "No places found nearby"}
+          {loadError ? loadError : t("places.none-nearby")}
         </div>
       )}
     </div>
@@ -3,14 +3,20 @@ import { Badge } from "@/components/ui/badge";
 import { AccessibilityIcon } from "lucide-react";
 import { Link } from "react-router-dom";
 import { cn } from "@/lib/utils";
+import { getFeatureText, toFeatureIds } from "@/lib/accessibility-features";
+import { type OsmWheelchair } from "@/lib/ratings";
+import { hasMessage } from "@/lib/i18n";
+import { useTranslation } from "@/hooks/use-translation";
 
 interface PlaceCardProps {
   id: number;
   name: string;
   address: string;
-  accessibilityFeatures: string[] | string;
+  accessibilityFeatures: string[];
   image?: string;
-  rating?: number;
+  communityRating?: number;
+  reviewCount?: number;
+  osmWheelchair?: OsmWheelchair;
   distance?: string;
   placeType?: string;
   className?: string;
@@ -22,15 +28,17 @@ export function PlaceCard({
   address,
   accessibilityFeatures,
   image,
-  rating,
+  communityRating,
+  reviewCount,
+  osmWheelchair,
   distance,
   placeType,
   className,
 }: PlaceCardProps) {
-  // Parse accessibility features if it's a string
-  const features = Array.isArray(accessibilityFeatures) 
-    ? accessibilityFeatures 
-    : JSON.parse(accessibilityFeatures || '[]');
+  const features = toFeatureIds(accessibilityFeatures);
+  const { t, localize, formatNumber } = useTranslation();
+  const placeTypeKey = `place-type.${placeType}`;
+  const rating = communityRating ? formatNumber(communityRating, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) : "";
   
   return (
     <Link to={`/place-details/${id}`}>
@@ -44,19 +52,26 @@ export function PlaceCard({
             />
           )}
           
-          {features.includes("Ramp") && (
-            <div className="absolute top-2 right-2">
+          {features.includes("ramp") && (
+            <div className="absolute top-2 end-2">
               <Badge variant="secondary" className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100">
-                <AccessibilityIcon className="h-3 w-3 mr-1" />
-                Accessible
+                <AccessibilityIcon className="h-3 w-3 me-1" />
+                {t("place.accessible")}
               </Badge>
             </div>
           )}
           
-          {rating && (
-            <div className="absolute top-2 left-2">
-              <Badge variant="secondary" className="bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100">
-                ★ {rating.toFixed(1)}
+          {communityRating && (
+            <div className="absolute top-2 start-2">
+              <Badge
+                variant="secondary"
+                className="bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100"
+                aria-label={reviewCount
+                  ? t("place.rating-label-reviews", { rating, count: reviewCount })
+                  : t("place.rating-label", { rating })}
+              >
+                ★ {rating}
+                {reviewCount ? ` (${formatNumber(reviewCount)})` : ""}
               </Badge>
             </div>
           )}
@@ -64,25 +79,31 @@ export function PlaceCard({
         
         <CardContent className="p-4">
           <h3 className="font-semibold text-lg">{name}</h3>
-          <p className="text-sm text-muted-foreground line-clamp-1">{address}</p>
+          <p className="text-sm text-muted-foreground line-clamp-1">{address || t("place.address-unavailable")}</p>
           
           <div className="flex flex-wrap gap-1 mt-2">
             {features.slice(0, 3).map((feature: string, index: number) => (
               <Badge key={index} variant="outline" className="text-xs">
-                {feature}
+                {localize(getFeatureText(feature))}
               </Badge>
             ))}
             {features.length > 3 && (
               <Badge variant="outline" className="text-xs">
-                +{features.length - 3} more
+                {t("place.more-features", { count: features.length - 3 })}
               </Badge>
             )}
           </div>
           
+          {osmWheelchair && (
+            <p className="text-xs text-muted-foreground mt-2">
+              {t("place.osm-status", { status: t(`osm-wheelchair.${osmWheelchair}`) })}
+            </p>
+          )}
+          
           <div className="flex justify-between items-center mt-3">
             {placeType && (
               <Badge variant="secondary" className="capitalize">
-                {placeType}
+                {hasMessage(placeTypeKey) ? t(placeTypeKey) : placeType}
               </Badge>
             )}
             
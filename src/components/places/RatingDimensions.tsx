@@ -0,0 +1,105 @@
+import { Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useTranslation } from "@/hooks/use-translation";
+import { cn } from "@/lib/utils";
+import {
+  MAX_DIMENSION_RATING,
+  RATING_DIMENSIONS,
+  type DimensionAverage,
+  type DimensionRatings,
+  type RatingDimension,
+} from "@/lib/review-ratings";
+
+interface RatingDimensionsInputProps {
+  ratings: DimensionRatings;
+  onChange: (dimension: RatingDimension, rating: number | null) => void;
+}
+
+export function RatingDimensionsInput({ ratings, onChange }: RatingDimensionsInputProps) {
+  const { t } = useTranslation();
+  const scores = Array.from({ length: MAX_DIMENSION_RATING }, (_, index) => index + 1);
+
+  return (
+    <div className="space-y-4">
+      {RATING_DIMENSIONS.map(dimension => {
+        const current = ratings[dimension.key] ?? null;
+        const label = t(dimension.label);
+
+        return (
+          <div key={dimension.key} className="space-y-1">
+            <p className="text-sm font-medium">{label}</p>
+            <p className="text-xs text-muted-foreground">{t(dimension.question)}</p>
+            <div className="flex items-center gap-1" role="group" aria-label={label}>
+              {scores.map(score => (
+                <Button
+                  key={score}
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label={t("rating.out-of", { dimension: label, score, max: MAX_DIMENSION_RATING })}
+                  aria-pressed={current === score}
+                  onClick={() => onChange(dimension.key, score)}
+                >
+                  <Star
+                    className={cn(
+                      "h-5 w-5",
+                      current !== null && score <= current ? "fill-yellow-400 text-yellow-500" : "text-muted-foreground"
+                    )}
+                  />
+                </Button>
+              ))}
+              <Button
+                type="button"
+                variant={current === null ? "secondary" : "ghost"}
+                size="sm"
+                className="ms-2 text-xs"
+                aria-pressed={current === null}
+                onClick={() => onChange(dimension.key, null)}
+              >
+                {t("rating.not-applicable")}
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+interface RatingDimensionsSummaryProps {
+  averages: DimensionAverage[];
+}
+
+export function RatingDimensionsSummary({ averages }: RatingDimensionsSummaryProps) {
+  const { t, formatNumber } = useTranslation();
+  const rated = averages.filter(entry => entry.average !== null);
+
+  if (rated.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t("rating.no-details")}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {rated.map(({ dimension, average, count }) => {
+        const label = t(dimension.label);
+        const score = formatNumber(average!, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+        return (
+          <div key={dimension.key} className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span>{label}</span>
+              <span className="text-muted-foreground">
+                {t("rating.dimension-average", { average: score, count })}
+              </span>
+            </div>
+            <Progress
+              value={(average! / MAX_DIMENSION_RATING) * 100}
+              aria-label={t("rating.out-of", { dimension: label, score, max: MAX_DIMENSION_RATING })}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { useTranslation } from "@/hooks/use-translation";
+import type { MessageKey } from "@/lib/i18n";
+import {
+  advanceReport,
+  getNextReportStatus,
+  getReportCategoryLabel,
+  REPORT_STATUS_LABELS,
+  type Report,
+  type ReportStatus,
+} from "@/lib/reports";
+
+interface ReportListProps {
+  reports: Report[];
+  // Set when the signed-in user is a moderator
+  moderatorId?: string | null;
+  onReportUpdated?: (report: Report, status: ReportStatus) => void;
+}
+
+const ACTION_LABELS: Record<Exclude<ReportStatus, "open">, MessageKey> = {
+  acknowledged: "report.acknowledge",
+  resolved: "report.resolve",
+};
+
+const MARKED_MESSAGES: Record<Exclude<ReportStatus, "open">, MessageKey> = {
+  acknowledged: "report.marked-acknowledged",
+  resolved: "report.marked-resolved",
+};
+
+export function ReportList({ reports, moderatorId, onReportUpdated }: ReportListProps) {
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+  const { t, formatDate } = useTranslation();
+
+  const handleAdvance = async (report: Report) => {
+    if (!moderatorId) return;
+
+    try {
+      setUpdatingId(report.id!);
+      const status = await advanceReport(report, moderatorId);
+      toast.success(t(MARKED_MESSAGES[status]));
+      onReportUpdated?.(report, status);
+    } catch (error) {
+      console.error("Error updating report:", error);
+      toast.error(t("report.update-failed"));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  if (reports.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t("report.none-open")}</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {reports.map(report => {
+        const status = report.status || "open";
+        const next = getNextReportStatus(status);
+
+        return (
+          <li key={report.id} className="rounded-md border p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="flex items-center font-medium">
+                <AlertTriangle className="h-4 w-4 me-2 text-orange-500" />
+                {t(getReportCategoryLabel(report.category))}
+              </span>
+              <Badge variant={status === "open" ? "destructive" : "secondary"}>
+                {t(REPORT_STATUS_LABELS[status])}
+              </Badge>
+            </div>
+
+            <p className="text-sm">{report.description}</p>
+
+            {report.photo && (
+              <img src={report.photo} alt={t("report.photo-of-reported")} className="w-full rounded-md" />
+            )}
+
+            {report.createdAt && (
+              <p className="text-xs text-muted-foreground">
+                {t("report.reported-on", { date: formatDate(report.createdAt, { dateStyle: "medium" }) })}
+              </p>
+            )}
+
+            {moderatorId && next && (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={updatingId === report.id}
+                onClick={() => handleAdvance(report)}
+              >
+                {updatingId === report.id && <Loader2 className="h-4 w-4 me-2 animate-spin" />}
+                {t(ACTION_LABELS[next])}
+              </Button>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
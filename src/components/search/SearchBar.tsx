@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { VoiceAssistant } from "@/lib/voice-assistant";
 import { toast } from "sonner";
+import { useTranslation } from "@/hooks/use-translation";
 
 interface SearchBarProps {
   onSearch?: (query: string) => void;
@@ -30,6 +31,18 @@ export function SearchBar({
   const suggestionsRef = useRef<HTMLDivElement>(null);
   const navigate = useNavigate();
   const voiceAssistant = VoiceAssistant.getInstance();
+  const { t } = useTranslation();
+  // Commands that take the spoken query, active only while listening
+  const popVoiceScopeRef = useRef<(() => void) | null>(null);
+
+  const endVoiceSearch = () => {
+    popVoiceScopeRef.current?.();
+    popVoiceScopeRef.current = null;
+    setIsListening(false);
+  };
+
+  // Don't leave the listening commands behind when the bar goes away
+  useEffect(() => () => popVoiceScopeRef.current?.(), []);
 
   useEffect(() => {
     if (isExpanded && inputRef.current) {
@@ -81,38 +94,37 @@ export function SearchBar({
   const startVoiceSearch = () => {
     if (isListening) {
       voiceAssistant.stopListening();
-      setIsListening(false);
+      endVoiceSearch();
       return;
     }
 
     setIsListening(true);
-    voiceAssistant.speak("What would you like to search for?");
+    voiceAssistant.speakPrompt("command.ask-search");
     
-    // Register a one-time command handler for the search query
-    voiceAssistant.registerCommand("search for", (args) => {
-      if (args) {
-        setQuery(args);
+    // One-time handlers for the search query, with or without "search for" in front
+    popVoiceScopeRef.current?.();
+    popVoiceScopeRef.current = voiceAssistant.pushScope("voice-search", {
+      "search for": ({ slots, text }) => {
+        const spokenQuery = slots.query || text;
+        if (spokenQuery) {
+          setQuery(spokenQuery);
+          setTimeout(() => handleSearch(), 500);
+        } else {
+          voiceAssistant.speakPrompt("command.not-caught");
+        }
+        endVoiceSearch();
+      },
+      "*": ({ text }) => {
+        setQuery(text);
         setTimeout(() => handleSearch(), 500);
-      } else {
-        voiceAssistant.speak("I didn't catch that. Please try again.");
+        endVoiceSearch();
       }
-      setIsListening(false);
-      voiceAssistant.unregisterCommand("search for");
     });
     
-    // Also handle direct queries without "search for" prefix
-    const handleDirectQuery = (transcript: string) => {
-      setQuery(transcript);
-      setTimeout(() => handleSearch(), 500);
-      setIsListening(false);
-      voiceAssistant.unregisterCommand("*");
-    };
-    voiceAssistant.registerCommand("*", handleDirectQuery);
-    
     const success = voiceAssistant.startListening();
     if (!success) {
-      toast.error("Voice recognition not available");
-      setIsListening(false);
+      toast.error(t("voice.unavailable"));
+      endVoiceSearch();
     }
   };
 
@@ -0,0 +1,16 @@
+import * as React from "react";
+import { DEFAULT_LOCALE, type Locale } from "@/lib/locales";
+
+export interface LocaleContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+}
+
+export const LocaleContext = React.createContext<LocaleContextValue>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => {},
+});
+
+export function useLocale() {
+  return React.useContext(LocaleContext);
+}
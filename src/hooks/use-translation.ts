@@ -0,0 +1,33 @@
+import * as React from "react";
+import { useLocale } from "@/hooks/use-locale";
+import {
+  formatDate,
+  formatDistance,
+  formatDuration,
+  formatNumber,
+  localize,
+  translate,
+  type LocalizedText,
+  type MessageKey,
+  type MessageParams,
+} from "@/lib/i18n";
+import { getTextDirection } from "@/lib/locales";
+
+/**
+ * Translation and formatting bound to the current locale
+ */
+export function useTranslation() {
+  const { locale, setLocale } = useLocale();
+
+  return React.useMemo(() => ({
+    locale,
+    setLocale,
+    dir: getTextDirection(locale),
+    t: (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+    localize: (text: LocalizedText) => localize(locale, text),
+    formatNumber: (value: number, options?: Intl.NumberFormatOptions) => formatNumber(locale, value, options),
+    formatDate: (value: string | number | Date, options?: Intl.DateTimeFormatOptions) => formatDate(locale, value, options),
+    formatDistance: (meters: number) => formatDistance(locale, meters),
+    formatDuration: (seconds: number) => formatDuration(locale, seconds),
+  }), [locale, setLocale]);
+}
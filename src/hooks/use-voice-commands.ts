@@ -0,0 +1,23 @@
+import * as React from "react";
+import { VoiceAssistant, type VoiceCommandCallback } from "@/lib/voice-assistant";
+
+/**
+ * Voice commands that are only active while the calling component is
+ * mounted. The scope is pushed once; callbacks always see the latest render,
+ * so they can use current state without re-registering.
+ */
+export function useVoiceCommands(scope: string, commands: Record<string, VoiceCommandCallback>) {
+  const commandsRef = React.useRef(commands);
+  commandsRef.current = commands;
+
+  const names = Object.keys(commands).join("|");
+
+  React.useEffect(() => {
+    const callbacks: Record<string, VoiceCommandCallback> = {};
+    names.split("|").filter(Boolean).forEach(name => {
+      callbacks[name] = (args) => commandsRef.current[name]?.(args);
+    });
+
+    return VoiceAssistant.getInstance().pushScope(scope, callbacks);
+  }, [scope, names]);
+}
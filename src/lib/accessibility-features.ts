@@ -0,0 +1,220 @@
+/**
+ * Canonical accessibility feature taxonomy
+ *
+ * Places and reviews store feature IDs from this list. Labels are for display
+ * only and may change; IDs must not.
+ */
+import {
+  AccessibilityIcon,
+  ArrowUpDown,
+  Blocks,
+  BookOpen,
+  Building2,
+  CircleParking,
+  DoorOpen,
+  Ear,
+  Eye,
+  Footprints,
+  Lightbulb,
+  Maximize2,
+  Signpost,
+  Sparkles,
+  type LucideIcon
+} from 'lucide-react';
+import type { TagMatch } from './accessibility-tags';
+import type { LocalizedText } from './i18n';
+
+export type FeatureCategory = 'mobility' | 'vision' | 'hearing' | 'cognitive' | 'sensory';
+
+export type AccessibilityFeatureId =
+  | 'wheelchair-access'
+  | 'limited-wheelchair-access'
+  | 'ramp'
+  | 'stopgap-ramp'
+  | 'elevator'
+  | 'handrails'
+  | 'accessible-entrance'
+  | 'alternative-entrance'
+  | 'automatic-doors'
+  | 'accessible-washroom'
+  | 'gender-neutral-washroom'
+  | 'accessible-parking'
+  | 'spacious'
+  | 'outdoor-access-only'
+  | 'tactile-paving'
+  | 'braille'
+  | 'large-print'
+  | 'bright-lighting'
+  | 'hearing-loop'
+  | 'sign-language'
+  | 'easy-read'
+  | 'clear-signage'
+  | 'quiet'
+  | 'scent-free';
+
+export interface AccessibilityFeature {
+  id: AccessibilityFeatureId;
+  label: string;
+  category: FeatureCategory;
+  icon: LucideIcon;
+  // OSM tag combinations that mean the feature is present (any one is enough)
+  osm: TagMatch[];
+}
+
+export const FEATURE_CATEGORIES: FeatureCategory[] = ['mobility', 'vision', 'hearing', 'cognitive', 'sensory'];
+
+export const ACCESSIBILITY_FEATURES: AccessibilityFeature[] = [
+  // Mobility
+  {
+    id: 'wheelchair-access',
+    label: 'Wheelchair Access',
+    category: 'mobility',
+    icon: AccessibilityIcon,
+    osm: [{ wheelchair: ['yes', 'designated'] }]
+  },
+  {
+    id: 'limited-wheelchair-access',
+    label: 'Limited Wheelchair Access',
+    category: 'mobility',
+    icon: AccessibilityIcon,
+    osm: [{ wheelchair: ['limited'] }]
+  },
+  {
+    id: 'ramp',
+    label: 'Ramp',
+    category: 'mobility',
+    icon: AccessibilityIcon,
+    osm: [{ ramp: ['yes'] }, { 'ramp:wheelchair': ['yes'] }]
+  },
+  { id: 'stopgap-ramp', label: 'StopGap Ramp', category: 'mobility', icon: ArrowUpDown, osm: [] },
+  {
+    id: 'elevator',
+    label: 'Elevator',
+    category: 'mobility',
+    icon: Building2,
+    osm: [{ elevator: ['yes'] }, { highway: ['elevator'] }, { building: ['elevator'] }]
+  },
+  {
+    id: 'handrails',
+    label: 'Handrails',
+    category: 'mobility',
+    icon: ArrowUpDown,
+    osm: [{ handrail: ['yes'] }, { 'handrail:left': ['yes'] }, { 'handrail:right': ['yes'] }, { 'handrail:center': ['yes'] }]
+  },
+  {
+    id: 'accessible-entrance',
+    label: 'Accessible Entrance',
+    category: 'mobility',
+    icon: DoorOpen,
+    osm: [{ entrance: '*', wheelchair: ['yes', 'designated'] }]
+  },
+  { id: 'alternative-entrance', label: 'Alternative Entrance', category: 'mobility', icon: DoorOpen, osm: [] },
+  {
+    id: 'automatic-doors',
+    label: 'Automatic Doors',
+    category: 'mobility',
+    icon: DoorOpen,
+    osm: [{ automatic_door: '*' }, { door: ['automatic'] }]
+  },
+  {
+    id: 'accessible-washroom',
+    label: 'Accessible Washroom',
+    category: 'mobility',
+    icon: Blocks,
+    osm: [
+      { 'toilets:wheelchair': ['yes', 'designated'] },
+      { wheelchair_toilet: ['yes'] },
+      { amenity: ['toilets'], wheelchair: ['yes', 'designated'] }
+    ]
+  },
+  {
+    id: 'gender-neutral-washroom',
+    label: 'Gender Neutral Washroom',
+    category: 'mobility',
+    icon: Blocks,
+    osm: [{ 'toilets:unisex': ['yes'] }, { amenity: ['toilets'], unisex: ['yes'] }]
+  },
+  {
+    id: 'accessible-parking',
+    label: 'Accessible Parking',
+    category: 'mobility',
+    icon: CircleParking,
+    osm: [{ 'capacity:disabled': '*' }, { amenity: ['parking_space'], parking_space: ['disabled'] }]
+  },
+  { id: 'spacious', label: 'Spacious', category: 'mobility', icon: Maximize2, osm: [] },
+  { id: 'outdoor-access-only', label: 'Outdoor Access Only', category: 'mobility', icon: Footprints, osm: [] },
+
+  // Vision
+  { id: 'tactile-paving', label: 'Tactile Paving', category: 'vision', icon: Footprints, osm: [{ tactile_paving: ['yes'] }] },
+  {
+    id: 'braille',
+    label: 'Braille',
+    category: 'vision',
+    icon: Eye,
+    osm: [{ braille: ['yes'] }, { 'tactile_writing:braille': '*' }]
+  },
+  { id: 'large-print', label: 'Large Print', category: 'vision', icon: Eye, osm: [] },
+  { id: 'bright-lighting', label: 'Bright Lighting', category: 'vision', icon: Lightbulb, osm: [] },
+
+  // Hearing
+  { id: 'hearing-loop', label: 'Hearing Loop', category: 'hearing', icon: Ear, osm: [{ hearing_loop: ['yes', 'limited'] }] },
+  { id: 'sign-language', label: 'Sign Language', category: 'hearing', icon: Ear, osm: [] },
+
+  // Cognitive
+  { id: 'easy-read', label: 'Easy Read Information', category: 'cognitive', icon: BookOpen, osm: [] },
+  { id: 'clear-signage', label: 'Clear Signage', category: 'cognitive', icon: Signpost, osm: [] },
+
+  // Sensory
+  { id: 'quiet', label: 'Quiet', category: 'sensory', icon: Sparkles, osm: [] },
+  { id: 'scent-free', label: 'Scent-free', category: 'sensory', icon: Sparkles, osm: [] }
+];
+
+const FEATURES_BY_ID = new Map(ACCESSIBILITY_FEATURES.map(feature => [feature.id, feature]));
+
+/**
+ * Look up a feature by ID
+ */
+export function getFeature(id: string): AccessibilityFeature | undefined {
+  return FEATURES_BY_ID.get(id as AccessibilityFeatureId);
+}
+
+/**
+ * Resolve a stored value to a feature ID. Accepts IDs and, for data saved
+ * before IDs existed, display labels in any letter case.
+ */
+export function toFeatureId(value: string): AccessibilityFeatureId | null {
+  if (FEATURES_BY_ID.has(value as AccessibilityFeatureId)) return value as AccessibilityFeatureId;
+
+  const normalized = value.trim().toLowerCase();
+  const feature = ACCESSIBILITY_FEATURES.find(candidate => candidate.label.toLowerCase() === normalized);
+  return feature ? feature.id : null;
+}
+
+/**
+ * Resolve a list of stored values to unique feature IDs, dropping unknown ones
+ */
+export function toFeatureIds(values: string[]): AccessibilityFeatureId[] {
+  const ids = values.map(toFeatureId).filter((id): id is AccessibilityFeatureId => id !== null);
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Translatable name for a feature ID; a legacy label that matches no feature
+ * is shown as-is
+ */
+export function getFeatureText(value: string): LocalizedText {
+  const id = toFeatureId(value);
+  return id ? { key: `feature.${id}` } : { key: 'common.literal', params: { text: value } };
+}
+
+/**
+ * Icon for a feature ID or legacy label
+ */
+export function getFeatureIcon(value: string): LucideIcon | null {
+  const id = toFeatureId(value);
+  return id ? FEATURES_BY_ID.get(id)!.icon : null;
+}
+
+export function getFeaturesByCategory(category: FeatureCategory): AccessibilityFeature[] {
+  return ACCESSIBILITY_FEATURES.filter(feature => feature.category === category);
+}
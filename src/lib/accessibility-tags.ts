@@ -0,0 +1,90 @@
+/**
+ * Registry mapping OpenStreetMap tags to accessibility features and place types
+ *
+ * Each feature's tag patterns live with it in the feature taxonomy; this
+ * module matches element tags against them and holds the place type rules.
+ */
+import {
+  ACCESSIBILITY_FEATURES,
+  getFeature,
+  type AccessibilityFeatureId
+} from './accessibility-features';
+
+/**
+ * Tag conditions that must all hold: a list of accepted values, or '*' for
+ * any value other than "no"
+ */
+export type TagMatch = Record<string, string[] | '*'>;
+
+export interface PlaceTypeRule {
+  type: string;
+  osm: TagMatch[];
+}
+
+// Checked in order; the first matching rule wins
+const PLACE_TYPES: PlaceTypeRule[] = [
+  { type: 'restaurant', osm: [{ amenity: ['restaurant', 'cafe', 'fast_food', 'food_court'] }] },
+  { type: 'hospital', osm: [{ amenity: ['hospital', 'clinic', 'doctors', 'pharmacy'] }, { healthcare: '*' }] },
+  { type: 'education', osm: [{ amenity: ['school', 'university', 'college', 'library', 'kindergarten'] }] },
+  {
+    type: 'transport',
+    osm: [
+      { amenity: ['bus_station', 'train_station', 'ferry_terminal'] },
+      { public_transport: ['station', 'platform'] },
+      { railway: ['station', 'halt'] }
+    ]
+  },
+  { type: 'shopping', osm: [{ shop: '*' }] }
+];
+
+/**
+ * Check whether tags satisfy every condition of a match
+ */
+export function matchesTags(tags: Record<string, string>, match: TagMatch): boolean {
+  return Object.entries(match).every(([key, values]) => {
+    const value = tags[key];
+    if (value === undefined || value === 'no') return false;
+    return values === '*' || values.includes(value);
+  });
+}
+
+/**
+ * Add another tag combination that implies a feature (e.g. a regional tagging scheme)
+ */
+export function registerFeatureTags(id: AccessibilityFeatureId, match: TagMatch): void {
+  const feature = getFeature(id);
+  if (!feature) {
+    throw new Error(`Unknown accessibility feature: ${id}`);
+  }
+  feature.osm.push(match);
+}
+
+/**
+ * Add a place type rule, checked before the built-in ones
+ */
+export function registerPlaceType(rule: PlaceTypeRule): void {
+  PLACE_TYPES.unshift(rule);
+}
+
+/**
+ * Features that can be derived from OSM tags, e.g. for filtering Overpass results
+ */
+export function getOsmFeatureIds(): AccessibilityFeatureId[] {
+  return ACCESSIBILITY_FEATURES.filter(feature => feature.osm.length > 0).map(feature => feature.id);
+}
+
+/**
+ * Accessibility features described by an element's tags
+ */
+export function getFeaturesFromTags(tags: Record<string, string>): AccessibilityFeatureId[] {
+  return ACCESSIBILITY_FEATURES
+    .filter(feature => feature.osm.some(match => matchesTags(tags, match)))
+    .map(feature => feature.id);
+}
+
+/**
+ * Place type (restaurant, hospital, ...) for an element's tags, or 'other'
+ */
+export function getPlaceTypeFromTags(tags: Record<string, string>): string {
+  return PLACE_TYPES.find(rule => rule.osm.some(match => matchesTags(tags, match)))?.type || 'other';
+}
@@ -7,8 +7,10 @@ export type Schema = {
     address: string;
     phone?: string | null;
     website?: string | null;
-    accessibilityFeatures: string;
-    rating?: number | null;
+    communityRating?: number | null;
+    reviewCount?: number;
+    ratingUpdatedAt?: string | null;
+    osmWheelchair?: "yes" | "limited" | "no" | null;
     placeType: string;
     createdAt?: string;
     updatedAt?: string;
@@ -21,11 +23,88 @@ export type Schema = {
     userId: string;
     rating: number;
     comment?: string | null;
-    accessibilityFeatures: string;
+    entranceRating?: number | null;
+    interiorRating?: number | null;
+    washroomRating?: number | null;
+    signageRating?: number | null;
+    hearingRating?: number | null;
+    staffRating?: number | null;
+    sensoryRating?: number | null;
     createdAt?: string;
     updatedAt?: string;
   };
   
+  placeFeatures: {
+    id?: number;
+    placeId: number;
+    featureId: string;
+    source: "submission" | "review" | "osm" | "moderator";
+    confidence: number;
+    reportedBy?: string | null;
+    verifiedAt?: string | null;
+    createdAt?: string;
+  };
+
+  // Read-only view: placeFeatures grouped by place
+  placeFeatureSets: {
+    placeId: number;
+    featureCount: number;
+    featureIds: string; // ",ramp,elevator,"
+  };
+  
+  moderators: {
+    userId: string;
+    createdAt?: string;
+  };
+  
+  reports: {
+    id?: number;
+    placeId: number;
+    userId: string;
+    category: "broken-elevator" | "blocked-ramp" | "wrong-info" | "closed" | "other";
+    description: string;
+    photo?: string | null;
+    lat?: number | null;
+    lng?: number | null;
+    status?: "open" | "acknowledged" | "resolved";
+    acknowledgedBy?: string | null;
+    acknowledgedAt?: string | null;
+    resolvedBy?: string | null;
+    resolvedAt?: string | null;
+    createdAt?: string;
+    updatedAt?: string;
+  };
+  
+  temporaryBarriers: {
+    id?: number;
+    kind: "construction" | "broken-elevator" | "flooding" | "other";
+    description?: string | null;
+    lat: number;
+    lng: number;
+    endLat?: number | null;
+    endLng?: number | null;
+    radius?: number;
+    expiresAt: string;
+    userId?: string | null;
+    createdAt?: string;
+  };
+  
+  elevatorReports: {
+    id?: number;
+    elevatorKey: string;
+    status: "working" | "out-of-service";
+    userId?: string | null;
+    createdAt?: string;
+  };
+  
+  elevatorStatus: {
+    elevatorKey: string;
+    status: "working" | "out-of-service";
+    confirmations?: number;
+    statusSince: string;
+    confirmedAt?: string;
+  };
+  
   userPreferences: {
     id?: number;
     userId: string;
@@ -34,6 +113,13 @@ export type Schema = {
     hearingNeeds?: boolean;
     cognitiveNeeds?: boolean;
     preferredRouteType?: string | null;
+    maxInclinePercent?: number | null;
+    maxKerbHeightCm?: number | null;
+    minPathWidthM?: number | null;
+    avoidCobblestones?: boolean;
+    avoidUnlitPaths?: boolean;
+    maxRestSpacingM?: number | null;
+    locale?: "en" | "ta" | "hi";
     createdAt?: string;
     updatedAt?: string;
   };
@@ -0,0 +1,152 @@
+/**
+ * Live elevator status: users mark elevators as working or out of service,
+ * and routing steers around the ones reported broken
+ */
+import { fine } from './fine';
+import type { Schema } from './db-types';
+import type { LocalizedText } from './i18n';
+import type { EdgeCostFunction, GraphEdge, GraphNode, RoutingGraph } from './routing';
+
+export type ElevatorStatus = Schema['elevatorStatus'];
+export type ElevatorState = ElevatorStatus['status'];
+
+// Extra cost (meters) for using an elevator reported out of service. High
+// enough that any reasonable detour wins, but a route that has no other way
+// through still comes back so the problem can be flagged.
+export const BROKEN_ELEVATOR_PENALTY = 2000;
+
+/**
+ * An elevator in the routing graph: a highway=elevator node, or a way
+ * tagged highway=elevator
+ */
+export interface GraphElevator {
+  key: string;
+  location: [number, number];
+}
+
+export function getOsmElevatorKey(type: 'node' | 'way', id: number): string {
+  return `${type}:${id}`;
+}
+
+export function getPlaceElevatorKey(placeId: number): string {
+  return `place:${placeId}`;
+}
+
+/**
+ * Key of the elevator an edge rides, or null for ordinary edges
+ */
+export function getEdgeElevatorKey(edge: GraphEdge, target: GraphNode): string | null {
+  if (edge.tags.highway === 'elevator') return getOsmElevatorKey('way', edge.wayId);
+  if (target.tags.highway === 'elevator') return getOsmElevatorKey('node', target.id);
+  return null;
+}
+
+/**
+ * Every elevator reachable in a routing graph
+ */
+export function getGraphElevators(graph: RoutingGraph): GraphElevator[] {
+  const elevators = new Map<string, GraphElevator>();
+
+  graph.adjacency.forEach(edges => {
+    edges.forEach(edge => {
+      const target = graph.nodes.get(edge.to);
+      if (!target) return;
+
+      const key = getEdgeElevatorKey(edge, target);
+      if (key && !elevators.has(key)) {
+        elevators.set(key, { key, location: [target.lat, target.lon] });
+      }
+    });
+  });
+
+  return Array.from(elevators.values());
+}
+
+/**
+ * Current status of the given elevators, keyed by elevator key. Elevators
+ * nobody has reported on are left out.
+ */
+export async function getElevatorStatuses(keys: string[]): Promise<Map<string, ElevatorStatus>> {
+  const statuses = new Map<string, ElevatorStatus>();
+  if (keys.length === 0) return statuses;
+
+  const rows = await fine.table('elevatorStatus').select().in('elevatorKey', keys);
+  (rows || []).forEach(row => statuses.set(row.elevatorKey, row));
+
+  return statuses;
+}
+
+export async function getElevatorStatus(key: string): Promise<ElevatorStatus | null> {
+  const statuses = await getElevatorStatuses([key]);
+  return statuses.get(key) || null;
+}
+
+/**
+ * Report an elevator as working or out of service. Reporting the current
+ * status again counts as a confirmation.
+ */
+export async function reportElevatorStatus(
+  key: string,
+  status: ElevatorState,
+  userId?: string | null
+): Promise<ElevatorStatus | null> {
+  await fine.table('elevatorReports').insert({ elevatorKey: key, status, userId: userId ?? null });
+  return getElevatorStatus(key);
+}
+
+export function isOutOfService(status: ElevatorStatus | null | undefined): boolean {
+  return status?.status === 'out-of-service';
+}
+
+/**
+ * Parse a database timestamp ("YYYY-MM-DD HH:MM:SS", UTC)
+ */
+export function parseStatusTime(value: string): Date {
+  return new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+/**
+ * Short description such as "Out of service, reported 2 hours ago, confirmed by 3 people"
+ */
+export function describeElevatorStatus(status: ElevatorStatus, now: number = Date.now()): LocalizedText {
+  const params = {
+    state: { key: `elevator-state.${status.status}` } as LocalizedText,
+    age: formatAge(now - parseStatusTime(status.statusSince).getTime())
+  };
+
+  const confirmations = status.confirmations ?? 1;
+  if (confirmations > 1) {
+    return { key: 'elevator.status-confirmed', params: { ...params, count: confirmations } };
+  }
+
+  return { key: 'elevator.status', params };
+}
+
+/**
+ * Wrap an edge cost function so that elevators reported out of service are
+ * only used when there is no other way
+ */
+export function penalizeBrokenElevators(
+  costFn: EdgeCostFunction,
+  statuses: Map<string, ElevatorStatus>
+): EdgeCostFunction {
+  const hasBroken = Array.from(statuses.values()).some(isOutOfService);
+  if (!hasBroken) return costFn;
+
+  return (edge, target) => {
+    const cost = costFn(edge, target);
+    const key = getEdgeElevatorKey(edge, target);
+    return key && isOutOfService(statuses.get(key)) ? cost + BROKEN_ELEVATOR_PENALTY : cost;
+  };
+}
+
+function formatAge(milliseconds: number): LocalizedText {
+  const minutes = Math.max(0, Math.round(milliseconds / 60000));
+  if (minutes < 1) return { key: 'age.just-now' };
+  if (minutes < 60) return { key: 'age.minutes', params: { count: minutes } };
+
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return { key: 'age.hours', params: { count: hours } };
+
+  return { key: 'age.days', params: { count: Math.round(hours / 24) } };
+}
@@ -0,0 +1,102 @@
+/**
+ * Geographic helpers shared by the Overpass client, routing and navigation
+ */
+
+/**
+ * Calculate distance between two points in meters using Haversine formula
+ */
+export function calculateDistance(
+  point1: [number, number],
+  point2: [number, number]
+): number {
+  const R = 6371e3; // Earth's radius in meters
+  const φ1 = point1[0] * Math.PI / 180;
+  const φ2 = point2[0] * Math.PI / 180;
+  const Δφ = (point2[0] - point1[0]) * Math.PI / 180;
+  const Δλ = (point2[1] - point1[1]) * Math.PI / 180;
+
+  const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) +
+            Math.cos(φ1) * Math.cos(φ2) *
+            Math.sin(Δλ/2) * Math.sin(Δλ/2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+
+  return R * c;
+}
+
+/**
+ * Calculate total distance of a polyline in meters
+ */
+export function calculateTotalDistance(route: Array<[number, number]>): number {
+  let distance = 0;
+
+  for (let i = 1; i < route.length; i++) {
+    distance += calculateDistance(route[i-1], route[i]);
+  }
+
+  return distance;
+}
+
+/**
+ * Get the initial compass bearing (0-360, 0 = north) from one point to another
+ */
+export function getBearing(from: [number, number], to: [number, number]): number {
+  const φ1 = from[0] * Math.PI / 180;
+  const φ2 = to[0] * Math.PI / 180;
+  const Δλ = (to[1] - from[1]) * Math.PI / 180;
+
+  const y = Math.sin(Δλ) * Math.cos(φ2);
+  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+
+  const bearing = Math.atan2(y, x) * 180 / Math.PI;
+  return (bearing + 360) % 360;
+}
+
+/**
+ * Signed difference between two bearings in degrees (-180 to 180, positive = clockwise)
+ */
+export function getBearingDifference(from: number, to: number): number {
+  return ((to - from + 540) % 360) - 180;
+}
+
+export type CompassDirection =
+  | 'north'
+  | 'northeast'
+  | 'east'
+  | 'southeast'
+  | 'south'
+  | 'southwest'
+  | 'west'
+  | 'northwest';
+
+/**
+ * Compass point for a bearing
+ */
+export function getCompassDirection(bearing: number): CompassDirection {
+  const directions: CompassDirection[] = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'];
+  return directions[Math.round(bearing / 45) % 8];
+}
+
+/**
+ * Bounding box (south, west, north, east) around a set of points, padded by a margin in meters
+ */
+export function getPaddedBounds(
+  points: Array<[number, number]>,
+  paddingMeters: number
+): [number, number, number, number] {
+  const lats = points.map(point => point[0]);
+  const lngs = points.map(point => point[1]);
+  const south = Math.min(...lats);
+  const north = Math.max(...lats);
+
+  // One degree of latitude is ~111 km; longitude shrinks with cos(latitude)
+  const latPadding = paddingMeters / 111320;
+  const midLat = (south + north) / 2;
+  const lngPadding = paddingMeters / (111320 * Math.max(Math.cos(midLat * Math.PI / 180), 0.01));
+
+  return [
+    south - latPadding,
+    Math.min(...lngs) - lngPadding,
+    north + latPadding,
+    Math.max(...lngs) + lngPadding
+  ];
+}
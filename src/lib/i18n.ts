@@ -0,0 +1,114 @@
+/**
+ * UI translation: message lookup with plurals, and locale-aware number,
+ * distance and duration formatting
+ */
+import { getSpeechLang, interpolate, type Locale } from './locales';
+import en, { type MessageKey } from './messages/en';
+import ta from './messages/ta';
+import hi from './messages/hi';
+
+export type { MessageKey };
+
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+// A message with one form per plural category; 'other' is always required
+export type PluralMessage = Partial<Record<PluralCategory, string>> & { other: string };
+
+export type Message = string | PluralMessage;
+
+export type MessageBundle = Partial<Record<MessageKey, Message>>;
+
+/**
+ * A message that has not been rendered yet, so that library code can describe
+ * text (route steps, summaries, ratings) without knowing the locale
+ */
+export interface LocalizedText {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+// Nested texts are rendered in the same locale; lists are joined with commas
+export type MessageParam = string | number | LocalizedText | LocalizedText[];
+
+export type MessageParams = Record<string, MessageParam>;
+
+const BUNDLES: Record<Locale, MessageBundle> = { en, ta, hi };
+
+export function hasMessage(key: string): key is MessageKey {
+  return key in en;
+}
+
+/**
+ * The message for a key in the given locale, falling back to English. Pass
+ * `count` to pick a plural form; numeric params are formatted for the locale.
+ */
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const message: Message = BUNDLES[locale]?.[key] ?? en[key];
+  const template = typeof message === 'string'
+    ? message
+    : selectPluralForm(locale, message, Number(params.count ?? 0));
+
+  const formatted: Record<string, string> = {};
+  Object.entries(params).forEach(([name, value]) => {
+    formatted[name] = formatParam(locale, value);
+  });
+
+  return interpolate(template, formatted);
+}
+
+/**
+ * Render a LocalizedText in the given locale
+ */
+export function localize(locale: Locale, text: LocalizedText): string {
+  return translate(locale, text.key, text.params);
+}
+
+function formatParam(locale: Locale, value: MessageParam): string {
+  if (typeof value === 'number') return formatNumber(locale, value);
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.map(item => localize(locale, item)).join(', ');
+  return localize(locale, value);
+}
+
+function selectPluralForm(locale: Locale, message: PluralMessage, count: number): string {
+  const category = new Intl.PluralRules(getSpeechLang(locale)).select(count) as PluralCategory;
+  return message[category] ?? message.other;
+}
+
+export function formatNumber(locale: Locale, value: number, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(getSpeechLang(locale), options).format(value);
+}
+
+export function formatDate(locale: Locale, value: string | number | Date, options?: Intl.DateTimeFormatOptions): string {
+  return new Intl.DateTimeFormat(getSpeechLang(locale), options).format(new Date(value));
+}
+
+/**
+ * Walking distance, e.g. "350 m" or "1.2 km"
+ */
+export function formatDistance(locale: Locale, meters: number): string {
+  if (meters < 1000) {
+    return translate(locale, 'unit.meters', {
+      value: formatNumber(locale, Math.round(meters))
+    });
+  }
+
+  return translate(locale, 'unit.kilometers', {
+    value: formatNumber(locale, meters / 1000, { minimumFractionDigits: 1, maximumFractionDigits: 1 })
+  });
+}
+
+/**
+ * Walking time, e.g. "12 min" or "1 hr 5 min"
+ */
+export function formatDuration(locale: Locale, seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) {
+    return translate(locale, 'unit.minutes', { value: minutes });
+  }
+
+  return translate(locale, 'unit.hours-minutes', {
+    hours: Math.floor(minutes / 60),
+    minutes: minutes % 60
+  });
+}
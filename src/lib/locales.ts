@@ -0,0 +1,51 @@
+/**
+ * Languages the app speaks, and how each maps to browser speech and text settings
+ */
+
+export type Locale = 'en' | 'ta' | 'hi';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LocaleDefinition {
+  id: Locale;
+  label: string; // in its own language, so people can find it
+  englishLabel: string;
+  speechLang: string; // BCP 47 tag for speech recognition and synthesis, and for Intl formatting
+  dir: TextDirection;
+}
+
+export const SUPPORTED_LOCALES: LocaleDefinition[] = [
+  { id: 'en', label: 'English', englishLabel: 'English', speechLang: 'en-IN', dir: 'ltr' },
+  { id: 'ta', label: 'தமிழ்', englishLabel: 'Tamil', speechLang: 'ta-IN', dir: 'ltr' },
+  { id: 'hi', label: 'हिन्दी', englishLabel: 'Hindi', speechLang: 'hi-IN', dir: 'ltr' }
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Remembers the last locale so it applies before preferences load, and when signed out
+export const LOCALE_STORAGE_KEY = 'locale';
+
+/**
+ * A supported locale for a stored value or language tag ("ta-IN" -> "ta"), or the default
+ */
+export function toLocale(value: string | null | undefined): Locale {
+  const language = (value || '').toLowerCase().split(/[-_]/)[0];
+  return SUPPORTED_LOCALES.find(locale => locale.id === language)?.id || DEFAULT_LOCALE;
+}
+
+export function getSpeechLang(locale: Locale): string {
+  return SUPPORTED_LOCALES.find(entry => entry.id === locale)?.speechLang || 'en-IN';
+}
+
+export function getTextDirection(locale: Locale): TextDirection {
+  return SUPPORTED_LOCALES.find(entry => entry.id === locale)?.dir || 'ltr';
+}
+
+/**
+ * Fill {name} placeholders in a message
+ */
+export function interpolate(template: string, params: Record<string, string | number> = {}): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+}
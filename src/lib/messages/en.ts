@@ -0,0 +1,591 @@
+/**
+ * English strings for the screen and for the voice assistant. This bundle is
+ * complete and defines the message keys; the other bundles translate what
+ * they can and fall back to it.
+ *
+ * Placeholders are {name}. Messages that depend on a count give a form per
+ * plural category, picked with the locale's plural rules.
+ */
+const en = {
+  // Navigation bar
+  'nav.map': 'Map',
+  'nav.add': 'Add',
+  'nav.profile': 'Profile',
+  'nav.more': 'More',
+
+  // Units
+  'unit.meters': '{value} m',
+  'unit.kilometers': '{value} km',
+  'unit.minutes': '{value} min',
+  'unit.hours-minutes': '{hours} hr {minutes} min',
+  'unit.centimeters': '{value} cm',
+  'unit.percent': '{value}%',
+
+  // Common
+  'common.retry': 'Retry',
+  'common.cancel': 'Cancel',
+  'common.literal': '{text}',
+  'voice.unavailable': 'Voice recognition not available',
+  'location.error': 'Could not access your location: {message}',
+  'location.check-permissions': 'Could not access your location. Please check your location permissions.',
+  'location.using-default': 'Could not access your location. Using default location.',
+  'location.limited-navigation': 'Could not access your location. Some navigation features may be limited.',
+  'location.enable': 'Unable to get your location. Please enable location services.',
+
+  // Home and nearby places
+  'home.search-placeholder': 'Search for accessible places...',
+  'home.search': 'Search',
+  'home.nearby': 'Nearby',
+  'home.nearby-title': 'Nearby Places',
+  'places.load-failed': 'Error loading places',
+  'places.nearby-failed': 'Failed to load nearby places',
+  'places.none-nearby': 'No accessible places found nearby',
+  'places.distance-away': '{distance} away',
+  'places.filter.all': 'All',
+  'places.filter.restaurant': 'Restaurants',
+  'places.filter.hospital': 'Hospitals',
+  'places.filter.education': 'Education',
+  'places.filter.transport': 'Transport',
+  'places.filter.shopping': 'Shopping',
+
+  // Places
+  'place-type.restaurant': 'Restaurant',
+  'place-type.hospital': 'Hospital',
+  'place-type.education': 'Education',
+  'place-type.transport': 'Transport',
+  'place-type.shopping': 'Shopping',
+  'place-type.entertainment': 'Entertainment',
+  'place-type.other': 'Other',
+  'osm-wheelchair.yes': 'Wheelchair accessible',
+  'osm-wheelchair.limited': 'Limited wheelchair access',
+  'osm-wheelchair.no': 'Not wheelchair accessible',
+  'place.address-unavailable': 'Address not available',
+  'place.osm-status': 'OpenStreetMap: {status}',
+  'place.accessible': 'Accessible',
+  'place.more-features': '+{count} more',
+  'place.rating-label': 'Community rating {rating}',
+  'place.rating-label-reviews': {
+    one: 'Community rating {rating} from {count} review',
+    other: 'Community rating {rating} from {count} reviews'
+  },
+  'place.community-rating': {
+    one: 'Community rating, {count} review',
+    other: 'Community rating, {count} reviews'
+  },
+  'place.no-reviews': 'No reviews yet',
+  'place.title': 'Place Details',
+  'place.loading': 'Loading place details...',
+  'place.not-found': 'Place not found',
+  'place.not-found-detail': "The place you're looking for doesn't exist or has been removed.",
+  'place.load-failed': 'Failed to load place details',
+  'place.back-home': 'Back to Home',
+  'place.features': 'Accessibility Features',
+  'place.elevator-status': 'Elevator Status',
+  'place.reported-problems': 'Reported Problems',
+  'place.ratings-by-area': 'Ratings by Area',
+  'place.show-directions': 'Show Directions',
+  'place.add-review': 'Add Review',
+  'place.report-problem': 'Report A Problem',
+
+  // Routes
+  'route.options': 'Route options',
+  'route.crossings': {
+    one: '{count} crossing',
+    other: '{count} crossings'
+  },
+  'route.broken-elevator': 'Needs an elevator reported out of service',
+  'route.unverified': 'Straight line only. This route has not been checked for accessibility.',
+  'route.overview': 'Route Overview',
+  'route.from': 'From',
+  'route.to': 'To',
+  'route.elevators': 'Elevators on this route',
+  'route.elevator': 'Elevator {number}: {description}',
+  'route.elevator-working': "It's working",
+  'route.elevator-broken': "It's out of service",
+  'route.directions': 'Turn-by-turn directions',
+  'route.show-less': 'Less',
+  'route.show-more': 'More',
+  'route.step-accessible': 'Accessible',
+  'route.step-limited': 'Limited Access',
+  'route.more-steps': {
+    one: '+ {count} more step',
+    other: '+ {count} more steps'
+  },
+  'route.start': 'Start Navigation',
+
+  // Navigation
+  'navigation.title': 'Navigation',
+  'navigation.route-error': 'Error generating route',
+  'navigation.route-error-detail': 'Failed to generate route: {message}',
+  'navigation.route-failed': 'Failed to generate route',
+  'navigation.return-to-map': 'Return to Map',
+  'navigation.you-arrived': 'You have arrived',
+  'navigation.destination-reached': 'Destination reached',
+  'navigation.next-in': 'In {distance}: {instruction}',
+  'navigation.paused-label': 'Paused',
+  'navigation.distance-remaining': 'Distance remaining',
+  'navigation.time-remaining': 'Time remaining',
+  'navigation.arrival': 'Arrival',
+  'navigation.exit': 'Exit Navigation',
+  'navigation.not-available': 'N/A',
+  'route.current-location': 'Current Location',
+  'route.destination': 'Destination',
+  'elevator.update-failed': 'Failed to update elevator status',
+  'common.unknown-error': 'Unknown error',
+
+  // Accessibility feature categories
+  'feature-category.mobility': 'Mobility',
+  'feature-category.vision': 'Vision',
+  'feature-category.hearing': 'Hearing',
+  'feature-category.cognitive': 'Cognitive',
+  'feature-category.sensory': 'Sensory',
+
+  // Elevator status card
+  'elevator.title': 'Elevator',
+  'elevator.sign-in': 'You must be signed in to update the elevator status',
+
+  // Temporary barriers
+  'barrier-kind.construction': 'Construction',
+  'barrier-kind.broken-elevator': 'Broken elevator',
+  'barrier-kind.flooding': 'Flooding',
+  'barrier-kind.other': 'Other obstacle',
+  'barrier.until': 'Until {time}',
+  'barrier.form-title': 'Mark a temporary barrier',
+  'barrier.avoid-segment': 'Routes will avoid this stretch of path until the barrier expires.',
+  'barrier.avoid-spot': 'Routes will avoid this spot until the barrier expires.',
+  'barrier.duration': 'Expected to last',
+  'barrier.duration-hours': {
+    one: '{count} hour',
+    other: '{count} hours'
+  },
+  'barrier.duration-days': {
+    one: '{count} day',
+    other: '{count} days'
+  },
+  'barrier.details': 'Details (optional)',
+  'barrier.details-placeholder': 'For example: knee-deep water under the railway bridge',
+  'barrier.submit': 'Add barrier',
+  'barrier.sign-in': 'You must be signed in to mark a barrier',
+  'barrier.added-detail': 'Barrier added. Routes will avoid it until it expires.',
+  'barrier.add-failed': 'Failed to add barrier',
+
+  // Problem reports
+  'report-category.broken-elevator': 'Broken elevator',
+  'report-category.blocked-ramp': 'Blocked ramp',
+  'report-category.wrong-info': 'Wrong information',
+  'report-category.closed': 'Place closed',
+  'report-category.other': 'Other problem',
+  'report-status.open': 'Open',
+  'report-status.acknowledged': 'Acknowledged',
+  'report-status.resolved': 'Resolved',
+  'report.acknowledge': 'Acknowledge',
+  'report.resolve': 'Mark resolved',
+  'report.marked-acknowledged': 'Report marked acknowledged',
+  'report.marked-resolved': 'Report marked resolved',
+  'report.update-failed': 'Failed to update report',
+  'report.none-open': 'No open problems reported.',
+  'report.photo-of-reported': 'Photo of the reported problem',
+  'report.reported-on': 'Reported {date}',
+
+  // Ratings by area
+  'rating-dimension.entrance': 'Entrance',
+  'rating-dimension.entrance-question': 'How easy was it to get in?',
+  'rating-dimension.interior': 'Interior movement',
+  'rating-dimension.interior-question': 'How easy was it to move around inside?',
+  'rating-dimension.washroom': 'Washroom',
+  'rating-dimension.washroom-question': 'How accessible was the washroom?',
+  'rating-dimension.signage': 'Signage and vision',
+  'rating-dimension.signage-question': 'How clear were signs, lighting and contrast?',
+  'rating-dimension.hearing': 'Hearing support',
+  'rating-dimension.hearing-question': 'How well were hearing needs supported?',
+  'rating-dimension.staff': 'Staff helpfulness',
+  'rating-dimension.staff-question': 'How helpful were the staff?',
+  'rating-dimension.sensory': 'Sensory environment',
+  'rating-dimension.sensory-question': 'How comfortable were the noise, light and smells?',
+  'rating.out-of': '{dimension}: {score} out of {max}',
+  'rating.not-applicable': 'Not applicable',
+  'rating.no-details': 'No detailed ratings yet.',
+  'rating.dimension-average': {
+    one: '{average} ({count} review)',
+    other: '{average} ({count} reviews)'
+  },
+
+  // Search
+  'search.filter-features': 'Filter by accessibility features',
+  'search.filter-by-features': 'Filter by accessibility features:',
+  'search.no-results-title': 'No results found',
+  'search.no-results-hint': 'Try a different search term or filter',
+  'search.empty-title': 'Search for places',
+  'search.empty-hint': 'Enter a search term to find accessible places',
+
+  // Add place
+  'add-place.title': 'Add Place',
+  'add-place.name': 'Place Name *',
+  'add-place.name-placeholder': 'Enter place name',
+  'add-place.type': 'Place Type *',
+  'add-place.type-placeholder': 'Select place type',
+  'add-place.address': 'Address *',
+  'add-place.address-placeholder': 'Enter full address',
+  'add-place.phone': 'Phone Number',
+  'add-place.phone-placeholder': 'Enter phone number',
+  'add-place.website': 'Website',
+  'add-place.website-placeholder': 'Enter website URL',
+  'add-place.dictate': 'Dictate {field}',
+  'add-place.location': 'Location *',
+  'add-place.location-hint': 'Tap on the map to select the location or use your current location',
+  'add-place.selected-location': 'Selected Location',
+  'add-place.selected': 'Selected: {lat}, {lng}',
+  'add-place.use-current-location': 'Use My Current Location',
+  'add-place.features-hint': 'Select all accessibility features available at this location',
+  'add-place.photos': 'Photos',
+  'add-place.photos-hint': 'Add photos of the location and its accessibility features',
+  'add-place.add-photos': 'Add photos',
+  'add-place.field.name': 'place name',
+  'add-place.field.address': 'address',
+  'add-place.field.phone': 'phone number',
+  'add-place.field.website': 'website',
+
+  // Reviews
+  'review.title': 'Rate this place',
+  'review.sign-in': 'You must be signed in to add a review',
+  'review.rating-required': 'Please select an accessibility rating',
+  'review.added': 'Review added successfully',
+  'review.failed': 'Failed to add review',
+  'review.how-accessible': 'How accessible is this place?',
+  'review.accessible': 'Accessible',
+  'review.partially-accessible': 'Partially Accessible',
+  'review.not-accessible': 'Not Accessible',
+  'review.rate-areas': 'Rate each area',
+  'review.rate-areas-hint': 'Score what you experienced, or mark it not applicable',
+  'review.features': 'Select accessibility features',
+  'review.features-hint': 'Select all features available at this location',
+  'review.comment': 'Add a comment (optional)',
+  'review.comment-placeholder': 'Share your experience about the accessibility of this place...',
+  'review.characters-remaining': {
+    one: '{count} character remaining',
+    other: '{count} characters remaining'
+  },
+  'review.submit': 'Submit',
+
+  // Problem report form
+  'report.title': 'Report a problem',
+  'report.photo-failed': 'Could not add that photo',
+  'report.sign-in': 'You must be signed in to report a problem',
+  'report.send-failed': 'Failed to send report',
+  'report.whats-wrong': "What's wrong?",
+  'report.describe': 'Describe the problem',
+  'report.describe-placeholder': 'For example: the lift to the first floor has been out of order since Monday',
+  'report.location-attached': 'Your current location will be attached',
+  'report.location-unavailable': 'Location not available',
+  'report.photo': 'Photo (optional)',
+  'report.photo-of-problem': 'Photo of the problem',
+  'report.remove-photo': 'Remove photo',
+  'report.add-photo': 'Add a photo',
+  'report.sending': 'Sending report...',
+  'report.send': 'Send report',
+
+  // Profile
+  'profile.title': 'Profile',
+  'profile.account-description': 'Manage your account information',
+  'profile.edit': 'Edit Profile',
+  'profile.preferences': 'Accessibility Preferences',
+  'profile.preferences-description': 'Customize your navigation experience',
+  'profile.preferences-updated': 'Preferences updated',
+  'profile.preferences-update-failed': 'Failed to update preferences',
+  'profile.preferences-load-failed': 'Failed to load preferences',
+  'profile.mobility-aid': 'Mobility Aid',
+  'profile.select-mobility-aid': 'Select mobility aid',
+  'mobility-aid.none': 'None',
+  'mobility-aid.wheelchair': 'Wheelchair',
+  'mobility-aid.walker': 'Walker',
+  'mobility-aid.cane': 'Cane',
+  'mobility-aid.crutches': 'Crutches',
+  'profile.mobility-needs': 'Mobility Needs',
+  'profile.visual-needs': 'Visual Needs',
+  'profile.hearing-needs': 'Hearing Needs',
+  'profile.cognitive-needs': 'Cognitive Needs',
+  'profile.route-type': 'Preferred Route Type',
+  'profile.select-route-type': 'Select route type',
+  'route-type.shortest': 'Shortest',
+  'route-type.most-accessible': 'Most Accessible',
+  'route-type.fewest-steps': 'Fewest Steps',
+  'route-type.least-crowded': 'Least Crowded',
+  'profile.routing-limits': 'Routing Limits',
+  'profile.max-incline': 'Maximum incline',
+  'profile.max-kerb-height': 'Maximum kerb height',
+  'profile.min-path-width': 'Minimum path width',
+  'profile.max-rest-spacing': 'Maximum distance between rest spots',
+  'profile.profile-default': 'Profile default',
+  'profile.reset': 'Reset',
+  'profile.avoid-cobblestones': 'Avoid cobblestones',
+  'profile.avoid-unlit-paths': 'Avoid unlit paths',
+  'profile.sign-out': 'Sign Out',
+  'profile.sign-out-failed': 'Failed to sign out',
+  'profile.sign-in-prompt': 'Sign in to view your profile',
+  'profile.sign-in': 'Sign In',
+  'profile.sign-up': 'Sign Up',
+
+  // More
+  'more.title': 'More',
+  'more.preferences': 'Preferences',
+  'more.dark-mode': 'Dark Mode',
+  'more.notifications': 'Notifications',
+  'more.notifications-on': 'Notifications enabled',
+  'more.notifications-off': 'Notifications disabled',
+  'more.voice-assistant': 'Voice Assistant',
+  'more.language': 'Language',
+  'more.select-language': 'Select language',
+  'more.settings': 'Settings',
+  'more.support': 'Support',
+  'more.help': 'Help & FAQ',
+  'more.feedback': 'Send Feedback',
+  'more.privacy': 'Privacy Policy',
+  'more.about-section': 'About',
+  'more.about': 'About AccessMap',
+  'more.share': 'Share AccessMap',
+  'more.share-text': 'Check out AccessMap - Navigation for everyone',
+  'more.share-unsupported': 'Sharing is not supported on this device',
+  'more.rate': 'Rate the App',
+  'more.version': 'AccessMap v{version}',
+
+  // Route steps, built by the router from these keys
+  'step.head-on': 'Head {direction} on {way}',
+  'step.head-toward': 'Head {direction} toward your destination',
+  'step.head-toward-destination': 'Head toward your destination',
+  'step.turn-onto': '{turn} onto {way}',
+  'step.turn-cross': '{turn} and cross the road',
+  'step.turn-steps': '{turn} and take the steps',
+  'step.with-caution': '{instruction}. Caution: {issues}',
+  'step.arrive': 'Arrive at your destination',
+  'turn.continue': 'Continue',
+  'turn.slightly-left': 'Turn slightly left',
+  'turn.slightly-right': 'Turn slightly right',
+  'turn.left': 'Turn left',
+  'turn.right': 'Turn right',
+  'turn.sharp-left': 'Turn sharp left',
+  'turn.sharp-right': 'Turn sharp right',
+  'turn.around': 'Turn around',
+  'way.sidewalk': 'the sidewalk',
+  'way.footpath': 'the footpath',
+  'way.path': 'the path',
+  'way.steps': 'the steps',
+  'way.road': 'the road',
+  'direction.north': 'north',
+  'direction.northeast': 'northeast',
+  'direction.east': 'east',
+  'direction.southeast': 'southeast',
+  'direction.south': 'south',
+  'direction.southwest': 'southwest',
+  'direction.west': 'west',
+  'direction.northwest': 'northwest',
+
+  // Route barriers and summaries
+  'edge-issue.steps': 'steps',
+  'edge-issue.steep-incline': 'a steep slope',
+  'edge-issue.rough-surface': 'an uneven surface',
+  'edge-issue.raised-kerb': 'a raised kerb',
+  'edge-issue.narrow': 'a narrow path',
+  'edge-issue.not-wheelchair-accessible': 'a section marked not wheelchair accessible',
+  'edge-issue.uncontrolled-crossing': 'a crossing without signals',
+  'edge-issue.no-sidewalk': 'a road without a sidewalk',
+  'edge-issue.unlit': 'an unlit stretch',
+  'route.summary': 'Includes {issues}',
+  'route.summary-clear': 'No known barriers',
+  'route.issue-count': '{issue} (×{count})',
+  'route.broken-elevators': {
+    one: 'an elevator reported out of service',
+    other: '{count} elevators reported out of service'
+  },
+  'route-kind.most-accessible': 'Most accessible',
+  'route-kind.shortest': 'Shortest',
+  'route-kind.fewest-crossings': 'Fewest crossings',
+  'entrance.main': 'main entrance',
+  'entrance.accessible': 'accessible entrance',
+  'entrance.named': '{type} {name}',
+
+  // Elevator status
+  'elevator-state.working': 'Working',
+  'elevator-state.out-of-service': 'Out of service',
+  'elevator.status': '{state}, reported {age}',
+  'elevator.status-confirmed': '{state}, reported {age}, confirmed by {count} people',
+  'elevator.no-reports': 'No recent reports',
+  'elevator.no-reports-yet': 'No one has reported on this elevator yet.',
+  'age.just-now': 'just now',
+  'age.minutes': {
+    one: '{count} minute ago',
+    other: '{count} minutes ago'
+  },
+  'age.hours': {
+    one: '{count} hour ago',
+    other: '{count} hours ago'
+  },
+  'age.days': {
+    one: '{count} day ago',
+    other: '{count} days ago'
+  },
+
+  // Accessibility features, by feature ID
+  'feature.wheelchair-access': 'Wheelchair Access',
+  'feature.limited-wheelchair-access': 'Limited Wheelchair Access',
+  'feature.ramp': 'Ramp',
+  'feature.stopgap-ramp': 'StopGap Ramp',
+  'feature.elevator': 'Elevator',
+  'feature.handrails': 'Handrails',
+  'feature.accessible-entrance': 'Accessible Entrance',
+  'feature.alternative-entrance': 'Alternative Entrance',
+  'feature.automatic-doors': 'Automatic Doors',
+  'feature.accessible-washroom': 'Accessible Washroom',
+  'feature.gender-neutral-washroom': 'Gender Neutral Washroom',
+  'feature.accessible-parking': 'Accessible Parking',
+  'feature.spacious': 'Spacious',
+  'feature.outdoor-access-only': 'Outdoor Access Only',
+  'feature.tactile-paving': 'Tactile Paving',
+  'feature.braille': 'Braille',
+  'feature.large-print': 'Large Print',
+  'feature.bright-lighting': 'Bright Lighting',
+  'feature.hearing-loop': 'Hearing Loop',
+  'feature.sign-language': 'Sign Language',
+  'feature.easy-read': 'Easy Read Information',
+  'feature.clear-signage': 'Clear Signage',
+  'feature.quiet': 'Quiet',
+  'feature.scent-free': 'Scent-free',
+
+  // Ratings
+  'rating.summary': {
+    one: 'Rated {rating} from {count} review',
+    other: 'Rated {rating} from {count} reviews'
+  },
+
+  // Voice commands
+  'command.not-understood': "I didn't understand that command. Please try again.",
+  'command.not-caught': "I didn't catch that. Please try again.",
+  'command.what-to-do': 'What would you like to do?',
+  'command.help': 'You can say: {commands}',
+  'command.ask-search': 'What would you like to search for?',
+  'command.ask-destination': 'Where would you like to navigate to?',
+
+  // Spoken: home, map and nearby places
+  'app.welcome': 'Welcome to AccessMap. Your accessible navigation assistant.',
+  'places.found': {
+    one: 'Found {count} accessible place.',
+    other: 'Found {count} accessible places.'
+  },
+  'places.found-nearby': {
+    one: 'Found {count} accessible place nearby.',
+    other: 'Found {count} accessible places nearby.'
+  },
+  'places.showing-nearby': 'Showing nearby places',
+  'location.unavailable': 'Could not access your location',
+  'location.unavailable-limited': 'Could not access your location. Some features may be limited.',
+  'location.using-current': 'Using your current location',
+  'map.ready': 'Location found. Map is ready.',
+  'map.route-shown': 'Route generated. Follow the blue line on the map.',
+  'barrier.tap-start': 'Tap the map where the barrier is.',
+  'barrier.start-placed': 'Barrier start placed. Tap a second point for a stretch of path, or press done.',
+  'barrier.added': 'Barrier added',
+
+  // Spoken: search
+  'search.searching': 'Searching for {query}',
+  'search.results': {
+    one: 'Found {count} result for {query}',
+    other: 'Found {count} results for {query}'
+  },
+  'search.no-results': 'No results found for {query}',
+  'search.failed': 'Error searching for places',
+
+  // Spoken: route planning and navigation
+  'route.invalid': 'Invalid route parameters. Please try again.',
+  'route.missing': 'Missing route parameters. Returning to map.',
+  'route.generating': 'Generating accessible route...',
+  'route.ready': 'Route generated successfully.',
+  'route.ready-options': {
+    one: 'Route generated successfully. {count} route option available.',
+    other: 'Route generated successfully. {count} route options available.'
+  },
+  'route.failed': 'Could not find an accessible route. Showing a straight line instead.',
+  'route.simplified': 'The straight line has not been checked for accessibility. Take care.',
+  'route.selected': '{label} route selected. {distance}, {crossings}. {description}.',
+  'route.broken-elevator-warning': 'Warning. This route needs an elevator that was reported out of service.',
+  'elevator.updated': 'Thanks, elevator status updated',
+  'guidance.enabled': 'Voice guidance enabled',
+  'guidance.disabled': 'Voice guidance disabled',
+  'navigation.starting-step': 'Starting navigation to {destination}. {instruction}',
+  'navigation.off-route': 'You are off route. Recalculating.',
+  'navigation.new-route': 'New route found. {instruction}',
+  'navigation.reroute-failed': 'Could not find a new route. Head back to the route on the map.',
+  'navigation.paused': 'Navigation paused',
+  'navigation.resumed': 'Navigation resumed',
+  'navigation.exiting': 'Exiting navigation',
+  'navigation.arrived': 'You have arrived at {destination}.',
+  'navigation.arrived-destination': 'You have arrived at your destination.',
+  'navigation.entrance-reached': 'You have reached the {entrance}.',
+  'navigation.entrance-direction': 'The {entrance} is {distance} to the {direction}.',
+  'navigation.next-step': 'Next: {instruction}',
+  'navigation.upcoming': 'In {meters} meters: {instruction}',
+  'navigation.last-step': 'This is the last step.',
+  'navigation.how-far': '{distance} to go, about {duration}.',
+  'navigation.not-started': 'Navigation has not started yet.',
+
+  // Spoken: places
+  'place.summary': '{name}. {rating}.',
+  'place.summary-features': {
+    one: '{name}. {rating}. {count} accessibility feature: {features}',
+    other: '{name}. {rating}. {count} accessibility features including {features}'
+  },
+  'place.directions': 'Showing directions to {name}',
+  'place.calling': 'Calling {name}',
+  'place.website': 'Opening website for {name}',
+  'place.no-phone': 'This place has no phone number.',
+  'place.review': 'Rated {rating} out of 5. {comment}',
+  'add-place.intro': 'Add place page. Fill in the details to add a new accessible place.',
+  'add-place.location-selected': 'Location selected',
+  'add-place.say-field': 'Please say the {field}',
+  'add-place.field-set': '{field} set to {value}',
+  'add-place.sign-in': 'You must be signed in to add a place',
+  'add-place.required': 'Please fill in all required fields',
+  'add-place.adding': 'Adding place...',
+  'add-place.added': 'Place added successfully',
+  'add-place.failed': 'Failed to add place',
+  'report.intro': 'Report a problem. Choose what is wrong and describe it.',
+  'report.required': 'Please choose a problem and describe it',
+  'report.sent': 'Thanks, your report has been sent',
+
+  // Spoken: pages and settings
+  'page.add-review': 'Add review page',
+  'page.report-problem': 'Report a problem page',
+  'page.more': 'More options page',
+  'page.settings': 'Settings page',
+  'page.edit-profile': 'Edit profile page',
+  'page.help': 'Help and frequently asked questions page',
+  'page.feedback': 'Send feedback page',
+  'page.privacy': 'Privacy policy page',
+  'page.about': 'About AccessMap page',
+  'settings.dark-mode-on': 'Dark mode enabled',
+  'settings.dark-mode-off': 'Dark mode disabled',
+  'settings.voice-on': 'Voice assistant enabled',
+  'settings.voice-off': 'Voice assistant disabled',
+  'settings.preference-updated': 'Preference updated',
+  'settings.language-changed': 'Language changed to English',
+  'settings.opening-app-store': 'Opening app store',
+  'account.signing-out': 'Signing out',
+
+  // How "help" names each command
+  'help.open-page': 'go to map',
+  'help.navigate': 'take me to a place',
+  'help.search': 'find an accessible toilet nearby',
+  'help.add-place': 'add place',
+  'help.go-back': 'go back',
+  'help.help': 'help',
+  'help.next-step': 'next step',
+  'help.repeat': 'repeat',
+  'help.pause-navigation': 'pause navigation',
+  'help.resume-navigation': 'resume navigation',
+  'help.how-far': 'how far',
+  'help.call': 'call',
+  'help.directions': 'directions',
+  'help.read-reviews': 'read reviews'
+};
+
+export type MessageKey = keyof typeof en;
+
+export default en;
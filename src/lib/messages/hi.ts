@@ -0,0 +1,556 @@
+/**
+ * Hindi strings for the screen and for the voice assistant
+ */
+import type { MessageBundle } from '../i18n';
+
+const hi: MessageBundle = {
+  'nav.map': 'नक्शा',
+  'nav.add': 'जोड़ें',
+  'nav.profile': 'प्रोफ़ाइल',
+  'nav.more': 'और',
+
+  'unit.meters': '{value} मी',
+  'unit.kilometers': '{value} कि.मी.',
+  'unit.minutes': '{value} मिनट',
+  'unit.hours-minutes': '{hours} घंटे {minutes} मिनट',
+  'unit.centimeters': '{value} सेमी',
+  'unit.percent': '{value}%',
+
+  'common.retry': 'फिर से कोशिश करें',
+  'common.cancel': 'रद्द करें',
+  'common.literal': '{text}',
+  'voice.unavailable': 'आवाज़ पहचान उपलब्ध नहीं है',
+  'location.error': 'आपकी लोकेशन नहीं मिल सकी: {message}',
+  'location.check-permissions': 'आपकी लोकेशन नहीं मिल सकी। कृपया लोकेशन की अनुमति जाँचें।',
+  'location.using-default': 'आपकी लोकेशन नहीं मिल सकी। डिफ़ॉल्ट लोकेशन इस्तेमाल हो रही है।',
+  'location.limited-navigation': 'आपकी लोकेशन नहीं मिल सकी। नेविगेशन की कुछ सुविधाएँ सीमित हो सकती हैं।',
+  'location.enable': 'आपकी लोकेशन नहीं मिल रही। कृपया लोकेशन सेवाएँ चालू करें।',
+
+  'home.search-placeholder': 'सुलभ जगहें खोजें...',
+  'home.search': 'खोजें',
+  'home.nearby': 'आस-पास',
+  'home.nearby-title': 'आस-पास की जगहें',
+  'places.load-failed': 'जगहें लोड करने में त्रुटि',
+  'places.nearby-failed': 'आस-पास की जगहें लोड नहीं हो सकीं',
+  'places.none-nearby': 'पास में कोई सुलभ जगह नहीं मिली',
+  'places.distance-away': '{distance} दूर',
+  'places.filter.all': 'सभी',
+  'places.filter.restaurant': 'रेस्टोरेंट',
+  'places.filter.hospital': 'अस्पताल',
+  'places.filter.education': 'शिक्षा',
+  'places.filter.transport': 'परिवहन',
+  'places.filter.shopping': 'खरीदारी',
+
+  'place-type.restaurant': 'रेस्टोरेंट',
+  'place-type.hospital': 'अस्पताल',
+  'place-type.education': 'शिक्षा',
+  'place-type.transport': 'परिवहन',
+  'place-type.shopping': 'खरीदारी',
+  'place-type.entertainment': 'मनोरंजन',
+  'place-type.other': 'अन्य',
+  'osm-wheelchair.yes': 'व्हीलचेयर से पहुँचा जा सकता है',
+  'osm-wheelchair.limited': 'व्हीलचेयर के लिए सीमित पहुँच',
+  'osm-wheelchair.no': 'व्हीलचेयर से पहुँचा नहीं जा सकता',
+  'place.address-unavailable': 'पता उपलब्ध नहीं है',
+  'place.osm-status': 'OpenStreetMap: {status}',
+  'place.accessible': 'सुलभ',
+  'place.more-features': '+{count} और',
+  'place.rating-label': 'सामुदायिक रेटिंग {rating}',
+  'place.rating-label-reviews': {
+    one: '{count} समीक्षा से सामुदायिक रेटिंग {rating}',
+    other: '{count} समीक्षाओं से सामुदायिक रेटिंग {rating}'
+  },
+  'place.community-rating': {
+    one: 'सामुदायिक रेटिंग, {count} समीक्षा',
+    other: 'सामुदायिक रेटिंग, {count} समीक्षाएँ'
+  },
+  'place.no-reviews': 'अभी कोई समीक्षा नहीं',
+  'place.title': 'जगह का विवरण',
+  'place.loading': 'जगह का विवरण लोड हो रहा है...',
+  'place.not-found': 'जगह नहीं मिली',
+  'place.not-found-detail': 'आप जो जगह खोज रहे हैं वह मौजूद नहीं है या हटा दी गई है।',
+  'place.load-failed': 'जगह का विवरण लोड नहीं हो सका',
+  'place.back-home': 'होम पर वापस जाएँ',
+  'place.features': 'सुलभता सुविधाएँ',
+  'place.elevator-status': 'लिफ़्ट की स्थिति',
+  'place.reported-problems': 'रिपोर्ट की गई समस्याएँ',
+  'place.ratings-by-area': 'क्षेत्र के अनुसार रेटिंग',
+  'place.show-directions': 'रास्ता दिखाएँ',
+  'place.add-review': 'समीक्षा जोड़ें',
+  'place.report-problem': 'समस्या रिपोर्ट करें',
+
+  'route.options': 'रास्ते के विकल्प',
+  'route.crossings': {
+    one: '{count} क्रॉसिंग',
+    other: '{count} क्रॉसिंग'
+  },
+  'route.broken-elevator': 'ऐसी लिफ़्ट की ज़रूरत है जो खराब बताई गई है',
+  'route.unverified': 'सिर्फ़ सीधी रेखा। इस रास्ते की सुलभता जाँची नहीं गई है।',
+  'route.overview': 'रास्ते का सारांश',
+  'route.from': 'से',
+  'route.to': 'तक',
+  'route.elevators': 'इस रास्ते की लिफ़्टें',
+  'route.elevator': 'लिफ़्ट {number}: {description}',
+  'route.elevator-working': 'यह चल रही है',
+  'route.elevator-broken': 'यह खराब है',
+  'route.directions': 'मोड़-दर-मोड़ निर्देश',
+  'route.show-less': 'कम',
+  'route.show-more': 'और',
+  'route.step-accessible': 'सुलभ',
+  'route.step-limited': 'सीमित पहुँच',
+  'route.more-steps': {
+    one: '+ {count} और कदम',
+    other: '+ {count} और कदम'
+  },
+  'route.start': 'नेविगेशन शुरू करें',
+
+  'navigation.title': 'नेविगेशन',
+  'navigation.route-error': 'रास्ता बनाने में त्रुटि',
+  'navigation.route-error-detail': 'रास्ता नहीं बन सका: {message}',
+  'navigation.route-failed': 'रास्ता नहीं बन सका',
+  'navigation.return-to-map': 'मानचित्र पर लौटें',
+  'navigation.you-arrived': 'आप पहुँच गए हैं',
+  'navigation.destination-reached': 'मंज़िल आ गई',
+  'navigation.next-in': '{distance} में: {instruction}',
+  'navigation.paused-label': 'रुका हुआ',
+  'navigation.distance-remaining': 'बची हुई दूरी',
+  'navigation.time-remaining': 'बचा हुआ समय',
+  'navigation.arrival': 'पहुँचने का समय',
+  'navigation.exit': 'नेविगेशन से बाहर निकलें',
+  'navigation.not-available': 'उपलब्ध नहीं',
+  'route.current-location': 'वर्तमान स्थान',
+  'route.destination': 'मंज़िल',
+  'elevator.update-failed': 'लिफ़्ट की स्थिति अपडेट नहीं हो सकी',
+  'common.unknown-error': 'अज्ञात त्रुटि',
+
+  'feature-category.mobility': 'गतिशीलता',
+  'feature-category.vision': 'दृष्टि',
+  'feature-category.hearing': 'श्रवण',
+  'feature-category.cognitive': 'संज्ञानात्मक',
+  'feature-category.sensory': 'संवेदी',
+
+  'elevator.title': 'लिफ़्ट',
+  'elevator.sign-in': 'लिफ़्ट की स्थिति अपडेट करने के लिए साइन इन करें',
+
+  'barrier-kind.construction': 'निर्माण कार्य',
+  'barrier-kind.broken-elevator': 'खराब लिफ्ट',
+  'barrier-kind.flooding': 'जलभराव',
+  'barrier-kind.other': 'अन्य बाधा',
+  'barrier.until': '{time} तक',
+  'barrier.form-title': 'अस्थायी बाधा चिह्नित करें',
+  'barrier.avoid-segment': 'बाधा समाप्त होने तक मार्ग रास्ते के इस हिस्से से बचेंगे।',
+  'barrier.avoid-spot': 'बाधा समाप्त होने तक मार्ग इस जगह से बचेंगे।',
+  'barrier.duration': 'कितनी देर रहेगी',
+  'barrier.duration-hours': {
+    one: '{count} घंटा',
+    other: '{count} घंटे'
+  },
+  'barrier.duration-days': {
+    one: '{count} दिन',
+    other: '{count} दिन'
+  },
+  'barrier.details': 'विवरण (वैकल्पिक)',
+  'barrier.details-placeholder': 'उदाहरण: रेलवे पुल के नीचे घुटनों तक पानी',
+  'barrier.submit': 'बाधा जोड़ें',
+  'barrier.sign-in': 'बाधा चिह्नित करने के लिए आपको साइन इन करना होगा',
+  'barrier.added-detail': 'बाधा जोड़ी गई। इसके समाप्त होने तक मार्ग इससे बचेंगे।',
+  'barrier.add-failed': 'बाधा जोड़ने में विफल',
+
+  'report-category.broken-elevator': 'खराब लिफ्ट',
+  'report-category.blocked-ramp': 'अवरुद्ध रैंप',
+  'report-category.wrong-info': 'गलत जानकारी',
+  'report-category.closed': 'जगह बंद है',
+  'report-category.other': 'अन्य समस्या',
+  'report-status.open': 'खुली',
+  'report-status.acknowledged': 'स्वीकार की गई',
+  'report-status.resolved': 'हल हो गई',
+  'report.acknowledge': 'स्वीकार करें',
+  'report.resolve': 'हल के रूप में चिह्नित करें',
+  'report.marked-acknowledged': 'रिपोर्ट स्वीकार की गई के रूप में चिह्नित',
+  'report.marked-resolved': 'रिपोर्ट हल के रूप में चिह्नित',
+  'report.update-failed': 'रिपोर्ट अपडेट करने में विफल',
+  'report.none-open': 'कोई खुली समस्या रिपोर्ट नहीं की गई है।',
+  'report.photo-of-reported': 'रिपोर्ट की गई समस्या की तस्वीर',
+  'report.reported-on': '{date} को रिपोर्ट किया गया',
+
+  'rating-dimension.entrance': 'प्रवेश द्वार',
+  'rating-dimension.entrance-question': 'अंदर जाना कितना आसान था?',
+  'rating-dimension.interior': 'अंदर आवाजाही',
+  'rating-dimension.interior-question': 'अंदर घूमना-फिरना कितना आसान था?',
+  'rating-dimension.washroom': 'शौचालय',
+  'rating-dimension.washroom-question': 'शौचालय कितना सुलभ था?',
+  'rating-dimension.signage': 'संकेत और दृष्टि',
+  'rating-dimension.signage-question': 'संकेत, रोशनी और कंट्रास्ट कितने साफ़ थे?',
+  'rating-dimension.hearing': 'सुनने में सहायता',
+  'rating-dimension.hearing-question': 'सुनने की ज़रूरतों का कितना ध्यान रखा गया?',
+  'rating-dimension.staff': 'कर्मचारियों की मदद',
+  'rating-dimension.staff-question': 'कर्मचारी कितने मददगार थे?',
+  'rating-dimension.sensory': 'संवेदी माहौल',
+  'rating-dimension.sensory-question': 'शोर, रोशनी और गंध कितनी आरामदायक थीं?',
+  'rating.out-of': '{dimension}: {max} में से {score}',
+  'rating.not-applicable': 'लागू नहीं',
+  'rating.no-details': 'अभी कोई विस्तृत रेटिंग नहीं है।',
+  'rating.dimension-average': {
+    one: '{average} ({count} समीक्षा)',
+    other: '{average} ({count} समीक्षाएं)'
+  },
+
+  'search.filter-features': 'सुलभता सुविधाओं से फ़िल्टर करें',
+  'search.filter-by-features': 'सुलभता सुविधाओं से फ़िल्टर करें:',
+  'search.no-results-title': 'कोई परिणाम नहीं मिला',
+  'search.no-results-hint': 'कोई दूसरा खोज शब्द या फ़िल्टर आज़माएं',
+  'search.empty-title': 'जगहें खोजें',
+  'search.empty-hint': 'सुलभ जगहें खोजने के लिए कोई खोज शब्द लिखें',
+
+  'add-place.title': 'जगह जोड़ें',
+  'add-place.name': 'जगह का नाम *',
+  'add-place.name-placeholder': 'जगह का नाम लिखें',
+  'add-place.type': 'जगह का प्रकार *',
+  'add-place.type-placeholder': 'जगह का प्रकार चुनें',
+  'add-place.address': 'पता *',
+  'add-place.address-placeholder': 'पूरा पता लिखें',
+  'add-place.phone': 'फ़ोन नंबर',
+  'add-place.phone-placeholder': 'फ़ोन नंबर लिखें',
+  'add-place.website': 'वेबसाइट',
+  'add-place.website-placeholder': 'वेबसाइट का URL लिखें',
+  'add-place.dictate': '{field} बोलकर लिखें',
+  'add-place.location': 'स्थान *',
+  'add-place.location-hint': 'स्थान चुनने के लिए मानचित्र पर टैप करें या अपने मौजूदा स्थान का उपयोग करें',
+  'add-place.selected-location': 'चुना गया स्थान',
+  'add-place.selected': 'चुना गया: {lat}, {lng}',
+  'add-place.use-current-location': 'मेरा मौजूदा स्थान इस्तेमाल करें',
+  'add-place.features-hint': 'इस जगह पर उपलब्ध सभी सुलभता सुविधाएं चुनें',
+  'add-place.photos': 'तस्वीरें',
+  'add-place.photos-hint': 'जगह और उसकी सुलभता सुविधाओं की तस्वीरें जोड़ें',
+  'add-place.add-photos': 'तस्वीरें जोड़ें',
+  'add-place.field.name': 'जगह का नाम',
+  'add-place.field.address': 'पता',
+  'add-place.field.phone': 'फ़ोन नंबर',
+  'add-place.field.website': 'वेबसाइट',
+
+  'review.title': 'इस जगह को रेट करें',
+  'review.sign-in': 'समीक्षा जोड़ने के लिए आपको साइन इन करना होगा',
+  'review.rating-required': 'कृपया सुलभता रेटिंग चुनें',
+  'review.added': 'समीक्षा सफलतापूर्वक जोड़ी गई',
+  'review.failed': 'समीक्षा जोड़ने में विफल',
+  'review.how-accessible': 'यह जगह कितनी सुलभ है?',
+  'review.accessible': 'सुलभ',
+  'review.partially-accessible': 'आंशिक रूप से सुलभ',
+  'review.not-accessible': 'सुलभ नहीं',
+  'review.rate-areas': 'हर हिस्से को रेट करें',
+  'review.rate-areas-hint': 'जो अनुभव किया उसे अंक दें, या लागू नहीं चिह्नित करें',
+  'review.features': 'सुलभता सुविधाएं चुनें',
+  'review.features-hint': 'इस जगह पर उपलब्ध सभी सुविधाएं चुनें',
+  'review.comment': 'टिप्पणी जोड़ें (वैकल्पिक)',
+  'review.comment-placeholder': 'इस जगह की सुलभता के बारे में अपना अनुभव साझा करें...',
+  'review.characters-remaining': {
+    one: '{count} अक्षर बाकी',
+    other: '{count} अक्षर बाकी'
+  },
+  'review.submit': 'जमा करें',
+
+  'report.title': 'समस्या की रिपोर्ट करें',
+  'report.photo-failed': 'वह तस्वीर नहीं जोड़ी जा सकी',
+  'report.sign-in': 'समस्या की रिपोर्ट करने के लिए आपको साइन इन करना होगा',
+  'report.send-failed': 'रिपोर्ट भेजने में विफल',
+  'report.whats-wrong': 'क्या समस्या है?',
+  'report.describe': 'समस्या का वर्णन करें',
+  'report.describe-placeholder': 'उदाहरण: पहली मंज़िल की लिफ्ट सोमवार से खराब है',
+  'report.location-attached': 'आपका मौजूदा स्थान साथ में भेजा जाएगा',
+  'report.location-unavailable': 'स्थान उपलब्ध नहीं है',
+  'report.photo': 'तस्वीर (वैकल्पिक)',
+  'report.photo-of-problem': 'समस्या की तस्वीर',
+  'report.remove-photo': 'तस्वीर हटाएं',
+  'report.add-photo': 'तस्वीर जोड़ें',
+  'report.sending': 'रिपोर्ट भेजी जा रही है...',
+  'report.send': 'रिपोर्ट भेजें',
+
+  'profile.title': 'प्रोफ़ाइल',
+  'profile.account-description': 'अपने खाते की जानकारी प्रबंधित करें',
+  'profile.edit': 'प्रोफ़ाइल संपादित करें',
+  'profile.preferences': 'सुलभता प्राथमिकताएं',
+  'profile.preferences-description': 'अपने नेविगेशन अनुभव को अपने अनुसार बनाएं',
+  'profile.preferences-updated': 'प्राथमिकताएं अपडेट की गईं',
+  'profile.preferences-update-failed': 'प्राथमिकताएं अपडेट करने में विफल',
+  'profile.preferences-load-failed': 'प्राथमिकताएं लोड करने में विफल',
+  'profile.mobility-aid': 'चलने का सहायक साधन',
+  'profile.select-mobility-aid': 'सहायक साधन चुनें',
+  'mobility-aid.none': 'कोई नहीं',
+  'mobility-aid.wheelchair': 'व्हीलचेयर',
+  'mobility-aid.walker': 'वॉकर',
+  'mobility-aid.cane': 'छड़ी',
+  'mobility-aid.crutches': 'बैसाखी',
+  'profile.mobility-needs': 'गतिशीलता संबंधी ज़रूरतें',
+  'profile.visual-needs': 'दृष्टि संबंधी ज़रूरतें',
+  'profile.hearing-needs': 'श्रवण संबंधी ज़रूरतें',
+  'profile.cognitive-needs': 'संज्ञानात्मक ज़रूरतें',
+  'profile.route-type': 'पसंदीदा मार्ग प्रकार',
+  'profile.select-route-type': 'मार्ग प्रकार चुनें',
+  'route-type.shortest': 'सबसे छोटा',
+  'route-type.most-accessible': 'सबसे सुलभ',
+  'route-type.fewest-steps': 'सबसे कम सीढ़ियां',
+  'route-type.least-crowded': 'सबसे कम भीड़',
+  'profile.routing-limits': 'मार्ग की सीमाएं',
+  'profile.max-incline': 'अधिकतम ढलान',
+  'profile.max-kerb-height': 'अधिकतम कर्ब ऊंचाई',
+  'profile.min-path-width': 'रास्ते की न्यूनतम चौड़ाई',
+  'profile.max-rest-spacing': 'आराम की जगहों के बीच अधिकतम दूरी',
+  'profile.profile-default': 'प्रोफ़ाइल डिफ़ॉल्ट',
+  'profile.reset': 'रीसेट करें',
+  'profile.avoid-cobblestones': 'पत्थर जड़े रास्तों से बचें',
+  'profile.avoid-unlit-paths': 'बिना रोशनी वाले रास्तों से बचें',
+  'profile.sign-out': 'साइन आउट करें',
+  'profile.sign-out-failed': 'साइन आउट करने में विफल',
+  'profile.sign-in-prompt': 'अपनी प्रोफ़ाइल देखने के लिए साइन इन करें',
+  'profile.sign-in': 'साइन इन करें',
+  'profile.sign-up': 'साइन अप करें',
+
+  'more.title': 'और',
+  'more.preferences': 'प्राथमिकताएँ',
+  'more.dark-mode': 'डार्क मोड',
+  'more.notifications': 'सूचनाएँ',
+  'more.notifications-on': 'सूचनाएँ चालू की गईं',
+  'more.notifications-off': 'सूचनाएँ बंद की गईं',
+  'more.voice-assistant': 'वॉइस असिस्टेंट',
+  'more.language': 'भाषा',
+  'more.select-language': 'भाषा चुनें',
+  'more.settings': 'सेटिंग्स',
+  'more.support': 'सहायता',
+  'more.help': 'मदद और सवाल-जवाब',
+  'more.feedback': 'फ़ीडबैक भेजें',
+  'more.privacy': 'गोपनीयता नीति',
+  'more.about-section': 'परिचय',
+  'more.about': 'AccessMap के बारे में',
+  'more.share': 'AccessMap शेयर करें',
+  'more.share-text': 'AccessMap देखें - सबके लिए नेविगेशन',
+  'more.share-unsupported': 'इस डिवाइस पर शेयर करना समर्थित नहीं है',
+  'more.rate': 'ऐप को रेट करें',
+  'more.version': 'AccessMap संस्करण {version}',
+
+  'step.head-on': '{direction} की ओर {way} पर चलें',
+  'step.head-toward': '{direction} की ओर मंज़िल की तरफ़ चलें',
+  'step.head-toward-destination': 'मंज़िल की ओर चलें',
+  'step.turn-onto': '{turn} और {way} पर चलें',
+  'step.turn-cross': '{turn} और सड़क पार करें',
+  'step.turn-steps': '{turn} और सीढ़ियों से जाएँ',
+  'step.with-caution': '{instruction}। सावधान: {issues}',
+  'step.arrive': 'अपनी मंज़िल पर पहुँचें',
+  'turn.continue': 'सीधे चलते रहें',
+  'turn.slightly-left': 'थोड़ा बाएँ मुड़ें',
+  'turn.slightly-right': 'थोड़ा दाएँ मुड़ें',
+  'turn.left': 'बाएँ मुड़ें',
+  'turn.right': 'दाएँ मुड़ें',
+  'turn.sharp-left': 'तेज़ी से बाएँ मुड़ें',
+  'turn.sharp-right': 'तेज़ी से दाएँ मुड़ें',
+  'turn.around': 'पीछे मुड़ें',
+  'way.sidewalk': 'फ़ुटपाथ',
+  'way.footpath': 'पैदल रास्ता',
+  'way.path': 'रास्ता',
+  'way.steps': 'सीढ़ियाँ',
+  'way.road': 'सड़क',
+  'direction.north': 'उत्तर',
+  'direction.northeast': 'उत्तर-पूर्व',
+  'direction.east': 'पूर्व',
+  'direction.southeast': 'दक्षिण-पूर्व',
+  'direction.south': 'दक्षिण',
+  'direction.southwest': 'दक्षिण-पश्चिम',
+  'direction.west': 'पश्चिम',
+  'direction.northwest': 'उत्तर-पश्चिम',
+
+  'edge-issue.steps': 'सीढ़ियाँ',
+  'edge-issue.steep-incline': 'खड़ी ढलान',
+  'edge-issue.rough-surface': 'ऊबड़-खाबड़ सतह',
+  'edge-issue.raised-kerb': 'ऊँचा किनारा',
+  'edge-issue.narrow': 'संकरा रास्ता',
+  'edge-issue.not-wheelchair-accessible': 'व्हीलचेयर के लिए अनुपयुक्त बताया गया हिस्सा',
+  'edge-issue.uncontrolled-crossing': 'बिना सिग्नल वाली क्रॉसिंग',
+  'edge-issue.no-sidewalk': 'बिना फ़ुटपाथ वाली सड़क',
+  'edge-issue.unlit': 'बिना रोशनी वाला हिस्सा',
+  'route.summary': 'इसमें शामिल: {issues}',
+  'route.summary-clear': 'कोई ज्ञात रुकावट नहीं',
+  'route.issue-count': '{issue} (×{count})',
+  'route.broken-elevators': {
+    one: 'खराब बताई गई एक लिफ़्ट',
+    other: 'खराब बताई गई {count} लिफ़्टें'
+  },
+  'route-kind.most-accessible': 'सबसे सुलभ',
+  'route-kind.shortest': 'सबसे छोटा',
+  'route-kind.fewest-crossings': 'सबसे कम क्रॉसिंग',
+  'entrance.main': 'मुख्य प्रवेश द्वार',
+  'entrance.accessible': 'सुलभ प्रवेश द्वार',
+  'entrance.named': '{type} {name}',
+
+  'elevator-state.working': 'चल रही है',
+  'elevator-state.out-of-service': 'खराब है',
+  'elevator.status': '{state}, {age} बताया गया',
+  'elevator.status-confirmed': '{state}, {age} बताया गया, {count} लोगों ने पुष्टि की',
+  'elevator.no-reports': 'हाल में कोई रिपोर्ट नहीं',
+  'elevator.no-reports-yet': 'इस लिफ़्ट के बारे में अभी किसी ने नहीं बताया है।',
+  'age.just-now': 'अभी-अभी',
+  'age.minutes': {
+    one: '{count} मिनट पहले',
+    other: '{count} मिनट पहले'
+  },
+  'age.hours': {
+    one: '{count} घंटा पहले',
+    other: '{count} घंटे पहले'
+  },
+  'age.days': {
+    one: '{count} दिन पहले',
+    other: '{count} दिन पहले'
+  },
+
+  'feature.wheelchair-access': 'व्हीलचेयर पहुँच',
+  'feature.limited-wheelchair-access': 'सीमित व्हीलचेयर पहुँच',
+  'feature.ramp': 'रैंप',
+  'feature.stopgap-ramp': 'अस्थायी रैंप',
+  'feature.elevator': 'लिफ़्ट',
+  'feature.handrails': 'रेलिंग',
+  'feature.accessible-entrance': 'सुलभ प्रवेश द्वार',
+  'feature.alternative-entrance': 'वैकल्पिक प्रवेश द्वार',
+  'feature.automatic-doors': 'स्वचालित दरवाज़े',
+  'feature.accessible-washroom': 'सुलभ शौचालय',
+  'feature.gender-neutral-washroom': 'जेंडर-न्यूट्रल शौचालय',
+  'feature.accessible-parking': 'सुलभ पार्किंग',
+  'feature.spacious': 'खुली जगह',
+  'feature.outdoor-access-only': 'केवल बाहरी पहुँच',
+  'feature.tactile-paving': 'स्पर्शनीय फ़र्श',
+  'feature.braille': 'ब्रेल',
+  'feature.large-print': 'बड़े अक्षरों में छपाई',
+  'feature.bright-lighting': 'तेज़ रोशनी',
+  'feature.hearing-loop': 'हियरिंग लूप',
+  'feature.sign-language': 'सांकेतिक भाषा',
+  'feature.easy-read': 'आसान भाषा में जानकारी',
+  'feature.clear-signage': 'साफ़ संकेत',
+  'feature.quiet': 'शांत',
+  'feature.scent-free': 'सुगंध-मुक्त',
+
+  'rating.summary': {
+    one: '{count} समीक्षा से {rating} रेटिंग',
+    other: '{count} समीक्षाओं से {rating} रेटिंग'
+  },
+
+  'command.not-understood': 'मैं वह आदेश नहीं समझ पाया। कृपया फिर से कोशिश करें।',
+  'command.not-caught': 'मैं ठीक से सुन नहीं पाया। कृपया फिर से कोशिश करें।',
+  'command.what-to-do': 'आप क्या करना चाहेंगे?',
+  'command.help': 'आप कह सकते हैं: {commands}',
+  'command.ask-search': 'आप क्या खोजना चाहेंगे?',
+  'command.ask-destination': 'आप कहाँ जाना चाहेंगे?',
+
+  'app.welcome': 'AccessMap में आपका स्वागत है। आपका सुलभ नेविगेशन सहायक।',
+  'places.found': {
+    one: '{count} सुलभ जगह मिली।',
+    other: '{count} सुलभ जगहें मिलीं।'
+  },
+  'places.found-nearby': {
+    one: 'पास में {count} सुलभ जगह मिली।',
+    other: 'पास में {count} सुलभ जगहें मिलीं।'
+  },
+  'places.showing-nearby': 'पास की जगहें दिखाई जा रही हैं',
+  'location.unavailable': 'आपकी लोकेशन नहीं मिल सकी',
+  'location.unavailable-limited': 'आपकी लोकेशन नहीं मिल सकी। कुछ सुविधाएँ सीमित हो सकती हैं।',
+  'location.using-current': 'आपकी मौजूदा लोकेशन इस्तेमाल की जा रही है',
+  'map.ready': 'लोकेशन मिल गई। नक्शा तैयार है।',
+  'map.route-shown': 'रास्ता बन गया। नक्शे पर नीली रेखा का पालन करें।',
+  'barrier.tap-start': 'जहाँ रुकावट है, वहाँ नक्शे पर टैप करें।',
+  'barrier.start-placed': 'रुकावट की शुरुआत लगा दी गई। रास्ते के हिस्से के लिए दूसरा बिंदु टैप करें, या हो गया दबाएँ।',
+  'barrier.added': 'रुकावट जोड़ दी गई',
+
+  'search.searching': '{query} खोजा जा रहा है',
+  'search.results': {
+    one: '{query} के लिए {count} नतीजा मिला',
+    other: '{query} के लिए {count} नतीजे मिले'
+  },
+  'search.no-results': '{query} के लिए कोई नतीजा नहीं मिला',
+  'search.failed': 'जगहें खोजने में गड़बड़ी हुई',
+
+  'route.invalid': 'रास्ते की जानकारी गलत है। कृपया फिर से कोशिश करें।',
+  'route.missing': 'रास्ते की जानकारी नहीं मिली। नक्शे पर लौट रहे हैं।',
+  'route.generating': 'सुलभ रास्ता बनाया जा रहा है...',
+  'route.ready': 'रास्ता सफलतापूर्वक बन गया।',
+  'route.ready-options': {
+    one: 'रास्ता सफलतापूर्वक बन गया। {count} रास्ता उपलब्ध है।',
+    other: 'रास्ता सफलतापूर्वक बन गया। {count} रास्ते उपलब्ध हैं।'
+  },
+  'route.failed': 'सुलभ रास्ता नहीं मिला। सीधी रेखा दिखाई जा रही है।',
+  'route.simplified': 'सीधी रेखा की सुलभता जाँची नहीं गई है। सावधानी से चलें।',
+  'route.selected': '{label} रास्ता चुना गया। {distance}, {crossings}। {description}।',
+  'route.broken-elevator-warning': 'चेतावनी। इस रास्ते में एक लिफ़्ट है जिसे खराब बताया गया है।',
+  'elevator.updated': 'धन्यवाद, लिफ़्ट की स्थिति अपडेट हो गई',
+  'guidance.enabled': 'आवाज़ से मार्गदर्शन चालू',
+  'guidance.disabled': 'आवाज़ से मार्गदर्शन बंद',
+  'navigation.starting-step': '{destination} के लिए नेविगेशन शुरू हो रहा है। {instruction}',
+  'navigation.off-route': 'आप रास्ते से हट गए हैं। रास्ता फिर से निकाला जा रहा है।',
+  'navigation.new-route': 'नया रास्ता मिला। {instruction}',
+  'navigation.reroute-failed': 'नया रास्ता नहीं मिला। नक्शे पर दिखाए रास्ते पर लौटें।',
+  'navigation.paused': 'नेविगेशन रोका गया',
+  'navigation.resumed': 'नेविगेशन फिर से शुरू',
+  'navigation.exiting': 'नेविगेशन से बाहर निकल रहे हैं',
+  'navigation.arrived': 'आप {destination} पहुँच गए हैं।',
+  'navigation.arrived-destination': 'आप अपनी मंज़िल पर पहुँच गए हैं।',
+  'navigation.entrance-reached': 'आप {entrance} पर पहुँच गए हैं।',
+  'navigation.entrance-direction': '{entrance} {direction} दिशा में {distance} दूर है।',
+  'navigation.next-step': 'आगे: {instruction}',
+  'navigation.upcoming': '{meters} मीटर में: {instruction}',
+  'navigation.last-step': 'यह आख़िरी कदम है।',
+  'navigation.how-far': 'अभी {distance} बाकी, लगभग {duration}।',
+  'navigation.not-started': 'नेविगेशन अभी शुरू नहीं हुआ है।',
+
+  'place.summary': '{name}। {rating}।',
+  'place.summary-features': {
+    one: '{name}। {rating}। {count} सुलभता सुविधा: {features}',
+    other: '{name}। {rating}। {features} सहित {count} सुलभता सुविधाएँ'
+  },
+  'place.directions': '{name} का रास्ता दिखाया जा रहा है',
+  'place.calling': '{name} को कॉल किया जा रहा है',
+  'place.website': '{name} की वेबसाइट खोली जा रही है',
+  'place.no-phone': 'इस जगह का कोई फ़ोन नंबर नहीं है।',
+  'place.review': '5 में से {rating} रेटिंग। {comment}',
+  'add-place.intro': 'जगह जोड़ने का पेज। नई सुलभ जगह जोड़ने के लिए जानकारी भरें।',
+  'add-place.location-selected': 'लोकेशन चुनी गई',
+  'add-place.say-field': 'कृपया {field} बोलें',
+  'add-place.field-set': '{field}: {value}',
+  'add-place.sign-in': 'जगह जोड़ने के लिए साइन इन करना ज़रूरी है',
+  'add-place.required': 'कृपया सभी ज़रूरी जानकारी भरें',
+  'add-place.adding': 'जगह जोड़ी जा रही है...',
+  'add-place.added': 'जगह सफलतापूर्वक जोड़ दी गई',
+  'add-place.failed': 'जगह नहीं जोड़ी जा सकी',
+  'report.intro': 'समस्या बताएँ। क्या गड़बड़ है चुनें और उसके बारे में बताएँ।',
+  'report.required': 'कृपया समस्या चुनें और उसके बारे में बताएँ',
+  'report.sent': 'धन्यवाद, आपकी रिपोर्ट भेज दी गई है',
+
+  'page.add-review': 'समीक्षा जोड़ने का पेज',
+  'page.report-problem': 'समस्या बताने का पेज',
+  'page.more': 'और विकल्प पेज',
+  'page.settings': 'सेटिंग्स पेज',
+  'page.edit-profile': 'प्रोफ़ाइल बदलने का पेज',
+  'page.help': 'मदद और अक्सर पूछे जाने वाले सवाल पेज',
+  'page.feedback': 'सुझाव भेजने का पेज',
+  'page.privacy': 'गोपनीयता नीति पेज',
+  'page.about': 'AccessMap के बारे में पेज',
+  'settings.dark-mode-on': 'डार्क मोड चालू',
+  'settings.dark-mode-off': 'डार्क मोड बंद',
+  'settings.voice-on': 'आवाज़ सहायक चालू',
+  'settings.voice-off': 'आवाज़ सहायक बंद',
+  'settings.preference-updated': 'पसंद अपडेट हो गई',
+  'settings.language-changed': 'भाषा हिन्दी में बदल दी गई',
+  'settings.opening-app-store': 'ऐप स्टोर खोला जा रहा है',
+  'account.signing-out': 'साइन आउट हो रहा है',
+
+  'help.open-page': 'नक्शा खोलो',
+  'help.navigate': 'किसी जगह ले चलो',
+  'help.search': 'पास में सुलभ शौचालय ढूंढो',
+  'help.add-place': 'जगह जोड़ो',
+  'help.go-back': 'वापस जाओ',
+  'help.help': 'मदद',
+  'help.next-step': 'अगला कदम',
+  'help.repeat': 'दोहराओ',
+  'help.pause-navigation': 'नेविगेशन रोको',
+  'help.resume-navigation': 'नेविगेशन जारी रखो',
+  'help.how-far': 'कितनी दूर',
+  'help.call': 'कॉल करो',
+  'help.directions': 'रास्ता दिखाओ',
+  'help.read-reviews': 'समीक्षाएँ पढ़ो'
+};
+
+export default hi;
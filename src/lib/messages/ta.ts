@@ -0,0 +1,556 @@
+/**
+ * Tamil strings for the screen and for the voice assistant
+ */
+import type { MessageBundle } from '../i18n';
+
+const ta: MessageBundle = {
+  'nav.map': 'வரைபடம்',
+  'nav.add': 'சேர்',
+  'nav.profile': 'சுயவிவரம்',
+  'nav.more': 'மேலும்',
+
+  'unit.meters': '{value} மீ',
+  'unit.kilometers': '{value} கி.மீ',
+  'unit.minutes': '{value} நிமி',
+  'unit.hours-minutes': '{hours} மணி {minutes} நிமி',
+  'unit.centimeters': '{value} செ.மீ',
+  'unit.percent': '{value}%',
+
+  'common.retry': 'மீண்டும் முயற்சி',
+  'common.cancel': 'ரத்துசெய்',
+  'common.literal': '{text}',
+  'voice.unavailable': 'குரல் அறிதல் கிடைக்கவில்லை',
+  'location.error': 'உங்கள் இருப்பிடத்தை அணுக முடியவில்லை: {message}',
+  'location.check-permissions': 'உங்கள் இருப்பிடத்தை அணுக முடியவில்லை. இருப்பிட அனுமதிகளைச் சரிபார்க்கவும்.',
+  'location.using-default': 'உங்கள் இருப்பிடத்தை அணுக முடியவில்லை. இயல்பு இருப்பிடம் பயன்படுத்தப்படுகிறது.',
+  'location.limited-navigation': 'உங்கள் இருப்பிடத்தை அணுக முடியவில்லை. சில வழிகாட்டல் வசதிகள் குறைவாக இருக்கலாம்.',
+  'location.enable': 'உங்கள் இருப்பிடம் கிடைக்கவில்லை. இருப்பிடச் சேவையை இயக்கவும்.',
+
+  'home.search-placeholder': 'அணுகக்கூடிய இடங்களைத் தேடுங்கள்...',
+  'home.search': 'தேடு',
+  'home.nearby': 'அருகில்',
+  'home.nearby-title': 'அருகிலுள்ள இடங்கள்',
+  'places.load-failed': 'இடங்களை ஏற்றுவதில் பிழை',
+  'places.nearby-failed': 'அருகிலுள்ள இடங்களை ஏற்ற முடியவில்லை',
+  'places.none-nearby': 'அருகில் அணுகக்கூடிய இடங்கள் எதுவும் கிடைக்கவில்லை',
+  'places.distance-away': '{distance} தொலைவில்',
+  'places.filter.all': 'அனைத்தும்',
+  'places.filter.restaurant': 'உணவகங்கள்',
+  'places.filter.hospital': 'மருத்துவமனைகள்',
+  'places.filter.education': 'கல்வி',
+  'places.filter.transport': 'போக்குவரத்து',
+  'places.filter.shopping': 'கடைகள்',
+
+  'place-type.restaurant': 'உணவகம்',
+  'place-type.hospital': 'மருத்துவமனை',
+  'place-type.education': 'கல்வி',
+  'place-type.transport': 'போக்குவரத்து',
+  'place-type.shopping': 'கடை',
+  'place-type.entertainment': 'பொழுதுபோக்கு',
+  'place-type.other': 'மற்றவை',
+  'osm-wheelchair.yes': 'சக்கர நாற்காலியில் அணுகலாம்',
+  'osm-wheelchair.limited': 'சக்கர நாற்காலி அணுகல் குறைவு',
+  'osm-wheelchair.no': 'சக்கர நாற்காலியில் அணுக முடியாது',
+  'place.address-unavailable': 'முகவரி கிடைக்கவில்லை',
+  'place.osm-status': 'OpenStreetMap: {status}',
+  'place.accessible': 'அணுகக்கூடியது',
+  'place.more-features': '+{count} மேலும்',
+  'place.rating-label': 'சமூக மதிப்பீடு {rating}',
+  'place.rating-label-reviews': {
+    one: '{count} மதிப்புரையிலிருந்து சமூக மதிப்பீடு {rating}',
+    other: '{count} மதிப்புரைகளிலிருந்து சமூக மதிப்பீடு {rating}'
+  },
+  'place.community-rating': {
+    one: 'சமூக மதிப்பீடு, {count} மதிப்புரை',
+    other: 'சமூக மதிப்பீடு, {count} மதிப்புரைகள்'
+  },
+  'place.no-reviews': 'இன்னும் மதிப்புரைகள் இல்லை',
+  'place.title': 'இட விவரங்கள்',
+  'place.loading': 'இட விவரங்கள் ஏற்றப்படுகின்றன...',
+  'place.not-found': 'இடம் கிடைக்கவில்லை',
+  'place.not-found-detail': 'நீங்கள் தேடும் இடம் இல்லை அல்லது நீக்கப்பட்டுள்ளது.',
+  'place.load-failed': 'இட விவரங்களை ஏற்ற முடியவில்லை',
+  'place.back-home': 'முகப்புக்குத் திரும்பு',
+  'place.features': 'அணுகல் வசதிகள்',
+  'place.elevator-status': 'மின்தூக்கி நிலை',
+  'place.reported-problems': 'புகாரளிக்கப்பட்ட சிக்கல்கள்',
+  'place.ratings-by-area': 'பகுதிவாரி மதிப்பீடுகள்',
+  'place.show-directions': 'வழி காட்டு',
+  'place.add-review': 'மதிப்புரை சேர்',
+  'place.report-problem': 'சிக்கலைப் புகாரளி',
+
+  'route.options': 'வழி விருப்பங்கள்',
+  'route.crossings': {
+    one: '{count} கடவை',
+    other: '{count} கடவைகள்'
+  },
+  'route.broken-elevator': 'பழுதடைந்ததாகப் புகாரளிக்கப்பட்ட மின்தூக்கி தேவை',
+  'route.unverified': 'நேர்க்கோடு மட்டும். இந்த வழியின் அணுகல் சரிபார்க்கப்படவில்லை.',
+  'route.overview': 'வழி மேலோட்டம்',
+  'route.from': 'இருந்து',
+  'route.to': 'வரை',
+  'route.elevators': 'இந்த வழியிலுள்ள மின்தூக்கிகள்',
+  'route.elevator': 'மின்தூக்கி {number}: {description}',
+  'route.elevator-working': 'இது வேலை செய்கிறது',
+  'route.elevator-broken': 'இது பழுதடைந்துள்ளது',
+  'route.directions': 'படிப்படியான வழிமுறைகள்',
+  'route.show-less': 'குறைவாக',
+  'route.show-more': 'மேலும்',
+  'route.step-accessible': 'அணுகக்கூடியது',
+  'route.step-limited': 'குறைந்த அணுகல்',
+  'route.more-steps': {
+    one: '+ மேலும் {count} படி',
+    other: '+ மேலும் {count} படிகள்'
+  },
+  'route.start': 'வழிகாட்டலைத் தொடங்கு',
+
+  'navigation.title': 'வழிசெலுத்தல்',
+  'navigation.route-error': 'வழியை உருவாக்குவதில் பிழை',
+  'navigation.route-error-detail': 'வழியை உருவாக்க முடியவில்லை: {message}',
+  'navigation.route-failed': 'வழியை உருவாக்க முடியவில்லை',
+  'navigation.return-to-map': 'வரைபடத்திற்குத் திரும்பு',
+  'navigation.you-arrived': 'நீங்கள் வந்தடைந்துவிட்டீர்கள்',
+  'navigation.destination-reached': 'சேருமிடம் அடையப்பட்டது',
+  'navigation.next-in': '{distance} இல்: {instruction}',
+  'navigation.paused-label': 'இடைநிறுத்தப்பட்டது',
+  'navigation.distance-remaining': 'மீதமுள்ள தூரம்',
+  'navigation.time-remaining': 'மீதமுள்ள நேரம்',
+  'navigation.arrival': 'வந்தடையும் நேரம்',
+  'navigation.exit': 'வழிசெலுத்தலிலிருந்து வெளியேறு',
+  'navigation.not-available': 'இல்லை',
+  'route.current-location': 'தற்போதைய இருப்பிடம்',
+  'route.destination': 'சேருமிடம்',
+  'elevator.update-failed': 'மின்தூக்கி நிலையைப் புதுப்பிக்க முடியவில்லை',
+  'common.unknown-error': 'அறியப்படாத பிழை',
+
+  'feature-category.mobility': 'இயக்கம்',
+  'feature-category.vision': 'பார்வை',
+  'feature-category.hearing': 'செவித்திறன்',
+  'feature-category.cognitive': 'அறிவாற்றல்',
+  'feature-category.sensory': 'புலன் உணர்வு',
+
+  'elevator.title': 'மின்தூக்கி',
+  'elevator.sign-in': 'மின்தூக்கி நிலையைப் புதுப்பிக்க உள்நுழைய வேண்டும்',
+
+  'barrier-kind.construction': 'கட்டுமானப் பணி',
+  'barrier-kind.broken-elevator': 'பழுதான மின்தூக்கி',
+  'barrier-kind.flooding': 'வெள்ளம்',
+  'barrier-kind.other': 'வேறு தடை',
+  'barrier.until': '{time} வரை',
+  'barrier.form-title': 'தற்காலிகத் தடையைக் குறிக்கவும்',
+  'barrier.avoid-segment': 'தடை காலாவதியாகும் வரை வழிகள் இந்தப் பாதைப் பகுதியைத் தவிர்க்கும்.',
+  'barrier.avoid-spot': 'தடை காலாவதியாகும் வரை வழிகள் இந்த இடத்தைத் தவிர்க்கும்.',
+  'barrier.duration': 'எதிர்பார்க்கப்படும் காலம்',
+  'barrier.duration-hours': {
+    one: '{count} மணி நேரம்',
+    other: '{count} மணி நேரம்'
+  },
+  'barrier.duration-days': {
+    one: '{count} நாள்',
+    other: '{count} நாட்கள்'
+  },
+  'barrier.details': 'விவரங்கள் (விருப்பத்தேர்வு)',
+  'barrier.details-placeholder': 'எடுத்துக்காட்டு: ரயில் பாலத்தின் கீழ் முழங்கால் அளவு தண்ணீர்',
+  'barrier.submit': 'தடையைச் சேர்',
+  'barrier.sign-in': 'தடையைக் குறிக்க நீங்கள் உள்நுழைந்திருக்க வேண்டும்',
+  'barrier.added-detail': 'தடை சேர்க்கப்பட்டது. அது காலாவதியாகும் வரை வழிகள் அதைத் தவிர்க்கும்.',
+  'barrier.add-failed': 'தடையைச் சேர்க்க முடியவில்லை',
+
+  'report-category.broken-elevator': 'பழுதான மின்தூக்கி',
+  'report-category.blocked-ramp': 'அடைக்கப்பட்ட சாய்வுப் பாதை',
+  'report-category.wrong-info': 'தவறான தகவல்',
+  'report-category.closed': 'இடம் மூடப்பட்டுள்ளது',
+  'report-category.other': 'வேறு பிரச்சினை',
+  'report-status.open': 'திறந்துள்ளது',
+  'report-status.acknowledged': 'ஏற்கப்பட்டது',
+  'report-status.resolved': 'தீர்க்கப்பட்டது',
+  'report.acknowledge': 'ஏற்றுக்கொள்',
+  'report.resolve': 'தீர்க்கப்பட்டதாகக் குறி',
+  'report.marked-acknowledged': 'புகார் ஏற்கப்பட்டதாகக் குறிக்கப்பட்டது',
+  'report.marked-resolved': 'புகார் தீர்க்கப்பட்டதாகக் குறிக்கப்பட்டது',
+  'report.update-failed': 'புகாரைப் புதுப்பிக்க முடியவில்லை',
+  'report.none-open': 'திறந்த பிரச்சினைகள் எதுவும் புகாரளிக்கப்படவில்லை.',
+  'report.photo-of-reported': 'புகாரளிக்கப்பட்ட பிரச்சினையின் புகைப்படம்',
+  'report.reported-on': '{date} அன்று புகாரளிக்கப்பட்டது',
+
+  'rating-dimension.entrance': 'நுழைவாயில்',
+  'rating-dimension.entrance-question': 'உள்ளே செல்வது எவ்வளவு எளிதாக இருந்தது?',
+  'rating-dimension.interior': 'உள்ளே நடமாட்டம்',
+  'rating-dimension.interior-question': 'உள்ளே சுற்றி வருவது எவ்வளவு எளிதாக இருந்தது?',
+  'rating-dimension.washroom': 'கழிவறை',
+  'rating-dimension.washroom-question': 'கழிவறை எவ்வளவு அணுகக்கூடியதாக இருந்தது?',
+  'rating-dimension.signage': 'அறிவிப்புப் பலகைகளும் பார்வையும்',
+  'rating-dimension.signage-question': 'அறிவிப்புகள், வெளிச்சம், வண்ண வேறுபாடு எவ்வளவு தெளிவாக இருந்தன?',
+  'rating-dimension.hearing': 'செவித்திறன் ஆதரவு',
+  'rating-dimension.hearing-question': 'செவித்திறன் தேவைகள் எவ்வளவு நன்றாக ஆதரிக்கப்பட்டன?',
+  'rating-dimension.staff': 'ஊழியர்களின் உதவி',
+  'rating-dimension.staff-question': 'ஊழியர்கள் எவ்வளவு உதவியாக இருந்தார்கள்?',
+  'rating-dimension.sensory': 'புலன் சூழல்',
+  'rating-dimension.sensory-question': 'சத்தம், வெளிச்சம், வாசனைகள் எவ்வளவு வசதியாக இருந்தன?',
+  'rating.out-of': '{dimension}: {max}க்கு {score}',
+  'rating.not-applicable': 'பொருந்தாது',
+  'rating.no-details': 'விரிவான மதிப்பீடுகள் இன்னும் இல்லை.',
+  'rating.dimension-average': {
+    one: '{average} ({count} மதிப்புரை)',
+    other: '{average} ({count} மதிப்புரைகள்)'
+  },
+
+  'search.filter-features': 'அணுகல்தன்மை வசதிகளால் வடிகட்டு',
+  'search.filter-by-features': 'அணுகல்தன்மை வசதிகளால் வடிகட்டு:',
+  'search.no-results-title': 'முடிவுகள் எதுவும் இல்லை',
+  'search.no-results-hint': 'வேறு தேடல் சொல்லையோ வடிகட்டியையோ முயற்சிக்கவும்',
+  'search.empty-title': 'இடங்களைத் தேடுங்கள்',
+  'search.empty-hint': 'அணுகக்கூடிய இடங்களைக் கண்டறிய ஒரு தேடல் சொல்லை உள்ளிடவும்',
+
+  'add-place.title': 'இடத்தைச் சேர்',
+  'add-place.name': 'இடத்தின் பெயர் *',
+  'add-place.name-placeholder': 'இடத்தின் பெயரை உள்ளிடவும்',
+  'add-place.type': 'இட வகை *',
+  'add-place.type-placeholder': 'இட வகையைத் தேர்ந்தெடுக்கவும்',
+  'add-place.address': 'முகவரி *',
+  'add-place.address-placeholder': 'முழு முகவரியை உள்ளிடவும்',
+  'add-place.phone': 'தொலைபேசி எண்',
+  'add-place.phone-placeholder': 'தொலைபேசி எண்ணை உள்ளிடவும்',
+  'add-place.website': 'இணையதளம்',
+  'add-place.website-placeholder': 'இணையதள முகவரியை உள்ளிடவும்',
+  'add-place.dictate': '{field} சொல்லுங்கள்',
+  'add-place.location': 'இருப்பிடம் *',
+  'add-place.location-hint': 'இருப்பிடத்தைத் தேர்ந்தெடுக்க வரைபடத்தில் தட்டவும் அல்லது உங்கள் தற்போதைய இருப்பிடத்தைப் பயன்படுத்தவும்',
+  'add-place.selected-location': 'தேர்ந்தெடுத்த இருப்பிடம்',
+  'add-place.selected': 'தேர்ந்தெடுத்தது: {lat}, {lng}',
+  'add-place.use-current-location': 'எனது தற்போதைய இருப்பிடத்தைப் பயன்படுத்து',
+  'add-place.features-hint': 'இந்த இடத்தில் உள்ள அனைத்து அணுகல்தன்மை வசதிகளையும் தேர்ந்தெடுக்கவும்',
+  'add-place.photos': 'புகைப்படங்கள்',
+  'add-place.photos-hint': 'இடத்தின் மற்றும் அதன் அணுகல்தன்மை வசதிகளின் புகைப்படங்களைச் சேர்க்கவும்',
+  'add-place.add-photos': 'புகைப்படங்களைச் சேர்',
+  'add-place.field.name': 'இடத்தின் பெயர்',
+  'add-place.field.address': 'முகவரி',
+  'add-place.field.phone': 'தொலைபேசி எண்',
+  'add-place.field.website': 'இணையதளம்',
+
+  'review.title': 'இந்த இடத்தை மதிப்பிடுங்கள்',
+  'review.sign-in': 'மதிப்புரை சேர்க்க நீங்கள் உள்நுழைந்திருக்க வேண்டும்',
+  'review.rating-required': 'அணுகல்தன்மை மதிப்பீட்டைத் தேர்ந்தெடுக்கவும்',
+  'review.added': 'மதிப்புரை வெற்றிகரமாகச் சேர்க்கப்பட்டது',
+  'review.failed': 'மதிப்புரையைச் சேர்க்க முடியவில்லை',
+  'review.how-accessible': 'இந்த இடம் எவ்வளவு அணுகக்கூடியது?',
+  'review.accessible': 'அணுகக்கூடியது',
+  'review.partially-accessible': 'பகுதியளவு அணுகக்கூடியது',
+  'review.not-accessible': 'அணுக முடியாதது',
+  'review.rate-areas': 'ஒவ்வொரு பகுதியையும் மதிப்பிடுங்கள்',
+  'review.rate-areas-hint': 'நீங்கள் அனுபவித்ததற்கு மதிப்பெண் கொடுங்கள், அல்லது பொருந்தாது எனக் குறியுங்கள்',
+  'review.features': 'அணுகல்தன்மை வசதிகளைத் தேர்ந்தெடுக்கவும்',
+  'review.features-hint': 'இந்த இடத்தில் உள்ள அனைத்து வசதிகளையும் தேர்ந்தெடுக்கவும்',
+  'review.comment': 'கருத்தைச் சேர்க்கவும் (விருப்பத்தேர்வு)',
+  'review.comment-placeholder': 'இந்த இடத்தின் அணுகல்தன்மை பற்றிய உங்கள் அனுபவத்தைப் பகிருங்கள்...',
+  'review.characters-remaining': {
+    one: '{count} எழுத்து மீதமுள்ளது',
+    other: '{count} எழுத்துகள் மீதமுள்ளன'
+  },
+  'review.submit': 'சமர்ப்பி',
+
+  'report.title': 'பிரச்சினையைப் புகாரளி',
+  'report.photo-failed': 'அந்தப் புகைப்படத்தைச் சேர்க்க முடியவில்லை',
+  'report.sign-in': 'பிரச்சினையைப் புகாரளிக்க நீங்கள் உள்நுழைந்திருக்க வேண்டும்',
+  'report.send-failed': 'புகாரை அனுப்ப முடியவில்லை',
+  'report.whats-wrong': 'என்ன பிரச்சினை?',
+  'report.describe': 'பிரச்சினையை விவரிக்கவும்',
+  'report.describe-placeholder': 'எடுத்துக்காட்டு: முதல் தளத்துக்கான மின்தூக்கி திங்கள்கிழமையிலிருந்து இயங்கவில்லை',
+  'report.location-attached': 'உங்கள் தற்போதைய இருப்பிடம் இணைக்கப்படும்',
+  'report.location-unavailable': 'இருப்பிடம் கிடைக்கவில்லை',
+  'report.photo': 'புகைப்படம் (விருப்பத்தேர்வு)',
+  'report.photo-of-problem': 'பிரச்சினையின் புகைப்படம்',
+  'report.remove-photo': 'புகைப்படத்தை நீக்கு',
+  'report.add-photo': 'புகைப்படத்தைச் சேர்',
+  'report.sending': 'புகார் அனுப்பப்படுகிறது...',
+  'report.send': 'புகாரை அனுப்பு',
+
+  'profile.title': 'சுயவிவரம்',
+  'profile.account-description': 'உங்கள் கணக்குத் தகவலை நிர்வகிக்கவும்',
+  'profile.edit': 'சுயவிவரத்தைத் திருத்து',
+  'profile.preferences': 'அணுகல்தன்மை விருப்பங்கள்',
+  'profile.preferences-description': 'உங்கள் வழிசெலுத்தல் அனுபவத்தைத் தனிப்பயனாக்கவும்',
+  'profile.preferences-updated': 'விருப்பங்கள் புதுப்பிக்கப்பட்டன',
+  'profile.preferences-update-failed': 'விருப்பங்களைப் புதுப்பிக்க முடியவில்லை',
+  'profile.preferences-load-failed': 'விருப்பங்களை ஏற்ற முடியவில்லை',
+  'profile.mobility-aid': 'நடமாட்ட உதவிக் கருவி',
+  'profile.select-mobility-aid': 'நடமாட்ட உதவிக் கருவியைத் தேர்ந்தெடுக்கவும்',
+  'mobility-aid.none': 'எதுவுமில்லை',
+  'mobility-aid.wheelchair': 'சக்கர நாற்காலி',
+  'mobility-aid.walker': 'நடைச் சட்டம்',
+  'mobility-aid.cane': 'கைத்தடி',
+  'mobility-aid.crutches': 'ஊன்றுகோல்கள்',
+  'profile.mobility-needs': 'நடமாட்டத் தேவைகள்',
+  'profile.visual-needs': 'பார்வைத் தேவைகள்',
+  'profile.hearing-needs': 'செவித்திறன் தேவைகள்',
+  'profile.cognitive-needs': 'அறிவாற்றல் தேவைகள்',
+  'profile.route-type': 'விரும்பும் வழி வகை',
+  'profile.select-route-type': 'வழி வகையைத் தேர்ந்தெடுக்கவும்',
+  'route-type.shortest': 'மிகக் குறுகியது',
+  'route-type.most-accessible': 'மிகவும் அணுகக்கூடியது',
+  'route-type.fewest-steps': 'குறைந்த படிகள்',
+  'route-type.least-crowded': 'குறைந்த கூட்டம்',
+  'profile.routing-limits': 'வழித் தேர்வு வரம்புகள்',
+  'profile.max-incline': 'அதிகபட்ச சாய்வு',
+  'profile.max-kerb-height': 'அதிகபட்ச நடைபாதை விளிம்பு உயரம்',
+  'profile.min-path-width': 'குறைந்தபட்ச பாதை அகலம்',
+  'profile.max-rest-spacing': 'ஓய்விடங்களுக்கு இடையிலான அதிகபட்சத் தூரம்',
+  'profile.profile-default': 'சுயவிவர இயல்புநிலை',
+  'profile.reset': 'மீட்டமை',
+  'profile.avoid-cobblestones': 'கற்பதித்த பாதைகளைத் தவிர்',
+  'profile.avoid-unlit-paths': 'வெளிச்சமில்லாத பாதைகளைத் தவிர்',
+  'profile.sign-out': 'வெளியேறு',
+  'profile.sign-out-failed': 'வெளியேற முடியவில்லை',
+  'profile.sign-in-prompt': 'உங்கள் சுயவிவரத்தைப் பார்க்க உள்நுழையவும்',
+  'profile.sign-in': 'உள்நுழை',
+  'profile.sign-up': 'பதிவு செய்',
+
+  'more.title': 'மேலும்',
+  'more.preferences': 'விருப்பங்கள்',
+  'more.dark-mode': 'இருண்ட பயன்முறை',
+  'more.notifications': 'அறிவிப்புகள்',
+  'more.notifications-on': 'அறிவிப்புகள் இயக்கப்பட்டன',
+  'more.notifications-off': 'அறிவிப்புகள் முடக்கப்பட்டன',
+  'more.voice-assistant': 'குரல் உதவியாளர்',
+  'more.language': 'மொழி',
+  'more.select-language': 'மொழியைத் தேர்ந்தெடுக்கவும்',
+  'more.settings': 'அமைப்புகள்',
+  'more.support': 'ஆதரவு',
+  'more.help': 'உதவி & கேள்விகள்',
+  'more.feedback': 'கருத்து அனுப்பு',
+  'more.privacy': 'தனியுரிமைக் கொள்கை',
+  'more.about-section': 'பற்றி',
+  'more.about': 'AccessMap பற்றி',
+  'more.share': 'AccessMap-ஐப் பகிர்',
+  'more.share-text': 'AccessMap-ஐப் பாருங்கள் - அனைவருக்குமான வழிகாட்டி',
+  'more.share-unsupported': 'இந்தச் சாதனத்தில் பகிர்வு ஆதரிக்கப்படவில்லை',
+  'more.rate': 'செயலியை மதிப்பிடு',
+  'more.version': 'AccessMap பதிப்பு {version}',
+
+  'step.head-on': '{direction} திசையில் {way} வழியாகச் செல்லவும்',
+  'step.head-toward': '{direction} திசையில் சேருமிடத்தை நோக்கிச் செல்லவும்',
+  'step.head-toward-destination': 'சேருமிடத்தை நோக்கிச் செல்லவும்',
+  'step.turn-onto': '{turn}, {way} வழியாகச் செல்லவும்',
+  'step.turn-cross': '{turn}, சாலையைக் கடக்கவும்',
+  'step.turn-steps': '{turn}, படிக்கட்டுகளில் செல்லவும்',
+  'step.with-caution': '{instruction}. கவனம்: {issues}',
+  'step.arrive': 'சேருமிடத்தை அடையவும்',
+  'turn.continue': 'நேராகத் தொடரவும்',
+  'turn.slightly-left': 'சற்று இடப்புறம் திரும்பவும்',
+  'turn.slightly-right': 'சற்று வலப்புறம் திரும்பவும்',
+  'turn.left': 'இடப்புறம் திரும்பவும்',
+  'turn.right': 'வலப்புறம் திரும்பவும்',
+  'turn.sharp-left': 'கூர்மையாக இடப்புறம் திரும்பவும்',
+  'turn.sharp-right': 'கூர்மையாக வலப்புறம் திரும்பவும்',
+  'turn.around': 'திரும்பிச் செல்லவும்',
+  'way.sidewalk': 'நடைபாதை',
+  'way.footpath': 'நடைவழி',
+  'way.path': 'பாதை',
+  'way.steps': 'படிக்கட்டுகள்',
+  'way.road': 'சாலை',
+  'direction.north': 'வடக்கு',
+  'direction.northeast': 'வடகிழக்கு',
+  'direction.east': 'கிழக்கு',
+  'direction.southeast': 'தென்கிழக்கு',
+  'direction.south': 'தெற்கு',
+  'direction.southwest': 'தென்மேற்கு',
+  'direction.west': 'மேற்கு',
+  'direction.northwest': 'வடமேற்கு',
+
+  'edge-issue.steps': 'படிக்கட்டுகள்',
+  'edge-issue.steep-incline': 'செங்குத்தான சரிவு',
+  'edge-issue.rough-surface': 'சீரற்ற தரை',
+  'edge-issue.raised-kerb': 'உயர்ந்த நடைபாதை விளிம்பு',
+  'edge-issue.narrow': 'குறுகிய பாதை',
+  'edge-issue.not-wheelchair-accessible': 'சக்கர நாற்காலிக்கு ஏற்றதல்ல எனக் குறிக்கப்பட்ட பகுதி',
+  'edge-issue.uncontrolled-crossing': 'சிக்னல் இல்லாத கடவை',
+  'edge-issue.no-sidewalk': 'நடைபாதை இல்லாத சாலை',
+  'edge-issue.unlit': 'வெளிச்சம் இல்லாத பகுதி',
+  'route.summary': 'இதில் உள்ளவை: {issues}',
+  'route.summary-clear': 'அறியப்பட்ட தடைகள் இல்லை',
+  'route.issue-count': '{issue} (×{count})',
+  'route.broken-elevators': {
+    one: 'பழுதடைந்ததாகப் புகாரளிக்கப்பட்ட ஒரு மின்தூக்கி',
+    other: 'பழுதடைந்ததாகப் புகாரளிக்கப்பட்ட {count} மின்தூக்கிகள்'
+  },
+  'route-kind.most-accessible': 'அதிக அணுகல்',
+  'route-kind.shortest': 'குறுகிய தூரம்',
+  'route-kind.fewest-crossings': 'குறைந்த கடவைகள்',
+  'entrance.main': 'முதன்மை நுழைவாயில்',
+  'entrance.accessible': 'அணுகக்கூடிய நுழைவாயில்',
+  'entrance.named': '{type} {name}',
+
+  'elevator-state.working': 'இயங்குகிறது',
+  'elevator-state.out-of-service': 'பழுதடைந்துள்ளது',
+  'elevator.status': '{state}, {age} புகாரளிக்கப்பட்டது',
+  'elevator.status-confirmed': '{state}, {age} புகாரளிக்கப்பட்டது, {count} பேர் உறுதிப்படுத்தினர்',
+  'elevator.no-reports': 'சமீபத்திய புகார்கள் இல்லை',
+  'elevator.no-reports-yet': 'இந்த மின்தூக்கி பற்றி இன்னும் யாரும் புகாரளிக்கவில்லை.',
+  'age.just-now': 'இப்போதுதான்',
+  'age.minutes': {
+    one: '{count} நிமிடம் முன்',
+    other: '{count} நிமிடங்கள் முன்'
+  },
+  'age.hours': {
+    one: '{count} மணிநேரம் முன்',
+    other: '{count} மணிநேரங்கள் முன்'
+  },
+  'age.days': {
+    one: '{count} நாள் முன்',
+    other: '{count} நாட்கள் முன்'
+  },
+
+  'feature.wheelchair-access': 'சக்கர நாற்காலி அணுகல்',
+  'feature.limited-wheelchair-access': 'குறைந்த சக்கர நாற்காலி அணுகல்',
+  'feature.ramp': 'சரிவுப் பாதை',
+  'feature.stopgap-ramp': 'தற்காலிகச் சரிவுப் பலகை',
+  'feature.elevator': 'மின்தூக்கி',
+  'feature.handrails': 'கைப்பிடிகள்',
+  'feature.accessible-entrance': 'அணுகக்கூடிய நுழைவாயில்',
+  'feature.alternative-entrance': 'மாற்று நுழைவாயில்',
+  'feature.automatic-doors': 'தானியங்கிக் கதவுகள்',
+  'feature.accessible-washroom': 'அணுகக்கூடிய கழிப்பறை',
+  'feature.gender-neutral-washroom': 'பாலினப் பொதுக் கழிப்பறை',
+  'feature.accessible-parking': 'அணுகக்கூடிய வாகன நிறுத்தம்',
+  'feature.spacious': 'விசாலமானது',
+  'feature.outdoor-access-only': 'வெளிப்புற அணுகல் மட்டும்',
+  'feature.tactile-paving': 'தொட்டுணரும் தரைத்தளம்',
+  'feature.braille': 'பிரெய்லி',
+  'feature.large-print': 'பெரிய எழுத்து அச்சு',
+  'feature.bright-lighting': 'பிரகாசமான வெளிச்சம்',
+  'feature.hearing-loop': 'செவித்துணை வளையம்',
+  'feature.sign-language': 'சைகை மொழி',
+  'feature.easy-read': 'எளிதில் படிக்கக்கூடிய தகவல்',
+  'feature.clear-signage': 'தெளிவான அறிவிப்புப் பலகைகள்',
+  'feature.quiet': 'அமைதியானது',
+  'feature.scent-free': 'வாசனையற்றது',
+
+  'rating.summary': {
+    one: '{count} மதிப்புரையிலிருந்து {rating} மதிப்பீடு',
+    other: '{count} மதிப்புரைகளிலிருந்து {rating} மதிப்பீடு'
+  },
+
+  'command.not-understood': 'அந்தக் கட்டளை எனக்குப் புரியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  'command.not-caught': 'எனக்குச் சரியாகக் கேட்கவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  'command.what-to-do': 'நீங்கள் என்ன செய்ய விரும்புகிறீர்கள்?',
+  'command.help': 'நீங்கள் சொல்லலாம்: {commands}',
+  'command.ask-search': 'நீங்கள் எதைத் தேட விரும்புகிறீர்கள்?',
+  'command.ask-destination': 'நீங்கள் எங்கே செல்ல விரும்புகிறீர்கள்?',
+
+  'app.welcome': 'AccessMap-க்கு வரவேற்கிறோம். உங்கள் அணுகல் வழிகாட்டி உதவியாளர்.',
+  'places.found': {
+    one: '{count} அணுகக்கூடிய இடம் கிடைத்தது.',
+    other: '{count} அணுகக்கூடிய இடங்கள் கிடைத்தன.'
+  },
+  'places.found-nearby': {
+    one: 'அருகில் {count} அணுகக்கூடிய இடம் கிடைத்தது.',
+    other: 'அருகில் {count} அணுகக்கூடிய இடங்கள் கிடைத்தன.'
+  },
+  'places.showing-nearby': 'அருகிலுள்ள இடங்களைக் காட்டுகிறது',
+  'location.unavailable': 'உங்கள் இருப்பிடத்தை அணுக முடியவில்லை',
+  'location.unavailable-limited': 'உங்கள் இருப்பிடத்தை அணுக முடியவில்லை. சில வசதிகள் குறைவாக இருக்கலாம்.',
+  'location.using-current': 'உங்கள் தற்போதைய இருப்பிடம் பயன்படுத்தப்படுகிறது',
+  'map.ready': 'இருப்பிடம் கண்டறியப்பட்டது. வரைபடம் தயார்.',
+  'map.route-shown': 'வழி உருவாக்கப்பட்டது. வரைபடத்தில் உள்ள நீலக் கோட்டைப் பின்பற்றவும்.',
+  'barrier.tap-start': 'தடை இருக்கும் இடத்தில் வரைபடத்தைத் தட்டவும்.',
+  'barrier.start-placed': 'தடையின் தொடக்கம் குறிக்கப்பட்டது. பாதையின் ஒரு பகுதிக்கு இரண்டாவது இடத்தைத் தட்டவும், அல்லது முடிந்தது என்பதை அழுத்தவும்.',
+  'barrier.added': 'தடை சேர்க்கப்பட்டது',
+
+  'search.searching': '{query} தேடப்படுகிறது',
+  'search.results': {
+    one: '{query} க்கு {count} முடிவு கிடைத்தது',
+    other: '{query} க்கு {count} முடிவுகள் கிடைத்தன'
+  },
+  'search.no-results': '{query} க்கு முடிவுகள் எதுவும் இல்லை',
+  'search.failed': 'இடங்களைத் தேடுவதில் பிழை',
+
+  'route.invalid': 'வழி விவரங்கள் தவறானவை. மீண்டும் முயற்சிக்கவும்.',
+  'route.missing': 'வழி விவரங்கள் இல்லை. வரைபடத்துக்குத் திரும்புகிறது.',
+  'route.generating': 'அணுகக்கூடிய வழி உருவாக்கப்படுகிறது...',
+  'route.ready': 'வழி வெற்றிகரமாக உருவாக்கப்பட்டது.',
+  'route.ready-options': {
+    one: 'வழி வெற்றிகரமாக உருவாக்கப்பட்டது. {count} வழி தேர்வு உள்ளது.',
+    other: 'வழி வெற்றிகரமாக உருவாக்கப்பட்டது. {count} வழி தேர்வுகள் உள்ளன.'
+  },
+  'route.failed': 'அணுகக்கூடிய வழி கிடைக்கவில்லை. நேர்க்கோடு காட்டப்படுகிறது.',
+  'route.simplified': 'நேர்க்கோட்டின் அணுகல் சரிபார்க்கப்படவில்லை. கவனமாகச் செல்லவும்.',
+  'route.selected': '{label} வழி தேர்ந்தெடுக்கப்பட்டது. {distance}, {crossings}. {description}.',
+  'route.broken-elevator-warning': 'எச்சரிக்கை. இந்த வழியில் பழுதடைந்ததாகப் புகாரளிக்கப்பட்ட மின்தூக்கி உள்ளது.',
+  'elevator.updated': 'நன்றி, மின்தூக்கி நிலை புதுப்பிக்கப்பட்டது',
+  'guidance.enabled': 'குரல் வழிகாட்டல் இயக்கப்பட்டது',
+  'guidance.disabled': 'குரல் வழிகாட்டல் நிறுத்தப்பட்டது',
+  'navigation.starting-step': '{destination} க்கு வழிகாட்டல் தொடங்குகிறது. {instruction}',
+  'navigation.off-route': 'நீங்கள் வழியை விட்டு விலகிவிட்டீர்கள். மீண்டும் கணக்கிடுகிறது.',
+  'navigation.new-route': 'புதிய வழி கிடைத்தது. {instruction}',
+  'navigation.reroute-failed': 'புதிய வழி கிடைக்கவில்லை. வரைபடத்தில் உள்ள வழிக்குத் திரும்பவும்.',
+  'navigation.paused': 'வழிகாட்டல் இடைநிறுத்தப்பட்டது',
+  'navigation.resumed': 'வழிகாட்டல் மீண்டும் தொடங்கியது',
+  'navigation.exiting': 'வழிகாட்டலில் இருந்து வெளியேறுகிறது',
+  'navigation.arrived': 'நீங்கள் {destination} ஐ அடைந்துவிட்டீர்கள்.',
+  'navigation.arrived-destination': 'நீங்கள் சேருமிடத்தை அடைந்துவிட்டீர்கள்.',
+  'navigation.entrance-reached': 'நீங்கள் {entrance} ஐ அடைந்துவிட்டீர்கள்.',
+  'navigation.entrance-direction': '{entrance} {direction} திசையில் {distance} தொலைவில் உள்ளது.',
+  'navigation.next-step': 'அடுத்து: {instruction}',
+  'navigation.upcoming': '{meters} மீட்டரில்: {instruction}',
+  'navigation.last-step': 'இதுவே கடைசிப் படி.',
+  'navigation.how-far': 'இன்னும் {distance}, சுமார் {duration}.',
+  'navigation.not-started': 'வழிகாட்டல் இன்னும் தொடங்கவில்லை.',
+
+  'place.summary': '{name}. {rating}.',
+  'place.summary-features': {
+    one: '{name}. {rating}. {count} அணுகல் வசதி: {features}',
+    other: '{name}. {rating}. {features} உட்பட {count} அணுகல் வசதிகள்'
+  },
+  'place.directions': '{name} க்கு வழி காட்டப்படுகிறது',
+  'place.calling': '{name} ஐ அழைக்கிறது',
+  'place.website': '{name} இணையதளம் திறக்கப்படுகிறது',
+  'place.no-phone': 'இந்த இடத்துக்குத் தொலைபேசி எண் இல்லை.',
+  'place.review': '5-க்கு {rating} மதிப்பீடு. {comment}',
+  'add-place.intro': 'இடம் சேர்க்கும் பக்கம். புதிய அணுகக்கூடிய இடத்தைச் சேர்க்க விவரங்களை நிரப்பவும்.',
+  'add-place.location-selected': 'இருப்பிடம் தேர்ந்தெடுக்கப்பட்டது',
+  'add-place.say-field': 'தயவுசெய்து {field} சொல்லவும்',
+  'add-place.field-set': '{field}: {value}',
+  'add-place.sign-in': 'இடம் சேர்க்க நீங்கள் உள்நுழைய வேண்டும்',
+  'add-place.required': 'தேவையான எல்லா விவரங்களையும் நிரப்பவும்',
+  'add-place.adding': 'இடம் சேர்க்கப்படுகிறது...',
+  'add-place.added': 'இடம் வெற்றிகரமாகச் சேர்க்கப்பட்டது',
+  'add-place.failed': 'இடத்தைச் சேர்க்க முடியவில்லை',
+  'report.intro': 'சிக்கலைப் புகாரளிக்கவும். என்ன தவறு என்று தேர்ந்தெடுத்து விவரிக்கவும்.',
+  'report.required': 'சிக்கலைத் தேர்ந்தெடுத்து விவரிக்கவும்',
+  'report.sent': 'நன்றி, உங்கள் புகார் அனுப்பப்பட்டது',
+
+  'page.add-review': 'மதிப்பாய்வு சேர்க்கும் பக்கம்',
+  'page.report-problem': 'சிக்கலைப் புகாரளிக்கும் பக்கம்',
+  'page.more': 'மேலும் விருப்பங்கள் பக்கம்',
+  'page.settings': 'அமைப்புகள் பக்கம்',
+  'page.edit-profile': 'சுயவிவரத் திருத்தப் பக்கம்',
+  'page.help': 'உதவி மற்றும் அடிக்கடி கேட்கப்படும் கேள்விகள் பக்கம்',
+  'page.feedback': 'கருத்து அனுப்பும் பக்கம்',
+  'page.privacy': 'தனியுரிமைக் கொள்கை பக்கம்',
+  'page.about': 'AccessMap பற்றிய பக்கம்',
+  'settings.dark-mode-on': 'இருண்ட பயன்முறை இயக்கப்பட்டது',
+  'settings.dark-mode-off': 'இருண்ட பயன்முறை நிறுத்தப்பட்டது',
+  'settings.voice-on': 'குரல் உதவியாளர் இயக்கப்பட்டது',
+  'settings.voice-off': 'குரல் உதவியாளர் நிறுத்தப்பட்டது',
+  'settings.preference-updated': 'விருப்பம் புதுப்பிக்கப்பட்டது',
+  'settings.language-changed': 'மொழி தமிழுக்கு மாற்றப்பட்டது',
+  'settings.opening-app-store': 'ஆப் ஸ்டோர் திறக்கப்படுகிறது',
+  'account.signing-out': 'வெளியேறுகிறது',
+
+  'help.open-page': 'வரைபடம் திற',
+  'help.navigate': 'ஒரு இடத்துக்கு அழைத்துச் செல்',
+  'help.search': 'அருகில் உள்ள கழிப்பறையைத் தேடு',
+  'help.add-place': 'இடம் சேர்',
+  'help.go-back': 'பின்னால் செல்',
+  'help.help': 'உதவி',
+  'help.next-step': 'அடுத்த படி',
+  'help.repeat': 'மீண்டும் சொல்',
+  'help.pause-navigation': 'வழிகாட்டலை நிறுத்து',
+  'help.resume-navigation': 'வழிகாட்டலைத் தொடர்',
+  'help.how-far': 'எவ்வளவு தூரம்',
+  'help.call': 'அழை',
+  'help.directions': 'வழி காட்டு',
+  'help.read-reviews': 'மதிப்புரைகளைப் படி'
+};
+
+export default ta;
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import type { LocalizedText } from './i18n';
+import { NavigationEngine, snapToRoute } from './navigation-engine';
+import type { RouteStep } from './overpass-api';
+
+// About 111 m north, 111 m north, then 111 m east, starting on the equator
+const route: Array<[number, number]> = [[0, 0], [0.001, 0], [0.002, 0], [0.002, 0.001]];
+const SEGMENT = 111.19;
+
+const step = (routeIndex: number, text: string): RouteStep => ({
+  instruction: { key: 'common.literal', params: { text } },
+  distance: SEGMENT,
+  duration: 80,
+  isAccessible: true,
+  location: route[routeIndex],
+  routeIndex
+});
+
+const steps = [step(0, 'Head north'), step(2, 'Turn right'), step(3, 'Arrive')];
+
+describe('snapToRoute', () => {
+  it('projects a position onto the closest segment', () => {
+    const snap = snapToRoute([0.0015, 0.0001], route);
+
+    expect(snap.segmentIndex).toBe(1);
+    expect(snap.point[0]).toBeCloseTo(0.0015, 6);
+    expect(snap.point[1]).toBeCloseTo(0, 6);
+    expect(snap.distanceFromRoute).toBeCloseTo(11.1, 0);
+    expect(snap.distanceAlongRoute).toBeCloseTo(SEGMENT * 1.5, 0);
+  });
+
+  it('clamps positions beyond the ends of the route', () => {
+    const snap = snapToRoute([-0.001, 0], route);
+
+    expect(snap.point).toEqual([0, 0]);
+    expect(snap.distanceAlongRoute).toBe(0);
+  });
+
+  it('only considers segments inside the window', () => {
+    // Out and back along two sidewalks 11 m apart
+    const doubleBack: Array<[number, number]> = [[0, 0], [0.001, 0], [0.001, 0.0001], [0, 0.0001]];
+    const position: [number, number] = [0.0005, 0.00009];
+
+    expect(snapToRoute(position, doubleBack).segmentIndex).toBe(2);
+    expect(snapToRoute(position, doubleBack, 0, 0).segmentIndex).toBe(0);
+  });
+});
+
+describe('NavigationEngine', () => {
+  it('reports the distance to the next maneuver and what remains', () => {
+    const engine = new NavigationEngine(route, steps);
+    const progress = engine.update([0.0005, 0], 0);
+
+    expect(progress.currentStep).toBe(0);
+    expect(progress.isOffRoute).toBe(false);
+    expect(progress.distanceToNextManeuver).toBeCloseTo(SEGMENT * 1.5, 0);
+    expect(progress.distanceRemaining).toBeCloseTo(SEGMENT * 2.5, 0);
+  });
+
+  it('advances past a maneuver the user has walked beyond, and never goes back', () => {
+    const changes: number[] = [];
+    const engine = new NavigationEngine(route, steps, { onStepChange: index => changes.push(index) });
+
+    engine.update([0.0015, 0], 0);
+    expect(engine.getCurrentStep()).toBe(0);
+
+    const progress = engine.update([0.002, 0.0003], 1000);
+    expect(progress.currentStep).toBe(1);
+    expect(progress.distanceToNextManeuver).toBeCloseTo(SEGMENT * 0.7, 0);
+
+    engine.update([0.0019, 0], 2000);
+    expect(engine.getCurrentStep()).toBe(1);
+    expect(changes).toEqual([1]);
+  });
+
+  it('advances within the passed tolerance of the maneuver point', () => {
+    const engine = new NavigationEngine(route, steps, { passedTolerance: 5 });
+
+    engine.update([0.0015, 0], 0);
+    expect(engine.update([0.00195, 0], 1000).currentStep).toBe(0);
+    expect(engine.update([0.00197, 0], 2000).currentStep).toBe(1);
+  });
+
+  it('announces an upcoming maneuver once per distance', () => {
+    const announced: LocalizedText[] = [];
+    const engine = new NavigationEngine(route, steps, { onAnnounce: text => announced.push(text) });
+
+    engine.update([0.0016, 0], 0);
+    engine.update([0.0017, 0], 1000);
+    engine.update([0.00194, 0], 2000);
+
+    expect(announced).toEqual([
+      { key: 'navigation.upcoming', params: { meters: 45, instruction: steps[1].instruction } },
+      steps[1].instruction
+    ]);
+  });
+
+  it('does not count a single GPS jump as off route', () => {
+    const offRoute: number[] = [];
+    const engine = new NavigationEngine(route, steps, { onOffRoute: (_, distance) => offRoute.push(distance) });
+
+    engine.update([0.0005, 0], 0);
+    expect(engine.update([0.0005, 0.001], 1000).isOffRoute).toBe(false);
+    expect(engine.update([0.0005, 0], 2000).isOffRoute).toBe(false);
+    expect(engine.update([0.0005, 0.001], 6000).isOffRoute).toBe(false);
+    expect(offRoute).toEqual([]);
+  });
+
+  it('reports being off route once the user stays past the threshold', () => {
+    const offRoute: Array<[number, number]> = [];
+    const engine = new NavigationEngine(route, steps, {
+      offRouteDistance: 30,
+      offRouteDuration: 5000,
+      onOffRoute: position => offRoute.push(position)
+    });
+
+    engine.update([0.0005, 0], 0);
+    expect(engine.update([0.0005, 0.00025], 1000).isOffRoute).toBe(false); // 28 m away
+    expect(engine.update([0.0005, 0.0005], 2000).isOffRoute).toBe(false);
+    expect(engine.update([0.0005, 0.0005], 6999).isOffRoute).toBe(false);
+
+    const progress = engine.update([0.0005, 0.0005], 7000);
+    expect(progress.isOffRoute).toBe(true);
+    expect(progress.distanceToNextManeuver).toBeNull();
+
+    engine.update([0.0005, 0.0006], 8000);
+    expect(offRoute).toEqual([[0.0005, 0.0005]]);
+  });
+
+  it('reports again after the user returns to the route and leaves it again', () => {
+    let reports = 0;
+    const engine = new NavigationEngine(route, steps, { onOffRoute: () => reports++ });
+
+    engine.update([0.0005, 0.0005], 0);
+    engine.update([0.0005, 0.0005], 5000);
+    engine.update([0.0005, 0], 6000);
+    engine.update([0.0005, 0.0005], 7000);
+    engine.update([0.0005, 0.0005], 12000);
+
+    expect(reports).toBe(2);
+  });
+});
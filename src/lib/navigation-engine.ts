@@ -0,0 +1,267 @@
+/**
+ * Turn-by-turn navigation driven by live GPS positions
+ */
+import type { RouteStep } from './overpass-api';
+import { calculateDistance } from './geo';
+import type { LocalizedText } from './i18n';
+
+export interface RouteSnap {
+  point: [number, number]; // closest point on the route
+  segmentIndex: number; // route[segmentIndex] -> route[segmentIndex + 1]
+  distanceAlongRoute: number; // meters from the start of the route
+  distanceFromRoute: number; // meters between the position and the route
+}
+
+export interface NavigationProgress {
+  currentStep: number;
+  snap: RouteSnap;
+  distanceToNextManeuver: number | null;
+  distanceRemaining: number;
+  isOffRoute: boolean;
+}
+
+export interface NavigationEngineOptions {
+  // Distances (meters) before a maneuver at which its instruction is spoken
+  announceDistances?: number[];
+  // How far past a maneuver point the user must be before the step advances
+  passedTolerance?: number;
+  // How far (meters) ahead of the last matched position a new position may snap
+  lookAheadDistance?: number;
+  // Distance (meters) from the route beyond which the user counts as off route
+  offRouteDistance?: number;
+  // How long (ms) the user must stay beyond offRouteDistance before onOffRoute fires
+  offRouteDuration?: number;
+  onStepChange?: (stepIndex: number, step: RouteStep) => void;
+  onAnnounce?: (text: LocalizedText, step: RouteStep) => void;
+  onOffRoute?: (position: [number, number], distanceFromRoute: number) => void;
+}
+
+/**
+ * Project a position onto a route polyline, considering only the segments
+ * fromSegment..toSegment.
+ *
+ * Uses a local equirectangular projection, which is accurate to well under a
+ * meter over the few hundred meters that separate consecutive route points.
+ */
+export function snapToRoute(
+  position: [number, number],
+  route: Array<[number, number]>,
+  fromSegment: number = 0,
+  toSegment: number = route.length - 2
+): RouteSnap {
+  const cumulative = getCumulativeDistances(route);
+  const first = Math.min(Math.max(0, fromSegment), Math.max(0, route.length - 2));
+  const last = Math.min(toSegment, route.length - 2);
+  let best: RouteSnap = {
+    point: route[first],
+    segmentIndex: first,
+    distanceAlongRoute: cumulative[first],
+    distanceFromRoute: calculateDistance(position, route[first])
+  };
+
+  for (let i = first; i <= last; i++) {
+    const [a, b] = [route[i], route[i + 1]];
+    const cosLat = Math.cos(a[0] * Math.PI / 180);
+
+    // Work in a flat x/y plane scaled to meters around point a
+    const bx = (b[1] - a[1]) * cosLat;
+    const by = b[0] - a[0];
+    const px = (position[1] - a[1]) * cosLat;
+    const py = position[0] - a[0];
+    const lengthSquared = bx * bx + by * by;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, (px * bx + py * by) / lengthSquared));
+
+    const point: [number, number] = [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+    const distanceFromRoute = calculateDistance(position, point);
+
+    if (distanceFromRoute < best.distanceFromRoute) {
+      best = {
+        point,
+        segmentIndex: i,
+        distanceAlongRoute: cumulative[i] + calculateDistance(a, point),
+        distanceFromRoute
+      };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Distance from the start of the route to each of its points
+ */
+function getCumulativeDistances(route: Array<[number, number]>): number[] {
+  const cumulative = [0];
+  for (let i = 1; i < route.length; i++) {
+    cumulative.push(cumulative[i - 1] + calculateDistance(route[i - 1], route[i]));
+  }
+  return cumulative;
+}
+
+/**
+ * Tracks the user's progress along a route and decides when to advance steps
+ * and speak upcoming maneuvers
+ */
+export class NavigationEngine {
+  private route: Array<[number, number]>;
+  private steps: RouteStep[];
+  private options: Required<Pick<
+    NavigationEngineOptions,
+    'announceDistances' | 'passedTolerance' | 'lookAheadDistance' | 'offRouteDistance' | 'offRouteDuration'
+  >> & NavigationEngineOptions;
+  private cumulative: number[];
+  private stepDistances: number[];
+  private currentStep = 0;
+  private lastSegment = 0;
+  private announced = new Set<string>();
+  private offRouteSince: number | null = null;
+  private offRouteReported = false;
+
+  constructor(route: Array<[number, number]>, steps: RouteStep[], options: NavigationEngineOptions = {}) {
+    this.route = route;
+    this.steps = steps;
+    this.options = {
+      announceDistances: [50, 10],
+      passedTolerance: 5,
+      lookAheadDistance: 100,
+      offRouteDistance: 30,
+      offRouteDuration: 5000,
+      ...options
+    };
+    this.options.announceDistances = [...this.options.announceDistances].sort((a, b) => b - a);
+    this.cumulative = getCumulativeDistances(route);
+    this.stepDistances = steps.map(step => this.cumulative[Math.min(step.routeIndex, route.length - 1)]);
+  }
+
+  public getCurrentStep(): number {
+    return this.currentStep;
+  }
+
+  public getTotalDistance(): number {
+    return this.cumulative[this.cumulative.length - 1] || 0;
+  }
+
+  /**
+   * Feed a new GPS position and get the updated progress
+   */
+  public update(position: [number, number], timestamp: number = Date.now()): NavigationProgress {
+    // Only look slightly behind and a short walk ahead of the last matched
+    // segment, so routes that double back don't snap to an earlier or later pass
+    const snap = snapToRoute(position, this.route, this.lastSegment - 2, this.getLookAheadSegment());
+
+    const isOffRoute = this.checkOffRoute(position, snap.distanceFromRoute, timestamp);
+    if (isOffRoute) {
+      // Don't advance steps or announce maneuvers from a position that isn't on the route
+      return {
+        currentStep: this.currentStep,
+        snap,
+        distanceToNextManeuver: null,
+        distanceRemaining: Math.max(0, this.getTotalDistance() - snap.distanceAlongRoute),
+        isOffRoute
+      };
+    }
+
+    this.lastSegment = snap.segmentIndex;
+
+    // Advance past every maneuver point the user has walked beyond (never go back)
+    let nextStep = this.currentStep;
+    while (
+      nextStep < this.steps.length - 1 &&
+      this.stepDistances[nextStep + 1] <= snap.distanceAlongRoute + this.options.passedTolerance
+    ) {
+      nextStep++;
+    }
+
+    if (nextStep !== this.currentStep) {
+      this.currentStep = nextStep;
+      this.options.onStepChange?.(nextStep, this.steps[nextStep]);
+    }
+
+    let distanceToNextManeuver: number | null = null;
+    if (this.currentStep < this.steps.length - 1) {
+      distanceToNextManeuver = Math.max(0, this.stepDistances[this.currentStep + 1] - snap.distanceAlongRoute);
+      this.announceUpcoming(this.currentStep + 1, distanceToNextManeuver);
+    }
+
+    return {
+      currentStep: this.currentStep,
+      snap,
+      distanceToNextManeuver,
+      distanceRemaining: Math.max(0, this.getTotalDistance() - snap.distanceAlongRoute),
+      isOffRoute
+    };
+  }
+
+  /**
+   * The last segment that starts within lookAheadDistance of the end of the
+   * last matched segment
+   */
+  private getLookAheadSegment(): number {
+    const limit = this.cumulative[Math.min(this.lastSegment + 1, this.cumulative.length - 1)] +
+      this.options.lookAheadDistance;
+
+    let segment = this.lastSegment;
+    while (segment < this.route.length - 2 && this.cumulative[segment + 1] <= limit) {
+      segment++;
+    }
+    return segment;
+  }
+
+  /**
+   * Track how long the user has been away from the route and report it once
+   * they have stayed away for offRouteDuration
+   */
+  private checkOffRoute(position: [number, number], distanceFromRoute: number, timestamp: number): boolean {
+    if (distanceFromRoute <= this.options.offRouteDistance) {
+      this.offRouteSince = null;
+      this.offRouteReported = false;
+      return false;
+    }
+
+    if (this.offRouteSince === null) {
+      this.offRouteSince = timestamp;
+    }
+
+    if (timestamp - this.offRouteSince < this.options.offRouteDuration) {
+      // A single GPS jump is not enough to count as off route
+      return false;
+    }
+
+    if (!this.offRouteReported) {
+      this.offRouteReported = true;
+      console.log(`Off route: ${Math.round(distanceFromRoute)} m from the route`);
+      this.options.onOffRoute?.(position, distanceFromRoute);
+    }
+
+    return true;
+  }
+
+  /**
+   * Speak the next instruction once per announcement distance
+   */
+  private announceUpcoming(stepIndex: number, distance: number): void {
+    const step = this.steps[stepIndex];
+    const distances = this.options.announceDistances;
+
+    // Find the closest announcement distance we have reached
+    const reached = distances.filter(threshold => distance <= threshold);
+    if (reached.length === 0) return;
+
+    const threshold = reached[reached.length - 1];
+    const key = `${stepIndex}:${threshold}`;
+    if (this.announced.has(key)) return;
+
+    // Reaching a closer distance also covers the farther ones
+    reached.forEach(value => this.announced.add(`${stepIndex}:${value}`));
+
+    const isFinal = threshold === distances[distances.length - 1];
+    const text: LocalizedText = isFinal
+      ? step.instruction
+      : {
+        key: 'navigation.upcoming',
+        params: { meters: Math.round(distance / 5) * 5 || Math.round(distance), instruction: step.instruction }
+      };
+
+    this.options.onAnnounce?.(text, step);
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Postal addresses from OpenStreetMap addr:* tags, with reverse geocoding
+ * for places that have none
+ *
+ * Reverse geocoding is off unless VITE_NOMINATIM_URL names a server: the
+ * public Nominatim instance does not allow lookups for lists of places.
+ * Places without an address keep an empty one, which the UI shows as
+ * "Address not available" in the user's language.
+ */
+
+/**
+ * Turns coordinates into a formatted address, or null when nothing is known
+ */
+export type ReverseGeocoder = (lat: number, lng: number) => Promise<string | null>;
+
+/**
+ * Format an address from OSM addr:* tags, e.g.
+ * "12 Gandhi Road, Adyar, Chennai, Tamil Nadu 600020".
+ *
+ * Returns null when the tags carry no usable address.
+ */
+export function formatOsmAddress(tags: Record<string, string>): string | null {
+  if (tags['addr:full']) return tags['addr:full'].trim();
+
+  // House number and street (or the named place used instead of a street)
+  const street = tags['addr:street'] || tags['addr:place'];
+  const streetLine = [tags['addr:housenumber'], street].filter(Boolean).join(' ');
+
+  const parts = [
+    tags['addr:unit'] ? `Unit ${tags['addr:unit']}` : undefined,
+    tags['addr:housename'],
+    streetLine,
+    tags['addr:neighbourhood'] || tags['addr:quarter'],
+    tags['addr:suburb'],
+    tags['addr:city'] || tags['addr:town'] || tags['addr:village'] || tags['addr:hamlet'],
+    tags['addr:district'] || tags['addr:subdistrict'],
+    tags['addr:state'] || tags['addr:province']
+  ];
+
+  // Drop empty parts and repeats (the district is often named after the city)
+  const seen = new Set<string>();
+  const unique = parts
+    .map(part => part?.trim())
+    .filter((part): part is string => {
+      if (!part || seen.has(part.toLowerCase())) return false;
+      seen.add(part.toLowerCase());
+      return true;
+    });
+
+  // A postcode alone doesn't say where a place is, but it completes an address
+  if (unique.length === 0) return null;
+
+  const postcode = tags['addr:postcode']?.trim();
+  if (postcode) unique[unique.length - 1] = `${unique[unique.length - 1]} ${postcode}`;
+
+  return unique.join(', ');
+}
+
+/**
+ * Reverse geocoder backed by a Nominatim server
+ */
+export function createNominatimGeocoder(baseUrl: string): ReverseGeocoder {
+  return async (lat: number, lng: number) => {
+    const url = `${baseUrl.replace(/\/$/, '')}/reverse?format=jsonv2&addressdetails=1&lat=${lat}&lon=${lng}`;
+    const response = await fetch(url, { headers: { 'Accept': 'application/json' } });
+
+    if (!response.ok) {
+      throw new Error(`Reverse geocoding failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data: { display_name?: string; address?: Record<string, string> } = await response.json();
+    const address = data.address || {};
+
+    // Map Nominatim's address fields onto addr:* tags so both sources format the same way
+    const formatted = formatOsmAddress({
+      'addr:housenumber': address.house_number,
+      'addr:housename': address.building,
+      'addr:street': address.road || address.pedestrian || address.footway,
+      'addr:neighbourhood': address.neighbourhood || address.quarter,
+      'addr:suburb': address.suburb,
+      'addr:city': address.city || address.town || address.village || address.hamlet,
+      'addr:district': address.state_district || address.county,
+      'addr:state': address.state,
+      'addr:postcode': address.postcode
+    });
+
+    return formatted || data.display_name || null;
+  };
+}
+
+// Nominatim's usage policy allows one request per second
+const GEOCODE_INTERVAL = 1000;
+
+// Most places in a list that are looked up at once; the rest keep no address
+export const MAX_LIST_GEOCODES = 5;
+
+let reverseGeocoder: ReverseGeocoder | null = import.meta.env.VITE_NOMINATIM_URL
+  ? createNominatimGeocoder(import.meta.env.VITE_NOMINATIM_URL)
+  : null;
+const geocodeCache = new Map<string, Promise<string | null>>();
+// Lookups waiting for their turn; ones the user is waiting on go first
+const geocodeJobs: Array<() => Promise<unknown>> = [];
+let isGeocoding = false;
+let lastGeocodeAt = 0;
+
+/**
+ * Replace the reverse geocoder (e.g. with a local stub), or pass null to disable it
+ */
+export function setReverseGeocoder(geocoder: ReverseGeocoder | null): void {
+  reverseGeocoder = geocoder;
+  geocodeCache.clear();
+}
+
+/**
+ * Look up an address for coordinates with the configured reverse geocoder.
+ * Pass `urgent` for a lookup the user is waiting on (e.g. a point they just
+ * picked), so it doesn't queue behind background ones.
+ *
+ * Results are cached per ~10 m grid cell; errors resolve to null.
+ */
+export function reverseGeocode(lat: number, lng: number, urgent: boolean = false): Promise<string | null> {
+  if (!reverseGeocoder) return Promise.resolve(null);
+
+  const key = `${lat.toFixed(4)},${lng.toFixed(4)}`;
+  const cached = geocodeCache.get(key);
+  if (cached) return cached;
+
+  const geocoder = reverseGeocoder;
+  const request = new Promise<string | null>(resolve => {
+    const job = () => geocoder(lat, lng)
+      .catch(error => {
+        console.error('Error reverse geocoding:', error);
+        geocodeCache.delete(key);
+        return null;
+      })
+      .then(resolve);
+
+    if (urgent) geocodeJobs.unshift(job);
+    else geocodeJobs.push(job);
+  });
+
+  geocodeCache.set(key, request);
+  runGeocodeJobs();
+  return request;
+}
+
+/**
+ * Run queued lookups one at a time, spaced out to respect the server's rate limit
+ */
+async function runGeocodeJobs(): Promise<void> {
+  if (isGeocoding) return;
+  isGeocoding = true;
+
+  while (geocodeJobs.length > 0) {
+    const wait = lastGeocodeAt + GEOCODE_INTERVAL - Date.now();
+    if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+
+    const job = geocodeJobs.shift()!;
+    lastGeocodeAt = Date.now();
+    await job();
+  }
+
+  isGeocoding = false;
+}
+
+/**
+ * Reverse geocode the first places in a list that have no address yet, at
+ * most `limit` of them
+ */
+export async function fillMissingAddresses<T extends { lat: number; lng: number; address: string }>(
+  places: T[],
+  limit: number = MAX_LIST_GEOCODES
+): Promise<T[]> {
+  const missing = new Set(places.filter(place => !place.address).slice(0, limit));
+
+  return Promise.all(places.map(async place => {
+    if (!missing.has(place)) return place;
+
+    const address = await reverseGeocode(place.lat, place.lng);
+    return address ? { ...place, address } : place;
+  }));
+}
@@ -1,6 +1,61 @@
 /**
  * Overpass API client for fetching OpenStreetMap data
  */
+import {
+  calculateDistance,
+  calculateTotalDistance,
+  getBearing,
+  getBearingDifference,
+  getCompassDirection,
+  getPaddedBounds
+} from './geo';
+import {
+  buildRoutingGraph,
+  findNearestNode,
+  findPath,
+  WALKABLE_HIGHWAYS,
+  type EdgeCostFunction,
+  type GraphEdge,
+  type RoutePath,
+  type RoutingGraph
+} from './routing';
+import {
+  assessEdge,
+  describeEdgeIssue,
+  getEdgeCostFunction,
+  isCrossing,
+  type EdgeIssue,
+  type RoutingThresholds
+} from './routing-profiles';
+import {
+  NETWORK_CACHE_TTL,
+  PLACES_CACHE_TTL,
+  SEARCH_CACHE_TTL,
+  snapBoundsToTiles,
+  snapToTile,
+  withOverpassCache
+} from './overpass-cache';
+import { runOverpassQuery } from './overpass-client';
+import { formatOsmAddress } from './osm-address';
+import { getFeaturesFromTags, getPlaceTypeFromTags } from './accessibility-tags';
+import { getOsmWheelchair, type OsmWheelchair } from './ratings';
+import {
+  avoidBarriers,
+  filterBarriersInBounds,
+  getActiveBarriers,
+  type TemporaryBarrier
+} from './temporary-barriers';
+import {
+  getEdgeElevatorKey,
+  getElevatorStatuses,
+  getGraphElevators,
+  isOutOfService,
+  penalizeBrokenElevators,
+  type ElevatorStatus
+} from './elevator-status';
+import { escapeRegex, node, OverpassQuery, relation, way, type Selector } from './overpass-query';
+import type { LocalizedText, MessageKey, MessageParam } from './i18n';
+
 export interface OverpassNode {
   id: number;
   lat: number;
@@ -30,6 +85,7 @@ export interface OverpassElement {
   lat?: number;
   lon?: number;
   tags?: Record<string, string>;
+  center?: { lat: number; lon: number }; // ways and relations output with `out center`
   nodes?: number[];
   members?: Array<{
     type: string;
@@ -53,12 +109,14 @@ export interface Place {
   name: string;
   lat: number;
   lng: number;
-  address: string;
+  address: string; // empty when unknown
   placeType: string;
   accessibilityFeatures: string[];
   phone?: string;
   website?: string;
-  rating?: number;
+  communityRating?: number; // aggregated from reviews of places in our database
+  reviewCount?: number;
+  osmWheelchair?: OsmWheelchair; // the OpenStreetMap wheelchair tag
   distance?: number;
   distanceText?: string;
 }
@@ -72,120 +130,59 @@ export async function fetchAccessiblePlaces(
   radius: number = 2000
 ): Promise<Place[]> {
   try {
+    // Snap to the surrounding tile so nearby callers (Map, NearbyPlaces, home page) share one cached response
+    const area = snapToTile(lat, lng, radius);
+    const inArea = (selector: Selector) => selector.around(area.lat, area.lng, area.radius);
+
     // Query for places with accessibility tags
-    const query = `
-      [out:json][timeout:60];
-      (
-        node["wheelchair"="yes"](around:${radius},${lat},${lng});
-        node["wheelchair"="limited"](around:${radius},${lat},${lng});
-        node["tactile_paving"="yes"](around:${radius},${lat},${lng});
-        node["amenity"](around:${radius},${lat},${lng});
-        way["wheelchair"="yes"](around:${radius},${lat},${lng});
-        way["wheelchair"="limited"](around:${radius},${lat},${lng});
-        node["amenity"="restaurant"](around:${radius},${lat},${lng});
-        node["amenity"="cafe"](around:${radius},${lat},${lng});
-        node["amenity"="hospital"](around:${radius},${lat},${lng});
-        node["amenity"="school"](around:${radius},${lat},${lng});
-        node["amenity"="university"](around:${radius},${lat},${lng});
-        node["amenity"="college"](around:${radius},${lat},${lng});
-        node["amenity"="library"](around:${radius},${lat},${lng});
-        node["shop"](around:${radius},${lat},${lng});
-      );
-      out body;
-      >;
-      out skel qt;
-    `;
+    const query = new OverpassQuery({ timeout: 60 })
+      .union([
+        inArea(node().tag('wheelchair', 'yes')),
+        inArea(node().tag('wheelchair', 'limited')),
+        inArea(node().tag('tactile_paving', 'yes')),
+        inArea(node().tag('highway', 'elevator')),
+        inArea(node().tagIn('hearing_loop', ['yes', 'limited'])),
+        inArea(node().tag('amenity')),
+        inArea(way().tag('wheelchair', 'yes')),
+        inArea(way().tag('wheelchair', 'limited')),
+        inArea(relation().tag('wheelchair', 'yes')),
+        inArea(relation().tag('wheelchair', 'limited')),
+        inArea(node().tag('shop'))
+      ])
+      .out('body', { geometry: 'center', sort: 'qt' })
+      // Entrances of the ways found, used to place buildings at their door
+      .select(node().memberOf('w').tag('entrance'))
+      .out('body', { sort: 'qt' })
+      .toString();
 
     console.log("Fetching from Overpass API...");
     
-    // Add timeout and abort controller for better error handling
-    const controller = new AbortController();
-    const signal = controller.signal;
+    const data = await withOverpassCache(query, { ttl: PLACES_CACHE_TTL }, () => runOverpassQuery(query, 'Overpass API'));
+    console.log(`Received ${data.elements.length} elements from Overpass API`);
     
-    // Set a longer timeout (30 seconds)
-    const timeoutId = setTimeout(() => {
-      console.log("Overpass API request timed out after 30 seconds");
-      controller.abort();
-    }, 30000);
-    
-    try {
-      // Use a more robust fetch approach
-      const response = await fetch('https://overpass-api.de/api/interpreter', {
-        method: 'POST',
-        body: query,
-        signal,
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-          'Accept': 'application/json'
-        },
-        // Increase timeout and disable cache to avoid stale responses
-        cache: 'no-store',
-        credentials: 'omit' // Don't send cookies
+    // Transform Overpass data to our Place format, dropping places the tile padding added
+    return resolvePlaceLocations(data.elements)
+      .filter(({ location }) => calculateDistance([lat, lng], location) <= radius)
+      .map(({ element, location }) => {
+        const tags = element.tags || {};
+        
+        const accessibilityFeatures = getFeaturesFromTags(tags);
+        const placeType = getPlaceTypeFromTags(tags);
+        
+        // Create place object
+        return {
+          id: element.id,
+          name: tags.name || `Place ${element.id}`,
+          lat: location[0],
+          lng: location[1],
+          address: formatOsmAddress(tags) || '',
+          placeType,
+          accessibilityFeatures,
+          phone: tags.phone,
+          website: tags.website,
+          osmWheelchair: getOsmWheelchair(tags)
+        };
       });
-      
-      // Clear the timeout since we got a response
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        throw new Error(`Overpass API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data: OverpassResponse = await response.json();
-      console.log(`Received ${data.elements.length} elements from Overpass API`);
-      
-      // Transform Overpass data to our Place format
-      return data.elements
-        .filter(element => element.tags && (element.lat !== undefined && element.lon !== undefined))
-        .map(element => {
-          const tags = element.tags || {};
-          
-          // Extract accessibility features
-          const accessibilityFeatures: string[] = [];
-          if (tags.wheelchair === 'yes') accessibilityFeatures.push('Wheelchair Access');
-          if (tags.wheelchair === 'limited') accessibilityFeatures.push('Limited Wheelchair Access');
-          if (tags.wheelchair_toilet === 'yes') accessibilityFeatures.push('Accessible Washroom');
-          if (tags.tactile_paving === 'yes') accessibilityFeatures.push('Tactile Paving');
-          if (tags.handrail === 'yes') accessibilityFeatures.push('Handrails');
-          if (tags.ramp === 'yes') accessibilityFeatures.push('Ramp');
-          if (tags.elevator === 'yes') accessibilityFeatures.push('Elevator');
-          
-          // Determine place type
-          let placeType = 'other';
-          if (tags.amenity === 'restaurant' || tags.amenity === 'cafe') placeType = 'restaurant';
-          else if (tags.amenity === 'hospital' || tags.amenity === 'clinic' || tags.amenity === 'doctors') placeType = 'hospital';
-          else if (tags.amenity === 'school' || tags.amenity === 'university' || tags.amenity === 'college') placeType = 'education';
-          else if (tags.amenity === 'bus_station' || tags.amenity === 'train_station') placeType = 'transport';
-          else if (tags.shop) placeType = 'shopping';
-          
-          // Create place object
-          return {
-            id: element.id,
-            name: tags.name || `Place ${element.id}`,
-            lat: element.lat!,
-            lng: element.lon!,
-            address: tags.addr_street ? 
-              `${tags.addr_housenumber || ''} ${tags.addr_street}, ${tags.addr_city || ''}`.trim() : 
-              'Address not available',
-            placeType,
-            accessibilityFeatures,
-            phone: tags.phone,
-            website: tags.website,
-            // Default rating based on wheelchair accessibility
-            rating: tags.wheelchair === 'yes' ? 4.5 : tags.wheelchair === 'limited' ? 3.5 : undefined
-          };
-        });
-    } catch (fetchError: any) {
-      // Check if this is an abort error
-      if (fetchError.name === 'AbortError') {
-        console.error('Overpass API request was aborted:', fetchError);
-        throw new Error('Overpass API request timed out. Please try again later.');
-      }
-      
-      // Clear the timeout if there was another type of error
-      clearTimeout(timeoutId);
-      console.error('Error fetching from Overpass API:', fetchError);
-      throw fetchError;
-    }
   } catch (error) {
     console.error('Error in fetchAccessiblePlaces:', error);
     
@@ -195,6 +192,72 @@ export async function fetchAccessiblePlaces(
   }
 }
 
+/**
+ * Give every tagged element a point location.
+ *
+ * Nodes use their own coordinates. Ways (buildings, malls, stations) use an
+ * entrance node when one was returned, preferring wheelchair-accessible and
+ * main entrances, and otherwise the center from `out center`. Entrance nodes
+ * that belong to a returned way are treated as part of that place, not as
+ * places of their own.
+ */
+function resolvePlaceLocations(
+  elements: OverpassElement[]
+): Array<{ element: OverpassElement; location: [number, number] }> {
+  const nodesById = new Map<number, OverpassElement>();
+  elements.forEach(element => {
+    if (element.type === 'node') nodesById.set(element.id, element);
+  });
+
+  const entranceIds = new Set<number>();
+  const wayEntrances = new Map<number, OverpassElement>();
+
+  elements.forEach(element => {
+    if (element.type !== 'way' || !element.nodes) return;
+
+    const entrances = element.nodes
+      .map(id => nodesById.get(id))
+      .filter((candidate): candidate is OverpassElement => !!candidate?.tags?.entrance);
+    entrances.forEach(entrance => entranceIds.add(entrance.id));
+
+    const rank = (entrance: OverpassElement) => {
+      const tags = entrance.tags || {};
+      let score = 0;
+      if (tags.wheelchair === 'yes' || tags.wheelchair === 'designated') score += 2;
+      if (tags.entrance === 'main') score += 1;
+      if (tags.wheelchair === 'no') score -= 3;
+      return score;
+    };
+
+    const best = entrances.sort((a, b) => rank(b) - rank(a))[0];
+    if (best) wayEntrances.set(element.id, best);
+  });
+
+  const resolved: Array<{ element: OverpassElement; location: [number, number] }> = [];
+
+  elements.forEach(element => {
+    if (!element.tags) return;
+
+    if (element.type === 'node') {
+      // Entrances found for a building, unless they are named places in their own right
+      if (entranceIds.has(element.id) && !element.tags.name) return;
+      if (element.lat !== undefined && element.lon !== undefined) {
+        resolved.push({ element, location: [element.lat, element.lon] });
+      }
+      return;
+    }
+
+    const entrance = wayEntrances.get(element.id);
+    if (entrance && entrance.lat !== undefined && entrance.lon !== undefined) {
+      resolved.push({ element, location: [entrance.lat, entrance.lon] });
+    } else if (element.center) {
+      resolved.push({ element, location: [element.center.lat, element.center.lon] });
+    }
+  });
+
+  return resolved;
+}
+
 // Fallback function to provide sample data when API fails
 function getFallbackPlaces(lat: number, lng: number): Place[] {
   console.log("Using fallback places data");
@@ -208,8 +271,7 @@ function getFallbackPlaces(lat: number, lng: number): Place[] {
       lng: lng + 0.003,
       address: "123 Main Street",
       placeType: "restaurant",
-      accessibilityFeatures: ["Wheelchair Access", "Ramp", "Accessible Washroom"],
-      rating: 4.5
+      accessibilityFeatures: ["wheelchair-access", "ramp", "accessible-washroom"]
     },
     {
       id: 1002,
@@ -218,8 +280,7 @@ function getFallbackPlaces(lat: number, lng: number): Place[] {
       lng: lng + 0.002,
       address: "456 Health Avenue",
       placeType: "hospital",
-      accessibilityFeatures: ["Elevator", "Wheelchair Access", "Handrails"],
-      rating: 4.2
+      accessibilityFeatures: ["elevator", "wheelchair-access", "handrails"]
     },
     {
       id: 1003,
@@ -228,8 +289,7 @@ function getFallbackPlaces(lat: number, lng: number): Place[] {
       lng: lng - 0.001,
       address: "789 Education Road",
       placeType: "education",
-      accessibilityFeatures: ["Ramp", "Elevator", "Tactile Paving"],
-      rating: 4.0
+      accessibilityFeatures: ["ramp", "elevator", "tactile-paving"]
     },
     {
       id: 1004,
@@ -238,8 +298,7 @@ function getFallbackPlaces(lat: number, lng: number): Place[] {
       lng: lng - 0.002,
       address: "101 Retail Boulevard",
       placeType: "shopping",
-      accessibilityFeatures: ["Wheelchair Access", "Elevator", "Accessible Washroom"],
-      rating: 4.3
+      accessibilityFeatures: ["wheelchair-access", "elevator", "accessible-washroom"]
     },
     {
       id: 1005,
@@ -248,8 +307,7 @@ function getFallbackPlaces(lat: number, lng: number): Place[] {
       lng: lng + 0.001,
       address: "202 Transport Street",
       placeType: "transport",
-      accessibilityFeatures: ["Ramp", "Elevator", "Tactile Paving", "Wheelchair Access"],
-      rating: 3.9
+      accessibilityFeatures: ["ramp", "elevator", "tactile-paving", "wheelchair-access"]
     }
   ];
 }
@@ -263,103 +321,53 @@ export async function searchPlaces(
   lng: number,
   radius: number = 5000
 ): Promise<Place[]> {
+  // An empty pattern would match every named element in the area
+  const searchText = query.trim();
+  if (!searchText) return [];
+
   try {
-    // Query for places matching the search term
-    const overpassQuery = `
-      [out:json][timeout:60];
-      (
-        node["name"~"${query}", i](around:${radius},${lat},${lng});
-        way["name"~"${query}", i](around:${radius},${lat},${lng});
-        relation["name"~"${query}", i](around:${radius},${lat},${lng});
-      );
-      out body;
-      >;
-      out skel qt;
-    `;
-
-    // Add timeout and abort controller for better error handling
-    const controller = new AbortController();
-    const signal = controller.signal;
-    
-    // Set a longer timeout (30 seconds)
-    const timeoutId = setTimeout(() => {
-      console.log("Search request timed out after 30 seconds");
-      controller.abort();
-    }, 30000);
-
-    try {
-      const response = await fetch('https://overpass-api.de/api/interpreter', {
-        method: 'POST',
-        body: overpassQuery,
-        signal,
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-          'Accept': 'application/json'
-        },
-        cache: 'no-store',
-        credentials: 'omit'
-      });
-      
-      // Clear the timeout since we got a response
-      clearTimeout(timeoutId);
+    const area = snapToTile(lat, lng, radius);
+    // Match the search text literally and case-insensitively inside the name
+    const namePattern = escapeRegex(searchText);
+    const byName = (selector: Selector) => selector
+      .tagMatches('name', namePattern, { caseInsensitive: true })
+      .around(area.lat, area.lng, area.radius);
 
-      if (!response.ok) {
-        throw new Error(`Overpass API error: ${response.status} ${response.statusText}`);
-      }
+    const overpassQuery = new OverpassQuery({ timeout: 60 })
+      .union([byName(node()), byName(way()), byName(relation())])
+      .out('body', { geometry: 'center', sort: 'qt' })
+      .select(node().memberOf('w').tag('entrance'))
+      .out('body', { sort: 'qt' })
+      .toString();
 
-      const data: OverpassResponse = await response.json();
-      
-      // Transform Overpass data to our Place format
-      return data.elements
-        .filter(element => element.tags && (element.lat !== undefined && element.lon !== undefined))
-        .map(element => {
-          const tags = element.tags || {};
-          
-          // Extract accessibility features
-          const accessibilityFeatures: string[] = [];
-          if (tags.wheelchair === 'yes') accessibilityFeatures.push('Wheelchair Access');
-          if (tags.wheelchair === 'limited') accessibilityFeatures.push('Limited Wheelchair Access');
-          if (tags.wheelchair_toilet === 'yes') accessibilityFeatures.push('Accessible Washroom');
-          if (tags.tactile_paving === 'yes') accessibilityFeatures.push('Tactile Paving');
-          if (tags.handrail === 'yes') accessibilityFeatures.push('Handrails');
-          if (tags.ramp === 'yes') accessibilityFeatures.push('Ramp');
-          if (tags.elevator === 'yes') accessibilityFeatures.push('Elevator');
-          
-          // Determine place type
-          let placeType = 'other';
-          if (tags.amenity === 'restaurant' || tags.amenity === 'cafe') placeType = 'restaurant';
-          else if (tags.amenity === 'hospital' || tags.amenity === 'clinic' || tags.amenity === 'doctors') placeType = 'hospital';
-          else if (tags.amenity === 'school' || tags.amenity === 'university' || tags.amenity === 'college') placeType = 'education';
-          else if (tags.amenity === 'bus_station' || tags.amenity === 'train_station') placeType = 'transport';
-          else if (tags.shop) placeType = 'shopping';
-          
-          return {
-            id: element.id,
-            name: tags.name || `Place ${element.id}`,
-            lat: element.lat!,
-            lng: element.lon!,
-            address: tags.addr_street ? 
-              `${tags.addr_housenumber || ''} ${tags.addr_street}, ${tags.addr_city || ''}`.trim() : 
-              'Address not available',
-            placeType,
-            accessibilityFeatures,
-            phone: tags.phone,
-            website: tags.website,
-            rating: tags.wheelchair === 'yes' ? 4.5 : tags.wheelchair === 'limited' ? 3.5 : undefined
-          };
-        });
-    } catch (fetchError: any) {
-      // Check if this is an abort error
-      if (fetchError.name === 'AbortError') {
-        console.error('Search request was aborted:', fetchError);
-        throw new Error('Search request timed out. Please try again later.');
-      }
-      
-      // Clear the timeout if there was another type of error
-      clearTimeout(timeoutId);
-      console.error('Error searching places:', fetchError);
-      throw fetchError;
-    }
+    const data = await withOverpassCache(
+      overpassQuery,
+      { ttl: SEARCH_CACHE_TTL },
+      () => runOverpassQuery(overpassQuery, 'Search')
+    );
+    
+    // Transform Overpass data to our Place format, dropping places the tile padding added
+    return resolvePlaceLocations(data.elements)
+      .filter(({ location }) => calculateDistance([lat, lng], location) <= radius)
+      .map(({ element, location }) => {
+        const tags = element.tags || {};
+        
+        const accessibilityFeatures = getFeaturesFromTags(tags);
+        const placeType = getPlaceTypeFromTags(tags);
+        
+        return {
+          id: element.id,
+          name: tags.name || `Place ${element.id}`,
+          lat: location[0],
+          lng: location[1],
+          address: formatOsmAddress(tags) || '',
+          placeType,
+          accessibilityFeatures,
+          phone: tags.phone,
+          website: tags.website,
+          osmWheelchair: getOsmWheelchair(tags)
+        };
+      });
   } catch (error) {
     console.error('Error in searchPlaces:', error);
     
@@ -384,8 +392,7 @@ function getFallbackSearchResults(query: string, lat: number, lng: number): Plac
       lng: lng + 0.001,
       address: "123 Food Street",
       placeType: "restaurant",
-      accessibilityFeatures: ["Wheelchair Access", "Ramp", "Accessible Washroom"],
-      rating: 4.3
+      accessibilityFeatures: ["wheelchair-access", "ramp", "accessible-washroom"]
     });
   }
   
@@ -397,8 +404,7 @@ function getFallbackSearchResults(query: string, lat: number, lng: number): Plac
       lng: lng + 0.003,
       address: "456 Health Boulevard",
       placeType: "hospital",
-      accessibilityFeatures: ["Elevator", "Wheelchair Access", "Handrails"],
-      rating: 4.5
+      accessibilityFeatures: ["elevator", "wheelchair-access", "handrails"]
     });
   }
   
@@ -410,8 +416,7 @@ function getFallbackSearchResults(query: string, lat: number, lng: number): Plac
       lng: lng - 0.002,
       address: "789 Education Avenue",
       placeType: "education",
-      accessibilityFeatures: ["Ramp", "Elevator", "Tactile Paving"],
-      rating: 4.1
+      accessibilityFeatures: ["ramp", "elevator", "tactile-paving"]
     });
   }
   
@@ -424,446 +429,545 @@ function getFallbackSearchResults(query: string, lat: number, lng: number): Plac
       lng: lng - 0.001,
       address: "123 Main Street",
       placeType: "other",
-      accessibilityFeatures: ["Wheelchair Access"],
-      rating: 3.8
+      accessibilityFeatures: ["wheelchair-access"]
     });
   }
   
   return results;
 }
 
+export interface RouteStep {
+  instruction: LocalizedText;
+  distance: number; // meters
+  duration: number; // seconds
+  isAccessible: boolean;
+  location: [number, number]; // maneuver point where the step begins
+  routeIndex: number; // index of the maneuver point in the route polyline
+}
+
+export type RouteAlternativeKind = 'most-accessible' | 'shortest' | 'fewest-crossings';
+
+/**
+ * Accessibility trade-offs of one route, for comparing alternatives
+ */
+export interface RouteSummary {
+  crossings: number;
+  issues: Partial<Record<EdgeIssue, number>>;
+  elevators: RouteElevator[]; // in the order they are used
+  description: LocalizedText;
+}
+
+/**
+ * An elevator a route depends on, with its latest reported status
+ */
+export interface RouteElevator {
+  key: string;
+  location: [number, number];
+  status: ElevatorStatus | null;
+}
+
+export interface RouteAlternative {
+  kind: RouteAlternativeKind;
+  route: Array<[number, number]>;
+  distance: number;
+  duration: number;
+  steps: RouteStep[];
+  summary: RouteSummary;
+}
+
+export interface RouteResult {
+  route: Array<[number, number]>;
+  distance: number;
+  duration: number;
+  steps: RouteStep[];
+  alternatives: RouteAlternative[]; // the first alternative is the recommended route above
+}
+
+// Walking speed used for duration estimates (m/s)
+const WALKING_SPEED = 1.4;
+
+// Beyond this straight-line distance the footway network is too large to download
+const MAX_ROUTING_DISTANCE = 10000;
+
+// Extra cost (meters) per road crossing when looking for the route with fewest crossings
+const CROSSING_PENALTY = 250;
+
 /**
- * Fetch route data between two points using A* algorithm optimized for accessibility
+ * Fetch route data between two points using A* search over the OSM footway network.
+ *
+ * Up to three alternatives are returned: the most accessible route for the
+ * profile, the shortest route that is still passable, and the route with the
+ * fewest road crossings. Identical paths are only returned once.
+ *
+ * Throws when the network can't be downloaded or has no usable path. There is
+ * no straight-line fallback here: a line that was never checked must not be
+ * presented as an accessible route.
  */
 export async function fetchRoute(
   startLat: number,
   startLng: number,
   endLat: number,
   endLng: number,
-  profile: string = 'wheelchair'
-): Promise<{
-  route: Array<[number, number]>;
-  distance: number;
-  duration: number;
-  steps: Array<{
-    instruction: string;
-    distance: string;
-    duration: string;
-    isAccessible: boolean;
-  }>;
-}> {
-  try {
-    console.log(`Generating route from [${startLat},${startLng}] to [${endLat},${endLng}]`);
-    
-    // First, try to fetch accessible waypoints between start and end
-    const midLat = (startLat + endLat) / 2;
-    const midLng = (startLng + endLng) / 2;
-    const radius = calculateDistance([startLat, startLng], [endLat, endLng]) * 1.5;
-    
-    console.log(`Searching for accessible waypoints in radius: ${radius}m`);
-    
-    // Fetch accessible places that could serve as waypoints
-    let accessiblePlaces: Place[] = [];
-    try {
-      // Add timeout and abort controller for better error handling
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => {
-        console.log("Waypoints request timed out after 20 seconds");
-        controller.abort();
-      }, 20000);
-      
-      accessiblePlaces = await fetchAccessiblePlaces(midLat, midLng, radius * 1000);
-      clearTimeout(timeoutId);
-      
-      console.log(`Found ${accessiblePlaces.length} potential waypoints`);
-    } catch (error) {
-      console.error("Error fetching accessible places for route:", error);
-      // Continue with empty waypoints
-    }
-    
-    // Generate route using A* algorithm with accessibility considerations
-    const route = generateAccessibleRoute(
-      [startLat, startLng],
-      [endLat, endLng],
-      accessiblePlaces,
-      profile
-    );
-    
-    // Calculate total distance (in meters)
-    const distance = calculateTotalDistance(route);
-    
-    // Estimate duration (walking speed ~1.4 m/s)
-    const duration = distance / 1.4;
-    
-    // Generate steps
-    const steps = generateRouteSteps(route, accessiblePlaces);
-    
-    console.log(`Route generated: ${route.length} points, ${distance.toFixed(0)}m, ${steps.length} steps`);
-    
-    return {
-      route,
-      distance,
-      duration,
-      steps
-    };
-  } catch (error) {
-    console.error('Error generating route:', error);
-    
-    // Return a fallback direct route
-    const fallbackRoute = generateFallbackRoute([startLat, startLng], [endLat, endLng]);
-    const distance = calculateTotalDistance(fallbackRoute);
-    const duration = distance / 1.4;
-    
-    return {
-      route: fallbackRoute,
-      distance,
-      duration,
-      steps: [
-        {
-          instruction: `Head toward your destination`,
-          distance: formatDistance(distance),
-          duration: formatDuration(duration),
-          isAccessible: true
-        },
-        {
-          instruction: 'Arrive at your destination',
-          distance: '0 m',
-          duration: '0 min',
-          isAccessible: true
-        }
-      ]
-    };
+  profile: string = 'wheelchair',
+  thresholds: RoutingThresholds = {}
+): Promise<RouteResult> {
+  console.log(`Generating route from [${startLat},${startLng}] to [${endLat},${endLng}] with profile: ${profile}`);
+
+  const start: [number, number] = [startLat, startLng];
+  const end: [number, number] = [endLat, endLng];
+  const directDistance = calculateDistance(start, end);
+
+  if (directDistance > MAX_ROUTING_DISTANCE) {
+    throw new Error(`Destination is too far for walking directions (${(directDistance / 1000).toFixed(1)} km)`);
   }
-}
 
-// Generate a simple fallback route when route generation fails
-function generateFallbackRoute(
-  start: [number, number],
-  end: [number, number]
-): Array<[number, number]> {
-  const route: Array<[number, number]> = [start];
-  
-  // Add some intermediate points for a smoother line
-  const segmentCount = 10;
-  for (let i = 1; i < segmentCount; i++) {
-    const ratio = i / segmentCount;
-    const lat = start[0] + (end[0] - start[0]) * ratio;
-    const lng = start[1] + (end[1] - start[1]) * ratio;
-    route.push([lat, lng]);
+  // Download the walkable network for a corridor around start and end
+  const corridorPadding = Math.max(150, directDistance * 0.25);
+  const [graph, barriers] = await Promise.all([
+    fetchWalkingNetwork(start, end, corridorPadding),
+    fetchRouteBarriers(start, end, corridorPadding)
+  ]);
+
+  const startNode = findNearestNode(graph, start);
+  const endNode = findNearestNode(graph, end);
+  if (!startNode || !endNode) {
+    throw new Error('No walkable ways found near the start or destination');
   }
-  
-  route.push(end);
-  return route;
+
+  const elevatorStatuses = await fetchElevatorStatuses(graph);
+
+  // Temporary barriers (construction, flooding, ...) block every alternative,
+  // and elevators reported out of service are only used as a last resort
+  const profileCost = penalizeBrokenElevators(
+    avoidBarriers(getEdgeCostFunction(profile, thresholds, graph.restSpots), graph, barriers),
+    elevatorStatuses
+  );
+  const costFunctions: Array<[RouteAlternativeKind, EdgeCostFunction]> = [
+    ['most-accessible', profileCost],
+    // Shortest distance, but never through the profile's hard barriers
+    ['shortest', (edge, target) => isFinite(profileCost(edge, target)) ? edge.distance : Infinity],
+    ['fewest-crossings', (edge, target) => profileCost(edge, target) + (isCrossing(edge, target) ? CROSSING_PENALTY : 0)]
+  ];
+
+  const alternatives: RouteAlternative[] = [];
+  const seenPaths = new Set<string>();
+
+  costFunctions.forEach(([kind, costFn]) => {
+    const path = findPath(graph, startNode.id, endNode.id, costFn);
+    if (!path) return;
+
+    const key = path.nodeIds.join(',');
+    if (seenPaths.has(key)) return;
+    seenPaths.add(key);
+
+    alternatives.push(buildRouteAlternative(kind, path, graph, start, end, profile, thresholds, elevatorStatuses));
+  });
+
+  if (alternatives.length === 0) {
+    throw new Error(barriers.length > 0
+      ? 'Every walkable path is blocked by a temporary barrier'
+      : 'No walkable path found between start and destination');
+  }
+
+  const [recommended] = alternatives;
+  console.log(`Route generated: ${alternatives.length} alternatives, recommended ${recommended.distance.toFixed(0)}m`);
+
+  return {
+    route: recommended.route,
+    distance: recommended.distance,
+    duration: recommended.duration,
+    steps: recommended.steps,
+    alternatives
+  };
 }
 
 /**
- * Generate an accessible route using A* algorithm
- * This is a simplified implementation that prioritizes accessible waypoints
+ * Active temporary barriers within the routing corridor. Routing goes ahead
+ * without them if they can't be loaded.
  */
-function generateAccessibleRoute(
+async function fetchRouteBarriers(
   start: [number, number],
   end: [number, number],
-  accessiblePlaces: Place[] = [],
-  profile: string = 'wheelchair'
-): Array<[number, number]> {
-  console.log(`Generating accessible route with profile: ${profile}`);
-  
-  // Filter places that are roughly along the path
-  const potentialWaypoints = accessiblePlaces.filter(place => {
-    // Calculate if place is roughly along the path (within a certain deviation)
-    const directDistance = calculateDistance(start, end);
-    const detourDistance = 
-      calculateDistance(start, [place.lat, place.lng]) + 
-      calculateDistance([place.lat, place.lng], end);
-    
-    // Allow for some deviation (20% longer than direct path)
-    return detourDistance <= directDistance * 1.2;
-  });
-  
-  console.log(`Found ${potentialWaypoints.length} waypoints along the path`);
-  
-  // Sort waypoints by their accessibility features (more features = better)
-  const sortedWaypoints = potentialWaypoints.sort((a, b) => {
-    // First prioritize by number of accessibility features
-    const featureDiff = b.accessibilityFeatures.length - a.accessibilityFeatures.length;
-    if (featureDiff !== 0) return featureDiff;
-    
-    // Then by specific features based on profile
-    if (profile === 'wheelchair') {
-      const aHasRamp = a.accessibilityFeatures.some(f => f.toLowerCase().includes('ramp'));
-      const bHasRamp = b.accessibilityFeatures.some(f => f.toLowerCase().includes('ramp'));
-      if (aHasRamp && !bHasRamp) return -1;
-      if (!aHasRamp && bHasRamp) return 1;
-    }
-    
-    // Finally by distance from direct path
-    const directPath = calculateDistance(start, end);
-    const aDeviation = (calculateDistance(start, [a.lat, a.lng]) + calculateDistance([a.lat, a.lng], end)) - directPath;
-    const bDeviation = (calculateDistance(start, [b.lat, b.lng]) + calculateDistance([b.lat, b.lng], end)) - directPath;
-    return aDeviation - bDeviation;
-  });
-  
-  // Take top waypoints for a reasonable route
-  const maxWaypoints = Math.min(5, sortedWaypoints.length);
-  const selectedWaypoints = sortedWaypoints.slice(0, maxWaypoints);
-  console.log(`Selected ${selectedWaypoints.length} waypoints for route`);
-  
-  // Create initial route with start and end
-  const route: Array<[number, number]> = [start];
-  
-  // If we have waypoints, add them in order of best path
-  if (selectedWaypoints.length > 0) {
-    // Simple greedy algorithm to order waypoints
-    let currentPoint = start;
-    const remainingWaypoints = [...selectedWaypoints];
-    
-    while (remainingWaypoints.length > 0) {
-      // Find closest waypoint to current position
-      let closestIndex = 0;
-      let closestDistance = Infinity;
-      
-      remainingWaypoints.forEach((waypoint, index) => {
-        const distance = calculateDistance(currentPoint, [waypoint.lat, waypoint.lng]);
-        if (distance < closestDistance) {
-          closestDistance = distance;
-          closestIndex = index;
-        }
-      });
-      
-      // Add closest waypoint to route
-      const nextWaypoint = remainingWaypoints[closestIndex];
-      route.push([nextWaypoint.lat, nextWaypoint.lng]);
-      
-      // Update current point and remove waypoint from remaining
-      currentPoint = [nextWaypoint.lat, nextWaypoint.lng];
-      remainingWaypoints.splice(closestIndex, 1);
-    }
-  }
-  
-  // Add end point
-  route.push(end);
-  
-  // Add intermediate points for a smoother route
-  const smoothRoute: Array<[number, number]> = [route[0]];
-  
-  for (let i = 0; i < route.length - 1; i++) {
-    const segmentCount = 4; // Number of points to add between waypoints
-    
-    for (let j = 1; j <= segmentCount; j++) {
-      const ratio = j / (segmentCount + 1);
-      
-      // Add some randomness to make the route look more realistic
-      const jitterLat = (Math.random() - 0.5) * 0.0005;
-      const jitterLng = (Math.random() - 0.5) * 0.0005;
-      
-      const lat = route[i][0] + (route[i+1][0] - route[i][0]) * ratio + jitterLat;
-      const lng = route[i][1] + (route[i+1][1] - route[i][1]) * ratio + jitterLng;
-      
-      smoothRoute.push([lat, lng]);
+  padding: number
+): Promise<TemporaryBarrier[]> {
+  try {
+    const barriers = filterBarriersInBounds(await getActiveBarriers(), getPaddedBounds([start, end], padding));
+    if (barriers.length > 0) {
+      console.log(`Avoiding ${barriers.length} temporary barriers`);
     }
-    
-    smoothRoute.push(route[i+1]);
+    return barriers;
+  } catch (error) {
+    console.error('Error fetching temporary barriers:', error);
+    return [];
   }
-  
-  return smoothRoute;
 }
 
 /**
- * Calculate total distance of a route in meters
+ * Latest status of the elevators in the routing graph. Routing goes ahead
+ * without them if they can't be loaded.
  */
-function calculateTotalDistance(route: Array<[number, number]>): number {
-  let distance = 0;
-  
-  for (let i = 1; i < route.length; i++) {
-    distance += calculateDistance(route[i-1], route[i]);
+async function fetchElevatorStatuses(graph: RoutingGraph): Promise<Map<string, ElevatorStatus>> {
+  const elevators = getGraphElevators(graph);
+
+  try {
+    return await getElevatorStatuses(elevators.map(elevator => elevator.key));
+  } catch (error) {
+    console.error('Error fetching elevator status:', error);
+    return new Map();
   }
-  
-  return distance;
 }
 
 /**
- * Calculate distance between two points in meters using Haversine formula
+ * Turn a network path into a route alternative with steps and a barrier summary
  */
-function calculateDistance(
-  point1: [number, number],
-  point2: [number, number]
-): number {
-  const R = 6371e3; // Earth's radius in meters
-  const φ1 = point1[0] * Math.PI / 180;
-  const φ2 = point2[0] * Math.PI / 180;
-  const Δφ = (point2[0] - point1[0]) * Math.PI / 180;
-  const Δλ = (point2[1] - point1[1]) * Math.PI / 180;
-  
-  const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) +
-            Math.cos(φ1) * Math.cos(φ2) *
-            Math.sin(Δλ/2) * Math.sin(Δλ/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  
-  return R * c;
+function buildRouteAlternative(
+  kind: RouteAlternativeKind,
+  path: RoutePath,
+  graph: RoutingGraph,
+  start: [number, number],
+  end: [number, number],
+  profile: string,
+  thresholds: RoutingThresholds,
+  elevatorStatuses: Map<string, ElevatorStatus>
+): RouteAlternative {
+  // Connect the actual start and end points to the snapped network path
+  const route: Array<[number, number]> = [
+    start,
+    ...path.nodeIds.map(id => {
+      const node = graph.nodes.get(id)!;
+      return [node.lat, node.lon] as [number, number];
+    }),
+    end
+  ];
+
+  // Calculate total distance (in meters)
+  const distance = calculateTotalDistance(route);
+
+  return {
+    kind,
+    route,
+    distance,
+    duration: distance / WALKING_SPEED,
+    steps: generateRouteSteps(path, graph, start, end, profile, thresholds),
+    summary: summarizePath(path, graph, profile, thresholds, elevatorStatuses)
+  };
 }
 
 /**
- * Generate route steps with instructions
+ * Count crossings, accessibility issues and elevators along a path
  */
-function generateRouteSteps(
-  route: Array<[number, number]>,
-  accessiblePlaces: Place[] = []
-): Array<{
-  instruction: string;
-  distance: string;
-  duration: string;
-  isAccessible: boolean;
-}> {
-  const steps = [];
-  const directions = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'];
-  
-  // Start instruction
-  steps.push({
-    instruction: `Head ${directions[Math.floor(Math.random() * directions.length)]} on your route`,
-    distance: formatDistance(calculateDistance(route[0], route[Math.min(5, route.length - 1)])),
-    duration: formatDuration(calculateDistance(route[0], route[Math.min(5, route.length - 1)]) / 1.4),
-    isAccessible: true
-  });
-  
-  // Find significant turns and waypoints
-  const significantPoints = [];
-  let lastDirection = getDirection(route[0], route[Math.min(5, route.length - 1)]);
-  
-  for (let i = 5; i < route.length - 5; i += 5) {
-    const currentDirection = getDirection(route[i], route[i + 5 >= route.length ? route.length - 1 : i + 5]);
-    const directionChange = getDirectionDifference(lastDirection, currentDirection);
-    
-    // If there's a significant turn
-    if (directionChange > 30) {
-      significantPoints.push({
-        index: i,
-        type: 'turn',
-        direction: getTurnDirection(directionChange),
-        point: route[i]
-      });
-      lastDirection = currentDirection;
-    }
-    
-    // Check if we're near an accessible place
-    const nearbyPlace = findNearbyPlace(route[i], accessiblePlaces, 100);
-    if (nearbyPlace) {
-      significantPoints.push({
-        index: i,
-        type: 'place',
-        place: nearbyPlace,
-        point: route[i]
-      });
-    }
-  }
-  
-  // Generate instructions for significant points
-  let lastIndex = 0;
-  significantPoints.forEach((point, index) => {
-    const distance = calculateTotalDistance(route.slice(lastIndex, point.index));
-    const duration = distance / 1.4;
-    
-    if (point.type === 'turn') {
-      steps.push({
-        instruction: `Turn ${point.direction} and continue straight`,
-        distance: formatDistance(distance),
-        duration: formatDuration(duration),
-        isAccessible: true
-      });
-    } else if (point.type === 'place') {
-      const place = point.place;
-      const accessibilityFeatures = place.accessibilityFeatures.join(', ');
-      
-      steps.push({
-        instruction: `Continue past ${place.name}. Note: ${accessibilityFeatures} available.`,
-        distance: formatDistance(distance),
-        duration: formatDuration(duration),
-        isAccessible: place.accessibilityFeatures.length > 0
+function summarizePath(
+  path: RoutePath,
+  graph: RoutingGraph,
+  profile: string,
+  thresholds: RoutingThresholds,
+  elevatorStatuses: Map<string, ElevatorStatus>
+): RouteSummary {
+  const issues: Partial<Record<EdgeIssue, number>> = {};
+  const elevators: RouteElevator[] = [];
+  let crossings = 0;
+  let previousIssues: EdgeIssue[] = [];
+  let previousWasCrossing = false;
+
+  path.edges.forEach(edge => {
+    const target = graph.nodes.get(edge.to)!;
+    const assessment = assessEdge(edge, target, profile, thresholds);
+
+    // A run of consecutive edges with the same issue counts once
+    assessment.issues.forEach(issue => {
+      if (issue === 'raised-kerb' || !previousIssues.includes(issue)) {
+        issues[issue] = (issues[issue] || 0) + 1;
+      }
+    });
+    previousIssues = assessment.issues;
+
+    const crossing = isCrossing(edge, target);
+    if (crossing && !previousWasCrossing) crossings++;
+    previousWasCrossing = crossing;
+
+    const elevatorKey = getEdgeElevatorKey(edge, target);
+    if (elevatorKey && !elevators.some(elevator => elevator.key === elevatorKey)) {
+      elevators.push({
+        key: elevatorKey,
+        location: [target.lat, target.lon],
+        status: elevatorStatuses.get(elevatorKey) || null
       });
     }
-    
-    lastIndex = point.index;
   });
-  
-  // Final step
-  const finalDistance = calculateTotalDistance(route.slice(lastIndex));
-  steps.push({
-    instruction: 'Arrive at your destination',
-    distance: formatDistance(finalDistance),
-    duration: formatDuration(finalDistance / 1.4),
-    isAccessible: true
-  });
-  
-  return steps;
+
+  const parts: LocalizedText[] = (Object.entries(issues) as Array<[EdgeIssue, number]>)
+    .map(([issue, count]) => count > 1
+      ? { key: 'route.issue-count', params: { issue: describeEdgeIssue(issue), count } }
+      : describeEdgeIssue(issue));
+
+  // Broken elevators go first, they matter most
+  const brokenElevators = elevators.filter(elevator => isOutOfService(elevator.status)).length;
+  if (brokenElevators > 0) {
+    parts.unshift({ key: 'route.broken-elevators', params: { count: brokenElevators } });
+  }
+
+  return {
+    crossings,
+    issues,
+    elevators,
+    description: parts.length > 0 ? { key: 'route.summary', params: { issues: parts } } : { key: 'route.summary-clear' }
+  };
+}
+
+export interface Entrance {
+  id: number;
+  lat: number;
+  lng: number;
+  name: LocalizedText;
+  distance: number; // meters from the destination point
 }
 
 /**
- * Format distance for display
+ * Fetch wheelchair-accessible entrances (entrance=* + wheelchair=yes) of the
+ * building at a destination, nearest first.
+ *
+ * Entrances on buildings that touch the destination point are preferred; loose
+ * entrance nodes close to the point are included for buildings that are mapped
+ * as a single node or not at all.
  */
-function formatDistance(meters: number): string {
-  if (meters < 1000) {
-    return `${Math.round(meters)} m`;
-  } else {
-    return `${(meters / 1000).toFixed(1)} km`;
+export async function fetchAccessibleEntrances(
+  lat: number,
+  lng: number,
+  radius: number = 60
+): Promise<Entrance[]> {
+  try {
+    const accessibleEntrance = () => node().tag('entrance').tagIn('wheelchair', ['yes', 'designated']);
+    const query = new OverpassQuery({ timeout: 25 })
+      .select(way().tag('building').around(lat, lng, 25), 'buildings')
+      .union([
+        accessibleEntrance().memberOf('w', 'buildings'),
+        accessibleEntrance().around(lat, lng, radius)
+      ])
+      .out('body', { sort: 'qt' })
+      .toString();
+
+    const data = await withOverpassCache(
+      query,
+      { ttl: NETWORK_CACHE_TTL },
+      () => runOverpassQuery(query, 'Entrance', 15000)
+    );
+
+    const entrances = data.elements
+      .filter(element => element.type === 'node' && element.lat !== undefined && element.lon !== undefined)
+      .map(element => {
+        const tags = element.tags || {};
+        const type: LocalizedText = { key: tags.entrance === 'main' ? 'entrance.main' : 'entrance.accessible' };
+        const label = tags.name || tags.ref;
+        return {
+          id: element.id,
+          lat: element.lat!,
+          lng: element.lon!,
+          name: label ? { key: 'entrance.named', params: { type, name: label } } as LocalizedText : type,
+          distance: calculateDistance([lat, lng], [element.lat!, element.lon!])
+        };
+      });
+
+    console.log(`Found ${entrances.length} accessible entrances near [${lat},${lng}]`);
+
+    return entrances.sort((a, b) => a.distance - b.distance);
+  } catch (error) {
+    console.error('Error fetching accessible entrances:', error);
+    return [];
   }
 }
 
 /**
- * Format duration for display
+ * Download footways, sidewalks, crossings, paths and walkable roads inside a
+ * padded bounding box around the start and end points, plus benches and
+ * shelters for rest-spot spacing
  */
-function formatDuration(seconds: number): string {
-  const minutes = Math.round(seconds / 60);
-  if (minutes < 60) {
-    return `${minutes} min`;
-  } else {
-    const hours = Math.floor(minutes / 60);
-    const remainingMinutes = minutes % 60;
-    return `${hours} hr ${remainingMinutes} min`;
-  }
+async function fetchWalkingNetwork(
+  start: [number, number],
+  end: [number, number],
+  padding: number
+): Promise<RoutingGraph> {
+  // Whole tiles, so routes and reroutes in the same area reuse one download
+  const [south, west, north, east] = snapBoundsToTiles(getPaddedBounds([start, end], padding));
+  const inBounds = (selector: Selector) => selector.bbox(south, west, north, east);
+
+  const query = new OverpassQuery({ timeout: 60 })
+    .union([
+      inBounds(way().tagIn('highway', WALKABLE_HIGHWAYS)),
+      inBounds(way().tag('footway'))
+    ])
+    .recurse('>', true)
+    .out('body', { sort: 'qt' })
+    .union([
+      inBounds(node().tagIn('amenity', ['bench', 'shelter'])),
+      inBounds(node().tag('leisure', 'picnic_table'))
+    ])
+    .out('body', { sort: 'qt' })
+    .toString();
+
+  const data = await withOverpassCache(
+    query,
+    { ttl: NETWORK_CACHE_TTL },
+    () => runOverpassQuery(query, 'Walking network')
+  );
+  console.log(`Received ${data.elements.length} network elements from Overpass API`);
+
+  return buildRoutingGraph(data.elements);
 }
 
 /**
- * Get direction in degrees (0-360) between two points
+ * Generate turn-by-turn steps from a network path.
+ *
+ * Consecutive edges are merged into one step until the walker has to turn,
+ * the street name changes, or the way type changes (crossings, steps).
  */
-function getDirection(from: [number, number], to: [number, number]): number {
-  const dLng = to[1] - from[1];
-  const dLat = to[0] - from[0];
-  
-  let angle = Math.atan2(dLng, dLat) * 180 / Math.PI;
-  if (angle < 0) angle += 360;
-  
-  return angle;
+function generateRouteSteps(
+  path: RoutePath,
+  graph: RoutingGraph,
+  start: [number, number],
+  end: [number, number],
+  profile: string,
+  thresholds: RoutingThresholds
+): RouteStep[] {
+  const steps: RouteStep[] = [];
+  const coords = (id: number): [number, number] => {
+    const node = graph.nodes.get(id)!;
+    return [node.lat, node.lon];
+  };
+
+  if (path.edges.length === 0) {
+    const distance = calculateDistance(start, end);
+    return [
+      {
+        instruction: {
+          key: 'step.head-toward',
+          params: { direction: { key: `direction.${getCompassDirection(getBearing(start, end))}` } }
+        },
+        distance,
+        duration: distance / WALKING_SPEED,
+        isAccessible: true,
+        location: start,
+        routeIndex: 0
+      },
+      {
+        instruction: { key: 'step.arrive' },
+        distance: 0,
+        duration: 0,
+        isAccessible: true,
+        location: end,
+        routeIndex: path.nodeIds.length + 1
+      }
+    ];
+  }
+
+  // Split the path into segments at maneuver points
+  const segments: Array<{ edges: GraphEdge[]; turn: number | null; firstEdge: number }> = [
+    { edges: [path.edges[0]], turn: null, firstEdge: 0 }
+  ];
+
+  for (let i = 1; i < path.edges.length; i++) {
+    const previous = path.edges[i - 1];
+    const edge = path.edges[i];
+    const turn = getBearingDifference(
+      getBearing(coords(previous.from), coords(previous.to)),
+      getBearing(coords(edge.from), coords(edge.to))
+    );
+
+    const nameChanged = edge.wayId !== previous.wayId &&
+      !!edge.tags.name && edge.tags.name !== previous.tags.name;
+    const kindChanged = getWayKind(edge.tags) !== getWayKind(previous.tags);
+
+    if (Math.abs(turn) >= 35 || nameChanged || kindChanged) {
+      segments.push({ edges: [edge], turn, firstEdge: i });
+    } else {
+      segments[segments.length - 1].edges.push(edge);
+    }
+  }
+
+  segments.forEach((segment, index) => {
+    const first = segment.edges[0];
+    const distance = segment.edges.reduce((sum, edge) => sum + edge.distance, 0) +
+      (index === 0 ? calculateDistance(start, coords(first.from)) : 0);
+    const wayName = getWayName(first.tags);
+    const kind = getWayKind(first.tags);
+
+    let instruction: LocalizedText;
+    if (segment.turn === null) {
+      const direction = getCompassDirection(getBearing(coords(first.from), coords(first.to)));
+      instruction = { key: 'step.head-on', params: { direction: { key: `direction.${direction}` }, way: wayName } };
+    } else {
+      const turn: LocalizedText = { key: Math.abs(segment.turn) < 35 ? 'turn.continue' : getTurnDirection(segment.turn) };
+      if (kind === 'crossing') instruction = { key: 'step.turn-cross', params: { turn } };
+      else if (kind === 'steps') instruction = { key: 'step.turn-steps', params: { turn } };
+      else instruction = { key: 'step.turn-onto', params: { turn, way: wayName } };
+    }
+
+    // Warn about anything on this stretch that the profile considers a problem
+    const issues = new Set<EdgeIssue>();
+    segment.edges.forEach(edge => {
+      assessEdge(edge, graph.nodes.get(edge.to)!, profile, thresholds).issues.forEach(issue => issues.add(issue));
+    });
+    if (issues.size > 0) {
+      instruction = {
+        key: 'step.with-caution',
+        params: { instruction, issues: Array.from(issues).map(describeEdgeIssue) }
+      };
+    }
+
+    steps.push({
+      instruction,
+      distance,
+      duration: distance / WALKING_SPEED,
+      isAccessible: issues.size === 0,
+      // Route polyline is [start, ...path nodes, end], so path node k sits at index k + 1
+      location: index === 0 ? start : coords(first.from),
+      routeIndex: index === 0 ? 0 : segment.firstEdge + 1
+    });
+  });
+
+  // Final step
+  const finalDistance = calculateDistance(coords(path.nodeIds[path.nodeIds.length - 1]), end);
+  steps.push({
+    instruction: { key: 'step.arrive' },
+    distance: finalDistance,
+    duration: finalDistance / WALKING_SPEED,
+    isAccessible: true,
+    location: end,
+    routeIndex: path.nodeIds.length + 1
+  });
+
+  return steps;
 }
 
 /**
- * Get difference between two directions (in degrees)
+ * Classify a way for step grouping
  */
-function getDirectionDifference(dir1: number, dir2: number): number {
-  const diff = Math.abs(dir1 - dir2);
-  return diff > 180 ? 360 - diff : diff;
+function getWayKind(tags: Record<string, string>): string {
+  if (tags.highway === 'steps') return 'steps';
+  if (tags.highway === 'crossing' || tags.footway === 'crossing') return 'crossing';
+  return 'way';
 }
 
 /**
- * Get turn direction based on angle
+ * Spoken name for a way, falling back to its type when it has no name
  */
-function getTurnDirection(angle: number): string {
-  if (angle < 45) return 'slightly right';
-  if (angle < 90) return 'right';
-  if (angle < 135) return 'sharp right';
-  if (angle < 225) return 'around';
-  if (angle < 270) return 'sharp left';
-  if (angle < 315) return 'left';
-  return 'slightly left';
+function getWayName(tags: Record<string, string>): MessageParam {
+  if (tags.name) return tags.name;
+  if (tags.footway === 'sidewalk') return { key: 'way.sidewalk' };
+  if (tags.highway === 'footway' || tags.highway === 'pedestrian') return { key: 'way.footpath' };
+  if (tags.highway === 'path') return { key: 'way.path' };
+  if (tags.highway === 'steps') return { key: 'way.steps' };
+  return { key: 'way.road' };
 }
 
 /**
- * Find a nearby place within a certain radius
+ * Get turn direction from a signed bearing change (positive = right)
  */
-function findNearbyPlace(point: [number, number], places: Place[], maxDistance: number): Place | null {
-  for (const place of places) {
-    const distance = calculateDistance(point, [place.lat, place.lng]);
-    if (distance <= maxDistance) {
-      return place;
-    }
-  }
-  return null;
-}
\ No newline at end of file
+function getTurnDirection(angle: number): MessageKey {
+  const side = angle > 0 ? 'right' : 'left';
+  const magnitude = Math.abs(angle);
+
+  if (magnitude < 45) return `turn.slightly-${side}`;
+  if (magnitude < 135) return `turn.${side}`;
+  if (magnitude < 170) return `turn.sharp-${side}`;
+  return 'turn.around';
+}
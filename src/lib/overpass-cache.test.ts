@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { calculateDistance } from './geo';
+import { getTile, normalizeQuery, snapBoundsToTiles, snapToTile } from './overpass-cache';
+
+const TTL = 60 * 1000;
+
+// A fresh copy of the module, with empty memory and no open database
+async function loadCache() {
+  vi.resetModules();
+  return import('./overpass-cache');
+}
+
+describe('normalizeQuery', () => {
+  it('ignores formatting differences', () => {
+    expect(normalizeQuery('[out:json];\n  node["amenity"="cafe"] ( around:500, 1, 2 ) ;\nout;'))
+      .toBe('[out:json];node["amenity"="cafe"](around:500,1,2);out;');
+  });
+});
+
+describe('tile snapping', () => {
+  it('snaps nearby points in one tile to the same area', () => {
+    const a = snapToTile(13.0412, 80.2339, 500);
+    const b = snapToTile(13.0415, 80.2341, 500);
+
+    expect(getTile(13.0412, 80.2339)).toEqual(getTile(13.0415, 80.2341));
+    expect(a).toEqual(b);
+  });
+
+  it('grows the radius so the snapped circle covers the original one', () => {
+    const snapped = snapToTile(13.0412, 80.2339, 500);
+    const offset = calculateDistance([13.0412, 80.2339], [snapped.lat, snapped.lng]);
+
+    expect(snapped.radius).toBeGreaterThanOrEqual(500 + offset);
+  });
+
+  it('gives points in different tiles different areas', () => {
+    expect(snapToTile(13.0412, 80.2339, 500)).not.toEqual(snapToTile(13.06, 80.25, 500));
+  });
+
+  it('expands bounds outwards to whole tiles', () => {
+    const bounds: [number, number, number, number] = [13.0401, 80.2331, 13.0452, 80.2398];
+    const [south, west, north, east] = snapBoundsToTiles(bounds);
+
+    expect(south).toBeLessThanOrEqual(bounds[0]);
+    expect(west).toBeLessThanOrEqual(bounds[1]);
+    expect(north).toBeGreaterThanOrEqual(bounds[2]);
+    expect(east).toBeGreaterThanOrEqual(bounds[3]);
+    // Any box inside the same tiles snaps to the same bounds
+    expect(snapBoundsToTiles([south + 0.0001, west + 0.0001, north - 0.0001, east - 0.0001]))
+      .toEqual([south, west, north, east]);
+  });
+});
+
+describe('withOverpassCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  describe('without IndexedDB', () => {
+    it('serves repeated queries from memory', async () => {
+      const { withOverpassCache } = await loadCache();
+      const loader = vi.fn().mockResolvedValue('response');
+
+      expect(await withOverpassCache('node ( 1 ) ;', { ttl: TTL }, loader)).toBe('response');
+      expect(await withOverpassCache('node(1);', { ttl: TTL }, loader)).toBe('response');
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it('shares one request between concurrent callers', async () => {
+      const { withOverpassCache } = await loadCache();
+      const loader = vi.fn().mockResolvedValue('response');
+
+      const results = await Promise.all([
+        withOverpassCache('node(1);', { ttl: TTL }, loader),
+        withOverpassCache('node(1);', { ttl: TTL }, loader)
+      ]);
+
+      expect(results).toEqual(['response', 'response']);
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it('refetches stale entries', async () => {
+      const { withOverpassCache } = await loadCache();
+      const loader = vi.fn().mockResolvedValueOnce('old').mockResolvedValueOnce('new');
+
+      await withOverpassCache('node(1);', { ttl: TTL }, loader);
+      vi.setSystemTime(TTL - 1);
+      expect(await withOverpassCache('node(1);', { ttl: TTL }, loader)).toBe('old');
+      vi.setSystemTime(TTL);
+      expect(await withOverpassCache('node(1);', { ttl: TTL }, loader)).toBe('new');
+      expect(loader).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not cache failures', async () => {
+      const { withOverpassCache } = await loadCache();
+      const loader = vi.fn().mockRejectedValueOnce(new Error('Overpass error')).mockResolvedValueOnce('response');
+
+      await expect(withOverpassCache('node(1);', { ttl: TTL }, loader)).rejects.toThrow('Overpass error');
+      expect(await withOverpassCache('node(1);', { ttl: TTL }, loader)).toBe('response');
+    });
+  });
+
+  describe('with IndexedDB', () => {
+    beforeEach(() => {
+      vi.stubGlobal('indexedDB', new IDBFactory());
+      vi.stubGlobal('IDBKeyRange', IDBKeyRange);
+    });
+
+    it('keeps responses for the next session', async () => {
+      const first = await loadCache();
+      await first.withOverpassCache('node(1);', { ttl: TTL }, async () => 'stored');
+
+      const second = await loadCache();
+      const loader = vi.fn().mockResolvedValue('fetched');
+
+      expect(await second.withOverpassCache('node(1);', { ttl: TTL }, loader)).toBe('stored');
+      expect(loader).not.toHaveBeenCalled();
+    });
+
+    it('refetches stored entries that have expired', async () => {
+      const first = await loadCache();
+      await first.withOverpassCache('node(1);', { ttl: TTL }, async () => 'stored');
+
+      vi.setSystemTime(TTL);
+      const second = await loadCache();
+      const loader = vi.fn().mockResolvedValue('fetched');
+
+      expect(await second.withOverpassCache('node(1);', { ttl: TTL }, loader)).toBe('fetched');
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it('forgets everything on clear', async () => {
+      const first = await loadCache();
+      await first.withOverpassCache('node(1);', { ttl: TTL }, async () => 'stored');
+      await first.clearOverpassCache();
+
+      const second = await loadCache();
+      expect(await second.withOverpassCache('node(1);', { ttl: TTL }, async () => 'fetched')).toBe('fetched');
+    });
+  });
+});
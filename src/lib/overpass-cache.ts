@@ -0,0 +1,266 @@
+/**
+ * Shared cache for Overpass API responses (memory + IndexedDB)
+ *
+ * Entries are keyed by the normalized query text. Callers snap their query
+ * area to map tiles first, so nearby requests produce the same query and hit
+ * the same entry.
+ */
+
+export interface CacheOptions {
+  ttl: number; // milliseconds
+}
+
+interface CacheEntry<T> {
+  key: string;
+  value: T;
+  expiresAt: number;
+}
+
+// Tile zoom used to snap query areas (~600 m tiles at the equator)
+export const CACHE_TILE_ZOOM = 16;
+
+export const PLACES_CACHE_TTL = 60 * 60 * 1000; // 1 hour
+export const SEARCH_CACHE_TTL = 10 * 60 * 1000; // 10 minutes
+export const NETWORK_CACHE_TTL = 24 * 60 * 60 * 1000; // 1 day
+
+const DB_NAME = 'accessmap-overpass-cache';
+const DB_VERSION = 2;
+const STORE_NAME = 'responses';
+const EXPIRY_INDEX = 'expiresAt';
+const MAX_MEMORY_ENTRIES = 50;
+
+const memoryCache = new Map<string, CacheEntry<unknown>>();
+const inFlight = new Map<string, Promise<unknown>>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Collapse whitespace so formatting differences don't create separate entries
+ */
+export function normalizeQuery(query: string): string {
+  return query.replace(/\s+/g, ' ').replace(/\s*([;(){}[\],])\s*/g, '$1').trim();
+}
+
+/**
+ * Slippy-map tile containing a point
+ */
+export function getTile(lat: number, lng: number, zoom: number = CACHE_TILE_ZOOM): [number, number] {
+  const n = Math.pow(2, zoom);
+  const latRad = lat * Math.PI / 180;
+  const x = Math.floor((lng + 180) / 360 * n);
+  const y = Math.floor((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2 * n);
+  return [x, y];
+}
+
+/**
+ * Bounds (south, west, north, east) of a slippy-map tile
+ */
+export function getTileBounds(x: number, y: number, zoom: number = CACHE_TILE_ZOOM): [number, number, number, number] {
+  const n = Math.pow(2, zoom);
+  const tileLat = (ty: number) => Math.atan(Math.sinh(Math.PI * (1 - 2 * ty / n))) * 180 / Math.PI;
+  return [tileLat(y + 1), x / n * 360 - 180, tileLat(y), (x + 1) / n * 360 - 180];
+}
+
+/**
+ * Snap a circular query area to the center of its tile, growing the radius so
+ * the snapped circle still covers the original one
+ */
+export function snapToTile(
+  lat: number,
+  lng: number,
+  radius: number,
+  zoom: number = CACHE_TILE_ZOOM
+): { lat: number; lng: number; radius: number } {
+  const [x, y] = getTile(lat, lng, zoom);
+  const [south, west, north, east] = getTileBounds(x, y, zoom);
+  const center: [number, number] = [(south + north) / 2, (west + east) / 2];
+
+  // Half the tile diagonal is the furthest the original center can be from the tile center
+  const halfHeight = (north - south) / 2 * 111320;
+  const halfWidth = (east - west) / 2 * 111320 * Math.cos(center[0] * Math.PI / 180);
+  const padding = Math.ceil(Math.sqrt(halfHeight * halfHeight + halfWidth * halfWidth));
+
+  return {
+    lat: Number(center[0].toFixed(6)),
+    lng: Number(center[1].toFixed(6)),
+    radius: radius + padding
+  };
+}
+
+/**
+ * Expand a bounding box outwards to whole tiles
+ */
+export function snapBoundsToTiles(
+  bounds: [number, number, number, number],
+  zoom: number = CACHE_TILE_ZOOM
+): [number, number, number, number] {
+  const [south, west, north, east] = bounds;
+  const [minX, maxY] = getTile(south, west, zoom);
+  const [maxX, minY] = getTile(north, east, zoom);
+  const [snappedSouth, snappedWest] = getTileBounds(minX, maxY, zoom);
+  const [, , snappedNorth, snappedEast] = getTileBounds(maxX, minY, zoom);
+
+  return [snappedSouth, snappedWest, snappedNorth, snappedEast].map(value => Number(value.toFixed(6))) as [
+    number, number, number, number
+  ];
+}
+
+/**
+ * Return a cached response for a query, or load it once and cache it.
+ *
+ * Concurrent calls for the same query share a single request.
+ */
+export async function withOverpassCache<T>(
+  query: string,
+  options: CacheOptions,
+  loader: () => Promise<T>
+): Promise<T> {
+  const key = normalizeQuery(query);
+  const now = Date.now();
+
+  const memoryEntry = memoryCache.get(key) as CacheEntry<T> | undefined;
+  if (memoryEntry && memoryEntry.expiresAt > now) {
+    // Re-insert to keep the map in least-recently-used order
+    memoryCache.delete(key);
+    memoryCache.set(key, memoryEntry);
+    console.log('Overpass cache hit (memory)');
+    return memoryEntry.value;
+  }
+
+  const pending = inFlight.get(key) as Promise<T> | undefined;
+  if (pending) return pending;
+
+  const request = (async () => {
+    const storedEntry = await readEntry<T>(key);
+    if (storedEntry && storedEntry.expiresAt > Date.now()) {
+      console.log('Overpass cache hit (IndexedDB)');
+      rememberEntry(storedEntry);
+      return storedEntry.value;
+    }
+
+    const value = await loader();
+    const entry: CacheEntry<T> = { key, value, expiresAt: Date.now() + options.ttl };
+    rememberEntry(entry);
+    await writeEntry(entry);
+    return value;
+  })();
+
+  inFlight.set(key, request);
+  try {
+    return await request;
+  } finally {
+    inFlight.delete(key);
+  }
+}
+
+/**
+ * Drop every cached response
+ */
+export async function clearOverpassCache(): Promise<void> {
+  memoryCache.clear();
+
+  const db = await openDatabase();
+  if (!db) return;
+
+  await new Promise<void>(resolve => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => resolve();
+  });
+}
+
+function rememberEntry<T>(entry: CacheEntry<T>): void {
+  memoryCache.delete(entry.key);
+  memoryCache.set(entry.key, entry);
+
+  // Evict the least recently used entries
+  while (memoryCache.size > MAX_MEMORY_ENTRIES) {
+    const oldestKey = memoryCache.keys().next().value;
+    if (oldestKey === undefined) break;
+    memoryCache.delete(oldestKey);
+  }
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise(resolve => {
+    // IndexedDB is unavailable in some private browsing modes; fall back to memory only
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const store = db.objectStoreNames.contains(STORE_NAME)
+          ? request.transaction!.objectStore(STORE_NAME)
+          : db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+
+        // Lets the expiry sweep find old entries without reading their (large) values
+        if (!store.indexNames.contains(EXPIRY_INDEX)) {
+          store.createIndex(EXPIRY_INDEX, 'expiresAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Could not open Overpass cache database:', request.error);
+        resolve(null);
+      };
+    } catch (error) {
+      console.error('Could not open Overpass cache database:', error);
+      resolve(null);
+    }
+  });
+
+  return dbPromise;
+}
+
+async function readEntry<T>(key: string): Promise<CacheEntry<T> | null> {
+  const db = await openDatabase();
+  if (!db) return null;
+
+  return new Promise(resolve => {
+    try {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+      request.onsuccess = () => resolve((request.result as CacheEntry<T>) || null);
+      request.onerror = () => resolve(null);
+    } catch (error) {
+      console.error('Error reading Overpass cache:', error);
+      resolve(null);
+    }
+  });
+}
+
+async function writeEntry<T>(entry: CacheEntry<T>): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+
+  return new Promise(resolve => {
+    try {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      store.put(entry);
+
+      // Sweep out entries that expired in earlier sessions, walking keys only
+      const cursorRequest = store.index(EXPIRY_INDEX).openKeyCursor(IDBKeyRange.upperBound(Date.now()));
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        store.delete(cursor.primaryKey);
+        cursor.continue();
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => {
+        console.error('Error writing Overpass cache:', transaction.error);
+        resolve();
+      };
+    } catch (error) {
+      console.error('Error writing Overpass cache:', error);
+      resolve();
+    }
+  });
+}
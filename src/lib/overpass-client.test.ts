@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const A = 'https://a.example/api/interpreter';
+const B = 'https://b.example/api/interpreter';
+
+const ok = () => new Response(JSON.stringify({ elements: [] }), { status: 200 });
+
+const failure = (status: number, retryAfter?: string) => new Response('', {
+  status,
+  statusText: 'Error',
+  headers: retryAfter ? { 'Retry-After': retryAfter } : {}
+});
+
+// A fresh copy of the module, so rotation and cooldowns start over
+async function loadClient(endpoints: string[]) {
+  vi.stubEnv('VITE_OVERPASS_ENDPOINTS', endpoints.join(','));
+  vi.resetModules();
+  return import('./overpass-client');
+}
+
+describe('runOverpassQuery', () => {
+  let fetchMock: ReturnType<typeof vi.fn<typeof fetch>>;
+  const calledEndpoints = () => fetchMock.mock.calls.map(([url]) => url);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fetchMock = vi.fn<typeof fetch>();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('rotates through the endpoints', async () => {
+    const { runOverpassQuery } = await loadClient([A, B]);
+    fetchMock.mockImplementation(async () => ok());
+
+    await runOverpassQuery('node(1);', 'Test');
+    await runOverpassQuery('node(1);', 'Test');
+
+    expect(calledEndpoints()).toEqual([A, B]);
+  });
+
+  it('fails over to the next endpoint on a gateway timeout', async () => {
+    const { runOverpassQuery } = await loadClient([A, B]);
+    fetchMock.mockResolvedValueOnce(failure(504)).mockResolvedValueOnce(ok());
+
+    expect(await runOverpassQuery('node(1);', 'Test')).toEqual({ elements: [] });
+    expect(calledEndpoints()).toEqual([A, B]);
+  });
+
+  it('skips a rate-limited endpoint until its Retry-After has passed', async () => {
+    const { runOverpassQuery } = await loadClient([A, B]);
+    fetchMock
+      .mockResolvedValueOnce(failure(429, '5'))
+      .mockResolvedValueOnce(ok())
+      .mockResolvedValueOnce(ok())
+      .mockResolvedValueOnce(ok());
+
+    await runOverpassQuery('node(1);', 'Test');
+    await runOverpassQuery('node(1);', 'Test');
+    vi.advanceTimersByTime(5000);
+    await runOverpassQuery('node(1);', 'Test');
+
+    expect(calledEndpoints()).toEqual([A, B, B, A]);
+  });
+
+  it('waits for Retry-After before trying the only endpoint again', async () => {
+    const { runOverpassQuery } = await loadClient([A]);
+    fetchMock.mockResolvedValueOnce(failure(429, '5')).mockResolvedValueOnce(ok());
+
+    const result = runOverpassQuery('node(1);', 'Test');
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(await result).toEqual({ elements: [] });
+  });
+
+  it('reads Retry-After given as an HTTP date', async () => {
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    const { runOverpassQuery } = await loadClient([A]);
+    fetchMock.mockResolvedValueOnce(failure(503, 'Wed, 01 Jan 2025 00:00:03 GMT')).mockResolvedValueOnce(ok());
+
+    const result = runOverpassQuery('node(1);', 'Test');
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await result).toEqual({ elements: [] });
+  });
+
+  it('caps the wait for a long Retry-After', async () => {
+    const { runOverpassQuery } = await loadClient([A]);
+    fetchMock.mockResolvedValueOnce(failure(429, '120')).mockResolvedValueOnce(ok());
+
+    const result = runOverpassQuery('node(1);', 'Test');
+    await vi.advanceTimersByTimeAsync(14999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await result).toEqual({ elements: [] });
+  });
+
+  it('backs off before retrying when there is no Retry-After', async () => {
+    const { runOverpassQuery } = await loadClient([A]);
+    fetchMock.mockResolvedValueOnce(failure(502)).mockResolvedValueOnce(ok());
+
+    const result = runOverpassQuery('node(1);', 'Test');
+    await vi.advanceTimersByTimeAsync(999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await result).toEqual({ elements: [] });
+  });
+
+  it('does not retry a query the server rejects', async () => {
+    const { runOverpassQuery, OverpassError } = await loadClient([A, B]);
+    fetchMock.mockResolvedValue(failure(400));
+
+    const error = await runOverpassQuery('node(1', 'Test').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(OverpassError);
+    expect(error).toMatchObject({ status: 400, endpoint: A });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports every attempt when all endpoints fail', async () => {
+    const { runOverpassQuery } = await loadClient([A, B]);
+    fetchMock.mockResolvedValue(failure(504));
+
+    const error = await runOverpassQuery('node(1);', 'Test').catch(caught => caught);
+
+    expect(error.message).toMatch(/^Test request failed on every Overpass endpoint/);
+    expect(error.attempts.map((attempt: { endpoint: string }) => attempt.endpoint)).toEqual([A, B]);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Overpass API transport: endpoint rotation, failover and rate-limit backoff
+ */
+import type { OverpassResponse } from './overpass-api';
+
+// Public instances used when VITE_OVERPASS_ENDPOINTS is not set
+const DEFAULT_ENDPOINTS = [
+  'https://overpass-api.de/api/interpreter',
+  'https://overpass.kumi.systems/api/interpreter',
+  'https://overpass.private.coffee/api/interpreter'
+];
+
+// Total time (ms) a query may take across all attempts, unless the caller gives one.
+// Stays under the 45 s the navigation page waits for a route.
+const DEFAULT_DEADLINE = 40000;
+
+// Longest a single endpoint gets, so a hanging one leaves time to fail over
+const ATTEMPT_TIMEOUT = 15000;
+
+// Backoff after a failed attempt: 1s, 2s, 4s, ... up to MAX_BACKOFF
+const BASE_BACKOFF = 1000;
+const MAX_BACKOFF = 30000;
+
+// Never wait longer than this for a rate-limited endpoint to free up
+const MAX_RETRY_WAIT = 15000;
+
+// Status codes that mean "try again later" rather than "this query is broken"
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+/**
+ * A failed Overpass request, naming the endpoint that failed
+ */
+export class OverpassError extends Error {
+  endpoint: string | null;
+  status?: number;
+  retryAfter?: number; // milliseconds
+  attempts: OverpassError[];
+
+  constructor(
+    message: string,
+    options: { endpoint?: string | null; status?: number; retryAfter?: number; attempts?: OverpassError[] } = {}
+  ) {
+    super(message);
+    this.name = 'OverpassError';
+    this.endpoint = options.endpoint ?? null;
+    this.status = options.status;
+    this.retryAfter = options.retryAfter;
+    this.attempts = options.attempts || [];
+  }
+
+  get isRetryable(): boolean {
+    return this.status === undefined || RETRYABLE_STATUSES.includes(this.status);
+  }
+}
+
+let nextEndpointIndex = 0;
+// Endpoint -> time (ms) before which it should not be used
+const cooldowns = new Map<string, number>();
+
+/**
+ * Endpoints from VITE_OVERPASS_ENDPOINTS (comma separated), or the public defaults
+ */
+export function getOverpassEndpoints(): string[] {
+  const configured = (import.meta.env.VITE_OVERPASS_ENDPOINTS || '')
+    .split(',')
+    .map(endpoint => endpoint.trim())
+    .filter(Boolean);
+
+  return configured.length > 0 ? configured : DEFAULT_ENDPOINTS;
+}
+
+/**
+ * POST a query to the Overpass API.
+ *
+ * Requests rotate round-robin through the configured endpoints. When one
+ * fails, is rate limited or times out, the next endpoint is tried, with
+ * exponential backoff between attempts (or the server's Retry-After).
+ *
+ * `deadline` (ms) bounds the whole call, waits and retries included; each
+ * attempt gets at most ATTEMPT_TIMEOUT of it.
+ */
+export async function runOverpassQuery(
+  query: string,
+  label: string,
+  deadline: number = DEFAULT_DEADLINE
+): Promise<OverpassResponse> {
+  const endpoints = getOverpassEndpoints();
+  const maxAttempts = Math.max(2, endpoints.length);
+  const failures: OverpassError[] = [];
+  const giveUpAt = Date.now() + deadline;
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const endpoint = await pickEndpoint(endpoints, giveUpAt);
+    const remaining = giveUpAt - Date.now();
+    if (remaining <= 0) break;
+
+    try {
+      return await postQuery(endpoint, query, label, Math.min(ATTEMPT_TIMEOUT, remaining));
+    } catch (error) {
+      const failure = error instanceof OverpassError
+        ? error
+        : new OverpassError(`${label} request to ${getHost(endpoint)} failed: ${(error as Error).message}`, { endpoint });
+
+      console.error(failure.message);
+      failures.push(failure);
+
+      // A malformed query fails the same way everywhere
+      if (!failure.isRetryable) throw failure;
+
+      cooldowns.set(endpoint, Date.now() + (failure.retryAfter ?? getBackoff(attempt)));
+    }
+  }
+
+  const summary = failures.map(failure => failure.message).join('; ');
+  const reason = Date.now() >= giveUpAt
+    ? `did not finish within ${Math.round(deadline / 1000)} seconds`
+    : 'failed on every Overpass endpoint';
+  throw new OverpassError(`${label} request ${reason}${summary ? `: ${summary}` : ''}`, { attempts: failures });
+}
+
+/**
+ * Take the next endpoint in round-robin order that isn't cooling down. If all
+ * of them are, wait for the one that frees up first, but not past giveUpAt.
+ */
+async function pickEndpoint(endpoints: string[], giveUpAt: number): Promise<string> {
+  const now = Date.now();
+
+  for (let i = 0; i < endpoints.length; i++) {
+    const endpoint = endpoints[(nextEndpointIndex + i) % endpoints.length];
+    if ((cooldowns.get(endpoint) ?? 0) <= now) {
+      nextEndpointIndex = (nextEndpointIndex + i + 1) % endpoints.length;
+      return endpoint;
+    }
+  }
+
+  const [endpoint, readyAt] = endpoints
+    .map(candidate => [candidate, cooldowns.get(candidate) ?? 0] as [string, number])
+    .sort((a, b) => a[1] - b[1])[0];
+
+  const wait = Math.max(0, Math.min(readyAt - now, MAX_RETRY_WAIT, giveUpAt - now));
+  console.log(`All Overpass endpoints are busy, retrying ${getHost(endpoint)} in ${Math.round(wait / 1000)} seconds`);
+  await new Promise(resolve => setTimeout(resolve, wait));
+
+  nextEndpointIndex = (endpoints.indexOf(endpoint) + 1) % endpoints.length;
+  return endpoint;
+}
+
+async function postQuery(endpoint: string, query: string, label: string, timeout: number): Promise<OverpassResponse> {
+  const host = getHost(endpoint);
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => {
+    console.log(`${label} request to ${host} timed out after ${timeout / 1000} seconds`);
+    controller.abort();
+  }, timeout);
+
+  try {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      body: query,
+      signal: controller.signal,
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json'
+      },
+      cache: 'no-store',
+      credentials: 'omit'
+    });
+
+    if (!response.ok) {
+      throw new OverpassError(
+        `${label} request to ${host} failed: ${response.status} ${response.statusText}`,
+        {
+          endpoint,
+          status: response.status,
+          retryAfter: parseRetryAfter(response.headers.get('Retry-After'))
+        }
+      );
+    }
+
+    return await response.json();
+  } catch (error) {
+    if ((error as Error).name === 'AbortError') {
+      throw new OverpassError(`${label} request to ${host} timed out`, { endpoint });
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function getBackoff(attempt: number): number {
+  return Math.min(BASE_BACKOFF * Math.pow(2, attempt), MAX_BACKOFF);
+}
+
+function getHost(endpoint: string): string {
+  try {
+    return new URL(endpoint).host;
+  } catch {
+    return endpoint;
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { escapeRegex, escapeString, node, nwr, OverpassQuery, way } from './overpass-query';
+
+describe('escapeString', () => {
+  it('escapes quotes, backslashes and control characters', () => {
+    expect(escapeString('say "hi"')).toBe('say \\"hi\\"');
+    expect(escapeString('a\\b')).toBe('a\\\\b');
+    expect(escapeString('line\nbreak\ttab')).toBe('line\\nbreak\\ttab');
+  });
+});
+
+describe('escapeRegex', () => {
+  it('escapes regex metacharacters', () => {
+    expect(escapeRegex('Café (Main St.)')).toBe('Café \\(Main St\\.\\)');
+    expect(escapeRegex('a+b*c?[d]|e^$')).toBe('a\\+b\\*c\\?\\[d\\]\\|e\\^\\$');
+  });
+
+  it('leaves plain text alone', () => {
+    expect(escapeRegex('coffee shop')).toBe('coffee shop');
+  });
+});
+
+describe('Selector', () => {
+  it('builds tag filters and areas', () => {
+    const selector = node()
+      .tag('amenity', 'cafe')
+      .tag('wheelchair')
+      .notTag('access', 'private')
+      .notTag('disused')
+      .around(13.0500001, 80.21, 499.6);
+
+    expect(String(selector)).toBe(
+      'node["amenity"="cafe"]["wheelchair"]["access"!="private"][!"disused"](around:500,13.0500001,80.21)'
+    );
+  });
+
+  it('keeps user input inside its string literal', () => {
+    const selector = nwr().tagMatches('name', escapeRegex('"]; out;'), { caseInsensitive: true });
+
+    expect(String(selector)).toBe('nwr["name"~"\\"\\\\]; out;",i]');
+  });
+
+  it('matches one of several values exactly', () => {
+    expect(String(way().tagIn('highway', ['footway', 'steps']))).toBe('way["highway"~"^(footway|steps)$"]');
+  });
+
+  it('builds bounding boxes and set membership', () => {
+    expect(String(way().bbox(1, 2, 3, 4))).toBe('way(1,2,3,4)');
+    expect(String(node().memberOf('w'))).toBe('node(w)');
+    expect(String(node().memberOf('w', 'paths'))).toBe('node(w.paths)');
+  });
+
+  it('rejects values that would corrupt the query', () => {
+    expect(() => node().around(NaN, 0, 100)).toThrow('Invalid latitude');
+    expect(() => way().bbox(0, 0, Infinity, 0)).toThrow('Invalid bounding box');
+    expect(() => node().memberOf('w', 'paths; out')).toThrow('Invalid Overpass set name');
+  });
+});
+
+describe('OverpassQuery', () => {
+  it('joins statements under the settings line', () => {
+    const query = new OverpassQuery({ timeout: 25 })
+      .union([way().tag('highway', 'footway'), way().tag('highway', 'steps')], 'paths')
+      .select(node().memberOf('w', 'paths'))
+      .recurse('>', true)
+      .out('body', { geometry: 'center', sort: 'qt', limit: 10.7 });
+
+    expect(String(query)).toBe([
+      '[out:json][timeout:25];',
+      '(way["highway"="footway"]; way["highway"="steps"];)->.paths;',
+      'node(w.paths);',
+      '(._;>;);',
+      'out body center qt 10;'
+    ].join('\n'));
+  });
+
+  it('defaults to a 60 second timeout and plain output', () => {
+    expect(String(new OverpassQuery().recurse().out())).toBe('[out:json][timeout:60];\n>;\nout body;');
+  });
+
+  it('rejects invalid set names', () => {
+    expect(() => new OverpassQuery().select(node(), '1st')).toThrow('Invalid Overpass set name');
+  });
+});
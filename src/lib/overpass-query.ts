@@ -0,0 +1,189 @@
+/**
+ * Typed builder for Overpass QL queries
+ *
+ * Every value that ends up inside the query text goes through escapeString,
+ * so user input (search terms, tag values) can't break out of its literal.
+ */
+
+export type ElementType = 'node' | 'way' | 'relation' | 'nwr';
+
+export type OutputVerbosity = 'ids' | 'skel' | 'body' | 'tags' | 'meta';
+
+export interface OutputOptions {
+  geometry?: 'center' | 'geom' | 'bb'; // extra geometry for ways and relations
+  sort?: 'qt' | 'asc'; // qt is faster, asc sorts by id
+  limit?: number;
+}
+
+/**
+ * Escape a value for use inside a double-quoted Overpass QL string
+ */
+export function escapeString(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+}
+
+/**
+ * Escape regex metacharacters so text matches literally in a ~ filter
+ */
+export function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function formatNumber(value: number, label: string): string {
+  if (!isFinite(value)) {
+    throw new Error(`Invalid ${label} in Overpass query: ${value}`);
+  }
+  return String(Number(value.toFixed(7)));
+}
+
+function assertSetName(name: string): void {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    throw new Error(`Invalid Overpass set name: ${name}`);
+  }
+}
+
+/**
+ * One query statement selecting elements by type, tags and area,
+ * e.g. node["amenity"="cafe"](around:500,13.05,80.21)
+ */
+export class Selector {
+  private type: ElementType;
+  private filters: string[] = [];
+  private areas: string[] = [];
+
+  constructor(type: ElementType) {
+    this.type = type;
+  }
+
+  /**
+   * Tag is present, or equal to value when one is given
+   */
+  tag(key: string, value?: string): this {
+    this.filters.push(value === undefined
+      ? `["${escapeString(key)}"]`
+      : `["${escapeString(key)}"="${escapeString(value)}"]`);
+    return this;
+  }
+
+  /**
+   * Tag is absent, or not equal to value when one is given
+   */
+  notTag(key: string, value?: string): this {
+    this.filters.push(value === undefined
+      ? `[!"${escapeString(key)}"]`
+      : `["${escapeString(key)}"!="${escapeString(value)}"]`);
+    return this;
+  }
+
+  /**
+   * Tag value matches a regular expression. Use escapeRegex for literal text.
+   */
+  tagMatches(key: string, pattern: string, options: { caseInsensitive?: boolean } = {}): this {
+    const flag = options.caseInsensitive ? ',i' : '';
+    this.filters.push(`["${escapeString(key)}"~"${escapeString(pattern)}"${flag}]`);
+    return this;
+  }
+
+  /**
+   * Tag value is one of several exact values
+   */
+  tagIn(key: string, values: string[]): this {
+    return this.tagMatches(key, `^(${values.map(escapeRegex).join('|')})$`);
+  }
+
+  around(lat: number, lng: number, radius: number): this {
+    this.areas.push(
+      `(around:${formatNumber(Math.round(radius), 'radius')},${formatNumber(lat, 'latitude')},${formatNumber(lng, 'longitude')})`
+    );
+    return this;
+  }
+
+  bbox(south: number, west: number, north: number, east: number): this {
+    this.areas.push(`(${[south, west, north, east].map(value => formatNumber(value, 'bounding box')).join(',')})`);
+    return this;
+  }
+
+  /**
+   * Restrict to members of the ways (w) or relations (r) in a named set,
+   * e.g. node(w.buildings), or in the current result when no set is given
+   */
+  memberOf(parent: 'w' | 'r', setName?: string): this {
+    if (setName === undefined) {
+      this.areas.push(`(${parent})`);
+      return this;
+    }
+    assertSetName(setName);
+    this.areas.push(`(${parent}.${setName})`);
+    return this;
+  }
+
+  toString(): string {
+    return `${this.type}${this.filters.join('')}${this.areas.join('')}`;
+  }
+}
+
+export const node = () => new Selector('node');
+export const way = () => new Selector('way');
+export const relation = () => new Selector('relation');
+export const nwr = () => new Selector('nwr');
+
+/**
+ * A complete Overpass QL query built statement by statement
+ */
+export class OverpassQuery {
+  private timeout: number;
+  private statements: string[] = [];
+
+  constructor(options: { timeout?: number } = {}) {
+    this.timeout = options.timeout ?? 60;
+  }
+
+  /**
+   * Run a single selector, optionally storing the result in a named set
+   */
+  select(selector: Selector, into?: string): this {
+    this.statements.push(`${selector}${this.storeIn(into)};`);
+    return this;
+  }
+
+  /**
+   * Run several selectors and merge their results
+   */
+  union(selectors: Selector[], into?: string): this {
+    this.statements.push(`(${selectors.map(selector => `${selector};`).join(' ')})${this.storeIn(into)};`);
+    return this;
+  }
+
+  /**
+   * Recurse from the current result: > adds way nodes and relation members.
+   * With keepInput the original elements stay in the result as well.
+   */
+  recurse(operator: '>' | '>>' | '<' | '<<' = '>', keepInput: boolean = false): this {
+    this.statements.push(keepInput ? `(._;${operator};);` : `${operator};`);
+    return this;
+  }
+
+  out(verbosity: OutputVerbosity = 'body', options: OutputOptions = {}): this {
+    const parts = ['out', verbosity];
+    if (options.geometry) parts.push(options.geometry);
+    if (options.sort) parts.push(options.sort);
+    if (options.limit !== undefined) parts.push(formatNumber(Math.floor(options.limit), 'limit'));
+    this.statements.push(`${parts.join(' ')};`);
+    return this;
+  }
+
+  toString(): string {
+    return [`[out:json][timeout:${formatNumber(Math.round(this.timeout), 'timeout')}];`, ...this.statements].join('\n');
+  }
+
+  private storeIn(setName?: string): string {
+    if (!setName) return '';
+    assertSetName(setName);
+    return `->.${setName}`;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Accessibility features of places, stored one row per report in the
+ * placeFeatures table
+ */
+import { fine } from './fine';
+import type { Schema } from './db-types';
+import { toFeatureIds, type AccessibilityFeatureId } from './accessibility-features';
+
+export type FeatureSource = Schema['placeFeatures']['source'];
+
+export type PlaceWithFeatures = Schema['places'] & { accessibilityFeatures: AccessibilityFeatureId[] };
+
+// How much a single report is trusted until someone verifies it
+const DEFAULT_CONFIDENCE: Record<FeatureSource, number> = {
+  moderator: 1,
+  submission: 0.8,
+  osm: 0.7,
+  review: 0.6
+};
+
+/**
+ * Feature IDs reported for each of the given places
+ */
+export async function getFeaturesByPlace(placeIds: number[]): Promise<Map<number, AccessibilityFeatureId[]>> {
+  const featuresByPlace = new Map<number, AccessibilityFeatureId[]>();
+  if (placeIds.length === 0) return featuresByPlace;
+
+  const rows = await fine.table('placeFeatures').select().in('placeId', placeIds);
+
+  for (const row of rows || []) {
+    const features = featuresByPlace.get(row.placeId) || [];
+    features.push(row.featureId as AccessibilityFeatureId);
+    featuresByPlace.set(row.placeId, features);
+  }
+
+  // The same feature is usually reported more than once
+  featuresByPlace.forEach((features, placeId) => featuresByPlace.set(placeId, toFeatureIds(features)));
+  return featuresByPlace;
+}
+
+/**
+ * Feature IDs reported for one place
+ */
+export async function getPlaceFeatures(placeId: number): Promise<AccessibilityFeatureId[]> {
+  const featuresByPlace = await getFeaturesByPlace([placeId]);
+  return featuresByPlace.get(placeId) || [];
+}
+
+/**
+ * Attach each place's features. A failed lookup leaves the places without
+ * features rather than failing the whole page.
+ */
+export async function withPlaceFeatures(places: Schema['places'][]): Promise<PlaceWithFeatures[]> {
+  let featuresByPlace = new Map<number, AccessibilityFeatureId[]>();
+
+  try {
+    featuresByPlace = await getFeaturesByPlace(
+      places.map(place => place.id).filter((id): id is number => id !== undefined)
+    );
+  } catch (error) {
+    console.error('Error fetching place features:', error);
+  }
+
+  return places.map(place => ({ ...place, accessibilityFeatures: featuresByPlace.get(place.id!) || [] }));
+}
+
+/**
+ * IDs of places reported to have the given features: all of them by default,
+ * or any one of them with matchAll set to false
+ */
+export async function findPlacesWithFeatures(
+  featureIds: AccessibilityFeatureId[],
+  options: { matchAll?: boolean } = {}
+): Promise<number[]> {
+  if (featureIds.length === 0) return [];
+
+  if (options.matchAll === false) {
+    const rows = await fine.table('placeFeatures').select('placeId').in('featureId', featureIds);
+    return Array.from(new Set((rows || []).map(row => row.placeId)));
+  }
+
+  // Each feature must appear in the place's grouped feature list
+  let query = fine.table('placeFeatureSets').select('placeId');
+  for (const featureId of new Set(featureIds)) {
+    query = query.like('featureIds', `%,${featureId},%`);
+  }
+
+  const rows = await query;
+  return (rows || []).map(row => row.placeId);
+}
+
+/**
+ * Record features reported for a place. Features this reporter already
+ * reported from the same source are skipped.
+ */
+export async function addPlaceFeatures(
+  placeId: number,
+  featureIds: AccessibilityFeatureId[],
+  options: { source: FeatureSource; reportedBy?: string | null; confidence?: number }
+): Promise<void> {
+  const reportedBy = options.reportedBy ?? null;
+
+  const existing = await fine.table('placeFeatures').select().eq('placeId', placeId).eq('source', options.source);
+  const alreadyReported = new Set(
+    (existing || []).filter(row => (row.reportedBy ?? null) === reportedBy).map(row => row.featureId)
+  );
+
+  const rows: Schema['placeFeatures'][] = toFeatureIds(featureIds)
+    .filter(featureId => !alreadyReported.has(featureId))
+    .map(featureId => ({
+      placeId,
+      featureId,
+      source: options.source,
+      confidence: options.confidence ?? DEFAULT_CONFIDENCE[options.source],
+      reportedBy
+    }));
+
+  if (rows.length > 0) {
+    await fine.table('placeFeatures').insert(rows);
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Place ratings: the community rating aggregated from reviews, and the
+ * OpenStreetMap wheelchair tag, kept as separate signals
+ *
+ * The community rating is computed by triggers in the database (see the
+ * aggregate_community_ratings migration) whenever a review is added, edited
+ * or deleted. It is recency weighted: a review's weight is
+ * 1 / (1 + age in days / RATING_RECENCY_DAYS).
+ */
+import type { LocalizedText } from './i18n';
+
+export const RATING_RECENCY_DAYS = 180;
+
+export type OsmWheelchair = 'yes' | 'limited' | 'no';
+
+export const OSM_WHEELCHAIR_LABELS: Record<OsmWheelchair, string> = {
+  yes: 'Wheelchair accessible',
+  limited: 'Limited wheelchair access',
+  no: 'Not wheelchair accessible'
+};
+
+/**
+ * The wheelchair signal from OSM tags, or undefined when the place isn't tagged
+ */
+export function getOsmWheelchair(tags: Record<string, string>): OsmWheelchair | undefined {
+  switch (tags.wheelchair) {
+    case 'yes':
+    case 'designated':
+      return 'yes';
+    case 'limited':
+      return 'limited';
+    case 'no':
+      return 'no';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Spoken summary of a community rating, e.g. "Rated 4.2 from 12 reviews"
+ */
+export function describeCommunityRating(rating: number | null | undefined, reviewCount: number = 0): LocalizedText {
+  if (rating === null || rating === undefined || reviewCount === 0) return { key: 'place.no-reviews' };
+  return { key: 'rating.summary', params: { rating: rating.toFixed(1), count: reviewCount } };
+}
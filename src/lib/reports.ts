@@ -0,0 +1,132 @@
+/**
+ * Problem reports for places (broken elevator, blocked ramp, ...) and the
+ * moderator workflow that moves them from open to resolved
+ */
+import { fine } from './fine';
+import type { Schema } from './db-types';
+import type { MessageKey } from './i18n';
+
+export type Report = Schema['reports'];
+export type ReportCategory = Report['category'];
+export type ReportStatus = NonNullable<Report['status']>;
+
+export const REPORT_CATEGORIES: { id: ReportCategory; label: MessageKey }[] = [
+  { id: 'broken-elevator', label: 'report-category.broken-elevator' },
+  { id: 'blocked-ramp', label: 'report-category.blocked-ramp' },
+  { id: 'wrong-info', label: 'report-category.wrong-info' },
+  { id: 'closed', label: 'report-category.closed' },
+  { id: 'other', label: 'report-category.other' }
+];
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, MessageKey> = {
+  open: 'report-status.open',
+  acknowledged: 'report-status.acknowledged',
+  resolved: 'report-status.resolved'
+};
+
+// Reports only move forward; the database rejects any other change
+const NEXT_STATUS: Record<ReportStatus, Exclude<ReportStatus, 'open'> | null> = {
+  open: 'acknowledged',
+  acknowledged: 'resolved',
+  resolved: null
+};
+
+// Longest side of an attached photo, in pixels
+const PHOTO_MAX_SIZE = 1024;
+// JPEG qualities to try, best first, until the photo fits
+const PHOTO_QUALITIES = [0.8, 0.6, 0.4];
+// Longest data URL the reports table accepts (see the create_reports migration)
+const PHOTO_MAX_LENGTH = 500000;
+
+export function getReportCategoryLabel(category: ReportCategory): MessageKey {
+  return REPORT_CATEGORIES.find(entry => entry.id === category)?.label || 'report-category.other';
+}
+
+/**
+ * The status a moderator can move a report to next, or null once it's resolved
+ */
+export function getNextReportStatus(status: ReportStatus): Exclude<ReportStatus, 'open'> | null {
+  return NEXT_STATUS[status];
+}
+
+export async function createReport(report: Report): Promise<void> {
+  await fine.table('reports').insert({ ...report, status: 'open' });
+}
+
+/**
+ * Reports on a place that haven't been resolved yet, newest first
+ */
+export async function getOpenReports(placeId: number): Promise<Report[]> {
+  const reports = await fine.table('reports')
+    .select()
+    .eq('placeId', placeId)
+    .neq('status', 'resolved')
+    .order('createdAt', { ascending: false });
+
+  return reports || [];
+}
+
+/**
+ * Move a report one step along open -> acknowledged -> resolved
+ */
+export async function advanceReport(report: Report, moderatorId: string): Promise<ReportStatus> {
+  const next = getNextReportStatus(report.status || 'open');
+  if (!next || report.id === undefined) {
+    throw new Error('This report is already resolved');
+  }
+
+  const now = new Date().toISOString();
+  const update: Partial<Report> = next === 'acknowledged'
+    ? { status: next, acknowledgedBy: moderatorId, acknowledgedAt: now, updatedAt: now }
+    : { status: next, resolvedBy: moderatorId, resolvedAt: now, updatedAt: now };
+
+  await fine.table('reports').update(update).eq('id', report.id);
+  return next;
+}
+
+export async function isModerator(userId: string): Promise<boolean> {
+  const rows = await fine.table('moderators').select().eq('userId', userId);
+  return !!rows && rows.length > 0;
+}
+
+/**
+ * Shrink a photo and encode it as a JPEG data URL small enough to store with the report
+ */
+export function readReportPhoto(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+
+      const scale = Math.min(1, PHOTO_MAX_SIZE / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Could not process photo'));
+        return;
+      }
+
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      for (const quality of PHOTO_QUALITIES) {
+        const dataUrl = canvas.toDataURL('image/jpeg', quality);
+        if (dataUrl.length <= PHOTO_MAX_LENGTH) {
+          resolve(dataUrl);
+          return;
+        }
+      }
+      reject(new Error('Photo is too large'));
+    };
+
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read photo'));
+    };
+
+    image.src = url;
+  });
+}
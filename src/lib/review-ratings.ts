@@ -0,0 +1,70 @@
+/**
+ * Accessibility rating dimensions scored separately on each review
+ */
+import type { Schema } from './db-types';
+import type { MessageKey } from './i18n';
+
+export type RatingDimension =
+  | 'entranceRating'
+  | 'interiorRating'
+  | 'washroomRating'
+  | 'signageRating'
+  | 'hearingRating'
+  | 'staffRating'
+  | 'sensoryRating';
+
+export interface RatingDimensionDefinition {
+  key: RatingDimension;
+  label: MessageKey;
+  question: MessageKey;
+}
+
+export type DimensionRatings = Partial<Record<RatingDimension, number | null>>;
+
+export interface DimensionAverage {
+  dimension: RatingDimensionDefinition;
+  average: number | null; // null when no review rated this dimension
+  count: number;
+}
+
+export const MIN_DIMENSION_RATING = 1;
+export const MAX_DIMENSION_RATING = 5;
+
+export const RATING_DIMENSIONS: RatingDimensionDefinition[] = [
+  { key: 'entranceRating', label: 'rating-dimension.entrance', question: 'rating-dimension.entrance-question' },
+  { key: 'interiorRating', label: 'rating-dimension.interior', question: 'rating-dimension.interior-question' },
+  { key: 'washroomRating', label: 'rating-dimension.washroom', question: 'rating-dimension.washroom-question' },
+  { key: 'signageRating', label: 'rating-dimension.signage', question: 'rating-dimension.signage-question' },
+  { key: 'hearingRating', label: 'rating-dimension.hearing', question: 'rating-dimension.hearing-question' },
+  { key: 'staffRating', label: 'rating-dimension.staff', question: 'rating-dimension.staff-question' },
+  { key: 'sensoryRating', label: 'rating-dimension.sensory', question: 'rating-dimension.sensory-question' }
+];
+
+function isValidRating(value: unknown): value is number {
+  return typeof value === 'number' && value >= MIN_DIMENSION_RATING && value <= MAX_DIMENSION_RATING;
+}
+
+/**
+ * Average score per dimension, ignoring reviews that skipped it
+ */
+export function getDimensionAverages(reviews: DimensionRatings[]): DimensionAverage[] {
+  return RATING_DIMENSIONS.map(dimension => {
+    const scores = reviews.map(review => review[dimension.key]).filter(isValidRating);
+    const average = scores.length > 0
+      ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+      : null;
+
+    return { dimension, average, count: scores.length };
+  });
+}
+
+/**
+ * Only the dimensions the reviewer actually scored, ready to store on a review
+ */
+export function toReviewColumns(ratings: DimensionRatings): Partial<Schema['reviews']> {
+  const columns: Partial<Schema['reviews']> = {};
+  for (const { key } of RATING_DIMENSIONS) {
+    columns[key] = isValidRating(ratings[key]) ? ratings[key] : null;
+  }
+  return columns;
+}
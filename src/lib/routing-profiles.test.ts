@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import type { GraphEdge, GraphNode } from './routing';
+import {
+  assessEdge,
+  describeEdgeIssue,
+  getEdgeCostFunction,
+  getRoutingProfile,
+  parseIncline,
+  parseKerbHeight,
+  parseWidth
+} from './routing-profiles';
+
+const edge = (tags: Record<string, string>, distance = 100): GraphEdge =>
+  ({ from: 1, to: 2, wayId: 10, distance, tags });
+
+const target = (tags: Record<string, string> = {}, lat = 0, lon = 0, id = 2): GraphNode =>
+  ({ id, lat, lon, tags });
+
+describe('getRoutingProfile', () => {
+  it('falls back to plain walking for unknown profiles', () => {
+    expect(getRoutingProfile('wheelchair')).toBe('wheelchair');
+    expect(getRoutingProfile('bicycle')).toBe('foot');
+  });
+});
+
+describe('tag parsing', () => {
+  it('reads inclines as percentages', () => {
+    expect(parseIncline('10%')).toBe(10);
+    expect(parseIncline('-5%')).toBe(-5);
+    expect(parseIncline('up')).toBe(8);
+    expect(parseIncline('45°')).toBeCloseTo(100);
+    expect(parseIncline('yes')).toBeNull();
+    expect(parseIncline()).toBeNull();
+  });
+
+  it('reads widths in meters', () => {
+    expect(parseWidth('1.5')).toBe(1.5);
+    expect(parseWidth('0,8')).toBe(0.8);
+    expect(parseWidth('80 cm')).toBe(0.8);
+    expect(parseWidth("3'")).toBeCloseTo(0.9144);
+    expect(parseWidth('wide')).toBeNull();
+  });
+
+  it('reads kerb heights in centimeters', () => {
+    expect(parseKerbHeight({ 'kerb:height': '0.1' })).toBeCloseTo(10);
+    expect(parseKerbHeight({ 'kerb:height': '5 cm' })).toBe(5);
+    expect(parseKerbHeight({ 'kerb:height': '30mm' })).toBe(3);
+    expect(parseKerbHeight({ kerb: 'lowered' })).toBe(2);
+    expect(parseKerbHeight({ barrier: 'kerb' })).toBe(12);
+    expect(parseKerbHeight({ highway: 'crossing' })).toBeNull();
+  });
+});
+
+describe('assessEdge', () => {
+  it('charges a plain footway its length', () => {
+    expect(assessEdge(edge({ highway: 'footway' }), target(), 'wheelchair')).toEqual({ cost: 100, issues: [] });
+  });
+
+  it('blocks steps for wheelchairs but only flags them for walking', () => {
+    const steps = edge({ highway: 'steps' });
+
+    expect(assessEdge(steps, target(), 'wheelchair')).toEqual({ cost: Infinity, issues: ['steps'] });
+    expect(assessEdge(steps, target(), 'foot')).toEqual({ cost: 100, issues: ['steps'] });
+  });
+
+  it('blocks inclines steeper than the profile allows', () => {
+    const steep = edge({ highway: 'footway', incline: '10%' });
+
+    expect(assessEdge(steep, target(), 'wheelchair')).toEqual({ cost: Infinity, issues: ['steep-incline'] });
+    expect(assessEdge(steep, target(), 'accessible').cost).toBe(200);
+  });
+
+  it('charges climbing more than descending', () => {
+    const up = assessEdge(edge({ highway: 'footway', incline: '6%' }), target(), 'wheelchair');
+    const down = assessEdge(edge({ highway: 'footway', incline: '-6%' }), target(), 'wheelchair');
+
+    expect(up.cost).toBeGreaterThan(down.cost);
+    expect(down.cost).toBeGreaterThan(100);
+  });
+
+  it('lets personal limits override the profile', () => {
+    const incline = edge({ highway: 'footway', incline: '10%' });
+    const narrow = edge({ highway: 'footway', width: '1' });
+
+    expect(assessEdge(incline, target(), 'wheelchair', { maxInclinePercent: 12 }).cost).toBe(250);
+    expect(assessEdge(narrow, target(), 'wheelchair', { minPathWidthM: 1.2 }).cost).toBe(Infinity);
+    expect(assessEdge(narrow, target(), 'wheelchair', { minPathWidthM: null }).cost).toBe(100);
+  });
+
+  it('weighs rough surfaces and avoids cobblestones on request', () => {
+    const cobbles = edge({ highway: 'footway', surface: 'cobblestone' });
+
+    expect(assessEdge(cobbles, target(), 'wheelchair')).toEqual({ cost: 250, issues: ['rough-surface'] });
+    expect(assessEdge(cobbles, target(), 'foot', { avoidCobblestones: true }).cost).toBe(Infinity);
+  });
+
+  it('penalises raised kerbs and blocks those above the limit', () => {
+    const footway = edge({ highway: 'footway' });
+
+    expect(assessEdge(footway, target({ kerb: 'rolled' }), 'wheelchair')).toEqual({ cost: Infinity, issues: ['raised-kerb'] });
+    expect(assessEdge(footway, target({ kerb: 'rolled' }), 'accessible')).toEqual({ cost: 140, issues: ['raised-kerb'] });
+    expect(assessEdge(footway, target({ kerb: 'lowered' }), 'wheelchair').issues).toEqual([]);
+  });
+
+  it('needs tactile paving at crossings for visual aids', () => {
+    const crossing = edge({ highway: 'footway', footway: 'crossing', crossing: 'traffic_signals' });
+
+    expect(assessEdge(crossing, target(), 'wheelchair').issues).toEqual([]);
+    expect(assessEdge(crossing, target(), 'foot-with-visual-aids')).toEqual({ cost: 180, issues: ['uncontrolled-crossing'] });
+    expect(assessEdge(crossing, target({ tactile_paving: 'yes' }), 'foot-with-visual-aids').issues).toEqual([]);
+  });
+
+  it('flags roads without sidewalks and unlit paths', () => {
+    const road = edge({ highway: 'residential', sidewalk: 'no', lit: 'no' });
+
+    expect(assessEdge(road, target(), 'foot', { avoidUnlitPaths: true }).issues).toEqual(['unlit', 'no-sidewalk']);
+  });
+
+  it('blocks barriers the profile cannot pass', () => {
+    const footway = edge({ highway: 'footway' });
+
+    expect(assessEdge(footway, target({ barrier: 'turnstile' }), 'wheelchair').cost).toBe(Infinity);
+    expect(assessEdge(footway, target({ barrier: 'turnstile' }), 'foot').cost).toBe(100);
+  });
+});
+
+describe('getEdgeCostFunction', () => {
+  it('returns the assessed cost', () => {
+    const cost = getEdgeCostFunction('wheelchair');
+
+    expect(cost(edge({ highway: 'footway' }), target())).toBe(100);
+    expect(cost(edge({ highway: 'steps' }), target())).toBe(Infinity);
+  });
+
+  it('makes nodes far from rest spots more expensive', () => {
+    const cost = getEdgeCostFunction('foot', { maxRestSpacingM: 200 }, [[0, 0]]);
+    const footway = edge({ highway: 'footway' });
+
+    expect(cost(footway, target({}, 0, 0.0005))).toBe(100);
+    expect(cost(footway, target({}, 0, 0.01, 3))).toBe(150);
+  });
+});
+
+describe('describeEdgeIssue', () => {
+  it('maps an issue to its catalog key', () => {
+    expect(describeEdgeIssue('raised-kerb')).toEqual({ key: 'edge-issue.raised-kerb' });
+  });
+});
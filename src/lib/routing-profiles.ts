@@ -0,0 +1,445 @@
+/**
+ * Accessibility cost tables for pedestrian routing profiles
+ */
+import type { Schema } from './db-types';
+import type { EdgeCostFunction, GraphEdge, GraphNode } from './routing';
+import { calculateDistance } from './geo';
+import type { LocalizedText } from './i18n';
+
+export type RoutingProfileName = 'wheelchair' | 'foot-no-steps' | 'foot-with-visual-aids' | 'accessible' | 'foot';
+
+/**
+ * Problems an edge can have for a given profile, used for step and route summaries
+ */
+export type EdgeIssue =
+  | 'steps'
+  | 'steep-incline'
+  | 'rough-surface'
+  | 'raised-kerb'
+  | 'narrow'
+  | 'not-wheelchair-accessible'
+  | 'uncontrolled-crossing'
+  | 'no-sidewalk'
+  | 'unlit';
+
+/**
+ * Personal limits that override a profile's defaults. Unset fields keep the profile value.
+ */
+export interface RoutingThresholds {
+  maxInclinePercent?: number | null;
+  maxKerbHeightCm?: number | null;
+  minPathWidthM?: number | null;
+  avoidCobblestones?: boolean;
+  avoidUnlitPaths?: boolean;
+  maxRestSpacingM?: number | null;
+}
+
+export interface EdgeAssessment {
+  cost: number;
+  issues: EdgeIssue[];
+}
+
+/**
+ * How a profile weighs OSM tags.
+ *
+ * Multipliers scale the edge length, penalties add fixed meters, and
+ * Infinity marks a hard barrier the route must never use.
+ */
+interface ProfileCostTable {
+  steps: number;
+  maxIncline: number; // percent, steeper ways are barriers
+  inclineMultiplier: number; // extra cost per percent of incline
+  surfaces: Record<string, number>;
+  smoothness: Record<string, number>;
+  raisedKerbPenalty: number;
+  maxKerbHeight: number; // centimeters, higher kerbs are barriers
+  minWidth: number; // meters, narrower ways are barriers
+  wheelchairNo: number;
+  wheelchairLimited: number;
+  uncontrolledCrossingPenalty: number;
+  noSidewalkMultiplier: number;
+  blockingBarriers: string[]; // node barrier=* values that cannot be passed
+}
+
+const ROUGH_SURFACES: Record<string, number> = {
+  paving_stones: 1.1,
+  sett: 1.8,
+  cobblestone: 2.5,
+  unhewn_cobblestone: 3,
+  compacted: 1.2,
+  fine_gravel: 1.4,
+  gravel: 2,
+  pebblestone: 2.5,
+  ground: 2,
+  dirt: 2,
+  earth: 2,
+  grass: 2.5,
+  sand: 3,
+  mud: 4
+};
+
+const COST_TABLES: Record<RoutingProfileName, ProfileCostTable> = {
+  wheelchair: {
+    steps: Infinity,
+    maxIncline: 8,
+    inclineMultiplier: 0.15,
+    surfaces: {
+      ...ROUGH_SURFACES,
+      unhewn_cobblestone: Infinity,
+      pebblestone: Infinity,
+      sand: Infinity,
+      mud: Infinity,
+      grass: 4
+    },
+    smoothness: {
+      intermediate: 1.2,
+      bad: 2,
+      very_bad: Infinity,
+      horrible: Infinity,
+      very_horrible: Infinity,
+      impassable: Infinity
+    },
+    raisedKerbPenalty: 30,
+    maxKerbHeight: 3,
+    minWidth: 0.9,
+    wheelchairNo: Infinity,
+    wheelchairLimited: 1.5,
+    uncontrolledCrossingPenalty: 20,
+    noSidewalkMultiplier: 1.3,
+    blockingBarriers: ['stile', 'turnstile', 'kissing_gate', 'full-height_turnstile', 'cycle_barrier']
+  },
+  'foot-no-steps': {
+    steps: Infinity,
+    maxIncline: 15,
+    inclineMultiplier: 0.05,
+    surfaces: ROUGH_SURFACES,
+    smoothness: {
+      bad: 1.3,
+      very_bad: 1.8,
+      horrible: 3,
+      very_horrible: Infinity,
+      impassable: Infinity
+    },
+    raisedKerbPenalty: 10,
+    maxKerbHeight: 15,
+    minWidth: 0.6,
+    wheelchairNo: 1.2,
+    wheelchairLimited: 1,
+    uncontrolledCrossingPenalty: 15,
+    noSidewalkMultiplier: 1.2,
+    blockingBarriers: ['stile']
+  },
+  'foot-with-visual-aids': {
+    steps: 1.5,
+    maxIncline: 20,
+    inclineMultiplier: 0.02,
+    surfaces: {
+      ...ROUGH_SURFACES,
+      cobblestone: 1.5,
+      sett: 1.3
+    },
+    smoothness: {
+      very_bad: 1.5,
+      horrible: 2,
+      very_horrible: 3,
+      impassable: Infinity
+    },
+    raisedKerbPenalty: 0,
+    maxKerbHeight: Infinity,
+    minWidth: 0,
+    wheelchairNo: 1,
+    wheelchairLimited: 1,
+    // Crossings without signals or tactile paving are the main hazard
+    uncontrolledCrossingPenalty: 80,
+    noSidewalkMultiplier: 2,
+    blockingBarriers: []
+  },
+  accessible: {
+    steps: 5,
+    maxIncline: 12,
+    inclineMultiplier: 0.1,
+    surfaces: {
+      ...ROUGH_SURFACES,
+      mud: Infinity
+    },
+    smoothness: {
+      intermediate: 1.1,
+      bad: 1.6,
+      very_bad: 3,
+      horrible: Infinity,
+      very_horrible: Infinity,
+      impassable: Infinity
+    },
+    raisedKerbPenalty: 40,
+    maxKerbHeight: 10,
+    minWidth: 0.8,
+    wheelchairNo: 3,
+    wheelchairLimited: 1.3,
+    uncontrolledCrossingPenalty: 40,
+    noSidewalkMultiplier: 1.5,
+    blockingBarriers: ['stile', 'turnstile', 'full-height_turnstile']
+  },
+  foot: {
+    steps: 1,
+    maxIncline: Infinity,
+    inclineMultiplier: 0,
+    surfaces: {},
+    smoothness: {
+      impassable: Infinity
+    },
+    raisedKerbPenalty: 0,
+    maxKerbHeight: Infinity,
+    minWidth: 0,
+    wheelchairNo: 1,
+    wheelchairLimited: 1,
+    uncontrolledCrossingPenalty: 0,
+    noSidewalkMultiplier: 1,
+    blockingBarriers: []
+  }
+};
+
+// Roads where walking without a sidewalk means sharing the carriageway with traffic
+const TRAFFIC_ROADS = ['primary', 'primary_link', 'secondary', 'secondary_link', 'tertiary', 'tertiary_link', 'unclassified', 'residential'];
+
+const COBBLESTONE_SURFACES = ['sett', 'cobblestone', 'unhewn_cobblestone'];
+
+/**
+ * Resolve a profile string to a known profile, defaulting to plain walking
+ */
+export function getRoutingProfile(profile: string): RoutingProfileName {
+  return profile in COST_TABLES ? profile as RoutingProfileName : 'foot';
+}
+
+/**
+ * Parse an OSM incline value into a percentage (positive = uphill)
+ */
+export function parseIncline(value?: string): number | null {
+  if (!value) return null;
+  if (value === 'up') return 8; // Direction known, grade unknown: assume a moderate ramp
+  if (value === 'down') return -8;
+
+  const number = parseFloat(value);
+  if (isNaN(number)) return null;
+
+  if (value.includes('°')) {
+    return Math.tan(number * Math.PI / 180) * 100;
+  }
+  return number;
+}
+
+/**
+ * Parse an OSM width value into meters
+ */
+export function parseWidth(value?: string): number | null {
+  if (!value) return null;
+
+  const number = parseFloat(value.replace(',', '.'));
+  if (isNaN(number)) return null;
+
+  if (value.includes('cm')) return number / 100;
+  if (value.includes("'") || value.includes('ft')) return number * 0.3048;
+  return number;
+}
+
+/**
+ * Kerb height in centimeters from a kerb node's tags, or null when the node is not a kerb
+ */
+export function parseKerbHeight(tags: Record<string, string>): number | null {
+  const height = tags['kerb:height'];
+  if (height) {
+    const number = parseFloat(height.replace(',', '.'));
+    if (!isNaN(number)) {
+      if (height.includes('cm')) return number;
+      if (height.includes('mm')) return number / 10;
+      return number * 100; // meters
+    }
+  }
+
+  switch (tags.kerb) {
+    case 'raised': return 12;
+    case 'rolled': return 4;
+    case 'lowered': return 2;
+    case 'flush':
+    case 'no': return 0;
+  }
+
+  return tags.barrier === 'kerb' ? 12 : null;
+}
+
+/**
+ * Check if walking an edge means crossing a road
+ */
+export function isCrossing(edge: GraphEdge, target: GraphNode): boolean {
+  return edge.tags.footway === 'crossing' || edge.tags.highway === 'crossing' || target.tags.highway === 'crossing';
+}
+
+/**
+ * Weigh one edge for a profile, returning its cost and the accessibility issues found
+ */
+export function assessEdge(
+  edge: GraphEdge,
+  target: GraphNode,
+  profile: string,
+  thresholds: RoutingThresholds = {}
+): EdgeAssessment {
+  const table = applyThresholds(COST_TABLES[getRoutingProfile(profile)], thresholds);
+  const tags = edge.tags;
+  const issues: EdgeIssue[] = [];
+  let multiplier = 1;
+  let penalty = 0;
+
+  if (tags.highway === 'steps') {
+    issues.push('steps');
+    multiplier *= table.steps;
+  }
+
+  const incline = parseIncline(tags.incline);
+  if (incline !== null && Math.abs(incline) > 0) {
+    if (Math.abs(incline) > table.maxIncline) {
+      issues.push('steep-incline');
+      multiplier = Infinity;
+    } else {
+      // Climbing costs more than descending
+      const grade = incline > 0 ? incline : Math.abs(incline) * 0.5;
+      multiplier *= 1 + grade * table.inclineMultiplier;
+    }
+  }
+
+  const surfaceFactor = tags.surface ? table.surfaces[tags.surface] : undefined;
+  const smoothnessFactor = tags.smoothness ? table.smoothness[tags.smoothness] : undefined;
+  if ((surfaceFactor && surfaceFactor > 1) || (smoothnessFactor && smoothnessFactor > 1)) {
+    issues.push('rough-surface');
+    multiplier *= Math.max(surfaceFactor || 1, smoothnessFactor || 1);
+  }
+
+  if (thresholds.avoidCobblestones && tags.surface && COBBLESTONE_SURFACES.includes(tags.surface)) {
+    multiplier = Infinity;
+  }
+
+  if (thresholds.avoidUnlitPaths && tags.lit === 'no') {
+    issues.push('unlit');
+    multiplier *= 4;
+  }
+
+  const width = parseWidth(tags.width || tags['sidewalk:width'] || tags['footway:width']);
+  if (width !== null && width < table.minWidth) {
+    issues.push('narrow');
+    multiplier = Infinity;
+  }
+
+  if (tags.wheelchair === 'no') {
+    issues.push('not-wheelchair-accessible');
+    multiplier *= table.wheelchairNo;
+  } else if (tags.wheelchair === 'limited') {
+    multiplier *= table.wheelchairLimited;
+  }
+
+  if (TRAFFIC_ROADS.includes(tags.highway) && (tags.sidewalk === 'no' || tags.sidewalk === 'none')) {
+    issues.push('no-sidewalk');
+    multiplier *= table.noSidewalkMultiplier;
+  }
+
+  // Crossings are judged on the crossing way and on the node where they meet the road
+  if (isCrossing(edge, target)) {
+    const crossing = tags.crossing || target.tags.crossing;
+    const tactile = tags.tactile_paving || target.tags.tactile_paving;
+    const controlled = crossing === 'traffic_signals' || crossing === 'marked' || crossing === 'zebra';
+    if (!controlled || (profile === 'foot-with-visual-aids' && tactile !== 'yes')) {
+      issues.push('uncontrolled-crossing');
+      penalty += table.uncontrolledCrossingPenalty;
+    }
+  }
+
+  // Node tags: kerbs and physical barriers at the end of the edge
+  const kerbHeight = parseKerbHeight(target.tags);
+  if (kerbHeight !== null && kerbHeight > 3) {
+    issues.push('raised-kerb');
+    if (kerbHeight > table.maxKerbHeight) {
+      multiplier = Infinity;
+    } else {
+      penalty += table.raisedKerbPenalty;
+    }
+  }
+
+  if (target.tags.barrier && table.blockingBarriers.includes(target.tags.barrier)) {
+    multiplier = Infinity;
+  }
+  if (target.tags.wheelchair === 'no' && table.wheelchairNo === Infinity) {
+    issues.push('not-wheelchair-accessible');
+    multiplier = Infinity;
+  }
+
+  return {
+    cost: edge.distance * multiplier + penalty,
+    issues: Array.from(new Set(issues))
+  };
+}
+
+/**
+ * Override a profile's cost table with a user's personal limits
+ */
+function applyThresholds(table: ProfileCostTable, thresholds: RoutingThresholds): ProfileCostTable {
+  return {
+    ...table,
+    maxIncline: thresholds.maxInclinePercent ?? table.maxIncline,
+    maxKerbHeight: thresholds.maxKerbHeightCm ?? table.maxKerbHeight,
+    minWidth: thresholds.minPathWidthM ?? table.minWidth
+  };
+}
+
+/**
+ * Pick the edge cost function for a routing profile.
+ *
+ * When the user limits the distance between rest spots, nodes that are more
+ * than half that distance from any bench or shelter are made more expensive,
+ * which pulls the route toward streets with places to sit.
+ */
+export function getEdgeCostFunction(
+  profile: string,
+  thresholds: RoutingThresholds = {},
+  restSpots: Array<[number, number]> = []
+): EdgeCostFunction {
+  const maxRestGap = thresholds.maxRestSpacingM ? thresholds.maxRestSpacingM / 2 : null;
+  const restDistanceCache = new Map<number, number>();
+
+  const distanceToRest = (node: GraphNode) => {
+    let distance = restDistanceCache.get(node.id);
+    if (distance === undefined) {
+      distance = restSpots.reduce(
+        (nearest, spot) => Math.min(nearest, calculateDistance([node.lat, node.lon], spot)),
+        Infinity
+      );
+      restDistanceCache.set(node.id, distance);
+    }
+    return distance;
+  };
+
+  return (edge, target) => {
+    const { cost } = assessEdge(edge, target, profile, thresholds);
+    if (maxRestGap !== null && restSpots.length > 0 && distanceToRest(target) > maxRestGap) {
+      return cost * 1.5;
+    }
+    return cost;
+  };
+}
+
+/**
+ * Extract routing thresholds from a user's stored preferences
+ */
+export function getThresholdsFromPreferences(prefs: Schema["userPreferences"]): RoutingThresholds {
+  return {
+    maxInclinePercent: prefs.maxInclinePercent,
+    maxKerbHeightCm: prefs.maxKerbHeightCm,
+    minPathWidthM: prefs.minPathWidthM,
+    avoidCobblestones: !!prefs.avoidCobblestones,
+    avoidUnlitPaths: !!prefs.avoidUnlitPaths,
+    maxRestSpacingM: prefs.maxRestSpacingM
+  };
+}
+
+/**
+ * Short spoken description of an edge issue
+ */
+export function describeEdgeIssue(issue: EdgeIssue): LocalizedText {
+  return { key: `edge-issue.${issue}` };
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import type { OverpassElement } from './overpass-api';
+import {
+  buildRoutingGraph,
+  findNearestNode,
+  findPath,
+  isWalkableWay,
+  type EdgeCostFunction
+} from './routing';
+
+const node = (id: number, lat: number, lon: number, tags?: Record<string, string>): OverpassElement =>
+  ({ type: 'node', id, lat, lon, tags });
+
+const way = (id: number, nodes: number[], tags: Record<string, string>): OverpassElement =>
+  ({ type: 'way', id, nodes, tags });
+
+const byDistance: EdgeCostFunction = edge => edge.distance;
+
+// A square of footways with a shorter diagonal made of steps:
+//
+//   3 ---- 4
+//   |    / |
+//   |  /   |
+//   1 ---- 2
+const square: OverpassElement[] = [
+  node(1, 0, 0),
+  node(2, 0, 0.001),
+  node(3, 0.001, 0),
+  node(4, 0.001, 0.001, { amenity: 'bench' }),
+  node(5, 0.01, 0.01),
+  way(10, [1, 2, 4], { highway: 'footway' }),
+  way(11, [1, 3, 4], { highway: 'footway' }),
+  way(12, [1, 4], { highway: 'steps', incline: 'up' })
+];
+
+describe('isWalkableWay', () => {
+  it('accepts footways and rejects roads pedestrians cannot use', () => {
+    expect(isWalkableWay({ highway: 'footway' })).toBe(true);
+    expect(isWalkableWay({ highway: 'motorway' })).toBe(false);
+    expect(isWalkableWay({})).toBe(false);
+  });
+
+  it('lets explicit foot access override a general restriction', () => {
+    expect(isWalkableWay({ highway: 'service', access: 'private' })).toBe(false);
+    expect(isWalkableWay({ highway: 'service', access: 'private', foot: 'yes' })).toBe(true);
+    expect(isWalkableWay({ highway: 'footway', foot: 'no' })).toBe(false);
+  });
+
+  it('skips areas other than pedestrian squares', () => {
+    expect(isWalkableWay({ highway: 'footway', area: 'yes' })).toBe(false);
+    expect(isWalkableWay({ highway: 'pedestrian', area: 'yes' })).toBe(true);
+  });
+});
+
+describe('buildRoutingGraph', () => {
+  it('links way nodes in both directions and drops nodes off the network', () => {
+    const graph = buildRoutingGraph(square);
+
+    expect(Array.from(graph.nodes.keys()).sort()).toEqual([1, 2, 3, 4]);
+    expect(graph.adjacency.get(2)?.map(edge => edge.to).sort()).toEqual([1, 4]);
+  });
+
+  it('flips the incline on the reverse edge', () => {
+    const graph = buildRoutingGraph(square);
+
+    expect(graph.adjacency.get(1)?.find(edge => edge.to === 4)?.tags.incline).toBe('up');
+    expect(graph.adjacency.get(4)?.find(edge => edge.to === 1)?.tags.incline).toBe('down');
+  });
+
+  it('only links oneway roads forwards', () => {
+    const graph = buildRoutingGraph([
+      node(1, 0, 0),
+      node(2, 0, 0.001),
+      way(10, [1, 2], { highway: 'service', oneway: 'yes' })
+    ]);
+
+    expect(graph.adjacency.get(1)).toHaveLength(1);
+    expect(graph.adjacency.has(2)).toBe(false);
+  });
+
+  it('keeps rest spots', () => {
+    expect(buildRoutingGraph(square).restSpots).toEqual([[0.001, 0.001]]);
+  });
+});
+
+describe('findNearestNode', () => {
+  it('returns the closest node in the graph', () => {
+    const graph = buildRoutingGraph(square);
+    expect(findNearestNode(graph, [0.0009, 0.0001])?.id).toBe(3);
+  });
+
+  it('returns null for an empty graph', () => {
+    expect(findNearestNode(buildRoutingGraph([]), [0, 0])).toBeNull();
+  });
+});
+
+describe('findPath', () => {
+  it('takes the shortest path', () => {
+    const path = findPath(buildRoutingGraph(square), 1, 4, byDistance);
+
+    expect(path?.nodeIds).toEqual([1, 4]);
+    expect(path?.distance).toBeCloseTo(157, 0);
+    expect(path?.cost).toBe(path?.distance);
+  });
+
+  it('routes around edges the cost function rules out', () => {
+    const noSteps: EdgeCostFunction = edge => edge.tags.highway === 'steps' ? Infinity : edge.distance;
+    const path = findPath(buildRoutingGraph(square), 1, 4, noSteps);
+
+    expect(path?.nodeIds).toHaveLength(3);
+    expect(path?.edges.every(edge => edge.tags.highway === 'footway')).toBe(true);
+  });
+
+  it('prefers cheaper edges over shorter ones', () => {
+    const avoidWay10: EdgeCostFunction = edge => edge.wayId === 10 ? edge.distance * 3 : edge.distance * 2;
+    const path = findPath(buildRoutingGraph(square), 1, 4, avoidWay10);
+
+    expect(path?.nodeIds).toEqual([1, 4]);
+  });
+
+  it('returns an empty path from a node to itself', () => {
+    const path = findPath(buildRoutingGraph(square), 2, 2, byDistance);
+
+    expect(path?.nodeIds).toEqual([2]);
+    expect(path?.distance).toBe(0);
+  });
+
+  it('returns null when no path exists', () => {
+    const graph = buildRoutingGraph(square);
+
+    expect(findPath(graph, 1, 4, () => Infinity)).toBeNull();
+    expect(findPath(graph, 1, 99, byDistance)).toBeNull();
+  });
+});
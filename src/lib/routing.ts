@@ -0,0 +1,275 @@
+/**
+ * Pedestrian routing over the OpenStreetMap footway network
+ */
+import type { OverpassElement } from './overpass-api';
+import { calculateDistance } from './geo';
+
+export interface GraphNode {
+  id: number;
+  lat: number;
+  lon: number;
+  tags: Record<string, string>;
+}
+
+export interface GraphEdge {
+  from: number;
+  to: number;
+  wayId: number;
+  distance: number; // meters
+  tags: Record<string, string>;
+}
+
+export interface RoutingGraph {
+  nodes: Map<number, GraphNode>;
+  adjacency: Map<number, GraphEdge[]>;
+  restSpots: Array<[number, number]>; // benches and shelters
+}
+
+export interface RoutePath {
+  nodeIds: number[];
+  edges: GraphEdge[];
+  cost: number;
+  distance: number;
+}
+
+/**
+ * Cost of traversing an edge. Return Infinity to treat the edge as impassable.
+ */
+export type EdgeCostFunction = (edge: GraphEdge, target: GraphNode) => number;
+
+// Ways that pedestrians can walk along, whether or not they carry sidewalk tags
+export const WALKABLE_HIGHWAYS = [
+  'footway', 'pedestrian', 'path', 'steps', 'crossing', 'living_street',
+  'residential', 'service', 'unclassified', 'track', 'tertiary', 'tertiary_link',
+  'secondary', 'secondary_link', 'primary', 'primary_link', 'corridor', 'elevator'
+];
+
+/**
+ * Check if a way can be used by pedestrians at all
+ */
+export function isWalkableWay(tags: Record<string, string>): boolean {
+  if (!tags.highway || !WALKABLE_HIGHWAYS.includes(tags.highway)) return false;
+  if (tags.foot === 'no' || tags.access === 'private' || tags.access === 'no') {
+    // Explicit foot permission overrides a general access restriction
+    return tags.foot === 'yes' || tags.foot === 'designated';
+  }
+  if (tags.area === 'yes' && tags.highway !== 'pedestrian') return false;
+  return true;
+}
+
+/**
+ * Build a routing graph from Overpass ways and their nodes
+ */
+export function buildRoutingGraph(elements: OverpassElement[]): RoutingGraph {
+  const nodes = new Map<number, GraphNode>();
+  const adjacency = new Map<number, GraphEdge[]>();
+
+  elements.forEach(element => {
+    if (element.type === 'node' && element.lat !== undefined && element.lon !== undefined) {
+      nodes.set(element.id, {
+        id: element.id,
+        lat: element.lat,
+        lon: element.lon,
+        tags: element.tags || {}
+      });
+    }
+  });
+
+  const addEdge = (edge: GraphEdge) => {
+    const edges = adjacency.get(edge.from);
+    if (edges) {
+      edges.push(edge);
+    } else {
+      adjacency.set(edge.from, [edge]);
+    }
+  };
+
+  elements.forEach(element => {
+    if (element.type !== 'way' || !element.nodes || !element.tags) return;
+    if (!isWalkableWay(element.tags)) return;
+
+    const tags = element.tags;
+    const oneway = tags.oneway === 'yes' && tags.highway !== 'steps' && tags.highway !== 'footway';
+
+    for (let i = 1; i < element.nodes.length; i++) {
+      const from = nodes.get(element.nodes[i - 1]);
+      const to = nodes.get(element.nodes[i]);
+      if (!from || !to) continue;
+
+      const distance = calculateDistance([from.lat, from.lon], [to.lat, to.lon]);
+
+      addEdge({ from: from.id, to: to.id, wayId: element.id, distance, tags });
+      if (!oneway) {
+        addEdge({ from: to.id, to: from.id, wayId: element.id, distance, tags: reverseDirectionalTags(tags) });
+      }
+    }
+  });
+
+  // Keep places to sit before dropping standalone nodes
+  const restSpots: Array<[number, number]> = [];
+  nodes.forEach(node => {
+    if (isRestSpot(node.tags)) restSpots.push([node.lat, node.lon]);
+  });
+
+  // Drop nodes that are not part of any walkable way
+  for (const id of Array.from(nodes.keys())) {
+    if (!adjacency.has(id)) nodes.delete(id);
+  }
+
+  return { nodes, adjacency, restSpots };
+}
+
+/**
+ * Check if a node is somewhere to sit down and rest
+ */
+export function isRestSpot(tags: Record<string, string>): boolean {
+  return tags.amenity === 'bench' || tags.amenity === 'shelter' ||
+    tags.leisure === 'picnic_table' || tags.bench === 'yes';
+}
+
+// Direction-dependent tags (incline) flip when the way is walked backwards
+function reverseDirectionalTags(tags: Record<string, string>): Record<string, string> {
+  if (!tags.incline) return tags;
+
+  let incline = tags.incline;
+  if (incline === 'up') incline = 'down';
+  else if (incline === 'down') incline = 'up';
+  else if (incline.startsWith('-')) incline = incline.slice(1);
+  else if (/^\d/.test(incline)) incline = `-${incline}`;
+
+  return { ...tags, incline };
+}
+
+/**
+ * Find the graph node closest to a point
+ */
+export function findNearestNode(graph: RoutingGraph, point: [number, number]): GraphNode | null {
+  let nearest: GraphNode | null = null;
+  let nearestDistance = Infinity;
+
+  graph.nodes.forEach(node => {
+    const distance = calculateDistance(point, [node.lat, node.lon]);
+    if (distance < nearestDistance) {
+      nearestDistance = distance;
+      nearest = node;
+    }
+  });
+
+  return nearest;
+}
+
+/**
+ * Find the cheapest path between two nodes with A* search.
+ *
+ * The heuristic is the straight-line distance, so cost functions must never
+ * return less than the edge's length for the search to stay optimal.
+ */
+export function findPath(
+  graph: RoutingGraph,
+  startId: number,
+  endId: number,
+  costFn: EdgeCostFunction
+): RoutePath | null {
+  const end = graph.nodes.get(endId);
+  if (!end || !graph.nodes.has(startId)) return null;
+
+  const heuristic = (id: number) => {
+    const node = graph.nodes.get(id)!;
+    return calculateDistance([node.lat, node.lon], [end.lat, end.lon]);
+  };
+
+  const gScore = new Map<number, number>([[startId, 0]]);
+  const cameFrom = new Map<number, GraphEdge>();
+  const closed = new Set<number>();
+  const open = new MinHeap<number>();
+  open.push(startId, heuristic(startId));
+
+  while (open.size > 0) {
+    const current = open.pop()!;
+    if (current === endId) break;
+    if (closed.has(current)) continue;
+    closed.add(current);
+
+    for (const edge of graph.adjacency.get(current) || []) {
+      if (closed.has(edge.to)) continue;
+
+      const cost = costFn(edge, graph.nodes.get(edge.to)!);
+      if (!isFinite(cost)) continue;
+
+      const tentative = gScore.get(current)! + cost;
+      if (tentative < (gScore.get(edge.to) ?? Infinity)) {
+        gScore.set(edge.to, tentative);
+        cameFrom.set(edge.to, edge);
+        open.push(edge.to, tentative + heuristic(edge.to));
+      }
+    }
+  }
+
+  if (!gScore.has(endId)) return null;
+
+  // Walk back from the end to rebuild the path
+  const edges: GraphEdge[] = [];
+  let nodeId = endId;
+  while (nodeId !== startId) {
+    const edge = cameFrom.get(nodeId)!;
+    edges.unshift(edge);
+    nodeId = edge.from;
+  }
+
+  return {
+    nodeIds: [startId, ...edges.map(edge => edge.to)],
+    edges,
+    cost: gScore.get(endId)!,
+    distance: edges.reduce((sum, edge) => sum + edge.distance, 0)
+  };
+}
+
+/**
+ * Binary min-heap used as the A* open set
+ */
+class MinHeap<T> {
+  private items: Array<{ value: T; priority: number }> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(value: T, priority: number): void {
+    this.items.push({ value, priority });
+    let index = this.items.length - 1;
+
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.items[parent].priority <= this.items[index].priority) break;
+      [this.items[parent], this.items[index]] = [this.items[index], this.items[parent]];
+      index = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    if (this.items.length === 0) return undefined;
+
+    const top = this.items[0];
+    const last = this.items.pop()!;
+
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      let index = 0;
+
+      while (true) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+
+        if (left < this.items.length && this.items[left].priority < this.items[smallest].priority) smallest = left;
+        if (right < this.items.length && this.items[right].priority < this.items[smallest].priority) smallest = right;
+        if (smallest === index) break;
+
+        [this.items[smallest], this.items[index]] = [this.items[index], this.items[smallest]];
+        index = smallest;
+      }
+    }
+
+    return top.value;
+  }
+}
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SPEECH_EXPIRY, SpeechQueue, type SpeechOutput } from './speech-queue';
+
+/**
+ * Records what is said and lets the test decide when each utterance ends
+ */
+class FakeOutput implements SpeechOutput {
+  spoken: string[] = [];
+  cancelled = 0;
+  private onEnd: (() => void) | null = null;
+
+  speak(text: string, onEnd: () => void): void {
+    this.spoken.push(text);
+    this.onEnd = onEnd;
+  }
+
+  cancel(): void {
+    this.cancelled++;
+    this.onEnd = null;
+  }
+
+  finish(): void {
+    const onEnd = this.onEnd;
+    this.onEnd = null;
+    onEnd?.();
+  }
+
+  finishAll(): void {
+    while (this.onEnd) this.finish();
+  }
+}
+
+describe('SpeechQueue', () => {
+  let output: FakeOutput;
+  let queue: SpeechQueue;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    output = new FakeOutput();
+    queue = new SpeechQueue(output);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('speaks immediately when idle and reports speaking until done', () => {
+    queue.enqueue({ text: 'Hello' });
+
+    expect(output.spoken).toEqual(['Hello']);
+    expect(queue.isSpeaking()).toBe(true);
+
+    output.finish();
+    expect(queue.isSpeaking()).toBe(false);
+  });
+
+  it('speaks waiting messages by priority, then in order', () => {
+    queue.enqueue({ text: 'Speaking now' });
+    queue.enqueue({ text: 'Info one' });
+    queue.enqueue({ text: 'Warning', priority: 'warning' });
+    queue.enqueue({ text: 'Info two' });
+    queue.enqueue({ text: 'Turn left', priority: 'critical', interrupt: false });
+    output.finishAll();
+
+    expect(output.spoken).toEqual(['Speaking now', 'Turn left', 'Warning', 'Info one', 'Info two']);
+  });
+
+  it('replaces a queued message with the same key', () => {
+    queue.enqueue({ text: 'Speaking now' });
+    queue.enqueue({ text: 'In 50 meters, turn left', key: 'upcoming' });
+    queue.enqueue({ text: 'In 20 meters, turn left', key: 'upcoming' });
+    output.finishAll();
+
+    expect(output.spoken).toEqual(['Speaking now', 'In 20 meters, turn left']);
+  });
+
+  it('cuts off the current message when its key is updated', () => {
+    queue.enqueue({ text: '300 meters remaining', key: 'distance' });
+    queue.enqueue({ text: '250 meters remaining', key: 'distance' });
+
+    expect(output.cancelled).toBe(1);
+    expect(output.spoken).toEqual(['300 meters remaining', '250 meters remaining']);
+  });
+
+  it('does not repeat a message that is already being spoken', () => {
+    queue.enqueue({ text: 'Turn left' });
+    queue.enqueue({ text: 'Turn left' });
+    output.finishAll();
+
+    expect(output.spoken).toEqual(['Turn left']);
+    expect(output.cancelled).toBe(0);
+  });
+
+  it('lets critical messages interrupt less important ones', () => {
+    queue.enqueue({ text: 'Place saved' });
+    queue.enqueue({ text: 'Turn right', priority: 'critical' });
+
+    expect(output.cancelled).toBe(1);
+    expect(output.spoken).toEqual(['Place saved', 'Turn right']);
+  });
+
+  it('does not interrupt a more important message', () => {
+    queue.enqueue({ text: 'Turn right', priority: 'critical' });
+    queue.enqueue({ text: 'Elevator out of service', priority: 'warning', interrupt: true });
+
+    expect(output.cancelled).toBe(0);
+    output.finishAll();
+    expect(output.spoken).toEqual(['Turn right', 'Elevator out of service']);
+  });
+
+  it('drops messages that expired while waiting', () => {
+    queue.enqueue({ text: 'Speaking now', priority: 'warning' });
+    queue.enqueue({ text: 'Stale', expiresIn: 1000 });
+    queue.enqueue({ text: 'Fresh' });
+
+    vi.setSystemTime(DEFAULT_SPEECH_EXPIRY.info - 1);
+    output.finishAll();
+
+    expect(output.spoken).toEqual(['Speaking now', 'Fresh']);
+  });
+
+  it('stops speaking and forgets the queue on clear', () => {
+    queue.enqueue({ text: 'One' });
+    queue.enqueue({ text: 'Two' });
+    queue.clear();
+    output.finishAll();
+
+    expect(output.cancelled).toBe(1);
+    expect(output.spoken).toEqual(['One']);
+    expect(queue.isSpeaking()).toBe(false);
+  });
+});
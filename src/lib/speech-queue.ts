@@ -0,0 +1,132 @@
+/**
+ * Priority queue for spoken messages, so that a navigation instruction is
+ * never stuck behind an informational announcement
+ */
+
+export type SpeechPriority = 'critical' | 'warning' | 'info';
+
+const PRIORITY_RANK: Record<SpeechPriority, number> = {
+  critical: 2, // navigation instructions the user has to act on now
+  warning: 1, // problems with the route or the user's situation
+  info: 0 // confirmations and results
+};
+
+// How long (ms) a message may wait before it is too stale to say
+export const DEFAULT_SPEECH_EXPIRY: Record<SpeechPriority, number> = {
+  critical: 10000,
+  warning: 30000,
+  info: 15000
+};
+
+export interface SpeechOptions {
+  priority?: SpeechPriority; // defaults to 'info'
+  // Messages with the same key replace each other instead of both being
+  // spoken. Defaults to the text itself.
+  key?: string;
+  // Override the default expiry for the priority
+  expiresIn?: number;
+  // Cut off the message being spoken if it is not more important than this
+  // one. Defaults to true for critical messages.
+  interrupt?: boolean;
+}
+
+export interface SpeechRequest extends SpeechOptions {
+  text: string;
+}
+
+interface QueuedSpeech {
+  text: string;
+  key: string;
+  priority: SpeechPriority;
+  expiresAt: number;
+}
+
+/**
+ * What actually produces the sound. `onEnd` must be called once the text has
+ * been spoken or has failed, but not after `cancel()`.
+ */
+export interface SpeechOutput {
+  speak(text: string, onEnd: () => void): void;
+  cancel(): void;
+}
+
+export class SpeechQueue {
+  private queue: QueuedSpeech[] = [];
+  private current: QueuedSpeech | null = null;
+  private output: SpeechOutput;
+
+  constructor(output: SpeechOutput) {
+    this.output = output;
+  }
+
+  /**
+   * Queue a message behind anything at least as important, and start
+   * speaking if nothing is
+   */
+  public enqueue(request: SpeechRequest, now: number = Date.now()): void {
+    const priority = request.priority || 'info';
+    const item: QueuedSpeech = {
+      text: request.text,
+      key: request.key ?? request.text,
+      priority,
+      expiresAt: now + (request.expiresIn ?? DEFAULT_SPEECH_EXPIRY[priority])
+    };
+
+    // Already being said, word for word
+    if (this.current && this.current.key === item.key && this.current.text === item.text) return;
+
+    // A newer message replaces a queued one with the same key
+    this.queue = this.queue.filter(queued => queued.key !== item.key);
+
+    const insertAt = this.queue.findIndex(queued => PRIORITY_RANK[queued.priority] < PRIORITY_RANK[priority]);
+    if (insertAt === -1) {
+      this.queue.push(item);
+    } else {
+      this.queue.splice(insertAt, 0, item);
+    }
+
+    const interrupt = request.interrupt ?? priority === 'critical';
+    if (
+      this.current &&
+      (this.current.key === item.key ||
+        (interrupt && PRIORITY_RANK[this.current.priority] <= PRIORITY_RANK[priority]))
+    ) {
+      this.current = null;
+      this.output.cancel();
+    }
+
+    if (!this.current) {
+      this.next(now);
+    }
+  }
+
+  /**
+   * Stop speaking and forget everything queued
+   */
+  public clear(): void {
+    this.queue = [];
+    if (this.current) {
+      this.current = null;
+      this.output.cancel();
+    }
+  }
+
+  public isSpeaking(): boolean {
+    return this.current !== null;
+  }
+
+  private next(now: number = Date.now()): void {
+    this.queue = this.queue.filter(item => item.expiresAt > now);
+
+    const item = this.queue.shift();
+    if (!item) return;
+
+    this.current = item;
+    this.output.speak(item.text, () => {
+      // Ignore the end of speech that was interrupted or cleared
+      if (this.current !== item) return;
+      this.current = null;
+      this.next();
+    });
+  }
+}
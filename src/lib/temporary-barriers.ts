@@ -0,0 +1,185 @@
+/**
+ * Temporary barriers: construction, broken elevators, flooding and other
+ * short-lived obstacles that routing avoids until they expire
+ */
+import { fine } from './fine';
+import type { Schema } from './db-types';
+import type { MessageKey } from './i18n';
+import type { EdgeCostFunction, RoutingGraph } from './routing';
+
+export type TemporaryBarrier = Schema['temporaryBarriers'];
+export type BarrierKind = TemporaryBarrier['kind'];
+
+export const BARRIER_KINDS: { id: BarrierKind; label: MessageKey }[] = [
+  { id: 'construction', label: 'barrier-kind.construction' },
+  { id: 'broken-elevator', label: 'barrier-kind.broken-elevator' },
+  { id: 'flooding', label: 'barrier-kind.flooding' },
+  { id: 'other', label: 'barrier-kind.other' }
+];
+
+// How long a barrier lasts, offered when it is added (hours)
+export const BARRIER_DURATIONS = [2, 6, 24, 72, 168];
+
+// Distance (m) around a barrier that is treated as blocked, unless the barrier says otherwise
+export const DEFAULT_BARRIER_RADIUS = 15;
+
+const METERS_PER_DEGREE = 111320;
+
+export function getBarrierKindLabel(kind: BarrierKind): MessageKey {
+  return BARRIER_KINDS.find(entry => entry.id === kind)?.label || 'barrier-kind.other';
+}
+
+export function isSegmentBarrier(barrier: TemporaryBarrier): boolean {
+  return barrier.endLat !== null && barrier.endLat !== undefined &&
+    barrier.endLng !== null && barrier.endLng !== undefined;
+}
+
+export function isBarrierActive(barrier: TemporaryBarrier, now: number = Date.now()): boolean {
+  return new Date(barrier.expiresAt).getTime() > now;
+}
+
+/**
+ * Barriers that haven't expired yet
+ */
+export async function getActiveBarriers(): Promise<TemporaryBarrier[]> {
+  const barriers = await fine.table('temporaryBarriers')
+    .select()
+    .gt('expiresAt', new Date().toISOString());
+
+  return (barriers || []).filter(barrier => isBarrierActive(barrier));
+}
+
+/**
+ * Add a barrier at a point, or along a stretch of path when an end point is given
+ */
+export async function addBarrier(options: {
+  kind: BarrierKind;
+  start: [number, number];
+  end?: [number, number] | null;
+  durationHours: number;
+  description?: string;
+  userId?: string | null;
+}): Promise<void> {
+  const barrier: TemporaryBarrier = {
+    kind: options.kind,
+    description: options.description?.trim() || null,
+    lat: options.start[0],
+    lng: options.start[1],
+    endLat: options.end ? options.end[0] : null,
+    endLng: options.end ? options.end[1] : null,
+    radius: DEFAULT_BARRIER_RADIUS,
+    expiresAt: new Date(Date.now() + options.durationHours * 3600 * 1000).toISOString(),
+    userId: options.userId ?? null
+  };
+
+  await fine.table('temporaryBarriers').insert(barrier);
+}
+
+/**
+ * Keep only barriers with a point inside a bounding box (south, west, north, east)
+ */
+export function filterBarriersInBounds(
+  barriers: TemporaryBarrier[],
+  bounds: [number, number, number, number]
+): TemporaryBarrier[] {
+  const [south, west, north, east] = bounds;
+  const inside = (lat?: number | null, lng?: number | null) =>
+    lat !== null && lat !== undefined && lng !== null && lng !== undefined &&
+    lat >= south && lat <= north && lng >= west && lng <= east;
+
+  return barriers.filter(barrier => inside(barrier.lat, barrier.lng) || inside(barrier.endLat, barrier.endLng));
+}
+
+/**
+ * Shortest distance in meters between a path segment and a barrier
+ */
+export function distanceToBarrier(
+  from: [number, number],
+  to: [number, number],
+  barrier: TemporaryBarrier
+): number {
+  // Project onto a flat plane around the barrier; fine at street scale
+  const originLat = barrier.lat;
+  const originLng = barrier.lng;
+  const lngScale = Math.cos(originLat * Math.PI / 180);
+  const project = (lat: number, lng: number): [number, number] => [
+    (lng - originLng) * lngScale * METERS_PER_DEGREE,
+    (lat - originLat) * METERS_PER_DEGREE
+  ];
+
+  const a = project(from[0], from[1]);
+  const b = project(to[0], to[1]);
+  const p = project(barrier.lat, barrier.lng);
+
+  if (!isSegmentBarrier(barrier)) {
+    return pointToSegmentDistance(p, a, b);
+  }
+
+  const q = project(barrier.endLat!, barrier.endLng!);
+  if (segmentsIntersect(a, b, p, q)) return 0;
+
+  return Math.min(
+    pointToSegmentDistance(p, a, b),
+    pointToSegmentDistance(q, a, b),
+    pointToSegmentDistance(a, p, q),
+    pointToSegmentDistance(b, p, q)
+  );
+}
+
+/**
+ * Wrap an edge cost function so that edges passing through a barrier are impassable
+ */
+export function avoidBarriers(
+  costFn: EdgeCostFunction,
+  graph: RoutingGraph,
+  barriers: TemporaryBarrier[]
+): EdgeCostFunction {
+  if (barriers.length === 0) return costFn;
+
+  const blocked = new Map<string, boolean>();
+
+  return (edge, target) => {
+    const key = `${edge.from}-${edge.to}`;
+    let isBlocked = blocked.get(key);
+
+    if (isBlocked === undefined) {
+      const source = graph.nodes.get(edge.from);
+      isBlocked = !!source && barriers.some(barrier =>
+        distanceToBarrier([source.lat, source.lon], [target.lat, target.lon], barrier) <=
+          (barrier.radius ?? DEFAULT_BARRIER_RADIUS)
+      );
+      blocked.set(key, isBlocked);
+    }
+
+    return isBlocked ? Infinity : costFn(edge, target);
+  };
+}
+
+function pointToSegmentDistance(p: [number, number], a: [number, number], b: [number, number]): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSquared = dx * dx + dy * dy;
+
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSquared));
+
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+}
+
+function segmentsIntersect(
+  a: [number, number],
+  b: [number, number],
+  c: [number, number],
+  d: [number, number]
+): boolean {
+  const cross = (o: [number, number], p: [number, number], q: [number, number]) =>
+    (p[0] - o[0]) * (q[1] - o[1]) - (p[1] - o[1]) * (q[0] - o[0]);
+
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
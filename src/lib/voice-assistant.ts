@@ -1,6 +1,24 @@
 /**
  * Voice assistant for accessibility features
  */
+import {
+  extractSlots,
+  getIntent,
+  parseIntent,
+  type IntentDefinition,
+  type VoiceCommandArgs
+} from './voice-intents';
+import { hasMessage, translate, type LocalizedText, type MessageKey, type MessageParams } from './i18n';
+import { DEFAULT_LOCALE, getSpeechLang, type Locale } from './locales';
+import { SpeechQueue, type SpeechOptions, type SpeechRequest } from './speech-queue';
+
+export type VoiceCommandCallback = (args: VoiceCommandArgs) => void;
+
+// A layer of commands, e.g. the ones a page adds while it is open
+interface CommandScope {
+  name: string;
+  commands: Map<string, VoiceCommandCallback>;
+}
 
 export interface VoiceAssistantOptions {
   rate?: number;
@@ -42,9 +60,14 @@ export class VoiceAssistant {
     volume: 1,
     voice: ''
   };
-  private commandCallbacks: Map<string, (args?: string) => void> = new Map();
-  private currentUtterance: SpeechSynthesisUtterance | null = null;
+  // Bottom scope holds the app-wide commands; pages push theirs on top
+  private commandScopes: CommandScope[] = [{ name: 'global', commands: new Map() }];
+  private speechQueue = new SpeechQueue({
+    speak: (text, onEnd) => this.utter(text, onEnd),
+    cancel: () => this.synthesis?.cancel()
+  });
   private recognitionTimeout: NodeJS.Timeout | null = null;
+  private locale: Locale = DEFAULT_LOCALE;
 
   private constructor() {
     if (typeof window !== 'undefined') {
@@ -57,7 +80,7 @@ export class VoiceAssistant {
           this.recognition = new SpeechRecognition();
           this.recognition.continuous = false;
           this.recognition.interimResults = false;
-          this.recognition.lang = 'en-US';
+          this.recognition.lang = getSpeechLang(this.locale);
           
           this.recognition.onresult = (event: any) => {
             try {
@@ -125,44 +148,114 @@ export class VoiceAssistant {
     this.options = { ...this.options, ...options };
   }
 
-  public speak(text: string, immediate: boolean = false): void {
+  /**
+   * Listen and speak in another language. Commands are matched with that
+   * language's phrases as well as English ones.
+   */
+  public setLocale(locale: Locale): void {
+    this.locale = locale;
+    if (this.recognition) {
+      this.recognition.lang = getSpeechLang(locale);
+    }
+  }
+
+  public getLocale(): Locale {
+    return this.locale;
+  }
+
+  /**
+   * Speak a message from the catalog in the current locale, with the same
+   * plural and number formatting as the screen. A newer prompt with the same
+   * key replaces one still waiting to be spoken.
+   */
+  public speakPrompt(key: MessageKey, params?: MessageParams, options: SpeechOptions = {}): void {
+    this.speak(this.getPrompt(key, params), { key, ...options });
+  }
+
+  /**
+   * Speak text built elsewhere (a route step, a summary) in the current locale
+   */
+  public speakText(text: LocalizedText, options: SpeechOptions = {}): void {
+    this.speakPrompt(text.key, text.params, options);
+  }
+
+  /**
+   * Translate a prompt without speaking it, e.g. to show it as well
+   */
+  public getPrompt(key: MessageKey, params?: MessageParams): string {
+    return translate(this.locale, key, params);
+  }
+
+  /**
+   * Queue text to be spoken. Critical messages cut off anything less
+   * important; see SpeechQueue for the rules.
+   */
+  public speak(text: string, options: SpeechOptions = {}): void {
+    this.announce({ ...options, text });
+  }
+
+  public announce(request: SpeechRequest): void {
+    this.speechQueue.enqueue(request);
+  }
+
+  private utter(text: string, onEnd: () => void): void {
     if (!this.synthesis) {
       console.warn("Speech synthesis not available");
+      onEnd();
       return;
     }
     
-    // Cancel current speech if immediate
-    if (immediate && this.synthesis.speaking) {
-      this.synthesis.cancel();
-    }
-    
     try {
       // Create new utterance
       const utterance = new SpeechSynthesisUtterance(text);
       utterance.rate = this.options.rate || 1;
       utterance.pitch = this.options.pitch || 1;
       utterance.volume = this.options.volume || 1;
+      utterance.lang = getSpeechLang(this.locale);
       
-      // Set voice if specified
-      if (this.options.voice) {
-        const voices = this.synthesis.getVoices();
-        const selectedVoice = voices.find(voice => voice.name === this.options.voice);
-        if (selectedVoice) {
-          utterance.voice = selectedVoice;
-        }
+      const selectedVoice = this.selectVoice();
+      if (selectedVoice) {
+        utterance.voice = selectedVoice;
       }
       
-      // Store current utterance for potential cancellation
-      this.currentUtterance = utterance;
+      utterance.onend = () => onEnd();
+      utterance.onerror = (event) => {
+        // Cancelling the queue interrupts the utterance; that's not a failure
+        if (event.error !== 'interrupted' && event.error !== 'canceled') {
+          console.error("Speech synthesis error:", event.error);
+        }
+        onEnd();
+      };
       
       // Speak the text
       console.log("Speaking:", text);
       this.synthesis.speak(utterance);
     } catch (error) {
       console.error("Error speaking text:", error);
+      onEnd();
     }
   }
 
+  /**
+   * The voice named in the options if it speaks the current language,
+   * otherwise the best voice for that language
+   */
+  private selectVoice(): SpeechSynthesisVoice | null {
+    if (!this.synthesis) return null;
+    
+    const voices = this.synthesis.getVoices();
+    const lang = getSpeechLang(this.locale).toLowerCase();
+    const language = lang.split('-')[0];
+    const speaks = (voice: SpeechSynthesisVoice) => voice.lang.toLowerCase().replace('_', '-').split('-')[0] === language;
+    
+    const named = voices.find(voice => voice.name === this.options.voice);
+    if (named && speaks(named)) return named;
+    
+    return voices.find(voice => voice.lang.toLowerCase().replace('_', '-') === lang) ||
+      voices.find(speaks) ||
+      null;
+  }
+
   public startListening(): boolean {
     if (!this.recognition) {
       console.warn("Speech recognition not available");
@@ -208,56 +301,95 @@ export class VoiceAssistant {
     }
   }
 
-  public registerCommand(command: string, callback: (args?: string) => void): void {
+  /**
+   * Register an app-wide callback for an intent (e.g. 'navigate', see
+   * voice-intents) or a literal phrase, which also matches when followed by
+   * more words. '*' receives any transcript nothing else understood.
+   */
+  public registerCommand(command: string, callback: VoiceCommandCallback): void {
     console.log(`Registering command: "${command}"`);
-    this.commandCallbacks.set(command.toLowerCase(), callback);
+    this.commandScopes[0].commands.set(command.toLowerCase(), callback);
   }
 
   public unregisterCommand(command: string): void {
     console.log(`Unregistering command: "${command}"`);
-    this.commandCallbacks.delete(command.toLowerCase());
+    this.commandScopes[0].commands.delete(command.toLowerCase());
+  }
+
+  /**
+   * Add commands on top of the active ones until the returned function is
+   * called. A command in a newer scope wins over an older one of the same name.
+   */
+  public pushScope(name: string, commands: Record<string, VoiceCommandCallback>): () => void {
+    console.log(`Pushing voice command scope: "${name}"`);
+    const scope: CommandScope = {
+      name,
+      commands: new Map(Object.entries(commands).map(([command, callback]) => [command.toLowerCase(), callback]))
+    };
+    this.commandScopes.push(scope);
+
+    return () => {
+      console.log(`Popping voice command scope: "${name}"`);
+      // Usually the top scope, but parents and children can unmount in either order
+      this.commandScopes = this.commandScopes.filter(entry => entry !== scope);
+    };
+  }
+
+  /**
+   * Commands that can be used right now, by name
+   */
+  public getActiveCommands(): Map<string, VoiceCommandCallback> {
+    const active = new Map<string, VoiceCommandCallback>();
+    this.commandScopes.forEach(scope => {
+      scope.commands.forEach((callback, command) => active.set(command, callback));
+    });
+    return active;
+  }
+
+  /**
+   * How to say each active command in the current locale, newest scope first
+   */
+  public describeActiveCommands(): string[] {
+    const described: string[] = [];
+    [...this.commandScopes].reverse().forEach(scope => {
+      scope.commands.forEach((_, command) => {
+        if (command === '*') return;
+        const key = `help.${command}`;
+        const description = hasMessage(key) ? this.getPrompt(key) : command;
+        if (!described.includes(description)) described.push(description);
+      });
+    });
+    return described;
   }
 
   private processCommand(transcript: string): void {
     console.log('Processing voice command:', transcript);
     
-    // Check for exact command matches
-    for (const [command, callback] of this.commandCallbacks.entries()) {
-      if (transcript === command) {
-        console.log(`Executing exact command: "${command}"`);
-        callback();
-        return;
-      }
+    // Registered intents use their grammar; any other command is a literal phrase
+    const commands = this.getActiveCommands();
+    const definitions: IntentDefinition[] = [];
+    for (const command of commands.keys()) {
+      if (command === '*') continue;
+      definitions.push(getIntent(command, this.locale) || { name: command, phrases: [command, `${command} {query}`] });
     }
     
-    // Check for commands with arguments
-    for (const [command, callback] of this.commandCallbacks.entries()) {
-      if (command !== '*' && transcript.startsWith(command + ' ')) {
-        const args = transcript.substring(command.length).trim();
-        console.log(`Executing command with args: "${command}" with args "${args}"`);
-        callback(args);
-        return;
-      }
+    const match = parseIntent(transcript, definitions);
+    if (match) {
+      console.log(`Executing command: "${match.intent}" (confidence ${match.confidence})`, match.slots);
+      commands.get(match.intent)!(match);
+      return;
     }
     
-    // Check for commands contained within the transcript
-    for (const [command, callback] of this.commandCallbacks.entries()) {
-      if (command === '*') {
-        console.log(`Executing wildcard command with transcript: "${transcript}"`);
-        callback(transcript);
-        return;
-      }
-      
-      if (transcript.includes(command)) {
-        console.log(`Executing partial match command: "${command}"`);
-        callback();
-        return;
-      }
+    const wildcard = commands.get('*');
+    if (wildcard) {
+      console.log(`Executing wildcard command with transcript: "${transcript}"`);
+      wildcard({ intent: '*', slots: extractSlots(transcript), confidence: 0, transcript, text: transcript });
+      return;
     }
     
     // No command matched
     console.log("No command matched for transcript:", transcript);
-    this.speak("I didn't understand that command. Please try again.");
+    this.speakPrompt('command.not-understood');
   }
 
   public getAvailableVoices(): SpeechSynthesisVoice[] {
@@ -265,7 +397,7 @@ export class VoiceAssistant {
   }
 
   public isSpeaking(): boolean {
-    return this.synthesis ? this.synthesis.speaking : false;
+    return this.speechQueue.isSpeaking();
   }
 
   public pauseSpeech(): void {
@@ -276,8 +408,11 @@ export class VoiceAssistant {
     if (this.synthesis) this.synthesis.resume();
   }
 
+  /**
+   * Stop speaking and drop everything waiting to be said
+   */
   public cancelSpeech(): void {
-    if (this.synthesis) this.synthesis.cancel();
+    this.speechQueue.clear();
   }
 }
 
@@ -285,68 +420,61 @@ export class VoiceAssistant {
 export function setupNavigationVoiceCommands(voiceAssistant: VoiceAssistant, navigate: (path: string) => void): void {
   console.log("Setting up navigation voice commands");
   
-  voiceAssistant.registerCommand('go to map', () => {
-    console.log("Voice command: go to map");
-    navigate('/');
-  });
-  
-  voiceAssistant.registerCommand('show map', () => {
-    console.log("Voice command: show map");
-    navigate('/');
-  });
-  
-  voiceAssistant.registerCommand('go to profile', () => {
-    console.log("Voice command: go to profile");
-    navigate('/profile');
-  });
+  const pagePaths: Record<string, string> = {
+    'map': '/',
+    'profile': '/profile',
+    'settings': '/settings',
+    'add-place': '/add-place',
+    'search': '/search'
+  };
   
-  voiceAssistant.registerCommand('show profile', () => {
-    console.log("Voice command: show profile");
-    navigate('/profile');
+  voiceAssistant.registerCommand('open-page', ({ slots }) => {
+    console.log(`Voice command: open page "${slots.page}"`);
+    navigate(pagePaths[slots.page!] || '/');
   });
   
-  voiceAssistant.registerCommand('add place', () => {
+  voiceAssistant.registerCommand('add-place', () => {
     console.log("Voice command: add place");
     navigate('/add-place');
   });
   
-  voiceAssistant.registerCommand('search', (query) => {
-    console.log(`Voice command: search for "${query}"`);
-    if (query) {
-      navigate(`/search?q=${encodeURIComponent(query)}`);
+  voiceAssistant.registerCommand('search', ({ slots }) => {
+    console.log("Voice command: search", slots);
+    if (slots.query || slots.feature || slots.placeType) {
+      navigate(getSearchPath(slots.query, slots));
     } else {
-      voiceAssistant.speak('What would you like to search for?');
+      voiceAssistant.speakPrompt('command.ask-search');
     }
   });
   
-  voiceAssistant.registerCommand('find', (query) => {
-    console.log(`Voice command: find "${query}"`);
-    if (query) {
-      navigate(`/search?q=${encodeURIComponent(query)}`);
+  voiceAssistant.registerCommand('navigate', ({ slots }) => {
+    console.log(`Voice command: navigate to "${slots.place}"`);
+    if (slots.place) {
+      navigate(getSearchPath(slots.place, slots));
+      voiceAssistant.speakPrompt('search.searching', { query: slots.place });
     } else {
-      voiceAssistant.speak('What would you like to find?');
+      voiceAssistant.speakPrompt('command.ask-destination');
     }
   });
   
-  voiceAssistant.registerCommand('navigate to', (destination) => {
-    console.log(`Voice command: navigate to "${destination}"`);
-    if (destination) {
-      navigate(`/search?q=${encodeURIComponent(destination)}`);
-      voiceAssistant.speak(`Searching for ${destination}`);
-    } else {
-      voiceAssistant.speak('Where would you like to navigate to?');
-    }
-  });
-  
-  voiceAssistant.registerCommand('go back', () => {
+  voiceAssistant.registerCommand('go-back', () => {
     console.log("Voice command: go back");
     window.history.back();
   });
   
+  // Lists only what can be said on the current page
   voiceAssistant.registerCommand('help', () => {
     console.log("Voice command: help");
-    voiceAssistant.speak(
-      'Available commands: go to map, go to profile, add place, search, find, navigate to, go back, help'
-    );
+    voiceAssistant.speakPrompt('command.help', { commands: voiceAssistant.describeActiveCommands().join(', ') });
   });
-}
\ No newline at end of file
+}
+
+// Search page URL carrying the filters found in a command
+function getSearchPath(query: string | undefined, slots: VoiceCommandArgs['slots']): string {
+  const params = new URLSearchParams();
+  params.set('q', query || slots.placeType || '');
+  if (slots.feature) params.set('feature', slots.feature);
+  if (slots.placeType) params.set('type', slots.placeType);
+  if (slots.distance) params.set('radius', String(slots.distance));
+  return `/search?${params.toString()}`;
+}
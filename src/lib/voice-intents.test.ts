@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+  extractSlots,
+  getIntent,
+  NEARBY_DISTANCE,
+  normalizeTranscript,
+  parseIntent,
+  registerIntent,
+  toAppPage
+} from './voice-intents';
+
+describe('normalizeTranscript', () => {
+  it('drops punctuation, case and filler words', () => {
+    expect(normalizeTranscript('Hey, could you please open the Map? Thanks!')).toBe('open the map');
+  });
+
+  it('keeps Tamil and Devanagari vowel signs', () => {
+    expect(normalizeTranscript('ஸ்டேஷனுக்கு போ!')).toBe('ஸ்டேஷனுக்கு போ');
+    expect(normalizeTranscript('कृपया स्टेशन ले चलो')).toBe('स्टेशन ले चलो');
+  });
+});
+
+describe('extractSlots', () => {
+  it('finds a feature, a place type and a nearby distance', () => {
+    expect(extractSlots('an accessible toilet nearby')).toEqual({
+      distance: NEARBY_DISTANCE,
+      feature: 'accessible-washroom',
+      query: 'accessible toilet'
+    });
+  });
+
+  it('converts spoken distances to meters', () => {
+    expect(extractSlots('a cafe within 2 km')).toEqual({ distance: 2000, placeType: 'restaurant', query: 'cafe' });
+    expect(extractSlots('ramp 500 meters away')).toEqual({ distance: 500, feature: 'ramp', query: 'ramp' });
+  });
+
+  it('prefers the longest matching phrase', () => {
+    expect(extractSlots('bus station').placeType).toBe('transport');
+    expect(extractSlots('limited wheelchair access').feature).toBe('limited-wheelchair-access');
+  });
+
+  it('returns only the slots it found', () => {
+    expect(extractSlots('the eiffel tower')).toEqual({ query: 'eiffel tower' });
+    expect(extractSlots('')).toEqual({});
+  });
+});
+
+describe('toAppPage', () => {
+  it('maps spoken page names to app pages', () => {
+    expect(toAppPage('the home page')).toBe('map');
+    expect(toAppPage('my account')).toBe('profile');
+    expect(toAppPage('नक्शा पर')).toBe('map');
+    expect(toAppPage('the moon')).toBeNull();
+  });
+});
+
+describe('parseIntent', () => {
+  it('matches navigation with a place slot', () => {
+    expect(parseIntent('Please take me to the train station')).toEqual({
+      intent: 'navigate',
+      slots: { place: 'train station', placeType: 'transport' },
+      confidence: 0.9,
+      transcript: 'Please take me to the train station',
+      text: 'the train station'
+    });
+  });
+
+  it('prefers a page over a place when the slot names one', () => {
+    const result = parseIntent('take me to settings');
+
+    expect(result?.intent).toBe('open-page');
+    expect(result?.slots).toEqual({ page: 'settings' });
+    expect(result?.confidence).toBe(1);
+  });
+
+  it('matches search with structured slots', () => {
+    const result = parseIntent('find an accessible toilet nearby');
+
+    expect(result?.intent).toBe('search');
+    expect(result?.slots).toEqual({ distance: NEARBY_DISTANCE, feature: 'accessible-washroom', query: 'accessible toilet' });
+  });
+
+  it('is less confident about extra words', () => {
+    expect(parseIntent('next step')?.confidence).toBe(1);
+    expect(parseIntent('um next step')?.confidence).toBe(0.8);
+  });
+
+  it('is less confident when a slot is empty', () => {
+    const result = parseIntent('navigate to');
+
+    expect(result?.intent).toBe('navigate');
+    expect(result?.confidence).toBe(0.6);
+    expect(result?.text).toBe('');
+  });
+
+  it('returns null when nothing matches well enough', () => {
+    expect(parseIntent('tell me a joke')).toBeNull();
+    expect(parseIntent('so um well next step now then')).toBeNull();
+  });
+
+  it('takes a leading slot in Tamil and Hindi phrases', () => {
+    const tamil = parseIntent('ஸ்டேஷனுக்கு அழைத்துச் செல்', [getIntent('navigate', 'ta')!]);
+    const hindi = parseIntent('स्टेशन तक ले चलो', [getIntent('navigate', 'hi')!]);
+
+    expect(tamil?.slots).toEqual({ place: 'ஸ்டேஷன்', placeType: 'transport' });
+    expect(hindi?.slots).toEqual({ place: 'स्टेशन', placeType: 'transport' });
+  });
+});
+
+describe('registerIntent', () => {
+  it('adds phrases for one locale on top of the English ones', () => {
+    registerIntent({ name: 'share-location', phrases: ['share my location'] });
+    registerIntent({ name: 'share-location', phrases: ['இருப்பிடத்தைப் பகிர்'] }, 'ta');
+
+    expect(getIntent('share-location')?.phrases).toEqual(['share my location']);
+    expect(getIntent('share-location', 'ta')?.phrases).toEqual(['இருப்பிடத்தைப் பகிர்', 'share my location']);
+    expect(parseIntent('share my location')?.intent).toBe('share-location');
+  });
+});
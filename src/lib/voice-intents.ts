@@ -0,0 +1,436 @@
+/**
+ * Intent grammar for voice commands
+ *
+ * A transcript is matched against each intent's phrases. Phrases are literal
+ * words followed by at most one slot, e.g. "take me to {place}". Free-text
+ * slots are then mined for an accessibility feature, a place type and a
+ * distance, so "find an accessible toilet nearby" arrives as structured
+ * arguments rather than a leftover string.
+ *
+ * Tamil and Hindi put the verb last, so a slot may also come first:
+ * "{place} க்கு அழைத்துச் செல்". English phrases are always understood too,
+ * since people switch languages mid-sentence.
+ */
+import { ACCESSIBILITY_FEATURES, type AccessibilityFeatureId } from './accessibility-features';
+import type { Locale } from './locales';
+
+export type SlotName = 'place' | 'query' | 'page';
+
+export interface VoiceSlots {
+  place?: string; // destination, for navigation
+  query?: string; // search terms, for everything else
+  feature?: AccessibilityFeatureId;
+  placeType?: string;
+  distance?: number; // meters
+  page?: string; // one of APP_PAGES
+}
+
+/**
+ * What a command callback receives
+ */
+export interface VoiceCommandArgs {
+  intent: string;
+  slots: VoiceSlots;
+  confidence: number; // 0-1
+  transcript: string;
+  text: string; // words after the matched phrase
+}
+
+export interface IntentDefinition {
+  name: string;
+  phrases: string[];
+}
+
+// Below this a match is treated as not understood
+export const MIN_INTENT_CONFIDENCE = 0.5;
+
+// What "nearby" or "nearest" means (meters)
+export const NEARBY_DISTANCE = 1000;
+
+// Pages "open {page}" can reach, with the words people use for them
+export const APP_PAGES: Record<string, string[]> = {
+  'map': ['map', 'home', 'home page', 'main page', 'main screen', 'வரைபடம்', 'முகப்பு', 'नक्शा', 'मैप', 'होम'],
+  'profile': ['profile', 'my profile', 'account', 'my account', 'சுயவிவரம்', 'प्रोफ़ाइल', 'प्रोफाइल'],
+  'settings': ['settings', 'preferences', 'options', 'அமைப்புகள்', 'सेटिंग्स', 'सेटिंग'],
+  'add-place': ['add place', 'add a place'],
+  'search': ['search', 'search page', 'தேடல்', 'खोज']
+};
+
+const INTENTS: IntentDefinition[] = [
+  {
+    name: 'open-page',
+    phrases: ['go to {page}', 'open {page}', 'show {page}', 'show me {page}', 'take me to {page}', 'back to {page}']
+  },
+  {
+    name: 'navigate',
+    phrases: [
+      'navigate to {place}', 'take me to {place}', 'directions to {place}', 'give me directions to {place}',
+      'how do i get to {place}', 'get me to {place}', 'go to {place}', 'walk to {place}', 'route to {place}',
+      'guide me to {place}', 'lead me to {place}', 'bring me to {place}'
+    ]
+  },
+  {
+    name: 'search',
+    phrases: [
+      'search for {query}', 'search {query}', 'find me {query}', 'find {query}', 'look for {query}',
+      'show me {query}', 'where is {query}', 'where can i find {query}', 'is there {query}', 'are there {query}',
+      'i need {query}'
+    ]
+  },
+  { name: 'add-place', phrases: ['add place', 'add a place', 'add new place', 'add a new place', 'new place'] },
+  { name: 'go-back', phrases: ['go back', 'back', 'previous page'] },
+  { name: 'help', phrases: ['help', 'what can i say', 'what can you do', 'commands'] },
+
+  // Only active while navigating
+  { name: 'next-step', phrases: ['next step', 'next', 'what next', 'what is next', 'next instruction'] },
+  { name: 'repeat', phrases: ['repeat', 'repeat that', 'say that again', 'say again', 'again'] },
+  { name: 'pause-navigation', phrases: ['pause navigation', 'pause', 'stop navigation'] },
+  { name: 'resume-navigation', phrases: ['resume navigation', 'resume', 'continue navigation', 'continue'] },
+  {
+    name: 'how-far',
+    phrases: ['how far', 'how far is it', 'how far to go', 'how much further', 'how long', 'distance remaining']
+  },
+
+  // Only active on a place's page
+  { name: 'call', phrases: ['call', 'call them', 'call this place', 'phone them', 'phone'] },
+  {
+    name: 'directions',
+    phrases: ['directions', 'get directions', 'show directions', 'take me there', 'navigate there', 'how do i get there']
+  },
+  { name: 'read-reviews', phrases: ['read reviews', 'read the reviews', 'reviews', 'what do people say'] }
+];
+
+// Phrases in other languages, added to the English ones for that locale
+const LOCALE_PHRASES: Partial<Record<Locale, Record<string, string[]>>> = {
+  ta: {
+    'open-page': ['{page} திற', '{page} காட்டு', '{page} க்கு போ'],
+    'navigate': [
+      '{place} அழைத்துச் செல்', '{place} கூட்டிட்டு போ', '{place} வழி காட்டு', '{place} போக வேண்டும்',
+      '{place} போ', '{place} செல்'
+    ],
+    'search': ['{query} தேடு', '{query} கண்டுபிடி', '{query} எங்கே இருக்கிறது', '{query} எங்கே'],
+    'add-place': ['இடம் சேர்', 'புதிய இடம் சேர்'],
+    'go-back': ['பின்னால் செல்', 'பின்னால் போ', 'திரும்பிச் செல்'],
+    'help': ['உதவி'],
+    'next-step': ['அடுத்த படி', 'அடுத்தது', 'அடுத்து என்ன'],
+    'repeat': ['மீண்டும் சொல்', 'திரும்பச் சொல்'],
+    'pause-navigation': ['வழிகாட்டலை நிறுத்து', 'நிறுத்து'],
+    'resume-navigation': ['வழிகாட்டலைத் தொடர்', 'தொடர்'],
+    'how-far': ['எவ்வளவு தூரம்', 'இன்னும் எவ்வளவு தூரம்'],
+    'call': ['அழை', 'போன் செய்', 'அழைப்பு செய்'],
+    'directions': ['வழி காட்டு', 'அங்கே அழைத்துச் செல்'],
+    'read-reviews': ['மதிப்புரைகளைப் படி', 'மதிப்புரைகள்']
+  },
+  hi: {
+    'open-page': ['{page} खोलो', '{page} दिखाओ', '{page} पर जाओ'],
+    'navigate': ['{place} ले चलो', '{place} का रास्ता बताओ', '{place} जाना है', '{place} चलो', '{place} जाओ'],
+    'search': ['{query} ढूंढो', '{query} खोजो', '{query} कहाँ है', '{query} दिखाओ'],
+    'add-place': ['जगह जोड़ो', 'नई जगह जोड़ो'],
+    'go-back': ['वापस जाओ', 'पीछे जाओ'],
+    'help': ['मदद', 'सहायता'],
+    'next-step': ['अगला कदम', 'आगे क्या', 'अगला'],
+    'repeat': ['फिर से बोलो', 'दोहराओ'],
+    'pause-navigation': ['नेविगेशन रोको', 'रुको'],
+    'resume-navigation': ['नेविगेशन जारी रखो', 'जारी रखो'],
+    'how-far': ['कितनी दूर', 'कितना दूर है', 'और कितना दूर'],
+    'call': ['कॉल करो', 'फ़ोन करो'],
+    'directions': ['रास्ता दिखाओ', 'वहाँ ले चलो'],
+    'read-reviews': ['समीक्षाएँ पढ़ो', 'रिव्यू पढ़ो']
+  }
+};
+
+// Everyday words for taxonomy features, on top of the feature labels themselves
+const FEATURE_SYNONYMS: Record<string, AccessibilityFeatureId> = {
+  'accessible toilet': 'accessible-washroom',
+  'accessible toilets': 'accessible-washroom',
+  'accessible bathroom': 'accessible-washroom',
+  'accessible restroom': 'accessible-washroom',
+  'disabled toilet': 'accessible-washroom',
+  'wheelchair toilet': 'accessible-washroom',
+  'wheelchair accessible': 'wheelchair-access',
+  'wheelchair friendly': 'wheelchair-access',
+  'step free': 'wheelchair-access',
+  'lift': 'elevator',
+  'elevator': 'elevator',
+  'ramp': 'ramp',
+  'disabled parking': 'accessible-parking',
+  'accessible parking': 'accessible-parking',
+  'induction loop': 'hearing-loop',
+  'hearing loop': 'hearing-loop',
+  'braille': 'braille',
+  'tactile paving': 'tactile-paving',
+  'sign language': 'sign-language',
+  'quiet': 'quiet',
+  'சக்கர நாற்காலி': 'wheelchair-access',
+  'மின்தூக்கி': 'elevator',
+  'லிஃப்ட்': 'elevator',
+  'சாய்தளம்': 'ramp',
+  'அணுகக்கூடிய கழிப்பறை': 'accessible-washroom',
+  'व्हीलचेयर': 'wheelchair-access',
+  'लिफ़्ट': 'elevator',
+  'लिफ्ट': 'elevator',
+  'रैंप': 'ramp',
+  'सुलभ शौचालय': 'accessible-washroom'
+};
+
+// Place types used by the search filters, with the words people use for them
+const PLACE_TYPE_SYNONYMS: Record<string, string[]> = {
+  restaurant: ['restaurant', 'restaurants', 'cafe', 'coffee shop', 'food', 'somewhere to eat', 'உணவகம்', 'ஹோட்டல்', 'रेस्टोरेंट', 'ढाबा'],
+  hospital: ['hospital', 'clinic', 'doctor', 'pharmacy', 'chemist', 'மருத்துவமனை', 'மருந்தகம்', 'अस्पताल', 'दवाखाना'],
+  education: ['school', 'university', 'college', 'library', 'பள்ளி', 'கல்லூரி', 'स्कूल', 'कॉलेज'],
+  transport: [
+    'station', 'train station', 'railway station', 'bus station', 'bus stop', 'metro', 'platform',
+    'ரயில் நிலையம்', 'பேருந்து நிலையம்', 'ஸ்டேஷன்', 'स्टेशन', 'रेलवे स्टेशन', 'बस अड्डा'
+  ],
+  shopping: ['shop', 'store', 'mall', 'supermarket', 'market', 'கடை', 'சந்தை', 'दुकान', 'बाज़ार']
+};
+
+const DISTANCE_UNITS: Record<string, number> = {
+  m: 1, meter: 1, meters: 1, metre: 1, metres: 1,
+  km: 1000, kilometer: 1000, kilometers: 1000, kilometre: 1000, kilometres: 1000,
+  mile: 1609, miles: 1609
+};
+
+const NEARBY_WORDS = [
+  'nearby', 'near me', 'near here', 'around here', 'close by', 'closest', 'nearest',
+  'அருகில்', 'பக்கத்தில்', 'पास में', 'नज़दीक', 'आसपास'
+];
+
+// Politeness and fillers that carry no meaning at the start or end of a command
+const LEADING_FILLERS = [
+  'please', 'can you', 'could you', 'would you', 'hey', 'ok', 'okay',
+  'i want to', 'i would like to', "i'd like to", "let's", 'தயவுசெய்து', 'कृपया', 'ज़रा'
+];
+const TRAILING_FILLERS = ['please', 'thanks', 'thank you', 'தயவுசெய்து', 'कृपया'];
+
+const ARTICLES = ['a', 'an', 'the', 'some', 'any', 'my'];
+
+// Case endings left on a slot that comes before the verb ("स्टेशन तक")
+const POSTPOSITIONS = ['க்கு', 'तक', 'को', 'का', 'की', 'पर', 'में'];
+// Glued endings and what replaces them: "ஸ்டேஷனுக்கு" -> "ஸ்டேஷன்"
+const GLUED_SUFFIXES: Array<[string, string]> = [['ுக்கு', '்'], ['க்கு', '']];
+
+/**
+ * Add an intent, or more phrases for an existing one, optionally only for one locale
+ */
+export function registerIntent(definition: IntentDefinition, locale: Locale = 'en'): void {
+  let existing = INTENTS.find(intent => intent.name === definition.name);
+  if (!existing) {
+    existing = { name: definition.name, phrases: [] };
+    INTENTS.push(existing);
+  }
+
+  if (locale === 'en') {
+    existing.phrases.push(...definition.phrases);
+  } else {
+    const phrases = LOCALE_PHRASES[locale] || (LOCALE_PHRASES[locale] = {});
+    phrases[definition.name] = [...(phrases[definition.name] || []), ...definition.phrases];
+  }
+}
+
+/**
+ * An intent with its English phrases plus those of the locale
+ */
+export function getIntent(name: string, locale: Locale = 'en'): IntentDefinition | undefined {
+  const intent = INTENTS.find(entry => entry.name === name);
+  if (!intent) return undefined;
+
+  const localePhrases = locale === 'en' ? [] : LOCALE_PHRASES[locale]?.[name] || [];
+  return { name, phrases: [...localePhrases, ...intent.phrases] };
+}
+
+/**
+ * Lowercase, drop punctuation and filler words
+ */
+export function normalizeTranscript(transcript: string): string {
+  // Keep combining marks: Tamil and Devanagari vowel signs are marks, not letters
+  let text = ` ${transcript.toLowerCase().replace(/[^\p{L}\p{M}\p{N}'\s]/gu, ' ').replace(/\s+/g, ' ').trim()} `;
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const filler of LEADING_FILLERS) {
+      if (text.startsWith(` ${filler} `)) {
+        text = text.slice(filler.length + 1);
+        changed = true;
+      }
+    }
+    for (const filler of TRAILING_FILLERS) {
+      if (text.endsWith(` ${filler} `)) {
+        text = text.slice(0, -(filler.length + 1));
+        changed = true;
+      }
+    }
+  }
+
+  return text.trim();
+}
+
+/**
+ * Find the best matching intent, or null when nothing matches well enough
+ */
+export function parseIntent(
+  transcript: string,
+  definitions: IntentDefinition[] = INTENTS
+): VoiceCommandArgs | null {
+  const words = normalizeTranscript(transcript).split(' ').filter(Boolean);
+  let best: VoiceCommandArgs | null = null;
+  let bestLiteralLength = 0;
+
+  for (const definition of definitions) {
+    for (const phrase of definition.phrases) {
+      const match = matchPhrase(words, phrase);
+      if (!match || match.confidence < MIN_INTENT_CONFIDENCE) continue;
+
+      // More confident wins; on a tie the more specific phrase, then the later definition
+      if (!best || match.confidence > best.confidence ||
+          (match.confidence === best.confidence && match.literalLength >= bestLiteralLength)) {
+        best = { intent: definition.name, slots: match.slots, confidence: match.confidence, transcript, text: match.text };
+        bestLiteralLength = match.literalLength;
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Pull a feature, place type and distance out of free text. The text itself,
+ * minus distance words and leading articles, is returned as the query.
+ */
+export function extractSlots(text: string): VoiceSlots {
+  const slots: VoiceSlots = {};
+  let remaining = ` ${normalizeTranscript(text)} `;
+
+  const distanceMatch = remaining.match(/ (?:within |in |under )?(\d+(?:\.\d+)?) ?([a-z]+)(?: away| radius)? /);
+  if (distanceMatch && DISTANCE_UNITS[distanceMatch[2]]) {
+    slots.distance = Math.round(parseFloat(distanceMatch[1]) * DISTANCE_UNITS[distanceMatch[2]]);
+    remaining = remaining.replace(distanceMatch[0], ' ');
+  }
+
+  for (const word of NEARBY_WORDS) {
+    if (remaining.includes(` ${word} `)) {
+      slots.distance = slots.distance ?? NEARBY_DISTANCE;
+      remaining = remaining.replace(` ${word} `, ' ');
+    }
+  }
+
+  slots.feature = findLongest(remaining, getFeaturePhrases());
+  slots.placeType = findLongest(remaining, Object.entries(PLACE_TYPE_SYNONYMS)
+    .flatMap(([type, words]) => words.map(word => [word, type] as [string, string])));
+
+  const query = stripArticles(remaining.trim());
+  if (query) slots.query = query;
+
+  // Leave out slots that weren't found so callers can spread them
+  (Object.keys(slots) as Array<keyof VoiceSlots>).forEach(key => {
+    if (slots[key] === undefined) delete slots[key];
+  });
+
+  return slots;
+}
+
+/**
+ * Canonical page name for spoken words, e.g. "home page" -> "map"
+ */
+export function toAppPage(text: string): string | null {
+  const words = stripPostpositions(stripArticles(text));
+  return Object.keys(APP_PAGES).find(page => APP_PAGES[page].includes(words)) || null;
+}
+
+function matchPhrase(
+  words: string[],
+  phrase: string
+): Omit<VoiceCommandArgs, 'intent' | 'transcript'> & { literalLength: number } | null {
+  const tokens = phrase.split(' ');
+  const slotPattern = /^\{(\w+)\}$/;
+  const leadingSlot = tokens[0].match(slotPattern);
+  const trailingSlot = tokens.length > 1 ? tokens[tokens.length - 1].match(slotPattern) : null;
+  const slot = (leadingSlot || trailingSlot)?.[1] as SlotName | undefined;
+  const literal = tokens.filter(token => !slotPattern.test(token));
+
+  // A leading slot takes the words before the phrase, a trailing one the words after
+  const start = leadingSlot ? findLastSequence(words, literal) : findSequence(words, literal);
+  if (start === -1) return null;
+
+  const before = words.slice(0, start);
+  const after = words.slice(start + literal.length);
+  const slotWords = leadingSlot ? before : after;
+  const extraWords = leadingSlot ? after : before;
+  const text = slot ? stripPostpositions(slotWords.join(' ')) : after.join(' ');
+
+  // Words outside the phrase and its slot make the match less certain
+  let confidence = Math.pow(0.8, extraWords.length);
+  let slots: VoiceSlots = {};
+
+  if (!slot) {
+    confidence *= Math.pow(0.8, after.length);
+  } else if (!text) {
+    // The intent is clear but the callback will have to ask for the rest
+    confidence *= 0.6;
+  } else if (slot === 'page') {
+    const page = toAppPage(text);
+    if (!page) return null;
+    slots = { page };
+  } else {
+    confidence *= 0.9;
+    slots = extractSlots(text);
+    if (slot === 'place' && slots.query) {
+      slots.place = slots.query;
+      delete slots.query;
+    }
+  }
+
+  return {
+    slots,
+    confidence: Math.round(confidence * 100) / 100,
+    text,
+    literalLength: literal.length
+  };
+}
+
+function findSequence(words: string[], sequence: string[]): number {
+  for (let i = 0; i + sequence.length <= words.length; i++) {
+    if (sequence.every((word, j) => words[i + j] === word)) return i;
+  }
+  return -1;
+}
+
+function findLastSequence(words: string[], sequence: string[]): number {
+  for (let i = words.length - sequence.length; i >= 0; i--) {
+    if (sequence.every((word, j) => words[i + j] === word)) return i;
+  }
+  return -1;
+}
+
+function getFeaturePhrases(): Array<[string, AccessibilityFeatureId]> {
+  return [
+    ...ACCESSIBILITY_FEATURES.map(feature => [feature.label.toLowerCase(), feature.id] as [string, AccessibilityFeatureId]),
+    ...Object.entries(FEATURE_SYNONYMS) as Array<[string, AccessibilityFeatureId]>
+  ];
+}
+
+// The value for the longest phrase found as whole words in the text
+function findLongest<T>(text: string, phrases: Array<[string, T]>): T | undefined {
+  const found = phrases
+    .filter(([phrase]) => text.includes(` ${phrase} `))
+    .sort(([a], [b]) => b.length - a.length);
+  return found.length > 0 ? found[0][1] : undefined;
+}
+
+function stripArticles(text: string): string {
+  const words = text.split(' ').filter(Boolean);
+  while (words.length > 0 && ARTICLES.includes(words[0])) words.shift();
+  return words.join(' ');
+}
+
+function stripPostpositions(text: string): string {
+  const words = text.split(' ').filter(Boolean);
+  while (words.length > 1 && POSTPOSITIONS.includes(words[words.length - 1])) words.pop();
+
+  const last = words.length - 1;
+  const suffix = GLUED_SUFFIXES.find(([ending]) => last >= 0 && words[last].endsWith(ending) && words[last] !== ending);
+  if (suffix) words[last] = words[last].slice(0, -suffix[0].length) + suffix[1];
+
+  return words.join(' ');
+}
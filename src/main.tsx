@@ -5,6 +5,7 @@ import { createRoot } from "react-dom/client";
 import { BrowserRouter, Route, Routes } from "react-router-dom";
 import { TooltipProvider } from "./components/ui/tooltip";
 import { ThemeProvider } from "./components/layout/theme-provider";
+import { LocaleProvider } from "./components/layout/locale-provider";
 import "./index.css";
 
 // Pages
@@ -17,6 +18,7 @@ import Navigation from "./pages/navigation";
 import Profile from "./pages/profile";
 import AddPlace from "./pages/add-place";
 import AddReview from "./pages/add-review";
+import ReportProblem from "./pages/report-problem";
 import Search from "./pages/search";
 import More from "./pages/more";
 
@@ -26,23 +28,26 @@ createRoot(document.getElementById("root")!).render(
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
       <ThemeProvider>
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/login" element={<LoginForm />} />
-            <Route path="/signup" element={<SignupForm />} />
-            <Route path="/logout" element={<Logout />} />
-            <Route path="/place-details/:id" element={<PlaceDetails />} />
-            <Route path="/navigation" element={<Navigation />} />
-            <Route path="/profile" element={<Profile />} />
-            <Route path="/add-place" element={<AddPlace />} />
-            <Route path="/add-review/:id" element={<AddReview />} />
-            <Route path="/search" element={<Search />} />
-            <Route path="/more" element={<More />} />
-          </Routes>
-        </BrowserRouter>
-        <Sonner />
-        <Toaster />
+        <LocaleProvider>
+          <BrowserRouter>
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="/login" element={<LoginForm />} />
+              <Route path="/signup" element={<SignupForm />} />
+              <Route path="/logout" element={<Logout />} />
+              <Route path="/place-details/:id" element={<PlaceDetails />} />
+              <Route path="/navigation" element={<Navigation />} />
+              <Route path="/profile" element={<Profile />} />
+              <Route path="/add-place" element={<AddPlace />} />
+              <Route path="/add-review/:id" element={<AddReview />} />
+              <Route path="/report-problem/:id" element={<ReportProblem />} />
+              <Route path="/search" element={<Search />} />
+              <Route path="/more" element={<More />} />
+            </Routes>
+          </BrowserRouter>
+          <Sonner />
+          <Toaster />
+        </LocaleProvider>
       </ThemeProvider>
     </TooltipProvider>
   </QueryClientProvider>
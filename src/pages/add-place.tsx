@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { fine } from "@/lib/fine";
 import { Header } from "@/components/layout/Header";
@@ -15,6 +15,25 @@ import { Camera, MapPin, Loader2, Mic } from "lucide-react";
 import { toast } from "sonner";
 import { Schema } from "@/lib/db-types";
 import { VoiceAssistant } from "@/lib/voice-assistant";
+import { reverseGeocode } from "@/lib/osm-address";
+import { addPlaceFeatures } from "@/lib/place-features";
+import {
+  FEATURE_CATEGORIES,
+  getFeaturesByCategory,
+  type AccessibilityFeatureId
+} from "@/lib/accessibility-features";
+import type { MessageKey } from "@/lib/i18n";
+import { useTranslation } from "@/hooks/use-translation";
+
+type VoiceField = "name" | "address" | "phone" | "website";
+
+// How voice prompts name each field that can be filled in by voice
+const VOICE_FIELDS: Record<VoiceField, MessageKey> = {
+  name: "add-place.field.name",
+  address: "add-place.field.address",
+  phone: "add-place.field.phone",
+  website: "add-place.field.website",
+};
 
 const AddPlace = () => {
   const [formData, setFormData] = useState<Partial<Schema["places"]>>({
@@ -24,29 +43,34 @@ const AddPlace = () => {
     lng: 0,
     phone: "",
     website: "",
-    placeType: "",
-    accessibilityFeatures: "[]"
+    placeType: ""
   });
   
   const [selectedLocation, setSelectedLocation] = useState<[number, number] | null>(null);
   const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [availableFeatures] = useState([
-    "Ramp", "Elevator", "Handrails", "Automatic Doors", 
-    "Accessible Washroom", "Gender Neutral Washroom", "Braille", 
-    "Large Print", "Sign Language", "Quiet", "Bright Lighting",
-    "Spacious", "StopGap Ramp", "Outdoor Access Only"
-  ]);
-  const [selectedFeatures, setSelectedFeatures] = useState<string[]>([]);
+  const [selectedFeatures, setSelectedFeatures] = useState<AccessibilityFeatureId[]>([]);
   const [isListening, setIsListening] = useState(false);
   
   const navigate = useNavigate();
   const { data: session } = fine.auth.useSession();
   const voiceAssistant = VoiceAssistant.getInstance();
+  const { t, formatNumber } = useTranslation();
+  // Dictation command for the field being filled in, active only while listening
+  const popVoiceScopeRef = useRef<(() => void) | null>(null);
+
+  const endVoiceInput = () => {
+    popVoiceScopeRef.current?.();
+    popVoiceScopeRef.current = null;
+    setIsListening(false);
+  };
+
+  // Don't leave the dictation command behind when leaving the page
+  useEffect(() => () => popVoiceScopeRef.current?.(), []);
 
   useEffect(() => {
     // Announce page
-    voiceAssistant.speak("Add place page. Fill in the details to add a new accessible place.");
+    voiceAssistant.speakPrompt("add-place.intro");
     
     // Get user location
     navigator.geolocation.getCurrentPosition(
@@ -58,8 +82,8 @@ const AddPlace = () => {
       },
       (error) => {
         console.error("Error getting location:", error);
-        toast.error("Could not access your location");
-        voiceAssistant.speak("Could not access your location");
+        toast.error(t("location.unavailable"));
+        voiceAssistant.speakPrompt("location.unavailable");
       }
     );
   }, []);
@@ -77,13 +101,17 @@ const AddPlace = () => {
     setSelectedLocation([lat, lng]);
     setFormData(prev => ({ ...prev, lat, lng }));
     
-    // Try to get address from coordinates using reverse geocoding
-    // This would typically use a geocoding service like Google Maps or Nominatim
-    toast.info("Location selected");
-    voiceAssistant.speak("Location selected");
+    toast.info(t("add-place.location-selected"));
+    voiceAssistant.speakPrompt("add-place.location-selected");
+    
+    // Suggest an address for the selected point unless one was already entered
+    reverseGeocode(lat, lng, true).then(address => {
+      if (!address) return;
+      setFormData(prev => prev.address ? prev : { ...prev, address });
+    });
   };
 
-  const toggleFeature = (feature: string) => {
+  const toggleFeature = (feature: AccessibilityFeatureId) => {
     setSelectedFeatures(prev => {
       if (prev.includes(feature)) {
         return prev.filter(f => f !== feature);
@@ -93,23 +121,25 @@ const AddPlace = () => {
     });
   };
 
-  const handleVoiceInput = (fieldName: string) => {
+  const handleVoiceInput = (fieldName: VoiceField) => {
     setIsListening(true);
-    voiceAssistant.speak(`Please say the ${fieldName}`);
+    voiceAssistant.speakPrompt("add-place.say-field", { field: { key: VOICE_FIELDS[fieldName] } });
     
-    voiceAssistant.registerCommand("*", (transcript) => {
-      if (transcript) {
-        setFormData(prev => ({ ...prev, [fieldName]: transcript }));
-        voiceAssistant.speak(`${fieldName} set to ${transcript}`);
+    popVoiceScopeRef.current?.();
+    popVoiceScopeRef.current = voiceAssistant.pushScope("voice-input", {
+      "*": ({ text: transcript }) => {
+        if (transcript) {
+          setFormData(prev => ({ ...prev, [fieldName]: transcript }));
+          voiceAssistant.speakPrompt("add-place.field-set", { field: { key: VOICE_FIELDS[fieldName] }, value: transcript });
+        }
+        endVoiceInput();
       }
-      setIsListening(false);
-      voiceAssistant.unregisterCommand("*");
     });
     
     const success = voiceAssistant.startListening();
     if (!success) {
-      toast.error("Voice recognition not available");
-      setIsListening(false);
+      toast.error(t("voice.unavailable"));
+      endVoiceInput();
     }
   };
 
@@ -117,23 +147,22 @@ const AddPlace = () => {
     e.preventDefault();
     
     if (!session?.user) {
-      toast.error("You must be signed in to add a place");
-      voiceAssistant.speak("You must be signed in to add a place");
+      toast.error(t("add-place.sign-in"));
+      voiceAssistant.speakPrompt("add-place.sign-in");
       navigate("/login");
       return;
     }
     
     if (!formData.name || !formData.address || !selectedLocation) {
-      toast.error("Please fill in all required fields");
-      voiceAssistant.speak("Please fill in all required fields");
+      toast.error(t("add-place.required"));
+      voiceAssistant.speakPrompt("add-place.required");
       return;
     }
     
     try {
       setIsSubmitting(true);
-      voiceAssistant.speak("Adding place...");
+      voiceAssistant.speakPrompt("add-place.adding");
       
-      // Update accessibility features
       const updatedFormData: Schema["places"] = {
         name: formData.name || "",
         address: formData.address || "",
@@ -142,19 +171,26 @@ const AddPlace = () => {
         phone: formData.phone || null,
         website: formData.website || null,
         placeType: formData.placeType || "other",
-        accessibilityFeatures: JSON.stringify(selectedFeatures),
         userId: session.user.id
       };
       
-      await fine.table("places").insert(updatedFormData);
+      const [newPlace] = await fine.table("places").insert(updatedFormData).select();
+      
+      // Features are stored separately, one row per feature
+      if (newPlace && selectedFeatures.length > 0) {
+        await addPlaceFeatures(newPlace.id, selectedFeatures, {
+          source: "submission",
+          reportedBy: session.user.id
+        });
+      }
       
-      toast.success("Place added successfully");
-      voiceAssistant.speak("Place added successfully");
+      toast.success(t("add-place.added"));
+      voiceAssistant.speakPrompt("add-place.added");
       navigate("/");
     } catch (error) {
       console.error("Error adding place:", error);
-      toast.error("Failed to add place");
-      voiceAssistant.speak("Failed to add place");
+      toast.error(t("add-place.failed"));
+      voiceAssistant.speakPrompt("add-place.failed");
     } finally {
       setIsSubmitting(false);
     }
@@ -162,7 +198,7 @@ const AddPlace = () => {
 
   return (
     <div className="flex flex-col h-screen">
-      <Header title="Add Place" showBackButton />
+      <Header title={t("add-place.title")} showBackButton />
       
       <main className="flex-1 pt-14 pb-16 overflow-y-auto">
         <form onSubmit={handleSubmit} className="p-4 space-y-6">
@@ -170,14 +206,14 @@ const AddPlace = () => {
             <CardContent className="p-4">
               <div className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="name">Place Name *</Label>
+                  <Label htmlFor="name">{t("add-place.name")}</Label>
                   <div className="flex">
                     <Input
                       id="name"
                       name="name"
                       value={formData.name}
                       onChange={handleInputChange}
-                      placeholder="Enter place name"
+                      placeholder={t("add-place.name-placeholder")}
                       required
                       className="flex-1"
                     />
@@ -185,7 +221,8 @@ const AddPlace = () => {
                       type="button" 
                       variant="outline" 
                       size="icon"
-                      className="ml-2"
+                      className="ms-2"
+                      aria-label={t("add-place.dictate", { field: { key: VOICE_FIELDS.name } })}
                       onClick={() => handleVoiceInput("name")}
                       disabled={isListening}
                     >
@@ -199,35 +236,35 @@ const AddPlace = () => {
                 </div>
                 
                 <div className="space-y-2">
-                  <Label htmlFor="placeType">Place Type *</Label>
+                  <Label htmlFor="placeType">{t("add-place.type")}</Label>
                   <Select
                     value={formData.placeType || ""}
                     onValueChange={(value) => handleSelectChange("placeType", value)}
                   >
                     <SelectTrigger id="placeType">
-                      <SelectValue placeholder="Select place type" />
+                      <SelectValue placeholder={t("add-place.type-placeholder")} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="restaurant">Restaurant</SelectItem>
-                      <SelectItem value="hospital">Hospital</SelectItem>
-                      <SelectItem value="education">Education</SelectItem>
-                      <SelectItem value="transport">Transport</SelectItem>
-                      <SelectItem value="shopping">Shopping</SelectItem>
-                      <SelectItem value="entertainment">Entertainment</SelectItem>
-                      <SelectItem value="other">Other</SelectItem>
+                      <SelectItem value="restaurant">{t("place-type.restaurant")}</SelectItem>
+                      <SelectItem value="hospital">{t("place-type.hospital")}</SelectItem>
+                      <SelectItem value="education">{t("place-type.education")}</SelectItem>
+                      <SelectItem value="transport">{t("place-type.transport")}</SelectItem>
+                      <SelectItem value="shopping">{t("place-type.shopping")}</SelectItem>
+                      <SelectItem value="entertainment">{t("place-type.entertainment")}</SelectItem>
+                      <SelectItem value="other">{t("place-type.other")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
                 
                 <div className="space-y-2">
-                  <Label htmlFor="address">Address *</Label>
+                  <Label htmlFor="address">{t("add-place.address")}</Label>
                   <div className="flex">
                     <Textarea
                       id="address"
                       name="address"
                       value={formData.address}
                       onChange={handleInputChange}
-                      placeholder="Enter full address"
+                      placeholder={t("add-place.address-placeholder")}
                       required
                       className="flex-1"
                     />
@@ -235,7 +272,8 @@ const AddPlace = () => {
                       type="button" 
                       variant="outline" 
                       size="icon"
-                      className="ml-2 self-start"
+                      className="ms-2 self-start"
+                      aria-label={t("add-place.dictate", { field: { key: VOICE_FIELDS.address } })}
                       onClick={() => handleVoiceInput("address")}
                       disabled={isListening}
                     >
@@ -249,21 +287,22 @@ const AddPlace = () => {
                 </div>
                 
                 <div className="space-y-2">
-                  <Label htmlFor="phone">Phone Number</Label>
+                  <Label htmlFor="phone">{t("add-place.phone")}</Label>
                   <div className="flex">
                     <Input
                       id="phone"
                       name="phone"
                       value={formData.phone || ""}
                       onChange={handleInputChange}
-                      placeholder="Enter phone number"
+                      placeholder={t("add-place.phone-placeholder")}
                       className="flex-1"
                     />
                     <Button 
                       type="button" 
                       variant="outline" 
                       size="icon"
-                      className="ml-2"
+                      className="ms-2"
+                      aria-label={t("add-place.dictate", { field: { key: VOICE_FIELDS.phone } })}
                       onClick={() => handleVoiceInput("phone")}
                       disabled={isListening}
                     >
@@ -277,21 +316,22 @@ const AddPlace = () => {
                 </div>
                 
                 <div className="space-y-2">
-                  <Label htmlFor="website">Website</Label>
+                  <Label htmlFor="website">{t("add-place.website")}</Label>
                   <div className="flex">
                     <Input
                       id="website"
                       name="website"
                       value={formData.website || ""}
                       onChange={handleInputChange}
-                      placeholder="Enter website URL"
+                      placeholder={t("add-place.website-placeholder")}
                       className="flex-1"
                     />
                     <Button 
                       type="button" 
                       variant="outline" 
                       size="icon"
-                      className="ml-2"
+                      className="ms-2"
+                      aria-label={t("add-place.dictate", { field: { key: VOICE_FIELDS.website } })}
                       onClick={() => handleVoiceInput("website")}
                       disabled={isListening}
                     >
@@ -310,9 +350,9 @@ const AddPlace = () => {
           <Card>
             <CardContent className="p-4">
               <div className="space-y-4">
-                <Label>Location *</Label>
+                <Label>{t("add-place.location")}</Label>
                 <p className="text-sm text-muted-foreground">
-                  Tap on the map to select the location or use your current location
+                  {t("add-place.location-hint")}
                 </p>
                 
                 <div className="h-64 rounded-md overflow-hidden border">
@@ -320,7 +360,7 @@ const AddPlace = () => {
                     center={userLocation || undefined}
                     zoom={15}
                     markers={selectedLocation ? [
-                      { id: 1, position: selectedLocation, title: "Selected Location" }
+                      { id: 1, position: selectedLocation, title: t("add-place.selected-location") }
                     ] : []}
                     onMapClick={handleMapClick}
                     showUserLocation={true}
@@ -329,8 +369,11 @@ const AddPlace = () => {
                 
                 {selectedLocation && (
                   <div className="flex items-center text-sm text-muted-foreground">
-                    <MapPin className="h-4 w-4 mr-1" />
-                    Selected: {selectedLocation[0].toFixed(6)}, {selectedLocation[1].toFixed(6)}
+                    <MapPin className="h-4 w-4 me-1" />
+                    {t("add-place.selected", {
+                      lat: formatNumber(selectedLocation[0], { minimumFractionDigits: 6, maximumFractionDigits: 6 }),
+                      lng: formatNumber(selectedLocation[1], { minimumFractionDigits: 6, maximumFractionDigits: 6 })
+                    })}
                   </div>
                 )}
                 
@@ -342,15 +385,15 @@ const AddPlace = () => {
                     if (userLocation) {
                       setSelectedLocation(userLocation);
                       setFormData(prev => ({ ...prev, lat: userLocation[0], lng: userLocation[1] }));
-                      voiceAssistant.speak("Using your current location");
+                      voiceAssistant.speakPrompt("location.using-current");
                     } else {
-                      toast.error("Could not access your location");
-                      voiceAssistant.speak("Could not access your location");
+                      toast.error(t("location.unavailable"));
+                      voiceAssistant.speakPrompt("location.unavailable");
                     }
                   }}
                 >
-                  <MapPin className="h-4 w-4 mr-2" />
-                  Use My Current Location
+                  <MapPin className="h-4 w-4 me-2" />
+                  {t("add-place.use-current-location")}
                 </Button>
               </div>
             </CardContent>
@@ -359,17 +402,24 @@ const AddPlace = () => {
           <Card>
             <CardContent className="p-4">
               <div className="space-y-4">
-                <Label>Accessibility Features</Label>
+                <Label>{t("place.features")}</Label>
                 <p className="text-sm text-muted-foreground">
-                  Select all accessibility features available at this location
+                  {t("add-place.features-hint")}
                 </p>
                 
-                <AccessibilityFeatures
-                  features={availableFeatures}
-                  selected={selectedFeatures}
-                  onToggle={toggleFeature}
-                  interactive={true}
-                />
+                {FEATURE_CATEGORIES.map(category => (
+                  <div key={category} className="space-y-2">
+                    <p className="text-xs font-medium uppercase text-muted-foreground">
+                      {t(`feature-category.${category}`)}
+                    </p>
+                    <AccessibilityFeatures
+                      features={getFeaturesByCategory(category).map(feature => feature.id)}
+                      selected={selectedFeatures}
+                      onToggle={(feature) => toggleFeature(feature as AccessibilityFeatureId)}
+                      interactive={true}
+                    />
+                  </div>
+                ))}
               </div>
             </CardContent>
           </Card>
@@ -377,9 +427,9 @@ const AddPlace = () => {
           <Card>
             <CardContent className="p-4">
               <div className="space-y-4">
-                <Label>Photos</Label>
+                <Label>{t("add-place.photos")}</Label>
                 <p className="text-sm text-muted-foreground">
-                  Add photos of the location and its accessibility features
+                  {t("add-place.photos-hint")}
                 </p>
                 
                 <Button 
@@ -389,7 +439,7 @@ const AddPlace = () => {
                 >
                   <div className="flex flex-col items-center">
                     <Camera className="h-8 w-8 mb-2 text-muted-foreground" />
-                    <span>Add photos</span>
+                    <span>{t("add-place.add-photos")}</span>
                   </div>
                 </Button>
               </div>
@@ -403,11 +453,11 @@ const AddPlace = () => {
           >
             {isSubmitting ? (
               <>
-                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                Adding Place...
+                <Loader2 className="h-4 w-4 me-2 animate-spin" />
+                {t("add-place.adding")}
               </>
             ) : (
-              "Add Place"
+              t("add-place.title")
             )}
           </Button>
         </form>
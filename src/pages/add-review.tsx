@@ -3,30 +3,36 @@ import { useParams, useNavigate } from "react-router-dom";
 import { fine } from "@/lib/fine";
 import { Header } from "@/components/layout/Header";
 import { BottomNav } from "@/components/layout/BottomNav";
+import { Inline } from "@/components/layout/direction";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent } from "@/components/ui/card";
 import { AccessibilityFeatures } from "@/components/places/AccessibilityFeatures";
+import { RatingDimensionsInput } from "@/components/places/RatingDimensions";
 import { Check, ThumbsDown, ThumbsUp, X } from "lucide-react";
 import { toast } from "sonner";
 import { Schema } from "@/lib/db-types";
+import { addPlaceFeatures, getPlaceFeatures } from "@/lib/place-features";
+import { toReviewColumns, type DimensionRatings } from "@/lib/review-ratings";
+import {
+  FEATURE_CATEGORIES,
+  getFeaturesByCategory,
+  type AccessibilityFeatureId
+} from "@/lib/accessibility-features";
+import { useTranslation } from "@/hooks/use-translation";
 
 const AddReview = () => {
   const { id } = useParams<{ id: string }>();
   const [place, setPlace] = useState<Schema["places"] | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [accessibilityRating, setAccessibilityRating] = useState<"accessible" | "partially" | "not" | null>(null);
+  const [dimensionRatings, setDimensionRatings] = useState<DimensionRatings>({});
   const [comment, setComment] = useState("");
-  const [availableFeatures] = useState([
-    "Accessible Parking", "Elevator", "Handrails", "Alternative Entrance", 
-    "Ramp", "Braille", "Scent-free", "Bright Lighting", "Spacious",
-    "Gender Neutral Washroom", "Quiet", "Accessible Washroom", 
-    "Outdoor Access Only", "Large Print", "StopGap Ramp"
-  ]);
-  const [selectedFeatures, setSelectedFeatures] = useState<string[]>([]);
+  const [selectedFeatures, setSelectedFeatures] = useState<AccessibilityFeatureId[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   
   const navigate = useNavigate();
+  const { t } = useTranslation();
   const { data: session } = fine.auth.useSession();
 
   useEffect(() => {
@@ -42,18 +48,17 @@ const AddReview = () => {
           
           // Pre-select features that are already associated with the place
           try {
-            const placeFeatures = JSON.parse(place[0].accessibilityFeatures || '[]');
-            setSelectedFeatures(placeFeatures);
+            setSelectedFeatures(await getPlaceFeatures(place[0].id));
           } catch (error) {
-            console.error("Error parsing accessibility features:", error);
+            console.error("Error fetching accessibility features:", error);
           }
         } else {
-          toast.error("Place not found");
+          toast.error(t("place.not-found"));
           navigate("/");
         }
       } catch (error) {
         console.error("Error fetching place details:", error);
-        toast.error("Failed to load place details");
+        toast.error(t("place.load-failed"));
       } finally {
         setIsLoading(false);
       }
@@ -62,7 +67,7 @@ const AddReview = () => {
     fetchPlaceDetails();
   }, [id, navigate]);
 
-  const toggleFeature = (feature: string) => {
+  const toggleFeature = (feature: AccessibilityFeatureId) => {
     setSelectedFeatures(prev => {
       if (prev.includes(feature)) {
         return prev.filter(f => f !== feature);
@@ -74,13 +79,13 @@ const AddReview = () => {
 
   const handleSubmit = async () => {
     if (!session?.user) {
-      toast.error("You must be signed in to add a review");
+      toast.error(t("review.sign-in"));
       navigate("/login");
       return;
     }
     
     if (!accessibilityRating) {
-      toast.error("Please select an accessibility rating");
+      toast.error(t("review.rating-required"));
       return;
     }
     
@@ -99,32 +104,28 @@ const AddReview = () => {
         userId: session.user.id,
         rating: ratingValue,
         comment: comment,
-        accessibilityFeatures: JSON.stringify(selectedFeatures)
+        ...toReviewColumns(dimensionRatings)
       };
       
       await fine.table("reviews").insert(review);
       
-      // Update place with new features
+      // Record the features the reviewer confirmed
       if (place) {
         try {
-          // Merge existing features with new ones
-          const existingFeatures = JSON.parse(place.accessibilityFeatures || '[]');
-          const mergedFeatures = Array.from(new Set([...existingFeatures, ...selectedFeatures]));
-          
-          // Update place
-          await fine.table("places").update({
-            accessibilityFeatures: JSON.stringify(mergedFeatures)
-          }).eq("id", place.id);
+          await addPlaceFeatures(place.id!, selectedFeatures, {
+            source: "review",
+            reportedBy: session.user.id
+          });
         } catch (error) {
           console.error("Error updating place features:", error);
         }
       }
       
-      toast.success("Review added successfully");
+      toast.success(t("review.added"));
       navigate(`/place-details/${id}`);
     } catch (error) {
       console.error("Error adding review:", error);
-      toast.error("Failed to add review");
+      toast.error(t("review.failed"));
     } finally {
       setIsSubmitting(false);
     }
@@ -133,7 +134,7 @@ const AddReview = () => {
   if (isLoading) {
     return (
       <div className="flex flex-col h-screen">
-        <Header title="Rate this place" showBackButton />
+        <Header title={t("review.title")} showBackButton />
         <main className="flex-1 pt-14 pb-16 flex items-center justify-center">
           <div className="animate-pulse space-y-4 w-full max-w-md px-4">
             <div className="h-8 bg-gray-200 dark:bg-gray-700 rounded w-3/4"></div>
@@ -147,7 +148,7 @@ const AddReview = () => {
 
   return (
     <div className="flex flex-col h-screen">
-      <Header title="Rate this place" showBackButton />
+      <Header title={t("review.title")} showBackButton />
       
       <main className="flex-1 pt-14 pb-16 overflow-y-auto">
         <div className="p-4 space-y-6">
@@ -155,7 +156,7 @@ const AddReview = () => {
           
           <Card>
             <CardContent className="p-4">
-              <h2 className="text-lg font-semibold mb-4">How accessible is this place?</h2>
+              <h2 className="text-lg font-semibold mb-4">{t("review.how-accessible")}</h2>
               
               <div className="flex justify-between gap-2">
                 <Button
@@ -166,7 +167,7 @@ const AddReview = () => {
                   <div className="w-10 h-10 rounded-full bg-green-100 dark:bg-green-900 flex items-center justify-center mb-2">
                     <ThumbsUp className="h-5 w-5 text-green-600 dark:text-green-300" />
                   </div>
-                  <span className="text-sm text-blue-600">Accessible</span>
+                  <span className="text-sm text-blue-600">{t("review.accessible")}</span>
                 </Button>
                 
                 <Button
@@ -177,7 +178,7 @@ const AddReview = () => {
                   <div className="w-10 h-10 rounded-full bg-orange-100 dark:bg-orange-900 flex items-center justify-center mb-2">
                     <div className="text-orange-600 dark:text-orange-300">🚧</div>
                   </div>
-                  <span className="text-sm text-blue-600">Partially Accessible</span>
+                  <span className="text-sm text-blue-600">{t("review.partially-accessible")}</span>
                 </Button>
                 
                 <Button
@@ -188,7 +189,7 @@ const AddReview = () => {
                   <div className="w-10 h-10 rounded-full bg-red-100 dark:bg-red-900 flex items-center justify-center mb-2">
                     <ThumbsDown className="h-5 w-5 text-red-600 dark:text-red-300" />
                   </div>
-                  <span className="text-sm text-blue-600">Not Accessible</span>
+                  <span className="text-sm text-blue-600">{t("review.not-accessible")}</span>
                 </Button>
               </div>
             </CardContent>
@@ -196,43 +197,66 @@ const AddReview = () => {
           
           <Card>
             <CardContent className="p-4">
-              <h2 className="text-lg font-semibold mb-2">Select accessibility features</h2>
+              <h2 className="text-lg font-semibold mb-2">{t("review.rate-areas")}</h2>
               <p className="text-sm text-muted-foreground mb-4">
-                Select all features available at this location
+                {t("review.rate-areas-hint")}
               </p>
               
-              <AccessibilityFeatures
-                features={availableFeatures}
-                selected={selectedFeatures}
-                onToggle={toggleFeature}
-                interactive={true}
+              <RatingDimensionsInput
+                ratings={dimensionRatings}
+                onChange={(dimension, rating) => setDimensionRatings(prev => ({ ...prev, [dimension]: rating }))}
               />
             </CardContent>
           </Card>
           
           <Card>
             <CardContent className="p-4">
-              <h2 className="text-lg font-semibold mb-2">Add a comment (optional)</h2>
+              <h2 className="text-lg font-semibold mb-2">{t("review.features")}</h2>
+              <p className="text-sm text-muted-foreground mb-4">
+                {t("review.features-hint")}
+              </p>
+              
+              <div className="space-y-4">
+                {FEATURE_CATEGORIES.map(category => (
+                  <div key={category} className="space-y-2">
+                    <p className="text-xs font-medium uppercase text-muted-foreground">
+                      {t(`feature-category.${category}`)}
+                    </p>
+                    <AccessibilityFeatures
+                      features={getFeaturesByCategory(category).map(feature => feature.id)}
+                      selected={selectedFeatures}
+                      onToggle={(feature) => toggleFeature(feature as AccessibilityFeatureId)}
+                      interactive={true}
+                    />
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+          
+          <Card>
+            <CardContent className="p-4">
+              <h2 className="text-lg font-semibold mb-2">{t("review.comment")}</h2>
               <Textarea
-                placeholder="Share your experience about the accessibility of this place..."
+                placeholder={t("review.comment-placeholder")}
                 value={comment}
                 onChange={(e) => setComment(e.target.value)}
                 className="min-h-[100px]"
               />
               <p className="text-xs text-muted-foreground mt-2">
-                {1000 - comment.length} characters remaining
+                {t("review.characters-remaining", { count: 1000 - comment.length })}
               </p>
             </CardContent>
           </Card>
           
-          <div className="flex space-x-4">
+          <Inline gap={4}>
             <Button 
               variant="outline" 
               className="flex-1"
               onClick={() => navigate(-1)}
             >
-              <X className="h-4 w-4 mr-2" />
-              Cancel
+              <X className="h-4 w-4 me-2" />
+              {t("common.cancel")}
             </Button>
             
             <Button 
@@ -240,10 +264,10 @@ const AddReview = () => {
               onClick={handleSubmit}
               disabled={isSubmitting || !accessibilityRating}
             >
-              <Check className="h-4 w-4 mr-2" />
-              Submit
+              <Check className="h-4 w-4 me-2" />
+              {t("review.submit")}
             </Button>
-          </div>
+          </Inline>
         </div>
       </main>
       
@@ -1,6 +1,7 @@
 import { useEffect, useState, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { fine } from "@/lib/fine";
+import { withPlaceFeatures } from "@/lib/place-features";
 import { Map } from "@/components/map/Map";
 import { Header } from "@/components/layout/Header";
 import { BottomNav } from "@/components/layout/BottomNav";
@@ -13,6 +14,8 @@ import { Place, fetchAccessiblePlaces } from "@/lib/overpass-api";
 import { VoiceAssistant } from "@/lib/voice-assistant";
 import { setupNavigationVoiceCommands } from "@/lib/voice-assistant";
 import { SearchBar } from "@/components/search/SearchBar";
+import { Inline } from "@/components/layout/direction";
+import { useTranslation } from "@/hooks/use-translation";
 
 const Index = () => {
   const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
@@ -22,6 +25,7 @@ const Index = () => {
   const [locationError, setLocationError] = useState<string | null>(null);
   const navigate = useNavigate();
   const voiceAssistant = VoiceAssistant.getInstance();
+  const { t } = useTranslation();
   const abortControllerRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
@@ -29,7 +33,7 @@ const Index = () => {
     setupNavigationVoiceCommands(voiceAssistant, navigate);
     
     // Welcome message
-    voiceAssistant.speak("Welcome to AccessMap. Your accessible navigation assistant.");
+    voiceAssistant.speakPrompt("app.welcome");
     
     // Get user location with multiple attempts
     const getLocation = (attempt = 1) => {
@@ -59,9 +63,9 @@ const Index = () => {
             setTimeout(() => getLocation(attempt + 1), 1000);
           } else {
             // All attempts failed
-            setLocationError(`Could not access your location: ${error.message}`);
-            toast.error("Could not access your location. Please check your location permissions.");
-            voiceAssistant.speak("Could not access your location. Some features may be limited.");
+            setLocationError(t("location.error", { message: error.message }));
+            toast.error(t("location.check-permissions"));
+            voiceAssistant.speakPrompt("location.unavailable-limited");
             
             // Fallback to database or default location
             fetchPlacesFromDatabase();
@@ -121,7 +125,7 @@ const Index = () => {
         }).sort((a, b) => (a.distance || 0) - (b.distance || 0));
         
         setPlaces(placesWithDistance);
-        voiceAssistant.speak(`Found ${placesWithDistance.length} accessible places nearby.`);
+        voiceAssistant.speakPrompt("places.found-nearby", { count: placesWithDistance.length });
       } else {
         console.log("No places found from Overpass API, falling back to database");
         // Fallback to database
@@ -143,7 +147,7 @@ const Index = () => {
   const fetchPlacesFromDatabase = async () => {
     try {
       setIsLoading(true);
-      const fetchedPlaces = await fine.table("places").select();
+      const fetchedPlaces = await withPlaceFeatures(await fine.table("places").select());
       
       if (fetchedPlaces && fetchedPlaces.length > 0) {
         console.log(`Found ${fetchedPlaces.length} places from database`);
@@ -171,26 +175,26 @@ const Index = () => {
             lng: place.lng,
             address: place.address,
             placeType: place.placeType,
-            accessibilityFeatures: typeof place.accessibilityFeatures === 'string' 
-              ? JSON.parse(place.accessibilityFeatures) 
-              : place.accessibilityFeatures,
+            accessibilityFeatures: place.accessibilityFeatures,
             phone: place.phone || undefined,
             website: place.website || undefined,
-            rating: place.rating || undefined,
+            communityRating: place.communityRating || undefined,
+            reviewCount: place.reviewCount,
+            osmWheelchair: place.osmWheelchair || undefined,
             distance,
             distanceText
           };
         }).sort((a, b) => (a.distance || 0) - (b.distance || 0));
         
         setPlaces(formattedPlaces);
-        voiceAssistant.speak(`Found ${formattedPlaces.length} accessible places.`);
+        voiceAssistant.speakPrompt("places.found", { count: formattedPlaces.length });
       } else {
         // Use sample data if no places in database
         useSampleData();
       }
     } catch (error) {
       console.error("Error fetching places from database:", error);
-      toast.error("Error loading places");
+      toast.error(t("places.load-failed"));
       
       // Use sample data as last resort
       useSampleData();
@@ -212,10 +216,9 @@ const Index = () => {
         lng: 80.2339,
         address: "Near Kishkintha, Raja Gopala Kandigai, Tharkas (Post) Erumaiyur, West Tambaram, Chennai - 600 044.",
         placeType: "education",
-        accessibilityFeatures: ["Ramp", "Automatic Doors", "Handrails"],
+        accessibilityFeatures: ["ramp", "automatic-doors", "handrails"],
         phone: "+919145604423",
         website: "www.loyola.edu.in",
-        rating: 4.5,
         distanceText: "1.2 km away"
       },
       {
@@ -225,10 +228,9 @@ const Index = () => {
         lng: 80.2321,
         address: "Shastri Nagar, Adyar, Chennai, Tamil Nadu",
         placeType: "restaurant",
-        accessibilityFeatures: ["Accessible Washroom", "Ramp"],
+        accessibilityFeatures: ["accessible-washroom", "ramp"],
         phone: "+919876543210",
         website: "www.bistrograph.com",
-        rating: 4.2,
         distanceText: "0.8 km away"
       },
       {
@@ -238,10 +240,9 @@ const Index = () => {
         lng: 80.2183,
         address: "Gandhi Road, Tambaram, Chennai, Tamil Nadu",
         placeType: "hospital",
-        accessibilityFeatures: ["Elevator", "Wheelchair Access"],
+        accessibilityFeatures: ["elevator", "wheelchair-access"],
         phone: "+919123456789",
         website: "www.nirmaleyehospital.com",
-        rating: 4.0,
         distanceText: "1.5 km away"
       },
       {
@@ -251,10 +252,9 @@ const Index = () => {
         lng: 80.2167,
         address: "Tambaram, Chennai, Tamil Nadu",
         placeType: "hospital",
-        accessibilityFeatures: ["Elevator", "Ramp", "Accessible Washroom"],
+        accessibilityFeatures: ["elevator", "ramp", "accessible-washroom"],
         phone: "+919234567890",
         website: "www.hindumissionhospital.org",
-        rating: 4.3,
         distanceText: "1.7 km away"
       },
       {
@@ -264,14 +264,13 @@ const Index = () => {
         lng: 80.2198,
         address: "Tambaram, Chennai, Tamil Nadu",
         placeType: "transport",
-        accessibilityFeatures: ["Ramp", "Handrails"],
-        rating: 3.8,
+        accessibilityFeatures: ["ramp", "handrails"],
         distanceText: "0.9 km away"
       }
     ];
     
     setPlaces(samplePlaces);
-    voiceAssistant.speak(`Found ${samplePlaces.length} accessible places nearby.`);
+    voiceAssistant.speakPrompt("places.found-nearby", { count: samplePlaces.length });
   };
 
   const handleMarkerClick = (id: number) => {
@@ -282,7 +281,7 @@ const Index = () => {
     setShowNearby(!showNearby);
     
     if (!showNearby) {
-      voiceAssistant.speak("Showing nearby places");
+      voiceAssistant.speakPrompt("places.showing-nearby");
     }
   };
 
@@ -371,7 +370,7 @@ const Index = () => {
           <SearchBar 
             expanded={true}
             onSearch={handleSearch}
-            placeholder="Search for accessible places..."
+            placeholder={t("home.search-placeholder")}
           />
         </div>
         
@@ -387,6 +386,7 @@ const Index = () => {
           showUserLocation={true}
           onPlacesLoaded={handlePlacesLoaded}
           onLocationFound={handleLocationFound}
+          allowBarrierReporting={true}
         />
         
         {locationError && (
@@ -395,7 +395,7 @@ const Index = () => {
             <Button 
               variant="link" 
               size="sm" 
-              className="ml-2 p-0 h-auto text-red-600 dark:text-red-300"
+              className="ms-2 p-0 h-auto text-red-600 dark:text-red-300"
               onClick={() => {
                 // Retry location detection
                 setLocationError(null);
@@ -406,25 +406,25 @@ const Index = () => {
                     fetchNearbyPlaces(latitude, longitude);
                   },
                   (error) => {
-                    setLocationError(`Could not access your location: ${error.message}`);
-                    toast.error("Could not access your location. Using default location.");
+                    setLocationError(t("location.error", { message: error.message }));
+                    toast.error(t("location.using-default"));
                   }
                 );
               }}
             >
-              Retry
+              {t("common.retry")}
             </Button>
           </div>
         )}
         
-        <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 flex space-x-2">
+        <Inline className="absolute bottom-4 left-1/2 transform -translate-x-1/2">
           <Button 
             variant="default" 
             className="shadow-lg"
             onClick={() => navigate("/search")}
           >
-            <Search className="h-4 w-4 mr-2" />
-            Search
+            <Search className="h-4 w-4 me-2" />
+            {t("home.search")}
           </Button>
           
           <Button 
@@ -432,15 +432,15 @@ const Index = () => {
             className="shadow-lg"
             onClick={toggleNearby}
           >
-            <MapPin className="h-4 w-4 mr-2" />
-            Nearby
+            <MapPin className="h-4 w-4 me-2" />
+            {t("home.nearby")}
           </Button>
-        </div>
+        </Inline>
         
         {showNearby && (
           <div className="absolute bottom-16 left-0 right-0 bg-white dark:bg-gray-900 rounded-t-xl shadow-lg max-h-[60vh] overflow-y-auto">
             <div className="p-4">
-              <h2 className="text-xl font-bold mb-4">Nearby Places</h2>
+              <h2 className="text-xl font-bold mb-4">{t("home.nearby-title")}</h2>
               <NearbyPlaces 
                 userLocation={userLocation || undefined} 
                 places={places}
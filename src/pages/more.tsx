@@ -2,6 +2,8 @@ import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { Header } from "@/components/layout/Header";
 import { BottomNav } from "@/components/layout/BottomNav";
+import { Inline } from "@/components/layout/direction";
+import { LanguageSelect } from "@/components/layout/LanguageSelect";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
@@ -17,10 +19,12 @@ import {
   Star, 
   MessageSquare,
   Volume2,
-  VolumeX
+  VolumeX,
+  Languages
 } from "lucide-react";
 import { toast } from "sonner";
 import { VoiceAssistant } from "@/lib/voice-assistant";
+import { useTranslation } from "@/hooks/use-translation";
 
 const More = () => {
   const [darkMode, setDarkMode] = useState(
@@ -30,10 +34,11 @@ const More = () => {
   const [voiceEnabled, setVoiceEnabled] = useState(true);
   const navigate = useNavigate();
   const voiceAssistant = VoiceAssistant.getInstance();
+  const { t } = useTranslation();
 
   useEffect(() => {
     // Announce page
-    voiceAssistant.speak("More options page");
+    voiceAssistant.speakPrompt("page.more");
   }, []);
 
   const toggleDarkMode = () => {
@@ -43,11 +48,11 @@ const More = () => {
     if (newDarkMode) {
       document.documentElement.classList.add("dark");
       localStorage.setItem('theme', 'dark');
-      voiceAssistant.speak("Dark mode enabled");
+      voiceAssistant.speakPrompt("settings.dark-mode-on");
     } else {
       document.documentElement.classList.remove("dark");
       localStorage.setItem('theme', 'light');
-      voiceAssistant.speak("Dark mode disabled");
+      voiceAssistant.speakPrompt("settings.dark-mode-off");
     }
   };
 
@@ -56,11 +61,11 @@ const More = () => {
     setNotifications(newState);
     
     if (newState) {
-      toast.success("Notifications enabled");
-      voiceAssistant.speak("Notifications enabled");
+      toast.success(t("more.notifications-on"));
+      voiceAssistant.speakPrompt("more.notifications-on");
     } else {
-      toast.info("Notifications disabled");
-      voiceAssistant.speak("Notifications disabled");
+      toast.info(t("more.notifications-off"));
+      voiceAssistant.speakPrompt("more.notifications-off");
     }
   };
 
@@ -69,9 +74,9 @@ const More = () => {
     setVoiceEnabled(newState);
     
     if (newState) {
-      voiceAssistant.speak("Voice assistant enabled");
+      voiceAssistant.speakPrompt("settings.voice-on");
     } else {
-      voiceAssistant.speak("Voice assistant disabled");
+      voiceAssistant.speakPrompt("settings.voice-off");
       // Wait for the announcement to finish before disabling
       setTimeout(() => {
         voiceAssistant.cancelSpeech();
@@ -84,32 +89,32 @@ const More = () => {
       try {
         await navigator.share({
           title: "AccessMap",
-          text: "Check out AccessMap - Navigation for everyone",
+          text: t("more.share-text"),
           url: window.location.origin,
         });
       } catch (error) {
         console.error("Error sharing:", error);
       }
     } else {
-      toast.info("Sharing is not supported on this device");
-      voiceAssistant.speak("Sharing is not supported on this device");
+      toast.info(t("more.share-unsupported"));
+      voiceAssistant.speakPrompt("more.share-unsupported");
     }
   };
 
   return (
     <div className="flex flex-col h-screen">
-      <Header title="More" />
+      <Header title={t("more.title")} />
       
       <main className="flex-1 pt-14 pb-16 overflow-y-auto">
         <div className="p-4 space-y-6">
           <div className="space-y-4">
-            <h2 className="text-lg font-semibold">Preferences</h2>
+            <h2 className="text-lg font-semibold">{t("more.preferences")}</h2>
             
             <div className="flex items-center justify-between">
-              <div className="flex items-center space-x-2">
+              <Inline>
                 <Moon className="h-5 w-5 text-gray-500" />
-                <Label htmlFor="dark-mode">Dark Mode</Label>
-              </div>
+                <Label htmlFor="dark-mode">{t("more.dark-mode")}</Label>
+              </Inline>
               <Switch
                 id="dark-mode"
                 checked={darkMode}
@@ -118,10 +123,10 @@ const More = () => {
             </div>
             
             <div className="flex items-center justify-between">
-              <div className="flex items-center space-x-2">
+              <Inline>
                 <Bell className="h-5 w-5 text-gray-500" />
-                <Label htmlFor="notifications">Notifications</Label>
-              </div>
+                <Label htmlFor="notifications">{t("more.notifications")}</Label>
+              </Inline>
               <Switch
                 id="notifications"
                 checked={notifications}
@@ -130,14 +135,14 @@ const More = () => {
             </div>
             
             <div className="flex items-center justify-between">
-              <div className="flex items-center space-x-2">
+              <Inline>
                 {voiceEnabled ? (
                   <Volume2 className="h-5 w-5 text-gray-500" />
                 ) : (
                   <VolumeX className="h-5 w-5 text-gray-500" />
                 )}
-                <Label htmlFor="voice-assistant">Voice Assistant</Label>
-              </div>
+                <Label htmlFor="voice-assistant">{t("more.voice-assistant")}</Label>
+              </Inline>
               <Switch
                 id="voice-assistant"
                 checked={voiceEnabled}
@@ -145,34 +150,42 @@ const More = () => {
               />
             </div>
             
+            <div className="flex items-center justify-between gap-4">
+              <Inline>
+                <Languages className="h-5 w-5 text-gray-500" />
+                <Label htmlFor="language">{t("more.language")}</Label>
+              </Inline>
+              <LanguageSelect id="language" className="w-44" />
+            </div>
+            
             <Button 
               variant="ghost" 
               className="w-full justify-start"
               onClick={() => {
                 navigate("/settings");
-                voiceAssistant.speak("Settings page");
+                voiceAssistant.speakPrompt("page.settings");
               }}
             >
-              <Settings className="h-5 w-5 mr-2 text-gray-500" />
-              Settings
+              <Settings className="h-5 w-5 me-2 text-gray-500" />
+              {t("more.settings")}
             </Button>
           </div>
           
           <Separator />
           
           <div className="space-y-4">
-            <h2 className="text-lg font-semibold">Support</h2>
+            <h2 className="text-lg font-semibold">{t("more.support")}</h2>
             
             <Button 
               variant="ghost" 
               className="w-full justify-start"
               onClick={() => {
                 navigate("/help");
-                voiceAssistant.speak("Help and frequently asked questions page");
+                voiceAssistant.speakPrompt("page.help");
               }}
             >
-              <HelpCircle className="h-5 w-5 mr-2 text-gray-500" />
-              Help & FAQ
+              <HelpCircle className="h-5 w-5 me-2 text-gray-500" />
+              {t("more.help")}
             </Button>
             
             <Button 
@@ -180,11 +193,11 @@ const More = () => {
               className="w-full justify-start"
               onClick={() => {
                 navigate("/feedback");
-                voiceAssistant.speak("Send feedback page");
+                voiceAssistant.speakPrompt("page.feedback");
               }}
             >
-              <MessageSquare className="h-5 w-5 mr-2 text-gray-500" />
-              Send Feedback
+              <MessageSquare className="h-5 w-5 me-2 text-gray-500" />
+              {t("more.feedback")}
             </Button>
             
             <Button 
@@ -192,29 +205,29 @@ const More = () => {
               className="w-full justify-start"
               onClick={() => {
                 navigate("/privacy");
-                voiceAssistant.speak("Privacy policy page");
+                voiceAssistant.speakPrompt("page.privacy");
               }}
             >
-              <Shield className="h-5 w-5 mr-2 text-gray-500" />
-              Privacy Policy
+              <Shield className="h-5 w-5 me-2 text-gray-500" />
+              {t("more.privacy")}
             </Button>
           </div>
           
           <Separator />
           
           <div className="space-y-4">
-            <h2 className="text-lg font-semibold">About</h2>
+            <h2 className="text-lg font-semibold">{t("more.about-section")}</h2>
             
             <Button 
               variant="ghost" 
               className="w-full justify-start"
               onClick={() => {
                 navigate("/about");
-                voiceAssistant.speak("About AccessMap page");
+                voiceAssistant.speakPrompt("page.about");
               }}
             >
-              <Info className="h-5 w-5 mr-2 text-gray-500" />
-              About AccessMap
+              <Info className="h-5 w-5 me-2 text-gray-500" />
+              {t("more.about")}
             </Button>
             
             <Button 
@@ -222,8 +235,8 @@ const More = () => {
               className="w-full justify-start"
               onClick={handleShare}
             >
-              <Share2 className="h-5 w-5 mr-2 text-gray-500" />
-              Share AccessMap
+              <Share2 className="h-5 w-5 me-2 text-gray-500" />
+              {t("more.share")}
             </Button>
             
             <Button 
@@ -232,17 +245,17 @@ const More = () => {
               onClick={() => {
                 if (typeof window !== "undefined") {
                   window.open("https://play.google.com", "_blank");
-                  voiceAssistant.speak("Opening app store");
+                  voiceAssistant.speakPrompt("settings.opening-app-store");
                 }
               }}
             >
-              <Star className="h-5 w-5 mr-2 text-gray-500" />
-              Rate the App
+              <Star className="h-5 w-5 me-2 text-gray-500" />
+              {t("more.rate")}
             </Button>
           </div>
           
           <div className="text-center text-sm text-muted-foreground pt-4">
-            <p>AccessMap v1.0.0</p>
+            <p>{t("more.version", { version: "1.0.0" })}</p>
             <p>© 2023 AccessMap</p>
           </div>
         </div>
@@ -1,18 +1,34 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useSearchParams, useNavigate } from "react-router-dom";
 import { Map } from "@/components/map/Map";
 import { Header } from "@/components/layout/Header";
 import { RouteDisplay } from "@/components/navigation/RouteDisplay";
+import { DirectionalIcon, Inline } from "@/components/layout/direction";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft, Pause, Play } from "lucide-react";
 import { toast } from "sonner";
-import { fetchRoute } from "@/lib/overpass-api";
+import { Entrance, fetchAccessibleEntrances, fetchRoute, RouteAlternative, RouteStep } from "@/lib/overpass-api";
+import { calculateDistance, getBearing, getCompassDirection, type CompassDirection } from "@/lib/geo";
+import { NavigationEngine, NavigationProgress } from "@/lib/navigation-engine";
+import { getThresholdsFromPreferences, RoutingThresholds } from "@/lib/routing-profiles";
 import { VoiceAssistant } from "@/lib/voice-assistant";
+import { useTranslation } from "@/hooks/use-translation";
+import { useVoiceCommands } from "@/hooks/use-voice-commands";
 import { fine } from "@/lib/fine";
+import { describeElevatorStatus, isOutOfService, reportElevatorStatus, type ElevatorState } from "@/lib/elevator-status";
+import type { LocalizedText } from "@/lib/i18n";
+import { getSpeechLang } from "@/lib/locales";
+
+// Within this distance (meters) of the destination the user has arrived
+const ARRIVAL_RADIUS = 20;
+
+// Within this distance (meters) of the accessible entrance the last metres are done
+const ENTRANCE_RADIUS = 5;
 
 const Navigation = () => {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
+  const { data: session, isPending: isSessionPending } = fine.auth.useSession();
   
   const [origin, setOrigin] = useState<[number, number] | null>(null);
   const [destination, setDestination] = useState<[number, number] | null>(null);
@@ -24,21 +40,38 @@ const Navigation = () => {
   const [routeDetails, setRouteDetails] = useState<{
     distance: number;
     duration: number;
-    steps: Array<{
-      instruction: string;
-      distance: string;
-      duration: string;
-      isAccessible: boolean;
-    }>;
+    steps: RouteStep[];
   } | null>(null);
   const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
-  const [locationWatchId, setLocationWatchId] = useState<number | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+  const [progress, setProgress] = useState<NavigationProgress | null>(null);
+  const [entrance, setEntrance] = useState<Entrance | null>(null);
+  const [hasArrived, setHasArrived] = useState(false);
+  const [entranceGuidance, setEntranceGuidance] = useState<LocalizedText | null>(null);
   const [routeError, setRouteError] = useState<string | null>(null);
   const [routeGenerationAttempts, setRouteGenerationAttempts] = useState(0);
+  const [routeAlternatives, setRouteAlternatives] = useState<RouteAlternative[]>([]);
+  const [selectedAlternative, setSelectedAlternative] = useState(0);
+  // The straight line shown when no route could be found; nothing about it has been checked
+  const [isUnverifiedRoute, setIsUnverifiedRoute] = useState(false);
+  
+  const locationWatchIdRef = useRef<number | null>(null);
+  const engineRef = useRef<NavigationEngine | null>(null);
+  // Profile and limits used for the current route, reused when rerouting
+  const routeSettingsRef = useRef<{ profile: string; thresholds: RoutingThresholds }>({
+    profile: "wheelchair",
+    thresholds: {}
+  });
+  const isReroutingRef = useRef(false);
+  const lastEntranceDirectionRef = useRef<CompassDirection | null>(null);
   
   const voiceAssistant = VoiceAssistant.getInstance();
+  const { t, locale, localize, formatDistance, formatDuration } = useTranslation();
 
   useEffect(() => {
+    // Wait for the session so the route can use the user's preferences
+    if (isSessionPending) return;
+    
     // Parse from and to coordinates from URL
     const fromParam = searchParams.get("from");
     const toParam = searchParams.get("to");
@@ -62,16 +95,21 @@ const Navigation = () => {
         
         // Generate route using A* algorithm
         generateRoute(fromLat, fromLng, toLat, toLng);
+        
+        // Look up an accessible entrance for guidance over the last metres
+        fetchAccessibleEntrances(toLat, toLng).then(entrances => {
+          setEntrance(entrances[0] || null);
+        });
       } catch (error) {
         console.error("Error parsing route parameters:", error);
-        setRouteError("Invalid route parameters");
-        toast.error("Invalid route parameters");
-        voiceAssistant.speak("Invalid route parameters. Please try again.");
+        setRouteError(t("route.invalid"));
+        toast.error(t("route.invalid"));
+        voiceAssistant.speakPrompt("route.invalid");
       }
     } else {
-      setRouteError("Missing route parameters");
-      toast.error("Missing route parameters");
-      voiceAssistant.speak("Missing route parameters. Returning to map.");
+      setRouteError(t("route.missing"));
+      toast.error(t("route.missing"));
+      voiceAssistant.speakPrompt("route.missing");
       setTimeout(() => navigate("/"), 3000);
     }
     
@@ -84,7 +122,7 @@ const Navigation = () => {
         },
         (error) => {
           console.error("Error watching location:", error);
-          toast.error("Could not access your location for navigation");
+          toast.error(t("location.limited-navigation"));
         },
         {
           enableHighAccuracy: true,
@@ -93,28 +131,31 @@ const Navigation = () => {
         }
       );
       
-      setLocationWatchId(watchId);
+      locationWatchIdRef.current = watchId;
     } catch (error) {
       console.error("Error setting up location watching:", error);
     }
     
     // Cleanup
-    return () => {
-      if (locationWatchId !== null) {
-        navigator.geolocation.clearWatch(locationWatchId);
-      }
-    };
-  }, [searchParams, navigate]);
+    return () => stopLocationWatch();
+  }, [searchParams, navigate, isSessionPending]);
+
+  const stopLocationWatch = () => {
+    if (locationWatchIdRef.current !== null) {
+      navigator.geolocation.clearWatch(locationWatchIdRef.current);
+      locationWatchIdRef.current = null;
+    }
+  };
 
   const generateRoute = async (startLat: number, startLng: number, endLat: number, endLng: number) => {
     try {
       setIsLoading(true);
       setRouteError(null);
-      voiceAssistant.speak("Generating accessible route...");
+      voiceAssistant.speakPrompt("route.generating");
       
       // Get user preferences from database
-      const { data: session } = fine.auth.useSession();
       let routeProfile = "wheelchair"; // Default profile
+      let thresholds: RoutingThresholds = {};
       
       if (session?.user?.id) {
         try {
@@ -132,6 +173,9 @@ const Navigation = () => {
             } else if (prefs.preferredRouteType === "fewestSteps") {
               routeProfile = "foot-no-steps";
             }
+            
+            // Personal limits (incline, kerb height, width, ...) refine the profile
+            thresholds = getThresholdsFromPreferences(prefs);
           }
         } catch (error) {
           console.error("Error fetching user preferences:", error);
@@ -140,15 +184,22 @@ const Navigation = () => {
       }
       
       console.log(`Generating route with profile: ${routeProfile}`);
+      routeSettingsRef.current = { profile: routeProfile, thresholds };
       
-      // Add timeout to prevent hanging requests
-      const routePromise = fetchRoute(startLat, startLng, endLat, endLng, routeProfile);
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error("Route generation timed out")), 15000);
+      // Add timeout to prevent hanging requests (the footway network download can be slow)
+      const routePromise = fetchRoute(startLat, startLng, endLat, endLng, routeProfile, thresholds);
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => reject(new Error("Route generation timed out")), 45000);
       });
       
       // Race between route generation and timeout
-      const routeData = await Promise.race([routePromise, timeoutPromise]) as Awaited<ReturnType<typeof fetchRoute>>;
+      let routeData: Awaited<ReturnType<typeof fetchRoute>>;
+      try {
+        routeData = await Promise.race([routePromise, timeoutPromise]);
+      } finally {
+        clearTimeout(timeoutId);
+      }
       
       setRoute(routeData.route);
       setRouteDetails({
@@ -156,13 +207,28 @@ const Navigation = () => {
         duration: routeData.duration,
         steps: routeData.steps
       });
+      setRouteAlternatives(routeData.alternatives);
+      setSelectedAlternative(0);
+      setIsUnverifiedRoute(false);
       
-      voiceAssistant.speak("Route generated successfully.");
+      if (routeData.alternatives.length > 1) {
+        voiceAssistant.speakPrompt("route.ready-options", { count: routeData.alternatives.length });
+      } else {
+        voiceAssistant.speakPrompt("route.ready");
+      }
+      
+      // The recommended route only uses a broken elevator when there is no way around it
+      if (routeData.alternatives[0]?.summary.elevators.some(elevator => isOutOfService(elevator.status))) {
+        toast.warning(t("route.broken-elevator-warning"));
+        voiceAssistant.speakPrompt("route.broken-elevator-warning", undefined, { priority: "warning" });
+      }
     } catch (error) {
       console.error("Error generating route:", error);
-      setRouteError(`Failed to generate route: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      toast.error("Failed to generate route");
-      voiceAssistant.speak("Failed to generate route. Using simplified route instead.");
+      setRouteError(t("navigation.route-error-detail", {
+        message: error instanceof Error ? error.message : t("common.unknown-error")
+      }));
+      toast.error(t("navigation.route-failed"));
+      voiceAssistant.speakPrompt("route.failed");
       
       // Generate a simple direct route as fallback
       generateFallbackRoute(startLat, startLng, endLat, endLng);
@@ -174,166 +240,312 @@ const Navigation = () => {
     }
   };
   
-  // Generate a simple direct route when the main route generation fails
+  // Show a straight line when no route could be found. It is marked as
+  // unverified, and none of its steps count as accessible.
   const generateFallbackRoute = (startLat: number, startLng: number, endLat: number, endLng: number) => {
+    const route: Array<[number, number]> = [];
+    const segments = 10;
+    
+    for (let i = 0; i <= segments; i++) {
+      const ratio = i / segments;
+      route.push([startLat + (endLat - startLat) * ratio, startLng + (endLng - startLng) * ratio]);
+    }
+    
+    const distance = calculateDistance([startLat, startLng], [endLat, endLng]);
+    // Estimate duration (walking speed ~1.4 m/s)
+    const duration = distance / 1.4;
+    
+    setRoute(route);
+    setRouteAlternatives([]);
+    setIsUnverifiedRoute(true);
+    setRouteDetails({
+      distance,
+      duration,
+      steps: [
+        {
+          instruction: { key: "step.head-toward-destination" },
+          distance,
+          duration,
+          isAccessible: false,
+          location: [startLat, startLng],
+          routeIndex: 0
+        },
+        {
+          instruction: { key: "step.arrive" },
+          distance: 0,
+          duration: 0,
+          isAccessible: false,
+          location: [endLat, endLng],
+          routeIndex: route.length - 1
+        }
+      ]
+    });
+    
+    toast.warning(t("route.unverified"));
+    voiceAssistant.speakPrompt("route.simplified", undefined, { priority: "warning" });
+  };
+
+  // Switch to one of the alternative routes before starting
+  const selectAlternative = (index: number) => {
+    const alternative = routeAlternatives[index];
+    if (!alternative) return;
+    
+    setSelectedAlternative(index);
+    setRoute(alternative.route);
+    setRouteDetails({
+      distance: alternative.distance,
+      duration: alternative.duration,
+      steps: alternative.steps
+    });
+    
+    voiceAssistant.speakPrompt(
+      "route.selected",
+      {
+        label: t(`route-kind.${alternative.kind}`),
+        distance: formatDistance(alternative.distance),
+        crossings: t("route.crossings", { count: alternative.summary.crossings }),
+        description: alternative.summary.description
+      },
+      { interrupt: true }
+    );
+  };
+
+  // Report whether an elevator on the selected route is working, and show the new status
+  const handleReportElevator = async (index: number, state: ElevatorState) => {
+    const elevator = routeAlternatives[selectedAlternative]?.summary.elevators[index];
+    if (!elevator) return;
+    
     try {
-      // Create a simple straight line route
-      const route: Array<[number, number]> = [];
-      const steps = 10;
-      
-      for (let i = 0; i <= steps; i++) {
-        const ratio = i / steps;
-        const lat = startLat + (endLat - startLat) * ratio;
-        const lng = startLng + (endLng - startLng) * ratio;
-        route.push([lat, lng]);
-      }
-      
-      setRoute(route);
-      
-      // Calculate distance using Haversine formula
-      const R = 6371e3; // Earth's radius in meters
-      const φ1 = startLat * Math.PI / 180;
-      const φ2 = endLat * Math.PI / 180;
-      const Δφ = (endLat - startLat) * Math.PI / 180;
-      const Δλ = (endLng - startLng) * Math.PI / 180;
+      const status = await reportElevatorStatus(elevator.key, state, session?.user?.id);
       
-      const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) +
-                Math.cos(φ1) * Math.cos(φ2) *
-                Math.sin(Δλ/2) * Math.sin(Δλ/2);
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-      const distance = R * c;
-      
-      // Estimate duration (walking speed ~1.4 m/s)
-      const duration = distance / 1.4;
-      
-      setRouteDetails({
-        distance,
-        duration,
-        steps: [
-          {
-            instruction: "Head toward your destination",
-            distance: formatDistance(distance),
-            duration: formatDuration(duration),
-            isAccessible: true
-          },
-          {
-            instruction: "Arrive at your destination",
-            distance: "0 m",
-            duration: "0 min",
-            isAccessible: true
-          }
-        ]
-      });
+      setRouteAlternatives(prev => prev.map(alternative => ({
+        ...alternative,
+        summary: {
+          ...alternative.summary,
+          elevators: alternative.summary.elevators.map(entry =>
+            entry.key === elevator.key ? { ...entry, status } : entry
+          )
+        }
+      })));
       
-      toast.info("Using simplified route");
-      voiceAssistant.speak("Using simplified route. Some accessibility features may not be available.");
+      toast.success(t("elevator.updated"));
+      voiceAssistant.speakPrompt("elevator.updated");
     } catch (error) {
-      console.error("Error generating fallback route:", error);
-      setRouteError("Could not generate any route. Please try again.");
+      console.error("Error reporting elevator status:", error);
+      toast.error(t("elevator.update-failed"));
     }
   };
 
+  // The engine follows GPS updates and advances steps as maneuver points are passed
+  const createEngine = (route: Array<[number, number]>, steps: RouteStep[]) => {
+    engineRef.current = new NavigationEngine(route, steps, {
+      announceDistances: [50, 10],
+      offRouteDistance: 30,
+      offRouteDuration: 5000,
+      onStepChange: (stepIndex) => {
+        setCurrentStep(stepIndex);
+      },
+      onAnnounce: (text) => {
+        // A newer announcement replaces one that hasn't been spoken yet
+        voiceAssistant.speakText(text, { priority: "critical", key: "navigation.maneuver" });
+      },
+      onOffRoute: (position) => {
+        rerouteFrom(position);
+      }
+    });
+  };
+
   const startNavigation = () => {
+    if (!routeDetails || !route.length) return;
+    
+    createEngine(route, routeDetails.steps);
+    
     setIsNavigating(true);
+    setIsPaused(false);
     setCurrentStep(0);
+    setProgress(null);
+    setHasArrived(false);
+    setEntranceGuidance(null);
     
     // Announce start of navigation
-    voiceAssistant.speak(`Starting navigation to ${destinationName}. ${routeDetails?.steps[0].instruction}`);
+    voiceAssistant.speakPrompt(
+      "navigation.starting-step",
+      { destination: destinationName, instruction: routeDetails.steps[0].instruction },
+      { priority: "critical" }
+    );
+  };
+
+  // Fetch a new route from where the user actually is, keeping the same profile and limits
+  const rerouteFrom = async (position: [number, number]) => {
+    if (!destination || isReroutingRef.current) return;
     
-    // Simulate navigation progress
-    const interval = setInterval(() => {
-      setCurrentStep((prev) => {
-        if (prev >= (routeDetails?.steps.length || 0) - 1) {
-          clearInterval(interval);
-          toast.success("You have arrived at your destination!");
-          voiceAssistant.speak(`You have arrived at your destination: ${destinationName}`);
-          return prev;
-        }
-        return prev + 1;
-      });
-    }, 10000); // Advance to next step every 10 seconds for demo
+    isReroutingRef.current = true;
+    toast.info(t("navigation.off-route"));
+    voiceAssistant.speakPrompt("navigation.off-route", undefined, { priority: "critical" });
     
-    // Cleanup interval on component unmount
-    return () => clearInterval(interval);
+    try {
+      const { profile, thresholds } = routeSettingsRef.current;
+      const routeData = await fetchRoute(position[0], position[1], destination[0], destination[1], profile, thresholds);
+      
+      setRoute(routeData.route);
+      setRouteDetails({
+        distance: routeData.distance,
+        duration: routeData.duration,
+        steps: routeData.steps
+      });
+      setRouteAlternatives(routeData.alternatives);
+      setSelectedAlternative(0);
+      setCurrentStep(0);
+      setProgress(null);
+      
+      createEngine(routeData.route, routeData.steps);
+      voiceAssistant.speakPrompt("navigation.new-route", { instruction: routeData.steps[0].instruction }, { priority: "critical" });
+    } catch (error) {
+      // Keep the current route; the user can walk back to it
+      console.error("Error rerouting:", error);
+      toast.error(t("navigation.reroute-failed"));
+      voiceAssistant.speakPrompt("navigation.reroute-failed", undefined, { priority: "critical" });
+    } finally {
+      isReroutingRef.current = false;
+    }
   };
 
   const toggleNavigation = () => {
-    setIsNavigating(!isNavigating);
+    setIsPaused(!isPaused);
     
-    if (isNavigating) {
-      voiceAssistant.speak("Navigation paused");
+    if (isPaused) {
+      voiceAssistant.speakPrompt("navigation.resumed");
     } else {
-      voiceAssistant.speak("Navigation resumed");
+      voiceAssistant.speakPrompt("navigation.paused");
     }
   };
 
-  // Format distance for display
-  const formatDistance = (meters: number): string => {
-    if (meters < 1000) {
-      return `${Math.round(meters)} m`;
-    } else {
-      return `${(meters / 1000).toFixed(1)} km`;
+  // Follow the user's position along the route
+  useEffect(() => {
+    if (!isNavigating || isPaused || !userLocation || !engineRef.current) return;
+    
+    if (hasArrived) {
+      guideToEntrance(userLocation);
+      return;
     }
-  };
+    
+    setProgress(engineRef.current.update(userLocation));
+    
+    if (destination && calculateDistance(userLocation, destination) <= ARRIVAL_RADIUS) {
+      handleArrival(userLocation);
+    }
+  }, [userLocation, isNavigating, isPaused]);
 
-  // Format duration for display
-  const formatDuration = (seconds: number): string => {
-    const minutes = Math.round(seconds / 60);
-    if (minutes < 60) {
-      return `${minutes} min`;
+  const handleArrival = (location: [number, number]) => {
+    setHasArrived(true);
+    toast.success(t("navigation.arrived-destination"));
+    
+    if (destinationName) {
+      voiceAssistant.speakPrompt("navigation.arrived", { destination: destinationName }, { priority: "critical" });
     } else {
-      const hours = Math.floor(minutes / 60);
-      const remainingMinutes = minutes % 60;
-      return `${hours} hr ${remainingMinutes} min`;
+      voiceAssistant.speakPrompt("navigation.arrived-destination", undefined, { priority: "critical" });
+    }
+    
+    if (entrance && calculateDistance(location, [entrance.lat, entrance.lng]) > ENTRANCE_RADIUS) {
+      guideToEntrance(location);
+    } else {
+      stopLocationWatch();
     }
   };
 
-  // Check if user is near a waypoint
-  useEffect(() => {
-    if (!isNavigating || !userLocation || !route.length) return;
+  // Walk the user over the last metres from the destination point to its accessible entrance
+  const guideToEntrance = (location: [number, number]) => {
+    if (!entrance) return;
     
-    // Check distance to next waypoint
-    const nextWaypointIndex = Math.min(currentStep + 1, route.length - 1);
-    const nextWaypoint = route[nextWaypointIndex];
+    const entrancePoint: [number, number] = [entrance.lat, entrance.lng];
+    const distance = calculateDistance(location, entrancePoint);
     
-    const distance = calculateDistance(
-      userLocation[0],
-      userLocation[1],
-      nextWaypoint[0],
-      nextWaypoint[1]
-    );
+    if (distance <= ENTRANCE_RADIUS) {
+      const reached: LocalizedText = { key: "navigation.entrance-reached", params: { entrance: entrance.name } };
+      setEntranceGuidance(reached);
+      voiceAssistant.speakText(reached, { priority: "critical" });
+      stopLocationWatch();
+      return;
+    }
     
-    // If within 20 meters of next waypoint, advance to next step
-    if (distance < 0.02) {
-      if (currentStep < (routeDetails?.steps.length || 0) - 1) {
-        setCurrentStep(currentStep + 1);
-        
-        // Announce next instruction
-        if (routeDetails?.steps[currentStep + 1]) {
-          voiceAssistant.speak(routeDetails.steps[currentStep + 1].instruction);
-        }
-      }
+    const direction = getCompassDirection(getBearing(location, entrancePoint));
+    const guidance: LocalizedText = {
+      key: "navigation.entrance-direction",
+      params: { entrance: entrance.name, distance: formatDistance(distance), direction: { key: `direction.${direction}` } }
+    };
+    setEntranceGuidance(guidance);
+    
+    // Only speak again when the direction changes, not on every position update
+    if (lastEntranceDirectionRef.current !== direction) {
+      lastEntranceDirectionRef.current = direction;
+      voiceAssistant.speakText(guidance, { priority: "critical" });
     }
-  }, [userLocation, isNavigating, route]);
+  };
 
-  // Calculate distance between two points in km
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371; // Radius of the earth in km
-    const dLat = deg2rad(lat2 - lat1);
-    const dLon = deg2rad(lon2 - lon1);
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) *
-      Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    const d = R * c; // Distance in km
-    return d;
+  // Remaining distance along the route, from the last snapped position
+  const getDistanceRemaining = (): number => {
+    if (!routeDetails) return 0;
+    return progress ? progress.distanceRemaining : routeDetails.distance;
   };
   
-  const deg2rad = (deg: number): number => {
-    return deg * (Math.PI / 180);
+  // Scale the route's estimated duration by the share of distance left
+  const getDurationRemaining = (): number => {
+    if (!routeDetails || routeDetails.distance === 0) return 0;
+    return routeDetails.duration * (getDistanceRemaining() / routeDetails.distance);
   };
 
+  // Spoken commands that only make sense on this page; "help" lists them while it is open
+  useVoiceCommands("navigation", {
+    "next-step": () => {
+      if (!routeDetails) {
+        voiceAssistant.speakPrompt("navigation.not-started");
+        return;
+      }
+      
+      const nextStep = routeDetails.steps[currentStep + 1];
+      if (nextStep) {
+        voiceAssistant.speakPrompt("navigation.next-step", { instruction: nextStep.instruction }, { interrupt: true });
+      } else {
+        voiceAssistant.speakPrompt("navigation.last-step", undefined, { interrupt: true });
+      }
+    },
+    "repeat": () => {
+      const step = routeDetails?.steps[currentStep];
+      if (!step) {
+        voiceAssistant.speakPrompt("navigation.not-started");
+        return;
+      }
+      
+      voiceAssistant.speakText(step.instruction, { priority: "critical", key: "navigation.maneuver" });
+    },
+    "pause-navigation": () => {
+      if (!isNavigating) {
+        voiceAssistant.speakPrompt("navigation.not-started");
+      } else if (!isPaused) {
+        toggleNavigation();
+      }
+    },
+    "resume-navigation": () => {
+      if (!isNavigating) {
+        voiceAssistant.speakPrompt("navigation.not-started");
+      } else if (isPaused) {
+        toggleNavigation();
+      }
+    },
+    "how-far": () => {
+      if (!routeDetails) {
+        voiceAssistant.speakPrompt("navigation.not-started");
+        return;
+      }
+      
+      voiceAssistant.speakPrompt(
+        "navigation.how-far",
+        { distance: formatDistance(getDistanceRemaining()), duration: formatDuration(getDurationRemaining()) },
+        { interrupt: true }
+      );
+    }
+  });
+
   // Retry route generation
   const handleRetryRoute = () => {
     if (origin && destination) {
@@ -343,7 +555,7 @@ const Navigation = () => {
 
   return (
     <div className="flex flex-col h-screen">
-      <Header title="Navigation" showBackButton showSearch={false} />
+      <Header title={t("navigation.title")} showBackButton showSearch={false} />
       
       <main className="flex-1 pt-14 pb-0 relative">
         <Map
@@ -356,46 +568,57 @@ const Navigation = () => {
           {isLoading ? (
             <div className="p-4 flex justify-center items-center">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
-              <span className="ml-2">Generating accessible route...</span>
+              <span className="ms-2">{t("route.generating")}</span>
             </div>
           ) : routeError && routeGenerationAttempts > 1 ? (
             <div className="p-4 space-y-4">
               <div className="bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200 p-3 rounded-md">
-                <h3 className="font-medium">Error generating route</h3>
+                <h3 className="font-medium">{t("navigation.route-error")}</h3>
                 <p className="text-sm mt-1">{routeError}</p>
               </div>
               
-              <div className="flex space-x-3">
+              <Inline gap={3}>
                 <Button 
                   variant="outline" 
                   className="flex-1"
                   onClick={() => navigate("/")}
                 >
-                  Return to Map
+                  {t("navigation.return-to-map")}
                 </Button>
                 
                 <Button 
                   className="flex-1"
                   onClick={handleRetryRoute}
                 >
-                  Retry
+                  {t("common.retry")}
                 </Button>
-              </div>
+              </Inline>
             </div>
           ) : isNavigating ? (
             <div className="p-4 space-y-4">
               <div className="flex justify-between items-center">
                 <div>
                   <h2 className="text-lg font-bold">
-                    {currentStep < (routeDetails?.steps.length || 0) ? 
-                      routeDetails?.steps[currentStep].instruction : 
-                      "You have arrived"}
+                    {hasArrived ? t("navigation.you-arrived") : currentStep < (routeDetails?.steps.length || 0) ? 
+                      localize(routeDetails!.steps[currentStep].instruction) : 
+                      t("navigation.you-arrived")}
                   </h2>
                   <p className="text-sm text-muted-foreground">
-                    {currentStep < (routeDetails?.steps.length || 0) - 1 ? 
-                      `Next: ${routeDetails?.steps[currentStep + 1].instruction}` : 
-                      "Destination reached"}
+                    {hasArrived ? (entranceGuidance ? localize(entranceGuidance) : t("navigation.destination-reached")) : currentStep < (routeDetails?.steps.length || 0) - 1 ? 
+                      (progress?.distanceToNextManeuver != null
+                        ? t("navigation.next-in", {
+                          distance: formatDistance(progress.distanceToNextManeuver),
+                          instruction: routeDetails!.steps[currentStep + 1].instruction
+                        })
+                        : t("navigation.next-step", { instruction: routeDetails!.steps[currentStep + 1].instruction })) : 
+                      t("navigation.destination-reached")}
                   </p>
+                  {isUnverifiedRoute && (
+                    <p className="text-xs text-yellow-700 dark:text-yellow-300">{t("route.unverified")}</p>
+                  )}
+                  {isPaused && (
+                    <p className="text-xs text-muted-foreground">{t("navigation.paused-label")}</p>
+                  )}
                 </div>
                 
                 <Button 
@@ -403,38 +626,33 @@ const Navigation = () => {
                   size="icon"
                   onClick={toggleNavigation}
                 >
-                  {isNavigating ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                  {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
                 </Button>
               </div>
               
               <div className="flex justify-between text-sm">
                 <div>
-                  <div className="font-medium">Distance remaining</div>
+                  <div className="font-medium">{t("navigation.distance-remaining")}</div>
                   <div>
-                    {routeDetails ? formatDistance(
-                      routeDetails.distance * (1 - currentStep / (routeDetails.steps.length - 1))
-                    ) : "N/A"}
+                    {routeDetails ? formatDistance(getDistanceRemaining()) : t("navigation.not-available")}
                   </div>
                 </div>
                 
                 <div>
-                  <div className="font-medium">Time remaining</div>
+                  <div className="font-medium">{t("navigation.time-remaining")}</div>
                   <div>
-                    {routeDetails ? formatDuration(
-                      routeDetails.duration * (1 - currentStep / (routeDetails.steps.length - 1))
-                    ) : "N/A"}
+                    {routeDetails ? formatDuration(getDurationRemaining()) : t("navigation.not-available")}
                   </div>
                 </div>
                 
                 <div>
-                  <div className="font-medium">Arrival</div>
+                  <div className="font-medium">{t("navigation.arrival")}</div>
                   <div>
                     {(() => {
-                      if (!routeDetails) return "N/A";
+                      if (!routeDetails) return t("navigation.not-available");
                       const now = new Date();
-                      const remainingSeconds = routeDetails.duration * (1 - currentStep / (routeDetails.steps.length - 1));
-                      const arrivalTime = new Date(now.getTime() + remainingSeconds * 1000);
-                      return arrivalTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+                      const arrivalTime = new Date(now.getTime() + getDurationRemaining() * 1000);
+                      return arrivalTime.toLocaleTimeString(getSpeechLang(locale), { hour: '2-digit', minute: '2-digit' });
                     })()}
                   </div>
                 </div>
@@ -444,26 +662,43 @@ const Navigation = () => {
                 variant="ghost"
                 className="w-full"
                 onClick={() => {
-                  voiceAssistant.speak("Exiting navigation");
+                  voiceAssistant.speakPrompt("navigation.exiting");
                   navigate("/");
                 }}
               >
-                <ArrowLeft className="h-4 w-4 mr-2" />
-                Exit Navigation
+                <DirectionalIcon icon={ArrowLeft} className="h-4 w-4 me-2" />
+                {t("navigation.exit")}
               </Button>
             </div>
           ) : (
             <div className="p-4">
               {routeDetails && (
                 <RouteDisplay
-                  origin="Current Location"
-                  destination={destinationName || "Destination"}
+                  origin={t("route.current-location")}
+                  destination={destinationName || t("route.destination")}
                   totalDistance={formatDistance(routeDetails.distance)}
                   totalDuration={formatDuration(routeDetails.duration)}
                   steps={routeDetails.steps}
+                  currentStep={currentStep}
                   onStartNavigation={startNavigation}
                   isNavigating={isNavigating}
                   onToggleNavigation={toggleNavigation}
+                  alternatives={routeAlternatives.map(alternative => ({
+                    label: t(`route-kind.${alternative.kind}`),
+                    distance: formatDistance(alternative.distance),
+                    duration: formatDuration(alternative.duration),
+                    crossings: alternative.summary.crossings,
+                    description: alternative.summary.description,
+                    hasBrokenElevator: alternative.summary.elevators.some(elevator => isOutOfService(elevator.status))
+                  }))}
+                  selectedAlternative={selectedAlternative}
+                  onSelectAlternative={selectAlternative}
+                  elevators={(routeAlternatives[selectedAlternative]?.summary.elevators || []).map(elevator => ({
+                    status: elevator.status?.status || null,
+                    description: elevator.status ? describeElevatorStatus(elevator.status) : { key: "elevator.no-reports" }
+                  }))}
+                  onReportElevator={handleReportElevator}
+                  isUnverified={isUnverifiedRoute}
                 />
               )}
             </div>
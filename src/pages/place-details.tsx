@@ -4,6 +4,10 @@ import { fine } from "@/lib/fine";
 import { Header } from "@/components/layout/Header";
 import { BottomNav } from "@/components/layout/BottomNav";
 import { AccessibilityFeatures } from "@/components/places/AccessibilityFeatures";
+import { RatingDimensionsSummary } from "@/components/places/RatingDimensions";
+import { ReportList } from "@/components/places/ReportList";
+import { ElevatorStatusCard } from "@/components/places/ElevatorStatusCard";
+import { Inline } from "@/components/layout/direction";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { 
@@ -17,17 +21,33 @@ import {
   Loader2
 } from "lucide-react";
 import { Schema } from "@/lib/db-types";
+import { getFeatureText } from "@/lib/accessibility-features";
+import { withPlaceFeatures, type PlaceWithFeatures } from "@/lib/place-features";
+import { getDimensionAverages, type DimensionAverage } from "@/lib/review-ratings";
+import { getOpenReports, isModerator, type Report, type ReportStatus } from "@/lib/reports";
+import { describeCommunityRating } from "@/lib/ratings";
+import { hasMessage } from "@/lib/i18n";
+import { getElevatorStatus, getPlaceElevatorKey, type ElevatorStatus } from "@/lib/elevator-status";
 import { toast } from "sonner";
 import { VoiceAssistant } from "@/lib/voice-assistant";
+import { useTranslation } from "@/hooks/use-translation";
+import { useVoiceCommands } from "@/hooks/use-voice-commands";
 
 const PlaceDetails = () => {
   const { id } = useParams<{ id: string }>();
-  const [place, setPlace] = useState<Schema["places"] | null>(null);
+  const [place, setPlace] = useState<PlaceWithFeatures | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
   const [loadError, setLoadError] = useState<string | null>(null);
+  const [dimensionAverages, setDimensionAverages] = useState<DimensionAverage[]>([]);
+  const [reviews, setReviews] = useState<Schema["reviews"][]>([]);
+  const [openReports, setOpenReports] = useState<Report[]>([]);
+  const [moderatorId, setModeratorId] = useState<string | null>(null);
+  const [elevatorStatus, setElevatorStatus] = useState<ElevatorStatus | null>(null);
   const navigate = useNavigate();
+  const { data: session } = fine.auth.useSession();
   const voiceAssistant = VoiceAssistant.getInstance();
+  const { t, formatNumber } = useTranslation();
 
   useEffect(() => {
     // Get user location
@@ -38,7 +58,7 @@ const PlaceDetails = () => {
       },
       (error) => {
         console.error("Error getting location:", error);
-        toast.error("Could not access your location. Some navigation features may be limited.");
+        toast.error(t("location.limited-navigation"));
       },
       {
         enableHighAccuracy: true,
@@ -67,32 +87,28 @@ const PlaceDetails = () => {
         
         if (place && place.length > 0) {
           console.log("Place details found:", place[0]);
-          setPlace(place[0]);
-          
-          // Announce place details
-          try {
-            const accessibilityFeatures = JSON.parse(place[0].accessibilityFeatures || '[]');
-            voiceAssistant.speak(
-              `${place[0].name}. ${accessibilityFeatures.length} accessibility features including ${accessibilityFeatures.slice(0, 3).join(', ')}`
-            );
-          } catch (parseError) {
-            console.error("Error parsing accessibility features:", parseError);
-            voiceAssistant.speak(`${place[0].name}`);
+          const [placeWithFeatures] = await withPlaceFeatures([place[0]]);
+          setPlace(placeWithFeatures);
+          announcePlace(placeWithFeatures);
+          fetchDimensionAverages(placeWithFeatures.id!);
+          fetchOpenReports(placeWithFeatures.id!);
+          if (placeWithFeatures.accessibilityFeatures.includes("elevator")) {
+            fetchElevatorStatus(placeWithFeatures.id!);
           }
         } else {
           console.error("Place not found");
-          setLoadError("Place not found");
-          toast.error("Place not found");
-          voiceAssistant.speak("Place not found");
+          setLoadError(t("place.not-found"));
+          toast.error(t("place.not-found"));
+          voiceAssistant.speakPrompt("place.not-found");
           
           // Try to get place from sample data
           tryFallbackPlace(parseInt(id));
         }
       } catch (error) {
         console.error("Error fetching place details:", error);
-        setLoadError("Failed to load place details");
-        toast.error("Failed to load place details");
-        voiceAssistant.speak("Failed to load place details");
+        setLoadError(t("place.load-failed"));
+        toast.error(t("place.load-failed"));
+        voiceAssistant.speakPrompt("place.load-failed");
         
         // Try to get place from sample data
         tryFallbackPlace(parseInt(id));
@@ -104,7 +120,7 @@ const PlaceDetails = () => {
     // Try to get place from fallback data
     const tryFallbackPlace = (placeId: number) => {
       // Sample fallback places
-      const fallbackPlaces = [
+      const fallbackPlaces: PlaceWithFeatures[] = [
         {
           id: 1001,
           name: "Loyola Academy",
@@ -113,8 +129,7 @@ const PlaceDetails = () => {
           address: "Near Kishkintha, Raja Gopala Kandigai, Tharkas (Post) Erumaiyur, West Tambaram, Chennai - 600 044.",
           phone: "+919145604423",
           website: "www.loyola.edu.in",
-          accessibilityFeatures: JSON.stringify(["Ramp", "Automatic Doors", "Handrails"]),
-          rating: 4.5,
+          accessibilityFeatures: ["ramp", "automatic-doors", "handrails"],
           placeType: "education"
         },
         {
@@ -125,8 +140,7 @@ const PlaceDetails = () => {
           address: "Shastri Nagar, Adyar, Chennai, Tamil Nadu",
           phone: "+919876543210",
           website: "www.bistrograph.com",
-          accessibilityFeatures: JSON.stringify(["Accessible Washroom", "Ramp"]),
-          rating: 4.2,
+          accessibilityFeatures: ["accessible-washroom", "ramp"],
           placeType: "restaurant"
         },
         {
@@ -137,8 +151,7 @@ const PlaceDetails = () => {
           address: "Gandhi Road, Tambaram, Chennai, Tamil Nadu",
           phone: "+919123456789",
           website: "www.nirmaleyehospital.com",
-          accessibilityFeatures: JSON.stringify(["Elevator", "Wheelchair Access"]),
-          rating: 4.0,
+          accessibilityFeatures: ["elevator", "wheelchair-access"],
           placeType: "hospital"
         }
       ];
@@ -150,67 +163,150 @@ const PlaceDetails = () => {
         console.log("Using fallback place data:", fallbackPlace);
         setPlace(fallbackPlace);
         setLoadError(null);
-        
-        // Announce place details
-        try {
-          const accessibilityFeatures = JSON.parse(fallbackPlace.accessibilityFeatures || '[]');
-          voiceAssistant.speak(
-            `${fallbackPlace.name}. ${accessibilityFeatures.length} accessibility features including ${accessibilityFeatures.slice(0, 3).join(', ')}`
-          );
-        } catch (parseError) {
-          console.error("Error parsing accessibility features:", parseError);
-          voiceAssistant.speak(`${fallbackPlace.name}`);
-        }
+        announcePlace(fallbackPlace);
+      }
+    };
+    
+    // Average the per-area scores from this place's reviews, and keep them to read aloud
+    const fetchDimensionAverages = async (placeId: number) => {
+      try {
+        const reviews = await fine.table("reviews").select().eq("placeId", placeId);
+        setReviews(reviews || []);
+        setDimensionAverages(getDimensionAverages(reviews || []));
+      } catch (error) {
+        console.error("Error fetching review ratings:", error);
+      }
+    };
+    
+    // Problems reported at this place that haven't been resolved yet
+    const fetchOpenReports = async (placeId: number) => {
+      try {
+        setOpenReports(await getOpenReports(placeId));
+      } catch (error) {
+        console.error("Error fetching reports:", error);
+      }
+    };
+    
+    // Latest working / out-of-service report for the place's elevator
+    const fetchElevatorStatus = async (placeId: number) => {
+      try {
+        setElevatorStatus(await getElevatorStatus(getPlaceElevatorKey(placeId)));
+      } catch (error) {
+        console.error("Error fetching elevator status:", error);
       }
     };
+    
+    // Announce place details
+    const announcePlace = (details: PlaceWithFeatures) => {
+      const features = details.accessibilityFeatures;
+      const rating = describeCommunityRating(details.communityRating, details.reviewCount);
+      if (features.length === 0) {
+        voiceAssistant.speakPrompt("place.summary", { name: details.name, rating });
+        return;
+      }
+      
+      voiceAssistant.speakPrompt("place.summary-features", {
+        name: details.name,
+        rating,
+        count: features.length,
+        features: features.slice(0, 3).map(getFeatureText)
+      });
+    };
 
     fetchPlaceDetails();
   }, [id, navigate]);
 
   const handleShowDirections = () => {
     if (!place || !userLocation) {
-      toast.error("Unable to get your location. Please enable location services.");
-      voiceAssistant.speak("Unable to get your location. Please enable location services.");
+      toast.error(t("location.enable"));
+      voiceAssistant.speakPrompt("location.enable");
       return;
     }
     
     console.log(`Navigating to ${place.name} at [${place.lat}, ${place.lng}]`);
-    voiceAssistant.speak(`Showing directions to ${place.name}`);
+    voiceAssistant.speakPrompt("place.directions", { name: place.name });
     navigate(`/navigation?from=${userLocation[0]},${userLocation[1]}&to=${place.lat},${place.lng}&name=${encodeURIComponent(place.name)}`);
   };
 
   const handleAddReview = () => {
-    voiceAssistant.speak("Add review page");
+    voiceAssistant.speakPrompt("page.add-review");
     navigate(`/add-review/${id}`);
   };
 
+  useEffect(() => {
+    // Moderators can move reports through their lifecycle from this page
+    const userId = session?.user?.id;
+    if (!userId) {
+      setModeratorId(null);
+      return;
+    }
+    
+    isModerator(userId)
+      .then(moderator => setModeratorId(moderator ? userId : null))
+      .catch(error => console.error("Error checking moderator status:", error));
+  }, [session?.user?.id]);
+
   const handleReportProblem = () => {
-    toast.info("Problem reporting feature coming soon");
-    voiceAssistant.speak("Problem reporting feature coming soon");
+    voiceAssistant.speakPrompt("page.report-problem");
+    navigate(`/report-problem/${id}`);
+  };
+
+  const handleReportUpdated = (report: Report, status: ReportStatus) => {
+    setOpenReports(prev => status === "resolved"
+      ? prev.filter(entry => entry.id !== report.id)
+      : prev.map(entry => entry.id === report.id ? { ...entry, status } : entry));
   };
 
   const handleCall = () => {
     if (place?.phone) {
-      voiceAssistant.speak(`Calling ${place.name}`);
+      voiceAssistant.speakPrompt("place.calling", { name: place.name });
       window.location.href = `tel:${place.phone}`;
     }
   };
 
   const handleVisitWebsite = () => {
     if (place?.website) {
-      voiceAssistant.speak(`Opening website for ${place.name}`);
+      voiceAssistant.speakPrompt("place.website", { name: place.name });
       window.open(place.website.startsWith('http') ? place.website : `https://${place.website}`, '_blank');
     }
   };
 
+  // Read the newest few reviews aloud
+  const handleReadReviews = () => {
+    if (reviews.length === 0) {
+      voiceAssistant.speakPrompt("place.no-reviews");
+      return;
+    }
+    
+    const text = [...reviews]
+      .sort((a, b) => (b.createdAt || "").localeCompare(a.createdAt || ""))
+      .slice(0, 3)
+      .map(review => voiceAssistant.getPrompt("place.review", { rating: review.rating, comment: review.comment || "" }).trim())
+      .join(" ");
+    voiceAssistant.speak(text, { key: "place.reviews", interrupt: true });
+  };
+
+  // Spoken commands for this place; "help" lists them while the page is open
+  useVoiceCommands("place-details", {
+    "call": () => {
+      if (place?.phone) {
+        handleCall();
+      } else {
+        voiceAssistant.speakPrompt("place.no-phone");
+      }
+    },
+    "directions": () => handleShowDirections(),
+    "read-reviews": () => handleReadReviews()
+  });
+
   if (isLoading) {
     return (
       <div className="flex flex-col h-screen">
-        <Header title="Place Details" showBackButton />
+        <Header title={t("place.title")} showBackButton />
         <main className="flex-1 pt-14 pb-16 flex items-center justify-center">
           <div className="flex flex-col items-center">
             <Loader2 className="h-8 w-8 animate-spin text-primary mb-4" />
-            <p>Loading place details...</p>
+            <p>{t("place.loading")}</p>
           </div>
         </main>
         <BottomNav />
@@ -221,15 +317,15 @@ const PlaceDetails = () => {
   if (!place) {
     return (
       <div className="flex flex-col h-screen">
-        <Header title="Place Details" showBackButton />
+        <Header title={t("place.title")} showBackButton />
         <main className="flex-1 pt-14 pb-16 flex items-center justify-center">
           <div className="text-center">
-            <h2 className="text-xl font-bold">Place not found</h2>
+            <h2 className="text-xl font-bold">{t("place.not-found")}</h2>
             <p className="text-muted-foreground mt-2">
-              {loadError || "The place you're looking for doesn't exist or has been removed."}
+              {loadError || t("place.not-found-detail")}
             </p>
             <Button className="mt-4" onClick={() => navigate("/")}>
-              Back to Home
+              {t("place.back-home")}
             </Button>
           </div>
         </main>
@@ -238,15 +334,7 @@ const PlaceDetails = () => {
     );
   }
 
-  // Parse accessibility features
-  let accessibilityFeatures: string[] = [];
-  try {
-    accessibilityFeatures = JSON.parse(place.accessibilityFeatures || '[]');
-  } catch (error) {
-    console.error("Error parsing accessibility features:", error);
-    // Provide default features if parsing fails
-    accessibilityFeatures = ["Wheelchair Access"];
-  }
+  const placeTypeKey = `place-type.${place.placeType}`;
 
   return (
     <div className="flex flex-col h-screen">
@@ -254,7 +342,7 @@ const PlaceDetails = () => {
       
       <main className="flex-1 pt-14 pb-16 overflow-y-auto">
         <div className="p-4 space-y-6">
-          <div className="flex items-center space-x-4">
+          <Inline gap={4}>
             <div className="w-12 h-12 rounded-full bg-green-100 dark:bg-green-900 flex items-center justify-center">
               <div className="text-green-600 dark:text-green-300">
                 👍
@@ -263,24 +351,38 @@ const PlaceDetails = () => {
             
             <div>
               <h1 className="text-2xl font-bold">{place.name}</h1>
-              {place.rating && (
+              {place.communityRating ? (
                 <div className="flex items-center text-yellow-500">
                   <Star className="h-4 w-4 fill-current" />
-                  <span className="ml-1">{place.rating.toFixed(1)}</span>
+                  <span className="ms-1">
+                    {formatNumber(place.communityRating, { minimumFractionDigits: 1, maximumFractionDigits: 1 })}
+                  </span>
+                  {place.reviewCount ? (
+                    <span className="ms-2 text-sm text-muted-foreground">
+                      {t("place.community-rating", { count: place.reviewCount })}
+                    </span>
+                  ) : null}
                 </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">{t("place.no-reviews")}</p>
+              )}
+              {place.osmWheelchair && (
+                <p className="text-sm text-muted-foreground">
+                  {t("place.osm-status", { status: t(`osm-wheelchair.${place.osmWheelchair}`) })}
+                </p>
               )}
             </div>
-          </div>
+          </Inline>
           
           <div className="space-y-4">
             <div className="flex items-start">
-              <MapPin className="h-5 w-5 mr-2 text-gray-500 mt-0.5" />
-              <p className="text-sm">{place.address}</p>
+              <MapPin className="h-5 w-5 me-2 text-gray-500 mt-0.5" />
+              <p className="text-sm">{place.address || t("place.address-unavailable")}</p>
             </div>
             
             {place.phone && (
               <div className="flex items-center">
-                <Phone className="h-5 w-5 mr-2 text-gray-500" />
+                <Phone className="h-5 w-5 me-2 text-gray-500" />
                 <a 
                   href={`tel:${place.phone}`} 
                   className="text-sm text-blue-600 dark:text-blue-400"
@@ -296,7 +398,7 @@ const PlaceDetails = () => {
             
             {place.website && (
               <div className="flex items-center">
-                <Globe className="h-5 w-5 mr-2 text-gray-500" />
+                <Globe className="h-5 w-5 me-2 text-gray-500" />
                 <a 
                   href={place.website.startsWith('http') ? place.website : `https://${place.website}`} 
                   target="_blank" 
@@ -314,7 +416,9 @@ const PlaceDetails = () => {
             
             <div className="flex items-center">
               <div className="px-3 py-1 bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-100 rounded-full text-sm">
-                {place.placeType.charAt(0).toUpperCase() + place.placeType.slice(1)}
+                {hasMessage(placeTypeKey)
+                  ? t(placeTypeKey)
+                  : place.placeType.charAt(0).toUpperCase() + place.placeType.slice(1)}
               </div>
             </div>
           </div>
@@ -322,16 +426,46 @@ const PlaceDetails = () => {
           <Separator />
           
           <div>
-            <h2 className="text-lg font-semibold mb-3">Accessibility Features</h2>
-            <AccessibilityFeatures features={accessibilityFeatures} />
+            <h2 className="text-lg font-semibold mb-3">{t("place.features")}</h2>
+            <AccessibilityFeatures features={place.accessibilityFeatures} />
           </div>
           
+          {place.id && place.accessibilityFeatures.includes("elevator") && (
+            <div>
+              <h2 className="text-lg font-semibold mb-3">{t("place.elevator-status")}</h2>
+              <ElevatorStatusCard
+                elevatorKey={getPlaceElevatorKey(place.id)}
+                status={elevatorStatus}
+                userId={session?.user?.id}
+                onStatusUpdated={setElevatorStatus}
+              />
+            </div>
+          )}
+          
+          {openReports.length > 0 && (
+            <div>
+              <h2 className="text-lg font-semibold mb-3">{t("place.reported-problems")}</h2>
+              <ReportList
+                reports={openReports}
+                moderatorId={moderatorId}
+                onReportUpdated={handleReportUpdated}
+              />
+            </div>
+          )}
+          
+          {dimensionAverages.length > 0 && (
+            <div>
+              <h2 className="text-lg font-semibold mb-3">{t("place.ratings-by-area")}</h2>
+              <RatingDimensionsSummary averages={dimensionAverages} />
+            </div>
+          )}
+          
           <Button 
             className="w-full"
             onClick={handleShowDirections}
           >
-            <Navigation2 className="h-4 w-4 mr-2" />
-            Show Directions
+            <Navigation2 className="h-4 w-4 me-2" />
+            {t("place.show-directions")}
           </Button>
           
           <Button 
@@ -339,8 +473,8 @@ const PlaceDetails = () => {
             className="w-full"
             onClick={handleAddReview}
           >
-            <MessageSquare className="h-4 w-4 mr-2" />
-            Add Review
+            <MessageSquare className="h-4 w-4 me-2" />
+            {t("place.add-review")}
           </Button>
           
           <div className="pt-4">
@@ -349,8 +483,8 @@ const PlaceDetails = () => {
               className="w-full text-red-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
               onClick={handleReportProblem}
             >
-              <AlertTriangle className="h-4 w-4 mr-2" />
-              Report A Problem
+              <AlertTriangle className="h-4 w-4 me-2" />
+              {t("place.report-problem")}
             </Button>
           </div>
         </div>
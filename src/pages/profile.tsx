@@ -2,12 +2,15 @@ import { useEffect, useState } from "react";
 import { fine } from "@/lib/fine";
 import { Header } from "@/components/layout/Header";
 import { BottomNav } from "@/components/layout/BottomNav";
+import { Inline } from "@/components/layout/direction";
+import { LanguageSelect } from "@/components/layout/LanguageSelect";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
 import { 
   User, 
   Settings, 
@@ -16,12 +19,16 @@ import {
   Eye, 
   Ear, 
   Brain, 
-  Route 
+  Route,
+  SlidersHorizontal,
+  Languages
 } from "lucide-react";
 import { toast } from "sonner";
 import { useNavigate } from "react-router-dom";
 import { Schema } from "@/lib/db-types";
 import { VoiceAssistant } from "@/lib/voice-assistant";
+import type { MessageKey } from "@/lib/i18n";
+import { useTranslation } from "@/hooks/use-translation";
 
 const Profile = () => {
   const { data: session } = fine.auth.useSession();
@@ -29,6 +36,7 @@ const Profile = () => {
   const [isLoading, setIsLoading] = useState(true);
   const navigate = useNavigate();
   const voiceAssistant = VoiceAssistant.getInstance();
+  const { t, formatNumber } = useTranslation();
 
   useEffect(() => {
     const fetchUserPreferences = async () => {
@@ -105,33 +113,49 @@ const Profile = () => {
       setPreferences(updatedPrefs);
       
       await fine.table("userPreferences").update({ [key]: value }).eq("id", preferences.id);
-      toast.success("Preferences updated");
+      toast.success(t("profile.preferences-updated"));
       
       // Announce the change
-      voiceAssistant.speak(`${key} preference updated`);
+      voiceAssistant.speakPrompt("settings.preference-updated");
       
       // Apply preferences to the app
       applyPreferences(updatedPrefs);
     } catch (error) {
       console.error("Error updating preferences:", error);
-      toast.error("Failed to update preferences");
+      toast.error(t("profile.preferences-update-failed"));
     }
   };
 
+  // Routing limits shown as sliders; null means the routing profile's default applies
+  const thresholdSliders: Array<{
+    key: "maxInclinePercent" | "maxKerbHeightCm" | "minPathWidthM" | "maxRestSpacingM";
+    label: MessageKey;
+    min: number;
+    max: number;
+    step: number;
+    defaultValue: number;
+    format: (value: number) => string;
+  }> = [
+    { key: "maxInclinePercent", label: "profile.max-incline", min: 2, max: 20, step: 1, defaultValue: 8, format: (value) => t("unit.percent", { value }) },
+    { key: "maxKerbHeightCm", label: "profile.max-kerb-height", min: 0, max: 20, step: 1, defaultValue: 3, format: (value) => t("unit.centimeters", { value }) },
+    { key: "minPathWidthM", label: "profile.min-path-width", min: 0.5, max: 2, step: 0.1, defaultValue: 0.9, format: (value) => t("unit.meters", { value: formatNumber(value, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) }) },
+    { key: "maxRestSpacingM", label: "profile.max-rest-spacing", min: 100, max: 1000, step: 50, defaultValue: 300, format: (value) => t("unit.meters", { value }) }
+  ];
+
   const handleLogout = async () => {
     try {
-      voiceAssistant.speak("Signing out");
+      voiceAssistant.speakPrompt("account.signing-out");
       await fine.auth.signOut();
       navigate("/");
     } catch (error) {
       console.error("Error signing out:", error);
-      toast.error("Failed to sign out");
+      toast.error(t("profile.sign-out-failed"));
     }
   };
 
   return (
     <div className="flex flex-col h-screen">
-      <Header title="Profile" />
+      <Header title={t("profile.title")} />
       
       <main className="flex-1 pt-14 pb-16 overflow-y-auto">
         <div className="p-4 space-y-6">
@@ -139,11 +163,11 @@ const Profile = () => {
             <>
               <Card>
                 <CardHeader className="pb-2">
-                  <CardTitle>Profile</CardTitle>
-                  <CardDescription>Manage your account information</CardDescription>
+                  <CardTitle>{t("profile.title")}</CardTitle>
+                  <CardDescription>{t("profile.account-description")}</CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div className="flex items-center space-x-4">
+                  <Inline gap={4}>
                     <div className="w-12 h-12 rounded-full bg-primary flex items-center justify-center text-primary-foreground">
                       <User className="h-6 w-6" />
                     </div>
@@ -152,25 +176,25 @@ const Profile = () => {
                       <h3 className="font-medium">{session.user.name}</h3>
                       <p className="text-sm text-muted-foreground">{session.user.email}</p>
                     </div>
-                  </div>
+                  </Inline>
                   
                   <Button 
                     variant="outline" 
                     className="w-full mt-4"
                     onClick={() => {
                       navigate("/edit-profile");
-                      voiceAssistant.speak("Edit profile page");
+                      voiceAssistant.speakPrompt("page.edit-profile");
                     }}
                   >
-                    Edit Profile
+                    {t("profile.edit")}
                   </Button>
                 </CardContent>
               </Card>
               
               <Card>
                 <CardHeader className="pb-2">
-                  <CardTitle>Accessibility Preferences</CardTitle>
-                  <CardDescription>Customize your navigation experience</CardDescription>
+                  <CardTitle>{t("profile.preferences")}</CardTitle>
+                  <CardDescription>{t("profile.preferences-description")}</CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   {isLoading ? (
@@ -182,30 +206,38 @@ const Profile = () => {
                   ) : preferences ? (
                     <>
                       <div className="space-y-2">
-                        <Label htmlFor="mobilityAid">Mobility Aid</Label>
+                        <Inline>
+                          <Languages className="h-4 w-4" />
+                          <Label htmlFor="locale">{t("more.language")}</Label>
+                        </Inline>
+                        <LanguageSelect id="locale" />
+                      </div>
+                      
+                      <div className="space-y-2">
+                        <Label htmlFor="mobilityAid">{t("profile.mobility-aid")}</Label>
                         <Select
                           value={preferences.mobilityAid || "none"}
                           onValueChange={(value) => updatePreference("mobilityAid", value === "none" ? null : value)}
                         >
                           <SelectTrigger id="mobilityAid">
-                            <SelectValue placeholder="Select mobility aid" />
+                            <SelectValue placeholder={t("profile.select-mobility-aid")} />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="none">None</SelectItem>
-                            <SelectItem value="wheelchair">Wheelchair</SelectItem>
-                            <SelectItem value="walker">Walker</SelectItem>
-                            <SelectItem value="cane">Cane</SelectItem>
-                            <SelectItem value="crutches">Crutches</SelectItem>
+                            <SelectItem value="none">{t("mobility-aid.none")}</SelectItem>
+                            <SelectItem value="wheelchair">{t("mobility-aid.wheelchair")}</SelectItem>
+                            <SelectItem value="walker">{t("mobility-aid.walker")}</SelectItem>
+                            <SelectItem value="cane">{t("mobility-aid.cane")}</SelectItem>
+                            <SelectItem value="crutches">{t("mobility-aid.crutches")}</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
                       
                       <div className="space-y-4">
                         <div className="flex items-center justify-between">
-                          <div className="flex items-center space-x-2">
+                          <Inline>
                             <AccessibilityIcon className="h-4 w-4" />
-                            <Label htmlFor="mobilityNeeds">Mobility Needs</Label>
-                          </div>
+                            <Label htmlFor="mobilityNeeds">{t("profile.mobility-needs")}</Label>
+                          </Inline>
                           <Switch
                             id="mobilityNeeds"
                             checked={!!preferences.mobilityAid}
@@ -214,10 +246,10 @@ const Profile = () => {
                         </div>
                         
                         <div className="flex items-center justify-between">
-                          <div className="flex items-center space-x-2">
+                          <Inline>
                             <Eye className="h-4 w-4" />
-                            <Label htmlFor="visualNeeds">Visual Needs</Label>
-                          </div>
+                            <Label htmlFor="visualNeeds">{t("profile.visual-needs")}</Label>
+                          </Inline>
                           <Switch
                             id="visualNeeds"
                             checked={preferences.visualNeeds || false}
@@ -226,10 +258,10 @@ const Profile = () => {
                         </div>
                         
                         <div className="flex items-center justify-between">
-                          <div className="flex items-center space-x-2">
+                          <Inline>
                             <Ear className="h-4 w-4" />
-                            <Label htmlFor="hearingNeeds">Hearing Needs</Label>
-                          </div>
+                            <Label htmlFor="hearingNeeds">{t("profile.hearing-needs")}</Label>
+                          </Inline>
                           <Switch
                             id="hearingNeeds"
                             checked={preferences.hearingNeeds || false}
@@ -238,10 +270,10 @@ const Profile = () => {
                         </div>
                         
                         <div className="flex items-center justify-between">
-                          <div className="flex items-center space-x-2">
+                          <Inline>
                             <Brain className="h-4 w-4" />
-                            <Label htmlFor="cognitiveNeeds">Cognitive Needs</Label>
-                          </div>
+                            <Label htmlFor="cognitiveNeeds">{t("profile.cognitive-needs")}</Label>
+                          </Inline>
                           <Switch
                             id="cognitiveNeeds"
                             checked={preferences.cognitiveNeeds || false}
@@ -253,35 +285,98 @@ const Profile = () => {
                       <Separator />
                       
                       <div className="space-y-2">
-                        <div className="flex items-center space-x-2">
+                        <Inline>
                           <Route className="h-4 w-4" />
-                          <Label htmlFor="preferredRouteType">Preferred Route Type</Label>
-                        </div>
+                          <Label htmlFor="preferredRouteType">{t("profile.route-type")}</Label>
+                        </Inline>
                         <Select
                           value={preferences.preferredRouteType || "shortest"}
                           onValueChange={(value) => updatePreference("preferredRouteType", value)}
                         >
                           <SelectTrigger id="preferredRouteType">
-                            <SelectValue placeholder="Select route type" />
+                            <SelectValue placeholder={t("profile.select-route-type")} />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="shortest">Shortest</SelectItem>
-                            <SelectItem value="mostAccessible">Most Accessible</SelectItem>
-                            <SelectItem value="fewestSteps">Fewest Steps</SelectItem>
-                            <SelectItem value="leastCrowded">Least Crowded</SelectItem>
+                            <SelectItem value="shortest">{t("route-type.shortest")}</SelectItem>
+                            <SelectItem value="mostAccessible">{t("route-type.most-accessible")}</SelectItem>
+                            <SelectItem value="fewestSteps">{t("route-type.fewest-steps")}</SelectItem>
+                            <SelectItem value="leastCrowded">{t("route-type.least-crowded")}</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
+                      
+                      <Separator />
+                      
+                      <div className="space-y-4">
+                        <Inline>
+                          <SlidersHorizontal className="h-4 w-4" />
+                          <Label>{t("profile.routing-limits")}</Label>
+                        </Inline>
+                        
+                        {thresholdSliders.map((slider) => {
+                          const value = preferences[slider.key];
+                          
+                          return (
+                            <div key={slider.key} className="space-y-2">
+                              <div className="flex items-center justify-between">
+                                <Label htmlFor={slider.key} className="text-sm font-normal">{t(slider.label)}</Label>
+                                <Inline>
+                                  <span className="text-sm text-muted-foreground">
+                                    {value != null ? slider.format(value) : t("profile.profile-default")}
+                                  </span>
+                                  {value != null && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="h-6 px-2 text-xs"
+                                      onClick={() => updatePreference(slider.key, null)}
+                                    >
+                                      {t("profile.reset")}
+                                    </Button>
+                                  )}
+                                </Inline>
+                              </div>
+                              <Slider
+                                id={slider.key}
+                                min={slider.min}
+                                max={slider.max}
+                                step={slider.step}
+                                value={[value ?? slider.defaultValue]}
+                                onValueChange={([newValue]) => setPreferences({ ...preferences, [slider.key]: newValue })}
+                                onValueCommit={([newValue]) => updatePreference(slider.key, newValue)}
+                              />
+                            </div>
+                          );
+                        })}
+                        
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor="avoidCobblestones" className="text-sm font-normal">{t("profile.avoid-cobblestones")}</Label>
+                          <Switch
+                            id="avoidCobblestones"
+                            checked={preferences.avoidCobblestones || false}
+                            onCheckedChange={(checked) => updatePreference("avoidCobblestones", checked)}
+                          />
+                        </div>
+                        
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor="avoidUnlitPaths" className="text-sm font-normal">{t("profile.avoid-unlit-paths")}</Label>
+                          <Switch
+                            id="avoidUnlitPaths"
+                            checked={preferences.avoidUnlitPaths || false}
+                            onCheckedChange={(checked) => updatePreference("avoidUnlitPaths", checked)}
+                          />
+                        </div>
+                      </div>
                     </>
                   ) : (
                     <div className="text-center py-4">
-                      <p className="text-muted-foreground">Failed to load preferences</p>
+                      <p className="text-muted-foreground">{t("profile.preferences-load-failed")}</p>
                       <Button 
                         variant="outline" 
                         className="mt-2"
                         onClick={() => window.location.reload()}
                       >
-                        Retry
+                        {t("common.retry")}
                       </Button>
                     </div>
                   )}
@@ -294,11 +389,11 @@ const Profile = () => {
                   className="w-full"
                   onClick={() => {
                     navigate("/settings");
-                    voiceAssistant.speak("Settings page");
+                    voiceAssistant.speakPrompt("page.settings");
                   }}
                 >
-                  <Settings className="h-4 w-4 mr-2" />
-                  Settings
+                  <Settings className="h-4 w-4 me-2" />
+                  {t("more.settings")}
                 </Button>
                 
                 <Button 
@@ -306,22 +401,22 @@ const Profile = () => {
                   className="w-full"
                   onClick={handleLogout}
                 >
-                  <LogOut className="h-4 w-4 mr-2" />
-                  Sign Out
+                  <LogOut className="h-4 w-4 me-2" />
+                  {t("profile.sign-out")}
                 </Button>
               </div>
             </>
           ) : (
             <div className="text-center py-8">
-              <h2 className="text-xl font-bold mb-4">Sign in to view your profile</h2>
-              <div className="space-x-4">
+              <h2 className="text-xl font-bold mb-4">{t("profile.sign-in-prompt")}</h2>
+              <Inline gap={4} className="justify-center">
                 <Button onClick={() => navigate("/login")}>
-                  Sign In
+                  {t("profile.sign-in")}
                 </Button>
                 <Button variant="outline" onClick={() => navigate("/signup")}>
-                  Sign Up
+                  {t("profile.sign-up")}
                 </Button>
-              </div>
+              </Inline>
             </div>
           )}
         </div>
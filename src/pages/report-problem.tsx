@@ -0,0 +1,252 @@
+import { useEffect, useRef, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { fine } from "@/lib/fine";
+import { Header } from "@/components/layout/Header";
+import { BottomNav } from "@/components/layout/BottomNav";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Camera, Loader2, MapPin, X } from "lucide-react";
+import { toast } from "sonner";
+import { Schema } from "@/lib/db-types";
+import { VoiceAssistant } from "@/lib/voice-assistant";
+import { Inline } from "@/components/layout/direction";
+import { useTranslation } from "@/hooks/use-translation";
+import { createReport, readReportPhoto, REPORT_CATEGORIES, type ReportCategory } from "@/lib/reports";
+
+const ReportProblem = () => {
+  const { id } = useParams<{ id: string }>();
+  const [place, setPlace] = useState<Schema["places"] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [category, setCategory] = useState<ReportCategory | null>(null);
+  const [description, setDescription] = useState("");
+  const [photo, setPhoto] = useState<string | null>(null);
+  const [location, setLocation] = useState<[number, number] | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+
+  const navigate = useNavigate();
+  const { data: session } = fine.auth.useSession();
+  const voiceAssistant = VoiceAssistant.getInstance();
+  const { t } = useTranslation();
+
+  useEffect(() => {
+    voiceAssistant.speakPrompt("report.intro");
+
+    // Attach where the reporter is standing, if they allow it
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLocation([position.coords.latitude, position.coords.longitude]);
+      },
+      (error) => {
+        console.error("Error getting location:", error);
+      },
+      {
+        enableHighAccuracy: true,
+        timeout: 10000,
+        maximumAge: 0
+      }
+    );
+
+    const fetchPlace = async () => {
+      if (!id) return;
+
+      try {
+        setIsLoading(true);
+        const place = await fine.table("places").select().eq("id", parseInt(id));
+
+        if (place && place.length > 0) {
+          setPlace(place[0]);
+        } else {
+          toast.error(t("place.not-found"));
+          navigate("/");
+        }
+      } catch (error) {
+        console.error("Error fetching place details:", error);
+        toast.error(t("place.load-failed"));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchPlace();
+  }, [id, navigate]);
+
+  const handlePhotoSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setPhoto(await readReportPhoto(file));
+    } catch (error) {
+      console.error("Error reading photo:", error);
+      toast.error(t("report.photo-failed"));
+    } finally {
+      event.target.value = "";
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!session?.user) {
+      toast.error(t("report.sign-in"));
+      navigate("/login");
+      return;
+    }
+
+    if (!category || !description.trim()) {
+      toast.error(t("report.required"));
+      voiceAssistant.speakPrompt("report.required");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      await createReport({
+        placeId: parseInt(id!),
+        userId: session.user.id,
+        category,
+        description: description.trim(),
+        photo,
+        lat: location ? location[0] : null,
+        lng: location ? location[1] : null
+      });
+
+      toast.success(t("report.sent"));
+      voiceAssistant.speakPrompt("report.sent");
+      navigate(`/place-details/${id}`);
+    } catch (error) {
+      console.error("Error submitting report:", error);
+      toast.error(t("report.send-failed"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col h-screen">
+        <Header title={t("report.title")} showBackButton />
+        <main className="flex-1 pt-14 pb-16 flex items-center justify-center">
+          <div className="animate-pulse space-y-4 w-full max-w-md px-4">
+            <div className="h-8 bg-gray-200 dark:bg-gray-700 rounded w-3/4"></div>
+            <div className="h-32 bg-gray-200 dark:bg-gray-700 rounded w-full"></div>
+          </div>
+        </main>
+        <BottomNav />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-screen">
+      <Header title={t("report.title")} showBackButton />
+
+      <main className="flex-1 pt-14 pb-16 overflow-y-auto">
+        <div className="p-4 space-y-6">
+          <h1 className="text-xl font-bold">{place?.name}</h1>
+
+          <Card>
+            <CardContent className="p-4">
+              <h2 className="text-lg font-semibold mb-4">{t("report.whats-wrong")}</h2>
+
+              <RadioGroup
+                value={category || ""}
+                onValueChange={(value) => setCategory(value as ReportCategory)}
+              >
+                {REPORT_CATEGORIES.map(entry => (
+                  <Inline key={entry.id}>
+                    <RadioGroupItem value={entry.id} id={`category-${entry.id}`} />
+                    <Label htmlFor={`category-${entry.id}`}>{t(entry.label)}</Label>
+                  </Inline>
+                ))}
+              </RadioGroup>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="p-4 space-y-2">
+              <Label htmlFor="description">{t("report.describe")}</Label>
+              <Textarea
+                id="description"
+                placeholder={t("report.describe-placeholder")}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="min-h-[100px]"
+              />
+
+              <p className="flex items-center text-xs text-muted-foreground">
+                <MapPin className="h-3 w-3 me-1" />
+                {t(location ? "report.location-attached" : "report.location-unavailable")}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="p-4 space-y-4">
+              <Label>{t("report.photo")}</Label>
+
+              <input
+                ref={photoInputRef}
+                type="file"
+                accept="image/*"
+                capture="environment"
+                className="hidden"
+                onChange={handlePhotoSelected}
+              />
+
+              {photo ? (
+                <div className="relative">
+                  <img src={photo} alt={t("report.photo-of-problem")} className="w-full rounded-md" />
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="icon"
+                    className="absolute top-2 end-2"
+                    aria-label={t("report.remove-photo")}
+                    onClick={() => setPhoto(null)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full h-32 border-dashed"
+                  onClick={() => photoInputRef.current?.click()}
+                >
+                  <div className="flex flex-col items-center">
+                    <Camera className="h-8 w-8 mb-2 text-muted-foreground" />
+                    <span>{t("report.add-photo")}</span>
+                  </div>
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          <Button
+            className="w-full"
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="h-4 w-4 me-2 animate-spin" />
+                {t("report.sending")}
+              </>
+            ) : (
+              t("report.send")
+            )}
+          </Button>
+        </div>
+      </main>
+
+      <BottomNav />
+    </div>
+  );
+};
+
+export default ReportProblem;
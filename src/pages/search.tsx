@@ -1,6 +1,7 @@
 import { useEffect, useState } from "react";
 import { useSearchParams, useNavigate } from "react-router-dom";
 import { fine } from "@/lib/fine";
+import { withPlaceFeatures } from "@/lib/place-features";
 import { Header } from "@/components/layout/Header";
 import { BottomNav } from "@/components/layout/BottomNav";
 import { PlaceCard } from "@/components/places/PlaceCard";
@@ -11,6 +12,9 @@ import { Loader2, Search as SearchIcon, Filter, Mic } from "lucide-react";
 import { Schema } from "@/lib/db-types";
 import { searchPlaces, Place } from "@/lib/overpass-api";
 import { VoiceAssistant } from "@/lib/voice-assistant";
+import { getOsmFeatureIds } from "@/lib/accessibility-tags";
+import { getFeatureText, toFeatureIds, type AccessibilityFeatureId } from "@/lib/accessibility-features";
+import { useTranslation } from "@/hooks/use-translation";
 import { SearchBar } from "@/components/search/SearchBar";
 
 const Search = () => {
@@ -19,22 +23,18 @@ const Search = () => {
   const [places, setPlaces] = useState<Place[]>([]);
   const [filteredPlaces, setFilteredPlaces] = useState<Place[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [activeFilter, setActiveFilter] = useState("all");
+  const [activeFilter, setActiveFilter] = useState(searchParams.get("type") || "all");
   const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
-  const [accessibilityFilters, setAccessibilityFilters] = useState<string[]>([]);
+  // Voice commands can arrive with a feature filter already chosen
+  const [accessibilityFilters, setAccessibilityFilters] = useState<AccessibilityFeatureId[]>(
+    toFeatureIds(searchParams.getAll("feature"))
+  );
   const navigate = useNavigate();
   const voiceAssistant = VoiceAssistant.getInstance();
+  const { t, localize } = useTranslation();
 
-  // Available accessibility features for filtering
-  const availableFeatures = [
-    "Wheelchair Access",
-    "Ramp",
-    "Elevator",
-    "Accessible Washroom",
-    "Handrails",
-    "Tactile Paving",
-    "Braille"
-  ];
+  // Features that search results from OpenStreetMap can carry
+  const availableFeatures = getOsmFeatureIds();
 
   useEffect(() => {
     // Get user location
@@ -68,16 +68,17 @@ const Search = () => {
     
     try {
       setIsLoading(true);
-      voiceAssistant.speak(`Searching for ${query}`);
+      voiceAssistant.speakPrompt("search.searching", { query });
       
       if (location) {
         // Search using Overpass API
-        const searchResults = await searchPlaces(query, location[0], location[1]);
+        const radius = Number(searchParams.get("radius")) || undefined;
+        const searchResults = await searchPlaces(query, location[0], location[1], radius);
         
         if (searchResults.length > 0) {
           setPlaces(searchResults);
           setFilteredPlaces(searchResults);
-          voiceAssistant.speak(`Found ${searchResults.length} results for ${query}`);
+          voiceAssistant.speakPrompt("search.results", { count: searchResults.length, query });
         } else {
           // Fallback to database search
           searchDatabase(query);
@@ -102,11 +103,11 @@ const Search = () => {
       const allPlaces = await fine.table("places").select();
       
       if (allPlaces && allPlaces.length > 0) {
-        const matchedPlaces = allPlaces.filter(place => 
+        const matchedPlaces = await withPlaceFeatures(allPlaces.filter(place => 
           place.name.toLowerCase().includes(query.toLowerCase()) ||
           place.address.toLowerCase().includes(query.toLowerCase()) ||
           place.placeType.toLowerCase().includes(query.toLowerCase())
-        );
+        ));
         
         // Convert to Place format
         const formattedPlaces = matchedPlaces.map(place => ({
@@ -116,26 +117,26 @@ const Search = () => {
           lng: place.lng,
           address: place.address,
           placeType: place.placeType,
-          accessibilityFeatures: typeof place.accessibilityFeatures === 'string' 
-            ? JSON.parse(place.accessibilityFeatures) 
-            : place.accessibilityFeatures,
+          accessibilityFeatures: place.accessibilityFeatures,
           phone: place.phone || undefined,
           website: place.website || undefined,
-          rating: place.rating || undefined
+          communityRating: place.communityRating || undefined,
+          reviewCount: place.reviewCount,
+          osmWheelchair: place.osmWheelchair || undefined
         }));
         
         setPlaces(formattedPlaces);
         setFilteredPlaces(formattedPlaces);
         
         if (formattedPlaces.length > 0) {
-          voiceAssistant.speak(`Found ${formattedPlaces.length} results for ${query}`);
+          voiceAssistant.speakPrompt("search.results", { count: formattedPlaces.length, query });
         } else {
-          voiceAssistant.speak(`No results found for ${query}`);
+          voiceAssistant.speakPrompt("search.no-results", { query });
         }
       }
     } catch (error) {
       console.error("Error searching database:", error);
-      voiceAssistant.speak("Error searching for places");
+      voiceAssistant.speakPrompt("search.failed");
     }
   };
 
@@ -147,7 +148,7 @@ const Search = () => {
   };
 
   // Toggle accessibility feature filter
-  const toggleAccessibilityFilter = (feature: string) => {
+  const toggleAccessibilityFilter = (feature: AccessibilityFeatureId) => {
     setAccessibilityFilters(prev => {
       if (prev.includes(feature)) {
         return prev.filter(f => f !== feature);
@@ -169,9 +170,9 @@ const Search = () => {
     // Apply accessibility filters
     if (accessibilityFilters.length > 0) {
       filtered = filtered.filter(place => {
-        const features = Array.isArray(place.accessibilityFeatures) 
+        const features = toFeatureIds(Array.isArray(place.accessibilityFeatures) 
           ? place.accessibilityFeatures 
-          : [];
+          : []);
           
         // Check if place has ANY of the selected accessibility features
         return accessibilityFilters.some(filter => features.includes(filter));
@@ -183,7 +184,7 @@ const Search = () => {
 
   return (
     <div className="flex flex-col h-screen">
-      <Header title="Search" showBackButton showSearch={false} />
+      <Header title={t("home.search")} showBackButton showSearch={false} />
       
       <main className="flex-1 pt-14 pb-16 overflow-y-auto">
         <div className="p-4 space-y-4">
@@ -191,23 +192,24 @@ const Search = () => {
             initialQuery={searchQuery}
             onSearch={handleSearch}
             expanded={true}
-            placeholder="Search for accessible places..."
+            placeholder={t("home.search-placeholder")}
           />
           
           <Tabs defaultValue="all" onValueChange={setActiveFilter}>
             <div className="flex items-center justify-between mb-2">
               <TabsList className="w-full justify-start overflow-x-auto">
-                <TabsTrigger value="all">All</TabsTrigger>
-                <TabsTrigger value="restaurant">Restaurants</TabsTrigger>
-                <TabsTrigger value="hospital">Hospitals</TabsTrigger>
-                <TabsTrigger value="education">Education</TabsTrigger>
-                <TabsTrigger value="transport">Transport</TabsTrigger>
-                <TabsTrigger value="shopping">Shopping</TabsTrigger>
+                <TabsTrigger value="all">{t("places.filter.all")}</TabsTrigger>
+                <TabsTrigger value="restaurant">{t("places.filter.restaurant")}</TabsTrigger>
+                <TabsTrigger value="hospital">{t("places.filter.hospital")}</TabsTrigger>
+                <TabsTrigger value="education">{t("places.filter.education")}</TabsTrigger>
+                <TabsTrigger value="transport">{t("places.filter.transport")}</TabsTrigger>
+                <TabsTrigger value="shopping">{t("places.filter.shopping")}</TabsTrigger>
               </TabsList>
               
               <Button 
                 variant="ghost" 
                 size="icon"
+                aria-label={t("search.filter-features")}
                 onClick={() => {
                   const filterDialog = document.getElementById('accessibility-filters');
                   if (filterDialog) {
@@ -221,7 +223,7 @@ const Search = () => {
             
             {/* Accessibility filters */}
             <div id="accessibility-filters" className="hidden bg-muted p-3 rounded-md mb-3">
-              <h3 className="text-sm font-medium mb-2">Filter by accessibility features:</h3>
+              <h3 className="text-sm font-medium mb-2">{t("search.filter-by-features")}</h3>
               <div className="flex flex-wrap gap-2">
                 {availableFeatures.map(feature => (
                   <Button
@@ -231,7 +233,7 @@ const Search = () => {
                     onClick={() => toggleAccessibilityFilter(feature)}
                     className="text-xs"
                   >
-                    {feature}
+                    {localize(getFeatureText(feature))}
                   </Button>
                 ))}
               </div>
@@ -280,8 +282,8 @@ const Search = () => {
     if (searchParams.get("q") && filteredPlaces.length === 0) {
       return (
         <div className="text-center py-8">
-          <p className="text-lg font-medium">No results found</p>
-          <p className="text-muted-foreground">Try a different search term or filter</p>
+          <p className="text-lg font-medium">{t("search.no-results-title")}</p>
+          <p className="text-muted-foreground">{t("search.no-results-hint")}</p>
         </div>
       );
     }
@@ -289,8 +291,8 @@ const Search = () => {
     if (!searchParams.get("q")) {
       return (
         <div className="text-center py-8">
-          <p className="text-lg font-medium">Search for places</p>
-          <p className="text-muted-foreground">Enter a search term to find accessible places</p>
+          <p className="text-lg font-medium">{t("search.empty-title")}</p>
+          <p className="text-muted-foreground">{t("search.empty-hint")}</p>
         </div>
       );
     }
@@ -298,19 +300,16 @@ const Search = () => {
     return (
       <div className="space-y-4">
         {filteredPlaces.map((place) => {
-          // Parse accessibility features if it's a string
-          const accessibilityFeatures = typeof place.accessibilityFeatures === 'string' 
-            ? JSON.parse(place.accessibilityFeatures) 
-            : place.accessibilityFeatures;
-            
           return (
             <PlaceCard
               key={place.id}
               id={place.id!}
               name={place.name}
               address={place.address}
-              accessibilityFeatures={accessibilityFeatures}
-              rating={place.rating || undefined}
+              accessibilityFeatures={place.accessibilityFeatures}
+              communityRating={place.communityRating}
+              reviewCount={place.reviewCount}
+              osmWheelchair={place.osmWheelchair}
               placeType={place.placeType}
             />
           );
@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Comma-separated Overpass API interpreter URLs, tried in round-robin order
+  readonly VITE_OVERPASS_ENDPOINTS?: string;
+  // Nominatim server used to reverse geocode places without addr:* tags.
+  // Unset turns reverse geocoding off.
+  readonly VITE_NOMINATIM_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}